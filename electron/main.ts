@@ -7,8 +7,25 @@ import { spawn, exec } from 'child_process';
 import { watch, FSWatcher } from 'fs';
 import { glob } from 'glob';
 import { AIBackendService } from './services/ai-backend.service';
+import { CommitMessageService } from './services/commit-message.service';
 import { ModelSearchService } from './services/model-search.service';
 import { systemTrayService } from './services/system-tray.service';
+import { releasePendingContent } from './services/file-operations.service';
+import { mcpManager } from './services/mcp-manager.service';
+import { toolApprovalService } from './services/tool-approval.service';
+import { permissionPolicy } from './services/permission-policy.service';
+import { projectTrust, TrustRequest } from './services/project-trust.service';
+import { pathJail } from './services/path-jail.service';
+import { analyzeCommand } from './services/command-analysis.service';
+import { commandRunner } from './services/command-runner.service';
+import { processManager } from './services/process-manager.service';
+import { gitService, HunkAction } from './services/git.service';
+import { worktreeService } from './services/worktree.service';
+import { problemsService } from './services/problems.service';
+import { symbolService } from './services/symbols.service';
+import { searchService, SearchQuery } from './services/search.service';
+import { computeRename, computeMove, applyChangeSet, SourceRange } from './services/refactor.service';
+import { rankPaths } from './services/file-finder.service';
 import * as pty from 'node-pty';
 
 const isDev = !app.isPackaged;
@@ -137,6 +154,7 @@ if (process.platform === 'linux') {
 }
 
 const aiBackendService = new AIBackendService();
+const commitMessageService = new CommitMessageService(aiBackendService);
 
 async function ensureOllamaRunning() {
   console.log('[Ollama] Checking if Ollama is running...');
@@ -377,6 +395,7 @@ function createWindow() {
     if (windows.length === 0) {
       ptySessions.forEach(p => p.kill());
       ptySessions.clear();
+      processManager.stopAll();
       if (process.platform !== 'darwin') {
         app.quit();
       }
@@ -514,6 +533,10 @@ function createWindow() {
   if (newWindow) {
     aiBackendService.setMainWindow(newWindow);
     systemTrayService.setMainWindow(newWindow);
+    mcpManager.setMainWindow(newWindow);
+    toolApprovalService.setMainWindow(newWindow);
+    processManager.setMainWindow(newWindow);
+    problemsService.setMainWindow(newWindow);
   }
 }
 
@@ -618,50 +641,70 @@ function createMenu() {
   Menu.setApplicationMenu(menu);
 }
 
+// Chunks carry their session id; the run is given the window that asked for it
 ipcMain.handle('ai-backend:chat', async (event, prompt: string, options: any) => {
+  const win = BrowserWindow.fromWebContents(event.sender) || mainWindow;
+  const onChunk = (chunk: any) => {
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('ai-backend:chunk', chunk);
+    }
+  };
   try {
-    const win = BrowserWindow.fromWebContents(event.sender) || mainWindow;
-    const onChunk = (chunk: any) => {
-      if (win && !win.isDestroyed()) {
-        win.webContents.send('ai-backend:chunk', chunk);
-      }
-    };
-    const originalMainWindow = aiBackendService['mainWindow'];
-    aiBackendService['mainWindow'] = win;
-    await aiBackendService.chatStream(prompt, options, onChunk);
-    aiBackendService['mainWindow'] = originalMainWindow;
+    await aiBackendService.chatStream(prompt, options, onChunk, undefined, win);
   } catch (error: any) {
     console.error('[AIBackend] Chat error:', error);
-    const win = BrowserWindow.fromWebContents(event.sender) || mainWindow;
-    if (win && !win.isDestroyed()) {
-      win.webContents.send('ai-backend:chunk', {
-        type: 'error',
-        data: error.message || String(error),
-      });
-      win.webContents.send('ai-backend:chunk', { type: 'done' });
-    }
+    const sessionId = options?.sessionId || 'default';
+    onChunk({ type: 'error', data: error.message || String(error), sessionId });
+    onChunk({ type: 'done', sessionId });
     throw error;
   }
 });
 
-ipcMain.handle('ai-backend:cancel', (event) => {
-  const win = BrowserWindow.fromWebContents(event.sender) || mainWindow;
-  const originalMainWindow = aiBackendService['mainWindow'];
-  aiBackendService['mainWindow'] = win;
-  aiBackendService.cancel();
-  aiBackendService['mainWindow'] = originalMainWindow;
-  if (win && !win.isDestroyed()) {
-    win.webContents.send('ai-backend:chunk', { type: 'done' });
-  }
+// The cancelled runs send their own 'done'
+ipcMain.handle('ai-backend:cancel', (_, sessionId?: string) => {
+  aiBackendService.cancel(sessionId);
 });
 
-ipcMain.handle('ai-backend:list-models', async (event) => {
-  const win = BrowserWindow.fromWebContents(event.sender) || mainWindow;
-  const originalMainWindow = aiBackendService['mainWindow'];
-  aiBackendService['mainWindow'] = win;
-  const result = await aiBackendService.listModels();
-  aiBackendService['mainWindow'] = originalMainWindow;
-  return result;
+ipcMain.handle('ai-backend:list-models', async () => {
+  return await aiBackendService.listModels();
+});
+
+ipcMain.handle('ai-backend:list-custom-models', async (_, endpoint: any) => {
+  return await aiBackendService.listCustomModels(endpoint);
+});
+
+// MCP servers
+ipcMain.handle('mcp:get-config', async (_, scope: 'user' | 'project') => {
+  return mcpManager.getConfig(scope);
+});
+
+ipcMain.handle('mcp:save-config', async (_, scope: 'user' | 'project', servers: any) => {
+  return await mcpManager.saveConfig(scope, servers);
+});
+
+ipcMain.handle('mcp:status', async () => {
+  return mcpManager.getStatus();
+});
+
+ipcMain.handle('mcp:refresh', async () => {
+  return await mcpManager.refresh();
+});
+
+ipcMain.handle('tool-approval:respond', async (_, id: string, approved: boolean) => {
+  toolApprovalService.respond(id, approved);
+});
+
+// Tool permission rules
+ipcMain.handle('permissions:get-rules', async (_, scope: 'user' | 'project') => {
+  return permissionPolicy.getRules(scope);
+});
+
+ipcMain.handle('permissions:save-rules', async (_, scope: 'user' | 'project', rules: any[]) => {
+  return permissionPolicy.saveRules(scope, rules);
+});
+
+ipcMain.handle('permissions:add-rule', async (_, rule: any, scope?: 'user' | 'project') => {
+  return permissionPolicy.addRule(rule, scope);
 });
 
 ipcMain.handle('pty:create', (_, { id, cols, rows, cwd, shell }) => {
@@ -775,6 +818,17 @@ ipcMain.handle('eslint:reload-config', async () => {
   return { success: true };
 });
 
+/**
+ * Ask before the project's checked-in MCP servers and allow rules take effect
+ */
+async function confirmProjectSettings() {
+  const requests = [mcpManager.getTrustRequest(), permissionPolicy.getTrustRequest()]
+    .filter((request): request is TrustRequest => request !== null);
+  if (await projectTrust.confirm(mainWindow, requests)) {
+    await mcpManager.refresh();
+  }
+}
+
 function setupProjectWatcher(projectPath: string | null) {
   if (projectWatcher) {
     projectWatcher.close();
@@ -782,6 +836,14 @@ function setupProjectWatcher(projectPath: string | null) {
   }
   currentProjectPath = projectPath;
   projectFilesCache = [];
+  const projectRoot = projectPath ? projectPath.replace(/^~/, os.homedir()) : null;
+  pathJail.setProjectRoot(projectRoot);
+  permissionPolicy.setProjectRoot(projectRoot);
+  mcpManager.setProjectRoot(projectRoot)
+    .then(() => confirmProjectSettings())
+    .catch(error => console.error('[MCP] Failed to load project servers:', error));
+  problemsService.setProjectRoot(projectRoot);
+  symbolService.setProjectRoot(projectRoot);
   if (!projectPath) return;
   try {
     let resolvedPath = projectPath.startsWith('~') ? projectPath.replace(/^~/, os.homedir()) : projectPath;
@@ -811,6 +873,8 @@ function setupProjectWatcher(projectPath: string | null) {
             if (!projectFilesCache.includes(relativePath)) {
               projectFilesCache.push(relativePath);
             }
+            problemsService.handleFileEvent(filePath, 'created');
+            symbolService.handleFileEvent(filePath, 'created');
             windows.forEach(win => {
               if (!win.isDestroyed()) {
                 win.webContents.send('file-system:created', {
@@ -825,6 +889,8 @@ function setupProjectWatcher(projectPath: string | null) {
             if (idx !== -1) {
               projectFilesCache.splice(idx, 1);
             }
+            problemsService.handleFileEvent(filePath, 'deleted');
+            symbolService.handleFileEvent(filePath, 'deleted');
             windows.forEach(win => {
               if (!win.isDestroyed()) {
                 win.webContents.send('file-system:deleted', {
@@ -836,6 +902,8 @@ function setupProjectWatcher(projectPath: string | null) {
             setTimeout(() => processedEvents.delete(eventKey), 1000);
           });
         } else if (eventType === 'change') {
+          problemsService.handleFileEvent(filePath, 'changed');
+          symbolService.handleFileEvent(filePath, 'changed');
           windows.forEach(win => {
             if (!win.isDestroyed()) {
               win.webContents.send('file-system:modified', {
@@ -1062,9 +1130,9 @@ ipcMain.handle('rename-file', async (_, oldPath: string, newName: string) => {
   }
 });
 
-ipcMain.handle('find-files', async (_, rootPath: string, query: string) => {
+ipcMain.handle('find-files', async (_, rootPath: string, query: string, options: { recent?: string[]; limit?: number } = {}) => {
   try {
-    if (!rootPath || !query) return [];
+    if (!rootPath || (!query && !options.recent?.length)) return [];
     let resolvedRoot = rootPath;
     if (rootPath === '~' || rootPath.startsWith('~/')) {
       resolvedRoot = rootPath.replace(/^~/, os.homedir());
@@ -1074,29 +1142,17 @@ ipcMain.handle('find-files', async (_, rootPath: string, query: string) => {
     } else if (scanPromise) {
       await scanPromise;
     }
-    const q = query.toLowerCase();
-    const matches = projectFilesCache
-      .filter(file => {
-        const name = path.basename(file).toLowerCase();
-        const fullPath = file.toLowerCase();
-        if (name.includes(q)) return true;
-        if (q.length > 2) {
-          let searchIdx = 0, fileIdx = 0;
-          while (searchIdx < q.length && fileIdx < fullPath.length) {
-            if (q[searchIdx] === fullPath[fileIdx]) searchIdx++;
-            fileIdx++;
-          }
-          return searchIdx === q.length;
-        }
-        return false;
-      })
-      .slice(0, 100)
-      .map(file => ({
-        name: path.basename(file),
-        path: path.join(rootPath, file).replace(/\\\\/g, '/'),
-        type: 'file' as const
-      }));
-    return matches;
+    // Recent files arrive as absolute paths; the cache holds relative ones
+    const recent = (options.recent || [])
+      .map(filePath => path.relative(resolvedRoot, filePath).split(path.sep).join('/'))
+      .filter(filePath => filePath && !filePath.startsWith('..'));
+    return rankPaths(projectFilesCache, query || '', { recent, limit: options.limit }).map(match => ({
+      name: path.basename(match.path),
+      path: path.join(rootPath, match.path).replace(/\\/g, '/'),
+      type: 'file' as const,
+      relativePath: match.path,
+      positions: match.positions,
+    }));
   } catch (error: any) {
     console.error('[Electron] Find files error:', error);
     return [];
@@ -1107,6 +1163,7 @@ app.whenReady().then(() => {
   createMenu();
   createWindow();
   systemTrayService.createTray();
+  mcpManager.initialize().catch(error => console.error('[MCP] Failed to start servers:', error));
 
   // Existing hotkeys for new window
   globalShortcut.register('Shift+Ctrl+N', () => {
@@ -1306,6 +1363,9 @@ app.on('will-quit', () => {
   // Unregister all global shortcuts
   globalShortcut.unregisterAll();
   systemTrayService.destroyTray();
+  mcpManager.shutdown();
+  commandRunner.killAll();
+  processManager.stopAll();
   console.log('[Hotkey] All global shortcuts unregistered');
 });
 
@@ -1379,7 +1439,8 @@ ipcMain.handle('read-file', async (_, filePath: string) => {
 
 ipcMain.handle('write-file', async (_, filePath: string, content: string) => {
   try {
-    let resolvedPath = filePath.startsWith('~/') || filePath === '~' ? filePath.replace(/^~/, os.homedir()) : filePath;
+    // Agent paths are relative to the project root, not the process cwd
+    const resolvedPath = pathJail.toAbsolute(filePath);
     const dir = path.dirname(resolvedPath);
     await fs.mkdir(dir, { recursive: true });
     await fs.writeFile(resolvedPath, content, 'utf-8');
@@ -1391,10 +1452,12 @@ ipcMain.handle('write-file', async (_, filePath: string, content: string) => {
 
 ipcMain.handle('approve-diff', async (_, filePath: string, content: string) => {
   try {
-    let resolvedPath = filePath.startsWith('~/') || filePath === '~' ? filePath.replace(/^~/, os.homedir()) : filePath;
+    // Diffs carry absolute paths; anything relative is the project's, like in write-file
+    const resolvedPath = pathJail.toAbsolute(filePath);
     const dir = path.dirname(resolvedPath);
     await fs.mkdir(dir, { recursive: true });
     await fs.writeFile(resolvedPath, content, 'utf-8');
+    releasePendingContent(resolvedPath);
     windows.forEach(win => {
       if (!win.isDestroyed()) win.webContents.send('file-operation:diff-approved', { filePath });
     });
@@ -1406,6 +1469,7 @@ ipcMain.handle('approve-diff', async (_, filePath: string, content: string) => {
 
 ipcMain.handle('reject-diff', async (_, filePath: string) => {
   try {
+    releasePendingContent(filePath);
     windows.forEach(win => {
       if (!win.isDestroyed()) win.webContents.send('file-operation:diff-rejected', { filePath });
     });
@@ -1442,33 +1506,162 @@ ipcMain.handle('show-save-dialog', async (event, options: any) => {
   }
 });
 
-ipcMain.handle('execute-command', async (_, command: string, options: any = {}) => {
-  const { cwd = process.cwd(), timeout = 30000 } = options;
-  const lowerCommand = command.toLowerCase().trim();
-  const dangerousPatterns = [/rm\s+-rf\s+\//, /rm\s+-rf\s+~/, /format\s+c:/i, /shutdown/i, /reboot/i];
-  if (dangerousPatterns.some(pattern => pattern.test(lowerCommand))) {
-    return { error: 'Command blocked for security reasons', stdout: '', stderr: '', exitCode: -1 };
+ipcMain.handle('execute-command', async (event, command: string, options: any = {}) => {
+  // Without a timeout the runner's default applies, long enough for installs and builds
+  const { cwd = process.cwd(), timeout } = options;
+  const { blocked } = analyzeCommand(command, cwd);
+  if (blocked) {
+    return { error: `Command blocked for security reasons: ${blocked}`, stdout: '', stderr: '', exitCode: -1 };
   }
-  return new Promise((resolve) => {
-    const child = spawn(command, [], { cwd, shell: true, env: process.env, stdio: ['pipe', 'pipe', 'pipe'] });
-    let stdout = '', stderr = '', timeoutId: any | null = null;
-    if (timeout > 0) {
-      timeoutId = setTimeout(() => {
-        child.kill();
-        resolve({ error: 'Command timed out', stdout, stderr, exitCode: -1 });
-      }, timeout);
-    }
-    child.stdout.on('data', (data) => stdout += data.toString());
-    child.stderr.on('data', (data) => stderr += data.toString());
-    child.on('close', (code) => {
-      if (timeoutId) clearTimeout(timeoutId);
-      resolve({ stdout, stderr, exitCode: code || 0, error: code !== 0 ? `Command exited with code \${code}` : undefined });
-    });
-    child.on('error', (error) => {
-      if (timeoutId) clearTimeout(timeoutId);
-      resolve({ error: error.message, stdout, stderr, exitCode: -1 });
-    });
+  // With an id, output streams to the renderer as 'command:output' and stdin/kill work
+  const id = options.id || `ipc_${Date.now()}`;
+  const outcome = await commandRunner.run(id, command, {
+    cwd,
+    timeout,
+    onOutput: (stream, data) => {
+      if (options.id && !event.sender.isDestroyed()) event.sender.send('command:output', { id, stream, data });
+    },
   });
+  return {
+    stdout: outcome.stdout,
+    stderr: outcome.stderr,
+    exitCode: outcome.exitCode,
+    killed: outcome.killed,
+    error: outcome.error || (outcome.exitCode !== 0 ? `Command exited with code ${outcome.exitCode}` : undefined),
+  };
+});
+
+ipcMain.handle('command:write-stdin', async (_, id: string, data: string) => {
+  return commandRunner.writeStdin(id, data);
+});
+
+ipcMain.handle('command:kill', async (_, id: string) => {
+  return commandRunner.kill(id);
+});
+
+// Source control panel; failures come back as { error } like the file handlers
+async function gitCall<T>(action: () => Promise<T>): Promise<T | { error: string }> {
+  try {
+    return await action();
+  } catch (error: any) {
+    return { error: error.message || String(error) };
+  }
+}
+
+ipcMain.handle('git:status', () => gitCall(() => gitService.status()));
+ipcMain.handle('git:branches', () => gitCall(() => gitService.branches()));
+ipcMain.handle('git:decorations', () => gitCall(() => gitService.decorations()));
+ipcMain.handle('git:line-changes', (_, filePath: string, content: string) => gitCall(() => gitService.lineChanges(filePath, content)));
+ipcMain.handle('git:diff-contents', (_, filePath: string, staged: boolean) => gitCall(() => gitService.diffContents(filePath, staged)));
+ipcMain.handle('git:hunks', (_, filePath: string, staged: boolean) => gitCall(() => gitService.hunks(filePath, staged)));
+ipcMain.handle('git:stage', (_, paths: string[] | 'all') => gitCall(() => gitService.stage(paths)));
+ipcMain.handle('git:unstage', (_, paths: string[]) => gitCall(() => gitService.unstage(paths)));
+ipcMain.handle('git:discard', (_, paths: string[], untracked: string[]) => gitCall(() => gitService.discard(paths, untracked)));
+ipcMain.handle('git:apply-hunk', (_, filePath: string, index: number, action: HunkAction, header?: string) =>
+  gitCall(() => gitService.applyHunk(filePath, index, action, header)));
+ipcMain.handle('git:commit', (_, message: string) => gitCall(() => gitService.commit(message)));
+ipcMain.handle('git:checkout', (_, ref: string, create?: boolean, startPoint?: string) =>
+  gitCall(() => gitService.checkout(ref, create, startPoint)));
+ipcMain.handle('git:generate-commit-message', (_, options: any) => gitCall(() => commitMessageService.generateCommitMessage(options)));
+ipcMain.handle('git:generate-pull-request', (_, base: string, options: any) =>
+  gitCall(() => commitMessageService.generatePullRequest(base, options)));
+ipcMain.handle('git:worktrees', () => gitCall(() => worktreeService.list()));
+ipcMain.handle('git:worktree-changes', (_, id: string) => gitCall(() => worktreeService.changes(id)));
+ipcMain.handle('git:worktree-file-contents', (_, id: string, relativePath: string) =>
+  gitCall(() => worktreeService.fileContents(id, relativePath)));
+ipcMain.handle('git:merge-worktree', (_, id: string) => gitCall(() => worktreeService.merge(id)));
+ipcMain.handle('git:cherry-pick-worktree', (_, id: string, paths: string[]) => gitCall(() => worktreeService.cherryPick(id, paths)));
+ipcMain.handle('git:discard-worktree', (_, id: string) => gitCall(() => worktreeService.discard(id)));
+
+// Problems panel: project-wide TypeScript and ESLint diagnostics while it is open
+ipcMain.handle('problems:start', () => problemsService.start());
+ipcMain.handle('problems:stop', () => problemsService.stop());
+
+// Search panel: matches stream to the renderer per file while the search runs
+const runningSearches = new Map<string, AbortController>();
+
+ipcMain.handle('search:start', async (event, id: string, query: SearchQuery) => {
+  const root = pathJail.getProjectRoot();
+  if (!root) return { error: 'No project folder is open' };
+  const controller = new AbortController();
+  runningSearches.set(id, controller);
+  try {
+    const result = await searchService.search(root, { ...query, searchPath: undefined }, {
+      signal: controller.signal,
+      onMatches: matches => {
+        if (!event.sender.isDestroyed()) event.sender.send('search:results', { id, matches });
+      },
+    });
+    return { engine: result.engine, hasMore: result.hasMore };
+  } catch (error: any) {
+    return { error: error.message || String(error) };
+  } finally {
+    runningSearches.delete(id);
+  }
+});
+
+ipcMain.handle('search:cancel', (_, id: string) => {
+  runningSearches.get(id)?.abort();
+});
+
+ipcMain.handle('search:replace', async (_, filePath: string, query: SearchQuery, replacement: string, options?: { lines?: number[]; content?: string }) => {
+  try {
+    return await searchService.replace(pathJail.resolve(filePath), query, replacement, options);
+  } catch (error: any) {
+    return { error: error.message || String(error) };
+  }
+});
+
+// Refactorings are computed into a change set that is reviewed, then written all at once
+ipcMain.handle('refactor:rename', async (_, filePath: string, line: number, column: number, newName: string) => {
+  try {
+    return await computeRename({ path: filePath, line, column, new_name: newName });
+  } catch (error: any) {
+    return { error: error.message || String(error) };
+  }
+});
+
+ipcMain.handle('refactor:move', async (_, filePath: string, range: SourceRange, targetPath: string) => {
+  try {
+    return await computeMove(filePath, range, targetPath);
+  } catch (error: any) {
+    return { error: error.message || String(error) };
+  }
+});
+
+ipcMain.handle('refactor:apply', async (_, files: Array<{ filePath: string; original: string; modified: string }>) => {
+  try {
+    await applyChangeSet(files);
+    for (const file of files) {
+      releasePendingContent(file.filePath);
+      windows.forEach(win => {
+        if (!win.isDestroyed()) win.webContents.send('file-operation:diff-approved', { filePath: file.filePath });
+      });
+    }
+    return { success: true };
+  } catch (error: any) {
+    return { error: error.message || String(error) };
+  }
+});
+
+ipcMain.handle('processes:list', async () => {
+  return processManager.list();
+});
+
+ipcMain.handle('processes:get-output', async (_, id: string) => {
+  return processManager.getOutput(id);
+});
+
+ipcMain.handle('processes:stop', async (_, id: string) => {
+  return processManager.stop(id);
+});
+
+ipcMain.handle('processes:remove', async (_, id: string) => {
+  return processManager.remove(id);
+});
+
+ipcMain.handle('processes:stop-session', async (_, sessionId: string) => {
+  processManager.stopSession(sessionId);
 });
 
 ipcMain.handle('get-system-info', async () => {
@@ -20,10 +20,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('move-file', sourcePath, destPath),
   trashFile: (filePath: string) => ipcRenderer.invoke('trash-file', filePath),
   renameFile: (oldPath: string, newName: string) => ipcRenderer.invoke('rename-file', oldPath, newName),
-  findFiles: (rootPath: string, query: string) => ipcRenderer.invoke('find-files', rootPath, query),
+  findFiles: (rootPath: string, query: string, options?: { recent?: string[]; limit?: number }) => ipcRenderer.invoke('find-files', rootPath, query, options),
   aiBackend: {
     chat: (prompt: string, options: any) => ipcRenderer.invoke('ai-backend:chat', prompt, options),
-    cancel: () => ipcRenderer.invoke('ai-backend:cancel'),
+    cancel: (sessionId?: string) => ipcRenderer.invoke('ai-backend:cancel', sessionId),
     onChunk: (callback: (chunk: any) => void) => {
       ipcRenderer.on('ai-backend:chunk', (_, chunk: any) => {
         callback(chunk);
@@ -33,6 +33,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.removeAllListeners(channel);
     },
     listModels: () => ipcRenderer.invoke('ai-backend:list-models'),
+    listCustomModels: (endpoint: any) => ipcRenderer.invoke('ai-backend:list-custom-models', endpoint),
   },
   webSearch: (query: string, maxResults?: number) => ipcRenderer.invoke('web:search', query, maxResults),
   ollama: {
@@ -114,6 +115,110 @@ contextBridge.exposeInMainWorld('electronAPI', {
     reloadConfig: () =>
       ipcRenderer.invoke('eslint:reload-config'),
   },
+  mcp: {
+    getConfig: (scope: 'user' | 'project') => ipcRenderer.invoke('mcp:get-config', scope),
+    saveConfig: (scope: 'user' | 'project', servers: any) => ipcRenderer.invoke('mcp:save-config', scope, servers),
+    getStatus: () => ipcRenderer.invoke('mcp:status'),
+    refresh: () => ipcRenderer.invoke('mcp:refresh'),
+    onStatusChanged: (callback: (status: any[]) => void) => {
+      const handler = (_: any, status: any[]) => callback(status);
+      ipcRenderer.on('mcp:status-changed', handler);
+      return () => ipcRenderer.removeListener('mcp:status-changed', handler);
+    },
+  },
+  permissions: {
+    getRules: (scope: 'user' | 'project') => ipcRenderer.invoke('permissions:get-rules', scope),
+    saveRules: (scope: 'user' | 'project', rules: any[]) => ipcRenderer.invoke('permissions:save-rules', scope, rules),
+    addRule: (rule: any, scope?: 'user' | 'project') => ipcRenderer.invoke('permissions:add-rule', rule, scope),
+  },
+  toolApproval: {
+    respond: (id: string, approved: boolean) => ipcRenderer.invoke('tool-approval:respond', id, approved),
+    onRequest: (callback: (request: any) => void) => {
+      const handler = (_: any, request: any) => callback(request);
+      ipcRenderer.on('tool-approval:request', handler);
+      return () => ipcRenderer.removeListener('tool-approval:request', handler);
+    },
+    onResolved: (callback: (data: { id: string; approved: boolean }) => void) => {
+      const handler = (_: any, data: any) => callback(data);
+      ipcRenderer.on('tool-approval:resolved', handler);
+      return () => ipcRenderer.removeListener('tool-approval:resolved', handler);
+    },
+  },
+  command: {
+    writeStdin: (id: string, data: string) => ipcRenderer.invoke('command:write-stdin', id, data),
+    kill: (id: string) => ipcRenderer.invoke('command:kill', id),
+    onOutput: (callback: (output: { id: string; stream: 'stdout' | 'stderr'; data: string }) => void) => {
+      const handler = (_: any, output: any) => callback(output);
+      ipcRenderer.on('command:output', handler);
+      return () => ipcRenderer.removeListener('command:output', handler);
+    },
+  },
+  git: {
+    status: () => ipcRenderer.invoke('git:status'),
+    branches: () => ipcRenderer.invoke('git:branches'),
+    decorations: () => ipcRenderer.invoke('git:decorations'),
+    lineChanges: (filePath: string, content: string) => ipcRenderer.invoke('git:line-changes', filePath, content),
+    diffContents: (filePath: string, staged: boolean) => ipcRenderer.invoke('git:diff-contents', filePath, staged),
+    hunks: (filePath: string, staged: boolean) => ipcRenderer.invoke('git:hunks', filePath, staged),
+    stage: (paths: string[] | 'all') => ipcRenderer.invoke('git:stage', paths),
+    unstage: (paths: string[]) => ipcRenderer.invoke('git:unstage', paths),
+    discard: (paths: string[], untracked: string[]) => ipcRenderer.invoke('git:discard', paths, untracked),
+    applyHunk: (filePath: string, index: number, action: 'stage' | 'unstage' | 'discard', header?: string) =>
+      ipcRenderer.invoke('git:apply-hunk', filePath, index, action, header),
+    commit: (message: string) => ipcRenderer.invoke('git:commit', message),
+    checkout: (ref: string, create?: boolean, startPoint?: string) => ipcRenderer.invoke('git:checkout', ref, create, startPoint),
+    generateCommitMessage: (options: any) => ipcRenderer.invoke('git:generate-commit-message', options),
+    generatePullRequest: (base: string, options: any) => ipcRenderer.invoke('git:generate-pull-request', base, options),
+    worktrees: () => ipcRenderer.invoke('git:worktrees'),
+    worktreeChanges: (id: string) => ipcRenderer.invoke('git:worktree-changes', id),
+    worktreeFileContents: (id: string, relativePath: string) => ipcRenderer.invoke('git:worktree-file-contents', id, relativePath),
+    mergeWorktree: (id: string) => ipcRenderer.invoke('git:merge-worktree', id),
+    cherryPickWorktree: (id: string, paths: string[]) => ipcRenderer.invoke('git:cherry-pick-worktree', id, paths),
+    discardWorktree: (id: string) => ipcRenderer.invoke('git:discard-worktree', id),
+  },
+  problems: {
+    start: () => ipcRenderer.invoke('problems:start'),
+    stop: () => ipcRenderer.invoke('problems:stop'),
+    onChanged: (callback: (snapshot: any) => void) => {
+      const handler = (_: any, snapshot: any) => callback(snapshot);
+      ipcRenderer.on('problems:changed', handler);
+      return () => ipcRenderer.removeListener('problems:changed', handler);
+    },
+  },
+  search: {
+    start: (id: string, query: any) => ipcRenderer.invoke('search:start', id, query),
+    cancel: (id: string) => ipcRenderer.invoke('search:cancel', id),
+    replace: (filePath: string, query: any, replacement: string, options?: any) =>
+      ipcRenderer.invoke('search:replace', filePath, query, replacement, options),
+    onResults: (callback: (results: { id: string; matches: any[] }) => void) => {
+      const handler = (_: any, results: any) => callback(results);
+      ipcRenderer.on('search:results', handler);
+      return () => ipcRenderer.removeListener('search:results', handler);
+    },
+  },
+  refactor: {
+    rename: (filePath: string, line: number, column: number, newName: string) =>
+      ipcRenderer.invoke('refactor:rename', filePath, line, column, newName),
+    move: (filePath: string, range: any, targetPath: string) => ipcRenderer.invoke('refactor:move', filePath, range, targetPath),
+    apply: (files: any[]) => ipcRenderer.invoke('refactor:apply', files),
+  },
+  processes: {
+    list: () => ipcRenderer.invoke('processes:list'),
+    getOutput: (id: string) => ipcRenderer.invoke('processes:get-output', id),
+    stop: (id: string) => ipcRenderer.invoke('processes:stop', id),
+    remove: (id: string) => ipcRenderer.invoke('processes:remove', id),
+    stopSession: (sessionId: string) => ipcRenderer.invoke('processes:stop-session', sessionId),
+    onChanged: (callback: (processes: any[]) => void) => {
+      const handler = (_: any, processes: any[]) => callback(processes);
+      ipcRenderer.on('processes:changed', handler);
+      return () => ipcRenderer.removeListener('processes:changed', handler);
+    },
+    onOutput: (callback: (output: { id: string; data: string }) => void) => {
+      const handler = (_: any, output: any) => callback(output);
+      ipcRenderer.on('processes:output', handler);
+      return () => ipcRenderer.removeListener('processes:output', handler);
+    },
+  },
   on: (channel: string, callback: (event: any, ...args: any[]) => void) => {
     ipcRenderer.on(channel, callback);
   },
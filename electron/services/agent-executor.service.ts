@@ -0,0 +1,856 @@
+/**
+ * Agent Executor - provider-agnostic agentic loop
+ * Owns tool dispatch, approval waiting, iteration limits, cancellation,
+ * continuation sessions and chunk emission. Provider services are adapters
+ * that only translate messages and tool schemas (see ProviderAdapter).
+ */
+import { BrowserWindow } from 'electron';
+import { AgenticLoopManager } from './agentic-loop.service';
+import { TOOL_DEFINITIONS, describeTools } from './tool-definitions';
+import {
+  readFile,
+  writeFile,
+  editFile,
+  applyPatch,
+  listFiles,
+  peekFile,
+  searchCode,
+  createPlan,
+  taskComplete,
+  executeCommand,
+  runTests,
+  searchWeb,
+  hasPendingContent,
+  getToolPaths,
+  CommandStreamOptions,
+} from './file-operations.service';
+import { commandRunner } from './command-runner.service';
+import { pathJail } from './path-jail.service';
+import { processManager } from './process-manager.service';
+import { gitStatus, gitDiff, gitLog, gitBlame, gitShow, gitCommit, gitCheckout } from './git.service';
+import { getDiagnostics } from './diagnostics.service';
+import { findDefinition, findReferences, listSymbols, workspaceSymbols } from './symbols.service';
+import { renameSymbol } from './refactor.service';
+import { verifyFiles, formatVerificationFeedback, VerifyOptions } from './verification.service';
+import { submitReview, ReviewRequest, REVIEW_TOOLS, REVIEW_ONLY_TOOLS, REVIEW_INSTRUCTION } from './code-review.service';
+import { SmartContext } from './smart-context.service';
+import { mcpManager } from './mcp-manager.service';
+import { permissionPolicy, PermissionDecision, FILE_WRITE_TOOLS } from './permission-policy.service';
+import { toolApprovalService } from './tool-approval.service';
+
+export interface ChunkData {
+  type: 'text' | 'function_call' | 'function_result' | 'error' | 'done' | 'continuation' | 'command_start' | 'command_output' | 'worktree' | 'verification';
+  data?: any;
+  callId?: string;
+  name?: string;
+  sessionId?: string; // Chat session the chunk belongs to; set on everything sent to the renderer
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AgentRunOptions {
+  apiKey?: string;
+  model?: string;
+  context?: {
+    files?: Array<{ path: string; content?: string; startLine?: number; endLine?: number }>;
+    images?: Array<{ path: string; data: string }>;
+    project?: string;
+    contextMode?: 'full' | 'smart' | 'minimal';
+  };
+  conversationHistory?: ConversationMessage[];
+  isPro?: boolean; // Deprecated
+  licenseTier?: 'free' | 'standard' | 'pro';
+  runId?: string;
+  sessionId?: string; // Chat session; background processes belong to it
+  review?: ReviewRequest; // Review mode: read-only tools, findings via submit_review
+  worktree?: boolean; // Work in the session's git worktree instead of the working copy
+  verify?: VerifyOptions; // Check touched files before task_complete is accepted
+}
+
+export interface ContinuationState {
+  userInput: string;
+  todoList?: Array<{ id: string; description: string; status: string; order: number }>;
+  filesCreated: string[];
+  lastFileContent?: { path: string; content: string };
+  recentSummary: string;
+}
+
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface ToolCallResult {
+  id: string;
+  name: string;
+  response: any;
+}
+
+export interface AgentTurn {
+  text: string;
+  toolCalls: ToolCallRequest[];
+  raw?: any; // Provider-native data needed to replay the turn
+}
+
+export interface TurnContext {
+  model: string;
+  apiKey?: string;
+  signal: AbortSignal;
+  tools: any[]; // Gemini-style function declarations
+  emitText: (text: string) => void;
+  keepAlive: () => void; // Call whenever data arrives to reset the idle timeout
+}
+
+/**
+ * A provider translates between the executor's generic conversation and its own API.
+ * TConversation is whatever the provider needs to build the next request.
+ */
+export interface ProviderAdapter<TConversation = any> {
+  readonly name: string; // Log prefix, e.g. 'OpenAIService'
+  readonly displayName: string; // Used in user-facing errors, e.g. 'OpenAI'
+  readonly defaultModel: string;
+  readonly requiresApiKey: boolean;
+  readonly enforceLicense: boolean; // Local providers run without tier limits
+  readonly requestTimeoutMs: number; // Idle timeout per model turn
+  buildSystemInstruction(availableFunctions: string): string;
+  prepare?(model: string): Promise<void>;
+  createConversation(systemInstruction: string, messages: ConversationMessage[]): TConversation;
+  streamTurn(conversation: TConversation, ctx: TurnContext): Promise<AgentTurn>;
+  appendTurn(conversation: TConversation, turn: AgentTurn, results: ToolCallResult[]): void;
+  appendUserMessage(conversation: TConversation, text: string): void; // Feedback the executor adds between turns
+  listModels(): Promise<{ success: boolean; models: any[] }>;
+}
+
+export type ProviderErrorType = 'RATE_LIMIT' | 'CONTEXT_LIMIT' | 'TIMEOUT' | 'TRANSIENT' | 'FATAL';
+
+/**
+ * Thrown by adapters so the executor can decide between retrying, continuing in a
+ * fresh session or giving up
+ */
+export class ProviderError extends Error {
+  type: ProviderErrorType;
+  retryAfterMs?: number;
+
+  constructor(type: ProviderErrorType, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.type = type;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+interface LicenseLimits {
+  maxLoops: number;
+  allowSmartContext: boolean;
+  allowFullContext: boolean;
+}
+
+const LICENSE_LIMITS: Record<'free' | 'standard' | 'pro', LicenseLimits> = {
+  free: { maxLoops: 50, allowSmartContext: false, allowFullContext: false },
+  standard: { maxLoops: 15, allowSmartContext: true, allowFullContext: false }, // Kept for type compatibility
+  pro: { maxLoops: Infinity, allowSmartContext: true, allowFullContext: true }
+};
+
+interface ToolContext {
+  mainWindow: BrowserWindow | null;
+  runId: string;
+  callId: string;
+  sessionId: string;
+  permission: PermissionDecision['action'];
+}
+
+type ToolHandler = (args: any, ctx: ToolContext) => any;
+
+// Tools whose changes become pending diffs: the file writes plus refactorings
+const EDIT_TOOLS = [...FILE_WRITE_TOOLS, 'rename_symbol'];
+// Operations that may depend on pending file changes being applied first
+const DEPENDENT_OPERATIONS = ['run_tests', 'execute_command', 'start_process', 'git_commit', 'get_diagnostics', 'rename_symbol'];
+// Tools with their own approval UI (diff widgets, command widget); other tools
+// that need approval go through the generic tool approval dialog
+const SELF_APPROVING_TOOLS = [...EDIT_TOOLS, 'execute_command', 'run_tests'];
+// Built-in tools whose paths must stay inside the project root
+const PATH_TOOLS = [...EDIT_TOOLS, 'read_file', 'peek_file', 'list_files', 'search_code', 'git_diff', 'git_log', 'git_blame', 'git_show', 'git_commit', 'get_diagnostics', 'find_definition', 'find_references', 'list_symbols'];
+const MAX_REQUEST_RETRIES = 2;
+const MAX_CONTINUATIONS = 10;
+const APPROVAL_WAIT_MS = 300000;
+
+export class AgentExecutor {
+  private mainWindow: BrowserWindow | null = null;
+  private loopManager: AgenticLoopManager = new AgenticLoopManager(30);
+  private cancelController: AbortController | null = null;
+  private onChunkCallback: ((chunk: ChunkData) => void) | undefined = undefined;
+  private runId: string = 'default';
+  private sessionId: string = 'default';
+  private reviewMode: boolean = false;
+  private isolated: boolean = false;
+  private verifyAttempts: number = 0;
+
+  // Progress tracked for continuation sessions
+  private originalUserInput: string = '';
+  private filesCreated: Set<string> = new Set();
+  private pendingFiles: Set<string> = new Set();
+  private todoList: Array<{ id: string; description: string; status: string; order: number }> = [];
+  private lastFileContent: { path: string; content: string } | null = null;
+
+  setMainWindow(window: BrowserWindow) {
+    this.mainWindow = window;
+  }
+
+  /**
+   * Chunks only go to the run's callback, which tags them with the session
+   * and delivers them to the renderer
+   */
+  private sendChunk(chunk: ChunkData) {
+    if (this.onChunkCallback) {
+      try {
+        this.onChunkCallback(chunk);
+      } catch (error) {
+        console.error('[AgentExecutor] Error in onChunk callback:', error);
+      }
+    }
+  }
+
+  private getToolFunctions(): Record<string, ToolHandler> {
+    const functions: Record<string, ToolHandler> = {
+      read_file: (args) => readFile(args),
+      write_file: (args, ctx) => writeFile(args, ctx.mainWindow, ctx.runId),
+      edit_file: (args, ctx) => editFile(args, ctx.mainWindow),
+      apply_patch: (args, ctx) => applyPatch(args, ctx.mainWindow),
+      list_files: (args) => listFiles(args),
+      peek_file: (args) => peekFile(args),
+      search_code: (args) => searchCode(args),
+      create_plan: (args) => createPlan(args),
+      task_complete: (args) => taskComplete(args),
+      // 'ask' forces the command widget, 'allow' skips the elevation check
+      execute_command: (args, ctx) => executeCommand(ctx.permission === 'ask' ? { ...args, needs_elevation: true } : args, ctx.permission === 'allow', this.commandStream(ctx)),
+      run_tests: (args, ctx) => runTests(ctx.permission === 'ask' ? { ...args, needs_elevation: true } : args, ctx.permission === 'allow', this.commandStream(ctx)),
+      web_search: (args) => searchWeb(args),
+      start_process: (args, ctx) => processManager.start(args, ctx.sessionId, ctx.permission === 'allow'),
+      read_process_output: (args, ctx) => processManager.read(args, ctx.sessionId),
+      send_process_input: (args, ctx) => processManager.sendInput(args, ctx.sessionId, ctx.permission === 'allow'),
+      stop_process: (args, ctx) => processManager.stopProcess(args, ctx.sessionId),
+      git_status: () => gitStatus(),
+      git_diff: (args) => gitDiff(args),
+      git_log: (args) => gitLog(args),
+      git_blame: (args) => gitBlame(args),
+      git_show: (args) => gitShow(args),
+      git_commit: (args, ctx) => gitCommit(args, ctx.permission === 'allow'),
+      git_checkout: (args, ctx) => gitCheckout(args, ctx.permission === 'allow'),
+      get_diagnostics: (args) => getDiagnostics(args),
+      find_definition: (args) => findDefinition(args),
+      find_references: (args) => findReferences(args),
+      list_symbols: (args) => listSymbols(args),
+      workspace_symbols: (args) => workspaceSymbols(args),
+      rename_symbol: (args, ctx) => renameSymbol(args, ctx.mainWindow),
+      submit_review: (args) => submitReview(args),
+    };
+    // Tools from connected MCP servers are routed through the manager
+    for (const declaration of mcpManager.getToolDeclarations()) {
+      functions[declaration.name] = (args, ctx) => mcpManager.callTool(declaration.name, args, ctx.permission === 'allow');
+    }
+    return functions;
+  }
+
+  private getToolDeclarations(): any[] {
+    const builtIn = TOOL_DEFINITIONS[0].functionDeclarations;
+    // MCP tools may have side effects, so reviews only get the read-only built-ins
+    if (this.reviewMode) {
+      return builtIn.filter(declaration => REVIEW_TOOLS.includes(declaration.name));
+    }
+    return [...builtIn.filter(declaration => !REVIEW_ONLY_TOOLS.includes(declaration.name)), ...mcpManager.getToolDeclarations()];
+  }
+
+  /**
+   * Run a full agent session against one provider
+   */
+  async run(
+    adapter: ProviderAdapter,
+    prompt: string,
+    options: AgentRunOptions,
+    onChunk?: (chunk: ChunkData) => void,
+    continuationState?: ContinuationState
+  ): Promise<void> {
+    this.onChunkCallback = onChunk;
+    this.runId = options.runId || 'default';
+    this.sessionId = options.sessionId || 'default';
+    this.reviewMode = !!options.review;
+    this.isolated = !!options.worktree;
+    this.verifyAttempts = 0;
+    this.cancelController = new AbortController();
+
+    // LICENSE CHECK: Set limits based on License Tier
+    const tier = options.licenseTier || (options.isPro ? 'pro' : 'free');
+    const limits = adapter.enforceLicense ? (LICENSE_LIMITS[tier] || LICENSE_LIMITS.free) : LICENSE_LIMITS.pro;
+
+    this.loopManager = new AgenticLoopManager(limits.maxLoops);
+    this.loopManager.setIsActive(true);
+
+    if (continuationState) {
+      this.originalUserInput = continuationState.userInput;
+      this.filesCreated = new Set(continuationState.filesCreated);
+      this.todoList = continuationState.todoList || [];
+      this.lastFileContent = continuationState.lastFileContent || null;
+    } else {
+      this.originalUserInput = prompt;
+      this.filesCreated.clear();
+      this.todoList = [];
+      this.lastFileContent = null;
+    }
+    this.pendingFiles.clear();
+
+    if (adapter.requiresApiKey && !options.apiKey) {
+      this.sendChunk({ type: 'error', data: `No ${adapter.displayName} API key provided. Please set it in Settings.` });
+      this.sendChunk({ type: 'done' });
+      return;
+    }
+
+    const model = options.model || adapter.defaultModel;
+    const signal = this.cancelController.signal;
+
+    try {
+      if (adapter.prepare) {
+        await adapter.prepare(model);
+      }
+
+      let systemInstruction = adapter.buildSystemInstruction(describeTools(this.getToolDeclarations()));
+      if (this.reviewMode) {
+        systemInstruction += REVIEW_INSTRUCTION;
+      }
+      const contextText = continuationState ? '' : await this.buildContextText(adapter, options, limits);
+      let continuation = continuationState;
+      let continuationCount = 0;
+
+      while (true) {
+        if (continuation) {
+          this.sendChunk({ type: 'continuation', data: 'Continuing session...' });
+        }
+        const messages = this.buildMessages(prompt, options, contextText, continuation);
+        const conversation = adapter.createConversation(systemInstruction, messages);
+
+        try {
+          await this.runLoop(adapter, conversation, model, options, limits);
+          break;
+        } catch (error: any) {
+          const canContinue = error instanceof ProviderError && (error.type === 'CONTEXT_LIMIT' || error.type === 'TIMEOUT');
+          if (!canContinue || signal.aborted) throw error;
+
+          if (continuationCount >= MAX_CONTINUATIONS) {
+            this.sendChunk({ type: 'error', data: `Too many continuations (${MAX_CONTINUATIONS}). Stopping.` });
+            break;
+          }
+          continuationCount++;
+          this.sendChunk({ type: 'error', data: error.message });
+          this.sendChunk({ type: 'text', data: 'Creating continuation session...' });
+          continuation = this.createContinuationState(prompt);
+        }
+      }
+
+      // If we exit the loop without completion, notify the user about the limit
+      if (!this.loopManager.getTaskCompleted() && tier !== 'pro' && this.loopManager.getCurrentIteration() >= limits.maxLoops) {
+        this.sendChunk({
+          type: 'text',
+          data: `\n\n**License Limit Reached:** The autonomous agent has stopped after ${limits.maxLoops} iterations. Upgrade to a higher tier for extended autonomous coding.`
+        });
+      }
+
+      this.sendChunk({ type: 'done' });
+    } catch (error: any) {
+      if (error.name !== 'AbortError' && !signal.aborted) {
+        console.error(`[AgentExecutor] ${adapter.name} run failed:`, error);
+        this.sendChunk({ type: 'error', data: error.message || String(error) });
+      }
+      this.sendChunk({ type: 'done' });
+    } finally {
+      this.loopManager.setIsActive(false);
+    }
+  }
+
+  private async runLoop(
+    adapter: ProviderAdapter,
+    conversation: any,
+    model: string,
+    options: AgentRunOptions,
+    limits: LicenseLimits
+  ): Promise<void> {
+    const signal = this.cancelController!.signal;
+
+    while (this.loopManager.shouldContinueLoop()) {
+      if (signal.aborted) return;
+
+      this.loopManager.incrementIteration();
+      console.log(`[AgentExecutor] ${adapter.name} iteration ${this.loopManager.getCurrentIteration()}/${limits.maxLoops}`);
+
+      const turn = await this.requestTurn(adapter, conversation, model, options.apiKey);
+
+      // A turn without tool calls is the model's final answer
+      if (turn.toolCalls.length === 0) return;
+
+      const results: ToolCallResult[] = [];
+      for (const call of turn.toolCalls) {
+        if (signal.aborted) return;
+        results.push(await this.executeToolCall(call));
+      }
+      adapter.appendTurn(conversation, turn, results);
+
+      if (this.loopManager.getTaskCompleted()) {
+        if (await this.verifyCompletion(adapter, conversation, options.verify)) {
+          continue;
+        }
+        console.log(`[AgentExecutor] ${adapter.name} task completed, ending loop`);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Check the run's edits before its task_complete is accepted. Failures go
+   * back to the model and reopen the task, up to verify.maxAttempts times.
+   * Returns true when the loop has to continue.
+   */
+  private async verifyCompletion(adapter: ProviderAdapter, conversation: any, verify?: VerifyOptions): Promise<boolean> {
+    if (!verify || this.reviewMode || this.filesCreated.size === 0) return false;
+    if (!verify.eslint && !verify.typescript && !verify.testCommand?.trim()) return false;
+
+    const attempt = this.verifyAttempts + 1;
+    const maxAttempts = Math.max(0, verify.maxAttempts);
+    this.sendChunk({ type: 'verification', data: { status: 'running', attempt, maxAttempts } });
+
+    // Edits still waiting for approval are not on disk yet
+    if (this.hasPendingApprovals()) {
+      await this.waitForApprovals();
+      if (this.cancelController?.signal.aborted) return false;
+      if (this.hasPendingApprovals()) {
+        this.sendChunk({ type: 'verification', data: { status: 'skipped', attempt, maxAttempts, notes: ['Some changes are still waiting for approval'] } });
+        return false;
+      }
+    }
+
+    const result = await verifyFiles(Array.from(this.filesCreated), verify, this.runId);
+    if (this.cancelController?.signal.aborted) return false;
+
+    const retry = !result.passed && this.verifyAttempts < maxAttempts;
+    this.sendChunk({
+      type: 'verification',
+      data: { status: result.passed ? 'passed' : 'failed', attempt, maxAttempts, retrying: retry, ...result },
+    });
+    if (!retry) return false;
+
+    this.verifyAttempts++;
+    console.log(`[AgentExecutor] Verification failed (attempt ${attempt}/${maxAttempts}), sending errors back to ${adapter.name}`);
+    adapter.appendUserMessage(conversation, formatVerificationFeedback(result, attempt, maxAttempts));
+    this.loopManager.reopenTask();
+    return true;
+  }
+
+  /**
+   * Stream one model turn, retrying rate limits and transient failures
+   */
+  private async requestTurn(adapter: ProviderAdapter, conversation: any, model: string, apiKey?: string): Promise<AgentTurn> {
+    const runSignal = this.cancelController!.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      const turnController = new AbortController();
+      let timedOut = false;
+      let idleTimer: NodeJS.Timeout | undefined;
+      const keepAlive = () => {
+        if (idleTimer) clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => {
+          timedOut = true;
+          turnController.abort();
+        }, adapter.requestTimeoutMs);
+      };
+      const onRunAbort = () => turnController.abort();
+      runSignal.addEventListener('abort', onRunAbort);
+      keepAlive();
+
+      try {
+        return await adapter.streamTurn(conversation, {
+          model,
+          apiKey,
+          signal: turnController.signal,
+          tools: this.getToolDeclarations(),
+          emitText: (text: string) => {
+            keepAlive();
+            this.sendChunk({ type: 'text', data: text });
+          },
+          keepAlive,
+        });
+      } catch (error: any) {
+        if (runSignal.aborted) throw error;
+
+        let providerError: ProviderError;
+        if (error instanceof ProviderError) {
+          providerError = error;
+        } else if (timedOut) {
+          providerError = new ProviderError('TIMEOUT', `Request timed out after ${Math.round(adapter.requestTimeoutMs / 1000)}s without a response.`);
+        } else {
+          providerError = new ProviderError('FATAL', error.message || String(error));
+        }
+
+        const retryable = providerError.type === 'RATE_LIMIT' || providerError.type === 'TRANSIENT' || providerError.type === 'TIMEOUT';
+        if (!retryable || attempt >= MAX_REQUEST_RETRIES) throw providerError;
+
+        const waitTime = providerError.retryAfterMs ?? (attempt + 1) * 2000;
+        const reason = providerError.type === 'RATE_LIMIT' ? 'Rate limit hit' : providerError.type === 'TIMEOUT' ? 'Request timeout' : 'Server error';
+        console.log(`[AgentExecutor] ${adapter.name} ${providerError.type}, retrying in ${waitTime}ms:`, providerError.message);
+        this.sendChunk({ type: 'text', data: `${reason}. Retrying in ${Math.ceil(waitTime / 1000)}s...` });
+        await this.sleep(waitTime);
+        if (runSignal.aborted) throw error;
+      } finally {
+        if (idleTimer) clearTimeout(idleTimer);
+        runSignal.removeEventListener('abort', onRunAbort);
+      }
+    }
+  }
+
+  private async executeToolCall(call: ToolCallRequest): Promise<ToolCallResult> {
+    const { id: callId, name: functionName, args } = call;
+    this.sendChunk({ type: 'function_call', name: functionName, data: args, callId });
+
+    const func = this.getToolFunctions()[functionName];
+    let response: any;
+
+    if (!func) {
+      const error = `Unknown function: ${functionName}`;
+      console.error(`[AgentExecutor] ${error}`);
+      response = { error };
+    } else if (this.reviewMode ? !REVIEW_TOOLS.includes(functionName) : REVIEW_ONLY_TOOLS.includes(functionName)) {
+      response = {
+        error: this.reviewMode
+          ? `${functionName} is not available during a code review; only read-only tools can be used`
+          : `${functionName} is only available during a code review`,
+        code: 'TOOL_NOT_ALLOWED',
+      };
+    } else {
+      const decision = permissionPolicy.evaluate(functionName, args || {});
+      let permission = decision.action;
+      let denied: any = permission === 'deny' ? this.permissionError('PERMISSION_DENIED', functionName, decision) : null;
+      // Edits in an isolated worktree are reviewed as a whole before they are merged
+      if (permission === 'default' && this.isolated && EDIT_TOOLS.includes(functionName)) {
+        permission = 'allow';
+      }
+
+      if (!denied && PATH_TOOLS.includes(functionName)) {
+        denied = await this.checkProjectPaths(functionName, args || {});
+      }
+      if (!denied && permission === 'ask' && !SELF_APPROVING_TOOLS.includes(functionName)) {
+        const approved = await toolApprovalService.request({
+          source: decision.scope === 'project' ? 'project permissions' : 'your permissions',
+          toolName: functionName,
+          args: args || {},
+        });
+        if (approved) {
+          permission = 'allow';
+        } else {
+          denied = this.permissionError('PERMISSION_REJECTED', functionName, decision);
+        }
+      }
+
+      if (denied) {
+        console.log(`[AgentExecutor] ${functionName} blocked: ${denied.error}`);
+        response = denied;
+      } else {
+        if (DEPENDENT_OPERATIONS.includes(functionName) && this.hasPendingApprovals()) {
+          this.sendChunk({ type: 'text', data: 'Waiting for file approvals before proceeding...' });
+          await this.waitForApprovals();
+        }
+
+        try {
+          console.log(`[AgentExecutor] Executing ${functionName} with args:`, args);
+          response = await func(args, { mainWindow: this.mainWindow, runId: this.runId, callId, sessionId: this.sessionId, permission });
+          console.log(`[AgentExecutor] Function ${functionName} result:`, response);
+          // Allowed file changes are applied by the renderer without asking
+          if (permission === 'allow' && EDIT_TOOLS.includes(functionName) && response?.status === 'pending') {
+            response = { ...response, autoApproved: true };
+          }
+          this.trackProgress(functionName, response);
+        } catch (error: any) {
+          console.error(`[AgentExecutor] Error executing ${functionName}:`, error);
+          response = { error: error.message || String(error) };
+        }
+      }
+    }
+
+    this.sendChunk({ type: 'function_result', name: functionName, data: response, callId });
+
+    if ((functionName === 'task_complete' || functionName === 'submit_review') && !response?.error) {
+      this.loopManager.markTaskCompleted();
+    }
+
+    return { id: callId, name: functionName, response };
+  }
+
+  /**
+   * Streams a running command's output to the renderer under its tool call id
+   */
+  private commandStream(ctx: ToolContext): CommandStreamOptions {
+    return {
+      id: ctx.callId,
+      group: ctx.runId,
+      onStart: (command) => this.sendChunk({ type: 'command_start', callId: ctx.callId, data: { command } }),
+      onOutput: (stream, text) => this.sendChunk({ type: 'command_output', callId: ctx.callId, data: { stream, text } }),
+    };
+  }
+
+  /**
+   * Paths outside the project root need explicit user approval. Returns a
+   * structured error when any path stays blocked.
+   */
+  private async checkProjectPaths(functionName: string, args: Record<string, any>): Promise<any> {
+    const violations = getToolPaths(functionName, args)
+      .map(filePath => ({ filePath, ...pathJail.check(filePath) }))
+      .filter(check => check.violation);
+    if (violations.length === 0) return null;
+
+    const descriptions = violations.map(v => pathJail.describe(v.filePath, v.realPath, v.violation!));
+    const approved = await toolApprovalService.request({
+      source: 'outside project',
+      toolName: functionName,
+      description: descriptions.join('\n'),
+      args,
+    });
+    if (approved) {
+      violations.forEach(v => pathJail.allowOutside(v.realPath));
+      return null;
+    }
+    return {
+      error: `${descriptions.join('; ')}. The user did not allow access outside the project; use paths inside ${pathJail.getProjectRoot()}.`,
+      code: 'PATH_OUTSIDE_PROJECT',
+      tool: functionName,
+      paths: violations.map(v => v.filePath),
+    };
+  }
+
+  /**
+   * Structured error the model can act on instead of retrying blindly
+   */
+  private permissionError(code: 'PERMISSION_DENIED' | 'PERMISSION_REJECTED', functionName: string, decision: PermissionDecision) {
+    const reason = decision.rule?.reason
+      || (code === 'PERMISSION_DENIED'
+        ? `${functionName} is blocked by a ${decision.scope} permission rule`
+        : `The user declined ${functionName}`);
+    return {
+      error: `${reason}. Do not retry this call; choose a different approach or ask the user.`,
+      code,
+      tool: functionName,
+      rule: decision.rule,
+    };
+  }
+
+  private trackProgress(functionName: string, result: any) {
+    if (!result || result.error) return;
+
+    if ((functionName === 'apply_patch' || functionName === 'rename_symbol') && result.patched_files) {
+      for (const patched of result.patched_files) {
+        this.filesCreated.add(patched.file_path);
+        this.pendingFiles.add(patched.file_path);
+      }
+    }
+
+    if ((functionName === 'write_file' || functionName === 'edit_file') && result.file_path && result.status !== 'buffering') {
+      this.filesCreated.add(result.file_path);
+      this.pendingFiles.add(result.file_path);
+      if (result.content || result.modified) {
+        this.lastFileContent = {
+          path: result.file_path,
+          content: result.content || result.modified || ''
+        };
+      }
+    }
+
+    if (functionName === 'create_plan' && result.steps) {
+      this.todoList = result.steps.map((step: any, index: number) => ({
+        id: step.id || String(index + 1),
+        description: step.description || '',
+        status: step.status || 'pending',
+        order: step.order || index + 1
+      }));
+    }
+  }
+
+  /**
+   * Pending diffs proposed during this run that the user has not approved or rejected yet
+   */
+  private hasPendingApprovals(): boolean {
+    for (const filePath of Array.from(this.pendingFiles)) {
+      if (!hasPendingContent(filePath)) {
+        this.pendingFiles.delete(filePath);
+      }
+    }
+    return this.pendingFiles.size > 0;
+  }
+
+  private async waitForApprovals(maxWait: number = APPROVAL_WAIT_MS): Promise<void> {
+    const startTime = Date.now();
+    while (Date.now() - startTime < maxWait) {
+      if (this.cancelController?.signal.aborted || !this.hasPendingApprovals()) {
+        return;
+      }
+      await this.sleep(1000);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const signal = this.cancelController?.signal;
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private async buildContextText(adapter: ProviderAdapter, options: AgentRunOptions, limits: LicenseLimits): Promise<string> {
+    let contextText = '';
+
+    // BUILD SMART CONTEXT IF PROJECT IS ACTIVE
+    if (options.context?.project) {
+      const isStartOfSession = !options.conversationHistory || options.conversationHistory.length < 2;
+
+      // LICENSE CHECK: Downgrade context mode if not allowed
+      let selectedContextMode = options.context.contextMode || 'smart';
+
+      // Downgrade logic based on tier capabilities
+      if (!limits.allowFullContext && selectedContextMode === 'full') {
+        selectedContextMode = limits.allowSmartContext ? 'smart' : 'minimal';
+      } else if (!limits.allowSmartContext && selectedContextMode === 'smart') {
+        selectedContextMode = 'minimal';
+      }
+
+      // Notify user if downgraded (only if it differs from what was requested)
+      if (selectedContextMode !== (options.context.contextMode || 'smart')) {
+        this.sendChunk({
+          type: 'text',
+          data: `> **License Limit:** Context downgraded to "${selectedContextMode}". Upgrade your license for better context awareness.\n\n`
+        });
+      }
+
+      if (isStartOfSession || selectedContextMode === 'full') {
+        console.log(`[AgentExecutor] ${adapter.name} building project context with mode: ${selectedContextMode}`);
+        try {
+          // Wrap in a timeout so a slow/hanging SmartContext doesn't block the response
+          const smartContext = new SmartContext(options.context.project, selectedContextMode);
+          const timeoutPromise = new Promise<string>((_, reject) =>
+            setTimeout(() => reject(new Error('SmartContext timeout after 15s')), 15000)
+          );
+          const projectSummary = await Promise.race([smartContext.buildContext(), timeoutPromise]);
+          contextText += projectSummary + '\n\n';
+        } catch (err: any) {
+          console.error('[AgentExecutor] SmartContext failed, falling back to path only:', err.message);
+          contextText += `Active Project: ${options.context.project}\n\n`;
+        }
+      } else {
+        // Optimization: Only send project tree/path and rely on tools for subsequent messages
+        contextText += `Active Project: ${options.context.project}\nUse tools (list_files, read_file, search_code) to explore the codebase as needed.\n\n`;
+      }
+    }
+
+    if (options.context?.files && options.context.files.length > 0) {
+      contextText += 'User-Selected Context Files:\n';
+      contextText += options.context.files
+        .map(f => `File: ${f.path}\n${f.content || ''}`)
+        .join('\n\n');
+      contextText += '\n\n';
+    }
+
+    return contextText;
+  }
+
+  private buildMessages(
+    prompt: string,
+    options: AgentRunOptions,
+    contextText: string,
+    continuation?: ContinuationState
+  ): ConversationMessage[] {
+    const messages: ConversationMessage[] = [...(options.conversationHistory || [])];
+    if (continuation) {
+      messages.push({ role: 'user', content: this.buildContinuationPrompt(continuation, options) });
+    } else {
+      messages.push({ role: 'user', content: contextText + prompt });
+    }
+    return messages;
+  }
+
+  private createContinuationState(prompt: string): ContinuationState {
+    return {
+      userInput: this.originalUserInput || prompt,
+      todoList: this.todoList,
+      filesCreated: Array.from(this.filesCreated),
+      lastFileContent: this.lastFileContent || undefined,
+      recentSummary: 'Working on task...',
+    };
+  }
+
+  private buildContinuationPrompt(state: ContinuationState, options: AgentRunOptions): string {
+    const todoSummary = state.todoList && state.todoList.length > 0
+      ? state.todoList.map(t => `  ${t.status === 'completed' ? '✓' : t.status === 'in-progress' ? '▶' : '☐'} [${t.id}] ${t.description}`).join('\n')
+      : 'No tasks yet';
+
+    const previousFiles = state.filesCreated.length > 0
+      ? state.filesCreated.slice(0, 10).map(f => `  • ${f}`).join('\n') + (state.filesCreated.length > 10 ? '\n  ... and more' : '')
+      : 'None';
+
+    const lastFileSection = state.lastFileContent
+      ? `\nLast file being written (may be incomplete - continue if needed):\n  Path: ${state.lastFileContent.path}\n  Content:\n\`\`\`\n${state.lastFileContent.content.substring(0, 5000)}\n\`\`\`\n`
+      : '';
+
+    let contextText = '';
+    if (options.context?.project) {
+      contextText = `\n\nProject context (compressed):\nActive Project: ${options.context.project}\n`;
+    }
+
+    return `CONTINUATION SESSION - Previous session hit context limit or timeout.
+
+Original task: ${state.userInput}
+
+Current status:
+To-Do List (fully preserved):
+${todoSummary}
+
+Files created: ${state.filesCreated.length}
+Previous files (paths only):
+${previousFiles}${lastFileSection}
+
+Recent progress: ${state.recentSummary}
+${contextText}
+
+IMPORTANT: Continue from where you left off. Check the to-do list, verify files created, and continue working until task_complete is called. Do NOT restart the task.`;
+  }
+
+  /**
+   * Emit a recorded chunk sequence verbatim, without calling a model or running tools
+   */
+  async replay(chunks: ChunkData[], onChunk?: (chunk: ChunkData) => void, delayMs: number = 0): Promise<void> {
+    this.onChunkCallback = onChunk;
+    this.cancelController = new AbortController();
+    const signal = this.cancelController.signal;
+
+    for (const chunk of chunks) {
+      if (signal.aborted) return;
+      if (chunk.type === 'done') break;
+      this.sendChunk(chunk);
+      if (delayMs > 0) await this.sleep(delayMs);
+    }
+    if (!signal.aborted) {
+      this.sendChunk({ type: 'done' });
+    }
+  }
+
+  cancel(): void {
+    if (this.cancelController) this.cancelController.abort();
+    commandRunner.killAll(this.runId);
+    this.loopManager.setIsActive(false);
+    // The run's last chunk; whatever the stopped loop still emits is dropped
+    this.sendChunk({ type: 'done' });
+    this.onChunkCallback = undefined;
+  }
+}
@@ -65,6 +65,14 @@ export class AgenticLoopManager {
     this.isActive = false;
   }
 
+  /**
+   * Take back a completion that was not accepted, e.g. when verification failed
+   */
+  reopenTask(): void {
+    this.taskCompleted = false;
+    this.isActive = true;
+  }
+
   getIsActive(): boolean {
     return this.isActive;
   }
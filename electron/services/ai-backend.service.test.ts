@@ -0,0 +1,70 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AIBackendService, ChunkData } from './ai-backend.service';
+import { toolApprovalService } from './tool-approval.service';
+
+let dir: string;
+let fixture: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-backend-'));
+  fixture = path.join(dir, 'session.json');
+  const chunks = ['one', 'two', 'three'].map(data => ({ type: 'text', data }));
+  fs.writeFileSync(fixture, JSON.stringify({ delayMs: 30, chunks: [...chunks, { type: 'done' }] }), 'utf-8');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function texts(chunks: ChunkData[]): string[] {
+  return chunks.filter(chunk => chunk.type === 'text').map(chunk => chunk.data);
+}
+
+describe('AIBackendService', () => {
+  it('runs sessions side by side and cancels only the given one', async () => {
+    const service = new AIBackendService();
+    const first: ChunkData[] = [];
+    const second: ChunkData[] = [];
+    const runs = [
+      service.chatStream('first', { provider: 'mock', mockFixture: fixture, sessionId: 'first' }, chunk => first.push(chunk)),
+      service.chatStream('second', { provider: 'mock', mockFixture: fixture, sessionId: 'second' }, chunk => second.push(chunk)),
+    ];
+    await new Promise(resolve => setTimeout(resolve, 10));
+    service.cancel('first');
+    await Promise.all(runs);
+
+    expect(texts(first)).toEqual(['one']);
+    expect(texts(second)).toEqual(['one', 'two', 'three']);
+    expect(second.at(-1)).toEqual({ type: 'done', sessionId: 'second' });
+  });
+
+  it('tags every chunk with its session and ends a cancelled run with one done', async () => {
+    const service = new AIBackendService();
+    const chunks: ChunkData[] = [];
+    const run = service.chatStream('first', { provider: 'mock', mockFixture: fixture, sessionId: 'first' }, chunk => chunks.push(chunk));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    service.cancel('first');
+    await run;
+
+    expect(chunks.every(chunk => chunk.sessionId === 'first')).toBe(true);
+    expect(chunks.filter(chunk => chunk.type === 'done')).toHaveLength(1);
+  });
+});
+
+describe('toolApprovalService', () => {
+  it('rejects only the cancelled session\'s requests', async () => {
+    toolApprovalService.setMainWindow({ isDestroyed: () => false, webContents: { send: () => {} } } as any);
+    const ask = (sessionId: string) => toolApprovalService.runInSession(sessionId, () =>
+      toolApprovalService.request({ source: 'test', toolName: 'execute_command', args: {} }));
+    const first = ask('first');
+    const second = ask('second');
+
+    toolApprovalService.cancelAll('first');
+    expect(await first).toBe(false);
+    toolApprovalService.cancelAll();
+    expect(await second).toBe(false);
+  });
+});
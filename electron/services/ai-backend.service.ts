@@ -8,45 +8,47 @@
  * - Ollama: Local LLM (ollama.service.ts)
  * - OpenAI: Native API (openai.service.ts)
  * - Anthropic: Native API (anthropic.service.ts)
+ * - Custom: User-configured OpenAI-compatible endpoints (custom-provider.service.ts)
+ * - Mock: Scripted fixture replay for offline testing (mock-provider.service.ts)
+ *
+ * CANDYCODE_MOCK_FIXTURE=<file> routes every chat to the mock provider;
+ * CANDYCODE_RECORD_SESSIONS=1 records sessions into fixtures (session-recorder.service.ts).
  */
 import { BrowserWindow } from 'electron';
-import { GeminiService, GeminiChatOptions, GeminiChunkData, ContinuationState } from './gemini.service';
-import { GroqService, GroqChatOptions, GroqChunkData } from './groq.service';
-import { GrokService, GrokChatOptions, GrokChunkData } from './grok.service';
-import { MoonshotService, MoonshotChatOptions, MoonshotChunkData } from './moonshot.service';
-import { OllamaService, OllamaChatOptions, OllamaChunkData } from './ollama.service';
-import { OpenAIService, OpenAIChatOptions, OpenAIChunkData } from './openai.service';
-import { AnthropicService, AnthropicChatOptions, AnthropicChunkData } from './anthropic.service';
+import { GeminiService } from './gemini.service';
+import { GroqService } from './groq.service';
+import { GrokService } from './grok.service';
+import { MoonshotService } from './moonshot.service';
+import { OllamaService } from './ollama.service';
+import { OpenAIService } from './openai.service';
+import { AnthropicService } from './anthropic.service';
+import { CustomProviderService, CustomEndpointConfig } from './custom-provider.service';
+import { MockProviderService, loadMockFixture } from './mock-provider.service';
+import { SessionRecorder, isSessionRecordingEnabled } from './session-recorder.service';
+import { AgentExecutor, AgentRunOptions, ChunkData, ContinuationState, ProviderAdapter } from './agent-executor.service';
+import { writeAccumulator } from './write-accumulator.service';
+import { toolApprovalService } from './tool-approval.service';
+import { buildReviewPrompt } from './code-review.service';
+import { worktreeService, AgentWorktree } from './worktree.service';
+import { pathJail } from './path-jail.service';
 
 // Unified chat options that works across all providers
-export interface ChatOptions {
-  provider?: 'gemini' | 'groq' | 'grok' | 'moonshot' | 'ollama' | 'openai' | 'anthropic';
-  apiKey?: string;
-  model?: string;
-  context?: {
-    files?: Array<{ path: string; content?: string; startLine?: number; endLine?: number }>;
-    images?: Array<{ path: string; data: string }>;
-    project?: string;
-    contextMode?: 'full' | 'smart' | 'minimal';
-  };
-  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
-  isPro?: boolean; // Deprecated
-  licenseTier?: 'free' | 'standard' | 'pro';
+export interface ChatOptions extends AgentRunOptions {
+  provider?: 'gemini' | 'groq' | 'grok' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'custom' | 'mock';
+  customEndpoint?: CustomEndpointConfig; // Required when provider is 'custom'
+  mockFixture?: string; // Fixture path when provider is 'mock'
 }
 
-// Unified chunk data type
-export interface ChunkData {
-  type: 'text' | 'function_call' | 'function_result' | 'error' | 'done' | 'continuation';
-  data?: any;
-  callId?: string;
-  name?: string;
-}
+// Re-export executor types for compatibility
+export type { ChunkData, ContinuationState };
 
-// Re-export ContinuationState for compatibility
-export type { ContinuationState };
+// One-shot completions give up when the provider stays silent this long
+const COMPLETION_TIMEOUT_MS = 120000;
 
 export class AIBackendService {
   private mainWindow: BrowserWindow | null = null;
+  // Runs in progress by run id; each has its own executor, so concurrent sessions share no state
+  private runs: Map<string, { executor: AgentExecutor; sessionId: string }> = new Map();
   private geminiService: GeminiService;
   private groqService: GroqService;
   private grokService: GrokService;
@@ -54,6 +56,7 @@ export class AIBackendService {
   private ollamaService: OllamaService;
   private openaiService: OpenAIService;
   private anthropicService: AnthropicService;
+  private adapters: Record<string, ProviderAdapter>;
 
   constructor() {
     this.geminiService = new GeminiService();
@@ -63,21 +66,23 @@ export class AIBackendService {
     this.ollamaService = new OllamaService();
     this.openaiService = new OpenAIService();
     this.anthropicService = new AnthropicService();
+    this.adapters = {
+      gemini: this.geminiService,
+      groq: this.groqService,
+      grok: this.grokService,
+      moonshot: this.moonshotService,
+      ollama: this.ollamaService,
+      openai: this.openaiService,
+      anthropic: this.anthropicService,
+    };
   }
 
   /**
    * Set the main window for IPC communication
-   * Passed to all provider services
+   * Runs started without a window of their own use it for their tools
    */
   setMainWindow(window: BrowserWindow) {
     this.mainWindow = window;
-    this.geminiService.setMainWindow(window);
-    this.groqService.setMainWindow(window);
-    this.grokService.setMainWindow(window);
-    this.moonshotService.setMainWindow(window);
-    this.ollamaService.setMainWindow(window);
-    this.openaiService.setMainWindow(window);
-    this.anthropicService.setMainWindow(window);
   }
 
   /**
@@ -124,9 +129,17 @@ export class AIBackendService {
     prompt: string,
     options: ChatOptions,
     onChunk?: (chunk: ChunkData) => void,
-    continuationState?: ContinuationState
+    continuationState?: ContinuationState,
+    window: BrowserWindow | null = this.mainWindow
   ): Promise<void> {
-    const provider = options.provider || 'gemini';
+    const sessionId = options.sessionId || 'default';
+    // Every chunk names its session, so the renderer can route concurrent runs
+    const emit = (chunk: ChunkData) => onChunk?.({ ...chunk, sessionId });
+    const mockFixture = process.env.CANDYCODE_MOCK_FIXTURE;
+    const provider = mockFixture ? 'mock' : options.provider || 'gemini';
+    if (mockFixture && !options.mockFixture) {
+      options.mockFixture = mockFixture;
+    }
     
     // Optimize history before routing
     if (options.conversationHistory) {
@@ -144,72 +157,192 @@ export class AIBackendService {
       licenseTier: options.licenseTier
     });
 
-    switch (provider) {
-      case 'groq':
-        return this.groqService.chatStream(
-          prompt,
-          options as GroqChatOptions,
-          onChunk as (chunk: GroqChunkData) => void
-        );
-
-      case 'grok':
-        return this.grokService.chatStream(
-          prompt,
-          options as GrokChatOptions,
-          onChunk as (chunk: GrokChunkData) => void
-        );
-
-      case 'moonshot':
-        return this.moonshotService.chatStream(
-          prompt,
-          options as MoonshotChatOptions,
-          onChunk as (chunk: MoonshotChunkData) => void
-        );
-
-      case 'ollama':
-        return this.ollamaService.chatStream(
-          prompt,
-          options as OllamaChatOptions,
-          onChunk as (chunk: OllamaChunkData) => void
-        );
-
-      case 'openai':
-        return this.openaiService.chatStream(
-          prompt,
-          options as OpenAIChatOptions,
-          onChunk as (chunk: OpenAIChunkData) => void
-        );
-
-      case 'anthropic':
-        return this.anthropicService.chatStream(
-          prompt,
-          options as AnthropicChatOptions,
-          onChunk as (chunk: AnthropicChunkData) => void
-        );
-
-      case 'gemini':
-      default:
-        return this.geminiService.chatStream(
-          prompt,
-          options as GeminiChatOptions,
-          onChunk as (chunk: GeminiChunkData) => void,
-          continuationState
-        );
+    // Review runs are about the diff under review; the user's text becomes notes
+    if (options.review) {
+      try {
+        prompt = await buildReviewPrompt(options.review, prompt);
+      } catch (error: any) {
+        emit({ type: 'error', data: error.message || String(error) });
+        emit({ type: 'done' });
+        return;
+      }
+    }
+
+    // Isolated runs work in the session's worktree; the working copy is left alone
+    let worktree: AgentWorktree | null = null;
+    if (options.worktree) {
+      try {
+        worktree = await worktreeService.acquire(sessionId, prompt);
+      } catch (error: any) {
+        emit({ type: 'error', data: `Could not create a worktree: ${error.message || String(error)}` });
+        emit({ type: 'done' });
+        return;
+      }
+      options.context = { ...options.context, project: worktree.projectPath };
+      emit({ type: 'worktree', data: worktree });
+    }
+
+    // Each run gets its own id so chunked writes never leak between runs
+    const runId = options.runId || `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    options.runId = runId;
+    const executor = new AgentExecutor();
+    if (window) executor.setMainWindow(window);
+    this.runs.set(runId, { executor, sessionId });
+
+    // Mock sessions are never recorded - they already are a recording
+    const recorder = isSessionRecordingEnabled() && provider !== 'mock' ? new SessionRecorder(provider, prompt) : null;
+    const handleChunk = recorder
+      ? (chunk: ChunkData) => {
+          recorder.record(chunk);
+          emit(chunk);
+        }
+      : emit;
+
+    try {
+      const route = () => toolApprovalService.runInSession(sessionId, () => this.routeChat(executor, provider, prompt, options, handleChunk, continuationState));
+      await (worktree ? pathJail.runInRoot(worktree.projectPath, route) : route());
+    } finally {
+      this.runs.delete(runId);
+      writeAccumulator.discardRun(runId);
+      if (recorder) {
+        try {
+          recorder.save();
+        } catch (error) {
+          console.error('[AIBackend] Failed to save session recording:', error);
+        }
+      }
     }
   }
 
   /**
-   * Cancel all active requests across all providers
+   * Run the shared agent loop with the provider's adapter
    */
-  cancel(): void {
-    console.log('[AIBackend] Cancelling all provider requests');
-    this.geminiService.cancel();
-    this.groqService.cancel();
-    this.grokService.cancel();
-    this.moonshotService.cancel();
-    this.ollamaService.cancel();
-    this.openaiService.cancel();
-    this.anthropicService.cancel();
+  private routeChat(
+    executor: AgentExecutor,
+    provider: string,
+    prompt: string,
+    options: ChatOptions,
+    onChunk?: (chunk: ChunkData) => void,
+    continuationState?: ContinuationState
+  ): Promise<void> {
+    if (provider === 'mock') {
+      return this.runMock(executor, prompt, options, onChunk, continuationState);
+    }
+
+    let adapter: ProviderAdapter;
+    try {
+      adapter = this.getAdapter(provider, options);
+    } catch (error: any) {
+      onChunk?.({ type: 'error', data: error.message });
+      onChunk?.({ type: 'done' });
+      return Promise.resolve();
+    }
+    return executor.run(adapter, prompt, options, onChunk, continuationState);
+  }
+
+  private getAdapter(provider: string, options: ChatOptions): ProviderAdapter {
+    if (provider === 'custom') {
+      if (!options.customEndpoint?.baseUrl) {
+        throw new Error('No custom endpoint configured. Add one in Settings.');
+      }
+      // Endpoints are configured in the renderer, so the adapter is built per run
+      return new CustomProviderService(options.customEndpoint);
+    }
+    return this.adapters[provider] || this.geminiService;
+  }
+
+  /**
+   * Single model turn without tools, returning the full text instead of
+   * streaming it to the chat. Runs outside the agent executor so it can be
+   * used while an agent run is in progress.
+   */
+  async complete(systemInstruction: string, prompt: string, options: ChatOptions): Promise<string> {
+    const provider = options.provider || 'gemini';
+    if (provider === 'mock') {
+      throw new Error('The mock provider only replays chat sessions');
+    }
+
+    const adapter = this.getAdapter(provider, options);
+    if (adapter.requiresApiKey && !options.apiKey) {
+      throw new Error(`No ${adapter.displayName} API key provided. Please set it in Settings.`);
+    }
+
+    const model = options.model || adapter.defaultModel;
+    if (adapter.prepare) {
+      await adapter.prepare(model);
+    }
+
+    const controller = new AbortController();
+    let idleTimer: NodeJS.Timeout | undefined;
+    const keepAlive = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => controller.abort(), COMPLETION_TIMEOUT_MS);
+    };
+    keepAlive();
+
+    console.log(`[AIBackend] Completion with provider: ${provider}, model: ${model}`);
+    try {
+      const conversation = adapter.createConversation(systemInstruction, [{ role: 'user', content: prompt }]);
+      const turn = await adapter.streamTurn(conversation, {
+        model,
+        apiKey: options.apiKey,
+        signal: controller.signal,
+        tools: [],
+        emitText: keepAlive,
+        keepAlive,
+      });
+      return turn.text.trim();
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        throw new Error(`${adapter.displayName} did not respond within ${COMPLETION_TIMEOUT_MS / 1000}s`);
+      }
+      throw error;
+    } finally {
+      if (idleTimer) clearTimeout(idleTimer);
+    }
+  }
+
+  /**
+   * Replay a fixture verbatim, or drive the agent loop with it when executeTools is set
+   */
+  private async runMock(
+    executor: AgentExecutor,
+    prompt: string,
+    options: ChatOptions,
+    onChunk?: (chunk: ChunkData) => void,
+    continuationState?: ContinuationState
+  ): Promise<void> {
+    let fixture;
+    try {
+      if (!options.mockFixture) {
+        throw new Error('No mock fixture provided. Set CANDYCODE_MOCK_FIXTURE or pass mockFixture.');
+      }
+      fixture = loadMockFixture(options.mockFixture);
+    } catch (error: any) {
+      onChunk?.({ type: 'error', data: error.message || String(error) });
+      onChunk?.({ type: 'done' });
+      return;
+    }
+
+    console.log(`[AIBackend] Mock session from ${options.mockFixture} (executeTools: ${!!fixture.executeTools})`);
+    if (fixture.executeTools) {
+      return executor.run(new MockProviderService(fixture), prompt, options, onChunk, continuationState);
+    }
+    return executor.replay(fixture.chunks, onChunk, fixture.delayMs);
+  }
+
+  /**
+   * Cancel the session's runs, or every run when no session is given
+   */
+  cancel(sessionId?: string): void {
+    console.log(`[AIBackend] Cancelling ${sessionId ? `the runs of session ${sessionId}` : 'all runs'}`);
+    for (const [runId, run] of this.runs) {
+      if (sessionId && run.sessionId !== sessionId) continue;
+      run.executor.cancel();
+      writeAccumulator.discardRun(runId);
+    }
+    toolApprovalService.cancelAll(sessionId);
+    if (!sessionId) writeAccumulator.clear();
   }
 
   /**
@@ -258,6 +391,12 @@ export class AIBackendService {
         name: 'Ollama (Local)',
         description: 'Run models locally for privacy and offline use. No API keys required.',
         isFree: true
+      },
+      {
+        id: 'custom',
+        name: 'Custom (OpenAI-compatible)',
+        description: 'Your own endpoints such as LM Studio, llama.cpp server or vLLM.',
+        isFree: true
       }
     ];
   }
@@ -303,10 +442,20 @@ export class AIBackendService {
    * Set provider (for compatibility - actual routing happens in chatStream)
    */
   setProvider(providerName: string): boolean {
-    const validProviders = ['gemini', 'groq', 'grok', 'moonshot', 'ollama', 'openai', 'anthropic'];
+    const validProviders = ['gemini', 'groq', 'grok', 'moonshot', 'ollama', 'openai', 'anthropic', 'custom', 'mock'];
     return validProviders.includes(providerName);
   }
 
+  /**
+   * Discover the models served by a custom endpoint
+   */
+  async listCustomModels(endpoint: CustomEndpointConfig): Promise<{ success: boolean; models: any[]; error?: string }> {
+    if (!endpoint?.baseUrl) {
+      return { success: false, models: [], error: 'Base URL is required' };
+    }
+    return new CustomProviderService(endpoint).listModels();
+  }
+
   /**
    * Get Ollama service instance for model management
    */
@@ -0,0 +1,149 @@
+/**
+ * Code Review Service
+ * Review mode for the agent: builds the review prompt from the diff between
+ * the working tree (or the current branch) and a base ref, and validates the
+ * line-anchored findings the model submits with submit_review.
+ *
+ * While a review runs the executor only offers REVIEW_TOOLS, so the reviewer
+ * can read the project and its history but never change it.
+ */
+import * as path from 'path';
+import { gitService, GitError, GitDiffFile } from './git.service';
+import { pathJail } from './path-jail.service';
+
+export interface ReviewRequest {
+  scope: 'working-tree' | 'branch';
+  base?: string; // Working tree reviews default to HEAD; branch reviews need it
+}
+
+export type ReviewSeverity = 'critical' | 'warning' | 'suggestion' | 'nitpick';
+
+export interface ReviewComment {
+  id: string;
+  filePath: string; // Absolute
+  path: string; // Relative to the project root, for display
+  startLine: number;
+  endLine: number;
+  severity: ReviewSeverity;
+  message: string;
+  suggestion?: string; // Replacement for lines startLine..endLine
+}
+
+// Read-only tools the reviewer may call; everything else is refused during a review
+export const REVIEW_TOOLS = ['read_file', 'peek_file', 'list_files', 'search_code', 'git_status', 'git_diff', 'git_log', 'git_blame', 'git_show', 'get_diagnostics', 'find_definition', 'find_references', 'list_symbols', 'workspace_symbols', 'submit_review'];
+// Only offered while reviewing
+export const REVIEW_ONLY_TOOLS = ['submit_review'];
+
+const SEVERITIES: ReviewSeverity[] = ['critical', 'warning', 'suggestion', 'nitpick'];
+const MAX_REVIEW_DIFF_CHARS = 60000;
+const MAX_COMMENTS = 100;
+
+export const REVIEW_INSTRUCTION = `
+
+CODE REVIEW MODE:
+You are reviewing changes, not making them. Only read-only tools are available; do not try to edit files, run commands or call task_complete.
+- Start from the diff in the user message. Use read_file, search_code and the git tools for surrounding code when a change cannot be judged from the diff alone.
+- Report real problems: bugs, unhandled errors, security issues, races, broken contracts with callers, missing tests and confusing code. Skip what a formatter would fix.
+- Anchor each finding to its line range in the CURRENT version of the file (the + side of the diff).
+- When a finding has a concrete fix, put the exact replacement text for those lines, with indentation, in suggestion.
+- Finish by calling submit_review exactly once with every finding. Use an empty comments array when the changes look good.`;
+
+function formatStat(files: GitDiffFile[]): string {
+  return files
+    .map(file => `${file.from ? `${file.from} -> ${file.path}` : file.path}${file.binary ? ' (binary)' : ` (+${file.additions} -${file.deletions})`}`)
+    .join('\n');
+}
+
+/**
+ * User prompt for a review run: what is reviewed, the changed files and the diff
+ */
+export async function buildReviewPrompt(request: ReviewRequest, instructions: string): Promise<string> {
+  const status = await gitService.status();
+  let description: string;
+  let diff: { files: GitDiffFile[]; patch: string };
+
+  if (request.scope === 'branch') {
+    if (!request.base) throw new GitError('Choose the branch to compare against');
+    // Three dots: only what the branch changed since it left base
+    diff = await gitService.diff({ ref: `${request.base}...HEAD` });
+    description = `the changes on ${status.branch || 'HEAD'} since it branched from ${request.base}`;
+  } else {
+    const base = request.base || 'HEAD';
+    // Before the first commit there is no HEAD to compare with, only the index
+    diff = status.head || base !== 'HEAD' ? await gitService.diff({ ref: base }) : await gitService.diff({ staged: true });
+    description = base === 'HEAD' ? 'the uncommitted changes in the working tree' : `the working tree compared with ${base}`;
+  }
+
+  const untracked = request.scope === 'working-tree' ? status.untracked : [];
+  if (diff.files.length === 0 && untracked.length === 0) {
+    throw new GitError(`Nothing to review: there are no ${description.replace(/^the /, '')}`);
+  }
+
+  const sections = [`Review ${description}.`];
+  if (instructions.trim()) sections.push(`Request: ${instructions.trim()}`);
+  if (diff.files.length > 0) sections.push(`Changed files:\n${formatStat(diff.files)}`);
+  if (untracked.length > 0) {
+    sections.push(`New files not tracked by git yet (read them with read_file):\n${untracked.join('\n')}`);
+  }
+  if (diff.patch.length > MAX_REVIEW_DIFF_CHARS) {
+    sections.push(`Diff (truncated at ${MAX_REVIEW_DIFF_CHARS} characters; use git_diff with a path for the rest):\n${diff.patch.slice(0, MAX_REVIEW_DIFF_CHARS)}`);
+  } else if (diff.patch) {
+    sections.push(`Diff:\n${diff.patch}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * submit_review: validates the findings and returns them for the review panel.
+ * Invalid entries are skipped and reported back instead of failing the review.
+ */
+export function submitReview(args: { summary?: string; comments?: any[] }): any {
+  if (!Array.isArray(args.comments)) {
+    return { error: 'comments must be an array; use [] when there are no findings' };
+  }
+
+  const root = pathJail.getProjectRoot() || '';
+  const comments: ReviewComment[] = [];
+  const skipped: string[] = [];
+  args.comments.slice(0, MAX_COMMENTS).forEach((comment: any, i: number) => {
+    if (!comment?.path || !comment.message) {
+      skipped.push(`comments[${i}]: path and message are required`);
+      return;
+    }
+    let filePath: string;
+    try {
+      filePath = pathJail.resolve(comment.path);
+    } catch (error: any) {
+      skipped.push(`comments[${i}]: ${error.message}`);
+      return;
+    }
+    const startLine = Math.floor(Number(comment.start_line));
+    if (!(startLine >= 1)) {
+      skipped.push(`comments[${i}]: start_line must be a line number`);
+      return;
+    }
+    const endLine = Math.max(startLine, Math.floor(Number(comment.end_line)) || startLine);
+
+    comments.push({
+      id: `review_${Date.now()}_${i}`,
+      filePath,
+      path: root ? path.relative(root, filePath).split(path.sep).join('/') : filePath,
+      startLine,
+      endLine,
+      severity: SEVERITIES.includes(comment.severity) ? comment.severity : 'suggestion',
+      message: String(comment.message).trim(),
+      ...(typeof comment.suggestion === 'string' && { suggestion: comment.suggestion }),
+    });
+  });
+
+  if (comments.length === 0 && skipped.length > 0) {
+    return { error: `No valid comments:\n${skipped.join('\n')}` };
+  }
+  console.log(`[CodeReview] Review submitted with ${comments.length} comment(s)`);
+  return {
+    status: 'submitted',
+    summary: String(args.summary || '').trim(),
+    comments,
+    ...(skipped.length > 0 && { skipped }),
+  };
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { analyzeCommand, CommandRisk, needsApproval } from './command-analysis.service';
+import { pathJail } from './path-jail.service';
+
+let projectRoot: string;
+
+beforeAll(() => {
+  projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-commands-')));
+  pathJail.setProjectRoot(projectRoot);
+});
+
+afterAll(() => {
+  pathJail.setProjectRoot(null);
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+// [command, expected risk, blocked]
+const CASES: Array<[string, CommandRisk, boolean]> = [
+  // Reading
+  ['ls -la', 'read-only', false],
+  ['cat package.json | grep version', 'read-only', false],
+  ['git status && git diff', 'read-only', false],
+  ["awk '{print $1}' data.txt", 'read-only', false],
+  ['echo hi > /dev/null', 'read-only', false],
+
+  // Changes inside the project
+  ['mkdir -p src/utils', 'write', false],
+  ['cp a.txt b.txt', 'write', false],
+  ['mv a.txt src/', 'write', false],
+  ['echo hi > notes.txt', 'write', false],
+  ['npm run build', 'write', false],
+  ['npm test 2>&1', 'write', false],
+  ['npx tsc --noEmit', 'write', false],
+  ['npx -y vitest run', 'write', false],
+  ["sed -i 's/a/b/' file.txt", 'write', false],
+  ["awk '{print > \"out.txt\"}' data.txt", 'write', false],
+  ['tar xzf a.tar.gz -C build', 'write', false],
+  ['unzip x.zip -d out', 'write', false],
+  ['docker run -v ./data:/data alpine ls', 'write', false],
+  ['git config user.name x', 'write', false],
+  ['make', 'write', false],
+
+  // Network
+  ['curl https://example.com', 'network', false],
+  ['npm install lodash', 'network', false],
+  ['curl -sSo out.html https://example.com', 'network', false],
+
+  // Writes outside the project
+  ['cp a.txt /tmp/b.txt', 'destructive', false],
+  ['mv a.txt ../b.txt', 'destructive', false],
+  ['echo hi > /tmp/out.txt', 'destructive', false],
+  ['echo hi >> ~/.bashrc', 'destructive', false],
+  ['touch /etc/hosts', 'destructive', false],
+  ['tar xf a.tar -C /', 'destructive', false],
+  ['tar -xPf a.tar', 'destructive', false],
+  ['unzip x.zip -d ~', 'destructive', false],
+  ['curl -o ~/.bashrc https://example.com', 'destructive', false],
+  ['wget -P /usr/local/bin https://example.com/tool', 'destructive', false],
+  ['docker run -v /:/host alpine rm -rf /host', 'destructive', false],
+  ['docker run --mount type=bind,source=/etc,target=/etc alpine ls', 'destructive', false],
+  ['docker run --privileged alpine ls', 'destructive', false],
+  ['docker exec app rm -rf /data', 'destructive', false],
+  ['git config --global user.name x', 'destructive', false],
+  ['git config core.hooksPath scripts', 'destructive', false],
+  ['echo x >> .git/hooks/pre-commit', 'destructive', false],
+  ['cp hook.sh .git/hooks/pre-push', 'destructive', false],
+  ['npm install -g typescript', 'destructive', false],
+  ['make install', 'destructive', false],
+  ['cargo install ripgrep', 'destructive', false],
+
+  // Deleting and discarding
+  ['rm -rf build', 'destructive', false],
+  ['git reset --hard', 'destructive', false],
+  ['git push --force', 'destructive', false],
+  ['npx rimraf dist', 'destructive', false],
+  ['npm publish', 'destructive', false],
+  ['cargo publish', 'destructive', false],
+
+  // Code the analysis cannot see into
+  ['$(echo rm) -rf /', 'destructive', false],
+  ['`echo rm` -rf build', 'destructive', false],
+  ['$CMD build', 'destructive', false],
+  ["awk '{system(\"rm -rf /\")}' data.txt", 'destructive', false],
+  ["awk 'BEGIN { \"date\" | getline d }'", 'destructive', false],
+  ['awk -f script.awk data.txt', 'destructive', false],
+  ["python -c 'import shutil; shutil.rmtree(\"/\")'", 'destructive', false],
+  ["python3 -Bc 'print(1)'", 'destructive', false],
+  ["perl -e 'unlink glob \"*\"'", 'destructive', false],
+  ["perl -pi -e 's/a/b/' file.txt", 'destructive', false],
+  ["node -e 'require(\"fs\").rmSync(\"/\", { recursive: true })'", 'destructive', false],
+  ["ruby -e 'puts 1'", 'destructive', false],
+  ['some-unknown-tool --flag', 'destructive', false],
+  ['./build.sh', 'destructive', false],
+  ['bash', 'destructive', false],
+  ['python3 -i setup.py', 'destructive', false],
+  ["bash -c 'rm -rf build'", 'destructive', false],
+
+  // Never allowed
+  ['rm -rf /', 'destructive', true],
+  ['npx rimraf /', 'destructive', true],
+  ['rm -rf ~', 'destructive', true],
+  ["bash -c 'rm -rf /'", 'destructive', true],
+
+  // Privileged
+  ['sudo apt-get install curl', 'privileged', false],
+];
+
+describe('analyzeCommand', () => {
+  it.each(CASES)('%s -> %s', (command, risk, blocked) => {
+    const analysis = analyzeCommand(command);
+    expect(analysis.risk).toBe(risk);
+    expect(!!analysis.blocked).toBe(blocked);
+  });
+
+  it('explains why a command needs approval', () => {
+    expect(analyzeCommand('$(echo rm) -rf /').reasons[0]).toMatch('only known at run time');
+    expect(analyzeCommand("python -c 'print(1)'").reasons).toContain('Runs inline python code, which can do anything');
+    expect(analyzeCommand('some-unknown-tool').reasons).toContain('Runs some-unknown-tool, which is not recognized and could do anything');
+  });
+});
+
+describe('needsApproval', () => {
+  it.each(CASES)('%s', (command, risk) => {
+    expect(needsApproval(analyzeCommand(command))).toBe(risk === 'destructive' || risk === 'privileged');
+  });
+});
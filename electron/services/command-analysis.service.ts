@@ -0,0 +1,1121 @@
+/**
+ * Command Analysis
+ * Shell-aware risk classification shared by the agent's execute_command tool and
+ * the execute-command IPC handler.
+ *
+ * The command line is tokenized the way a POSIX shell reads it (quotes, escapes,
+ * pipes, &&/||/; chains, subshells, $(...) and backtick substitutions, redirections,
+ * heredocs) and split into simple commands. Each one is classified on its own, after
+ * wrappers like sudo, env, xargs or `bash -c` are unwrapped:
+ *
+ *   read-only    - only inspects files or state (ls, cat, git status)
+ *   write        - changes files inside the project (mkdir, sed -i, npm run build)
+ *   network      - talks to the network or downloads packages (curl, git push, npm install)
+ *   destructive  - deletes data, discards changes or writes outside the project; also
+ *                  whatever cannot be analyzed: unknown programs, inline interpreter
+ *                  code (python -c, perl -e), awk's system() and commands whose name
+ *                  is only known at run time ($(...) or $VAR in the program position)
+ *   privileged   - runs as root or changes the system (sudo, chown, systemctl)
+ *
+ * The overall risk is the highest of all sub-commands. A few commands never run at
+ * all (rm -rf /, mkfs, shutdown, fork bombs); they are reported through `blocked`.
+ */
+import os from 'os';
+import path from 'path';
+import { pathJail } from './path-jail.service';
+
+export type CommandRisk = 'read-only' | 'write' | 'network' | 'destructive' | 'privileged';
+
+// Ordered from least to most risky
+export const RISK_LEVELS: CommandRisk[] = ['read-only', 'write', 'network', 'destructive', 'privileged'];
+
+export interface SubCommandAnalysis {
+  command: string; // Source text of the simple command
+  program: string; // Program after wrappers (sudo, env, xargs, ...) are stripped
+  risk: CommandRisk;
+  reasons: string[];
+  sudo: boolean;
+  blocked: string | null;
+  redirects: string[]; // Files the output is redirected to
+  interactive: boolean; // A shell or REPL: what it reads from its input runs as code
+}
+
+export interface CommandAnalysis {
+  command: string;
+  risk: CommandRisk;
+  commands: SubCommandAnalysis[];
+  reasons: string[]; // Why the command is more than read-only, one line per finding
+  sudo: boolean;
+  blocked: string | null; // Why the command must never run
+  interactive: boolean; // Starts a shell or REPL
+}
+
+interface Token {
+  kind: 'word' | 'operator' | 'redirect';
+  value: string; // Words with quotes removed
+  raw: string;
+}
+
+interface SimpleCommand {
+  words: Token[];
+  redirects: Array<{ op: string; target: string }>;
+  text: string;
+  pipedFrom: SimpleCommand | null;
+}
+
+interface AnalysisContext {
+  cwd: string;
+  depth: number;
+  sudo: boolean;
+}
+
+// Nested shells, eval and substitutions are followed this deep
+const MAX_DEPTH = 4;
+
+const READ_ONLY_COMMANDS = new Set([
+  'ls', 'll', 'dir', 'cat', 'type', 'head', 'tail', 'less', 'more', 'grep', 'egrep', 'fgrep', 'rg', 'ag', 'ack',
+  'pwd', 'echo', 'printf', 'which', 'whereis', 'wc', 'sort', 'uniq', 'cut', 'tr', 'diff', 'cmp', 'comm', 'tree',
+  'stat', 'file', 'du', 'df', 'whoami', 'id', 'groups', 'date', 'uname', 'hostname', 'printenv', 'true', 'false',
+  'test', '[', '[[', 'basename', 'dirname', 'realpath', 'readlink', 'jq', 'yq', 'column', 'nl',
+  'ps', 'top', 'htop', 'uptime', 'free', 'history', 'man', 'help', 'cd', 'pushd', 'popd', 'export', 'set',
+  'unset', 'alias', 'sleep', 'wait', 'md5sum', 'sha1sum', 'sha256sum', 'shasum', 'base64', 'xxd', 'hexdump', 'od',
+  'strings', 'lsof', 'seq', 'yes', 'tac', 'rev', 'fold', 'fmt', 'expand', 'paste', 'join', 'split', 'look',
+  'cal', 'bc', 'expr', 'locale', 'tput', 'clear', 'lsb_release', 'sw_vers', 'nproc', 'getconf',
+]);
+
+const NETWORK_COMMANDS = new Set([
+  'curl', 'wget', 'ssh', 'scp', 'sftp', 'rsync', 'nc', 'ncat', 'netcat', 'telnet', 'ftp', 'ping', 'dig',
+  'nslookup', 'host', 'http', 'https', 'gh', 'aws', 'gcloud', 'az', 'kubectl', 'vercel', 'netlify', 'heroku',
+]);
+
+const PRIVILEGED_COMMANDS = new Set([
+  'chown', 'chgrp', 'systemctl', 'service', 'launchctl', 'mount', 'umount', 'useradd', 'userdel', 'usermod',
+  'groupadd', 'passwd', 'visudo', 'iptables', 'ufw', 'modprobe', 'insmod', 'rmmod', 'chroot', 'setcap',
+  'sysctl', 'csrutil', 'nvram', 'defaults', 'reg', 'regedit', 'sc', 'bcdedit',
+]);
+
+const SYSTEM_PACKAGE_MANAGERS = new Set(['apt', 'apt-get', 'yum', 'dnf', 'pacman', 'zypper', 'apk', 'snap', 'port', 'choco', 'winget']);
+
+// Keywords that prefix a command ("if grep ...", "do rm ...") and ones that only structure the script
+const SHELL_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!']);
+const HEADER_KEYWORDS = new Set(['for', 'case', 'select', 'function', 'fi', 'done', 'esac', 'in']);
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish', 'csh', 'tcsh', 'pwsh', 'powershell', 'cmd']);
+
+const INTERPRETERS = new Set(['node', 'python', 'python2', 'python3', 'ruby', 'perl', 'php', 'deno', 'bun', 'lua']);
+
+// Options that pass code on the command line, possibly combined with other flags ("perl -pie")
+const INLINE_CODE: Record<string, RegExp> = {
+  node: /^(-e|-p|--eval|--print|-pe)$/,
+  bun: /^(-e|-p|--eval|--print)$/,
+  deno: /^eval$/,
+  python: /^-[a-zA-Z]*c$/,
+  python2: /^-[a-zA-Z]*c$/,
+  python3: /^-[a-zA-Z]*c$/,
+  ruby: /^-[a-zA-Z]*e$/,
+  perl: /^-[a-zA-Z]*[eE]$/,
+  php: /^-[a-zA-Z]*r$/,
+  lua: /^-[a-zA-Z]*e$/,
+};
+
+const AWKS = new Set(['awk', 'gawk', 'mawk', 'nawk']);
+
+const ARCHIVERS = new Set(['tar', 'unzip', 'zip', 'gzip', 'gunzip']);
+
+// Build tools whose install target copies files out of the project (make install)
+const INSTALL_TARGET_TOOLS = new Set(['make', 'cmake', 'ninja', 'meson']);
+
+// Git config keys whose values git runs as programs
+const GIT_EXEC_CONFIG = /^(core\.(hookspath|fsmonitor|sshcommand|editor|pager|askpass|gitproxy)|sequence\.editor|gpg\.program|credential\.helper|alias\.|filter\.|diff\..*\.textconv)/i;
+
+// Build, test and lint tools that change files in the project at most
+const PROJECT_TOOLS = new Set([
+  'patch', 'make', 'cmake', 'ninja', 'meson', 'tsc', 'tsx', 'ts-node',
+  'eslint', 'prettier', 'biome', 'stylelint', 'jest', 'vitest', 'pytest', 'mocha', 'ava', 'playwright', 'cypress',
+  'black', 'ruff', 'mypy', 'flake8', 'isort', 'rspec', 'rake', 'phpunit', 'vite', 'webpack', 'esbuild', 'rollup',
+  'parcel', 'babel', 'swc', 'next', 'nuxt', 'turbo', 'nx', 'rustc', 'rustfmt', 'gofmt', 'gcc', 'g++', 'clang',
+  'clang++', 'javac', 'java', 'kotlinc', 'swift', 'swiftc', 'dotnet', 'mvn', 'gradle', 'mktemp',
+]);
+
+// Wrappers that run the rest of the line as another command, with the options that take a value
+const WRAPPERS: Record<string, string[]> = {
+  env: ['-u', '-C', '-S', '--unset', '--chdir'],
+  nohup: [],
+  time: ['-f', '-o'],
+  nice: ['-n'],
+  ionice: ['-c', '-n', '-p'],
+  timeout: ['-s', '-k', '--signal', '--kill-after'],
+  command: [],
+  builtin: [],
+  exec: ['-a'],
+  stdbuf: ['-i', '-o', '-e'],
+  watch: ['-n', '-d', '--interval'],
+  xargs: ['-I', '-i', '-n', '-P', '-L', '-l', '-d', '-s', '-E', '-e', '-a', '--max-args', '--max-procs', '--delimiter', '--arg-file', '--replace'],
+  caffeinate: ['-t', '-w'],
+};
+
+const SUDO_VALUE_OPTIONS = ['-u', '-g', '-C', '-p', '-h', '-U', '-r', '-t', '--user', '--group', '--prompt', '--host'];
+
+const GIT_READ_ONLY = new Set([
+  '', 'status', 'log', 'diff', 'show', 'blame', 'annotate', 'rev-parse', 'rev-list', 'ls-files', 'ls-tree',
+  'describe', 'shortlog', 'grep', 'reflog', 'cat-file', 'whatchanged', 'show-ref', 'show-branch', 'merge-base',
+  'help', 'version', 'count-objects', 'name-rev', 'check-ignore', 'for-each-ref', 'var', 'range-diff',
+]);
+
+const GIT_NETWORK = new Set(['clone', 'fetch', 'pull', 'ls-remote', 'submodule', 'remote-update']);
+
+// Paths that no command may recursively delete or overwrite
+const PROTECTED_TARGETS = new Set(['/', '/*', '~', '~/', '~/*', '$HOME', '${HOME}', '$HOME/', '$HOME/*', '/root', '/home', '/Users', '/usr', '/etc', '/var', '/bin', '/System', 'C:\\', 'C:/']);
+
+const IGNORED_REDIRECT_TARGETS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty', 'nul', 'NUL']);
+
+const FORK_BOMB = /(\w+|:)\s*\(\s*\)\s*\{[^}]*\1\s*\|\s*\1\s*&[^}]*\}/;
+
+function riskRank(risk: CommandRisk): number {
+  return RISK_LEVELS.indexOf(risk);
+}
+
+function raise(entry: SubCommandAnalysis, risk: CommandRisk, reason: string) {
+  if (riskRank(risk) > riskRank(entry.risk)) entry.risk = risk;
+  if (!entry.reasons.includes(reason)) entry.reasons.push(reason);
+}
+
+function block(entry: SubCommandAnalysis, reason: string) {
+  raise(entry, 'destructive', reason);
+  entry.blocked = entry.blocked || reason;
+}
+
+/**
+ * Split a command line into words, operators and redirections. Substitutions are
+ * kept inside their word and also returned so they can be analyzed as commands.
+ */
+function tokenize(input: string): { tokens: Token[]; substitutions: string[] } {
+  const tokens: Token[] = [];
+  const substitutions: string[] = [];
+  const heredocs: string[] = [];
+  let expectHeredoc = false;
+  let word = '';
+  let raw = '';
+  let inWord = false;
+  let i = 0;
+
+  const flush = () => {
+    if (inWord) {
+      tokens.push({ kind: 'word', value: word, raw });
+      if (expectHeredoc) heredocs.push(word);
+      expectHeredoc = false;
+    }
+    word = '';
+    raw = '';
+    inWord = false;
+  };
+
+  // Reads a balanced "(...)" starting at `start`; returns the index after it
+  const readParens = (start: number, record: boolean): number => {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let j = start; j < input.length; j++) {
+      const c = input[j];
+      if (quote) {
+        if (c === '\\' && quote === '"') j++;
+        else if (c === quote) quote = null;
+        continue;
+      }
+      if (c === '\\') {
+        j++;
+      } else if (c === '"' || c === "'") {
+        quote = c;
+      } else if (c === '(') {
+        depth++;
+      } else if (c === ')' && --depth === 0) {
+        if (record) substitutions.push(input.slice(start + 1, j));
+        return j + 1;
+      }
+    }
+    if (record) substitutions.push(input.slice(start + 1));
+    return input.length;
+  };
+
+  const readBacktick = (start: number): number => {
+    let j = start + 1;
+    while (j < input.length && input[j] !== '`') j += input[j] === '\\' ? 2 : 1;
+    substitutions.push(input.slice(start + 1, j));
+    return Math.min(j + 1, input.length);
+  };
+
+  // "$(" is a command substitution, "$((" is arithmetic
+  const readDollarParen = (start: number): number => readParens(start + 1, input[start + 2] !== '(');
+
+  while (i < input.length) {
+    const c = input[i];
+
+    if (c === ' ' || c === '\t' || c === '\r') {
+      flush();
+      i++;
+    } else if (c === '\\') {
+      if (input[i + 1] === '\n') {
+        i += 2; // Line continuation
+        continue;
+      }
+      word += input[i + 1] ?? '';
+      raw += input.slice(i, i + 2);
+      inWord = true;
+      i += 2;
+    } else if (c === '#' && !inWord) {
+      while (i < input.length && input[i] !== '\n') i++;
+    } else if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      const stop = end === -1 ? input.length : end;
+      word += input.slice(i + 1, stop);
+      raw += input.slice(i, stop + 1);
+      inWord = true;
+      i = stop + 1;
+    } else if (c === '"') {
+      let j = i + 1;
+      while (j < input.length && input[j] !== '"') {
+        if (input[j] === '\\' && j + 1 < input.length) {
+          word += input[j + 1];
+          j += 2;
+        } else if (input[j] === '$' && input[j + 1] === '(') {
+          const end = readDollarParen(j);
+          word += input.slice(j, end);
+          j = end;
+        } else if (input[j] === '`') {
+          const end = readBacktick(j);
+          word += input.slice(j, end);
+          j = end;
+        } else {
+          word += input[j++];
+        }
+      }
+      raw += input.slice(i, j + 1);
+      inWord = true;
+      i = j + 1;
+    } else if (c === '$' && input[i + 1] === '(') {
+      const end = readDollarParen(i);
+      word += input.slice(i, end);
+      raw += input.slice(i, end);
+      inWord = true;
+      i = end;
+    } else if (c === '`') {
+      const end = readBacktick(i);
+      word += input.slice(i, end);
+      raw += input.slice(i, end);
+      inWord = true;
+      i = end;
+    } else if ((c === '<' || c === '>') && input[i + 1] === '(') {
+      // Process substitution: <(cmd) or >(cmd)
+      const end = readParens(i + 1, true);
+      word += input.slice(i, end);
+      raw += input.slice(i, end);
+      inWord = true;
+      i = end;
+    } else if (c === '>' || c === '<' || (c === '&' && input[i + 1] === '>')) {
+      // An all-digit word right before the operator is its file descriptor ("2>")
+      const fd = inWord && /^\d+$/.test(raw) ? raw : '';
+      if (fd) {
+        word = '';
+        raw = '';
+        inWord = false;
+      } else {
+        flush();
+      }
+      const op = /^(&>>|&>|>>|>&|>\||<<<|<<-|<<|<>|<&|>|<)/.exec(input.slice(i))![0];
+      tokens.push({ kind: 'redirect', value: fd + op, raw: fd + op });
+      expectHeredoc = op === '<<' || op === '<<-';
+      i += op.length;
+    } else {
+      const operator = /^(\|\||\|&|&&|;;|[|&;\n(){}])/.exec(input.slice(i));
+      // Braces group commands only as separate words ("{ a; b; }"), not in "${VAR}" or "{a,b}"
+      const isBrace = operator && (operator[0] === '{' || operator[0] === '}');
+      const groups = !inWord && (operator?.[0] === '}' || /\s/.test(input[i + 1] || ' '));
+      if (operator && (!isBrace || groups)) {
+        flush();
+        tokens.push({ kind: 'operator', value: operator[0], raw: operator[0] });
+        i += operator[0].length;
+        // Heredoc bodies are data, not commands
+        if (operator[0] === '\n') {
+          for (const delimiter of heredocs.splice(0)) {
+            while (i < input.length) {
+              const newline = input.indexOf('\n', i);
+              const lineEnd = newline === -1 ? input.length : newline;
+              const line = input.slice(i, lineEnd);
+              i = lineEnd + 1;
+              if (line.trim() === delimiter) break;
+            }
+          }
+        }
+      } else {
+        word += c;
+        raw += c;
+        inWord = true;
+        i++;
+      }
+    }
+  }
+  flush();
+  return { tokens, substitutions };
+}
+
+function splitCommands(tokens: Token[]): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  const create = (pipedFrom: SimpleCommand | null): SimpleCommand => ({ words: [], redirects: [], text: '', pipedFrom });
+  let current = create(null);
+  const raws: string[] = [];
+
+  const finish = (): SimpleCommand | null => {
+    const hasContent = current.words.length > 0 || current.redirects.length > 0;
+    if (hasContent) {
+      current.text = raws.join(' ');
+      commands.push(current);
+    }
+    raws.length = 0;
+    return hasContent ? current : null;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'redirect') {
+      const target = tokens[i + 1]?.kind === 'word' ? tokens[++i] : null;
+      current.redirects.push({ op: token.value, target: target?.value || '' });
+      raws.push(token.raw + (target?.raw || ''));
+    } else if (token.kind === 'operator') {
+      const finished = finish();
+      current = create(token.value === '|' || token.value === '|&' ? finished : null);
+    } else {
+      current.words.push(token);
+      raws.push(token.raw);
+    }
+  }
+  finish();
+  return commands;
+}
+
+/**
+ * Drop leading options (and the values of `valueOptions`) up to the first operand
+ */
+function skipOptions(args: string[], valueOptions: string[] = []): string[] {
+  let i = 0;
+  while (i < args.length && args[i].startsWith('-') && args[i] !== '-') {
+    if (args[i] === '--') return args.slice(i + 1);
+    i += valueOptions.includes(args[i]) ? 2 : 1;
+  }
+  return args.slice(i);
+}
+
+function operandsOf(args: string[]): string[] {
+  const separator = args.indexOf('--');
+  const before = separator === -1 ? args : args.slice(0, separator);
+  const after = separator === -1 ? [] : args.slice(separator + 1);
+  return [...before.filter(arg => !arg.startsWith('-')), ...after];
+}
+
+function hasFlag(args: string[], short: string, ...long: string[]): boolean {
+  return args.some(arg =>
+    long.includes(arg) || (short !== '' && /^-[a-zA-Z]+$/.test(arg) && arg.slice(1).includes(short))
+  );
+}
+
+/**
+ * Values of an option in any spelling: "-o file", "-sSo file", "-ofile", "--output file", "--output=file"
+ */
+function optionValues(args: string[], short: string, long: string[]): string[] {
+  const values: string[] = [];
+  args.forEach((arg, i) => {
+    const equals = long.find(option => arg.startsWith(`${option}=`));
+    if (equals) {
+      values.push(arg.slice(equals.length + 1));
+    } else if (long.includes(arg) || (short !== '' && new RegExp(`^-[a-zA-Z]*${short}$`).test(arg))) {
+      if (args[i + 1] !== undefined) values.push(args[i + 1]);
+    } else if (short !== '' && arg.startsWith(`-${short}`) && arg.length > 2) {
+      values.push(arg.slice(2));
+    }
+  });
+  return values;
+}
+
+function resolveArg(arg: string, cwd: string): string | null {
+  // Variables and substitutions can expand to anything, so they are not resolved
+  if (!arg || /[$`]/.test(arg)) return null;
+  if (arg === '~' || arg.startsWith('~/')) return path.join(os.homedir(), arg.slice(1));
+  return path.resolve(cwd, arg);
+}
+
+function isOutsideProject(arg: string, cwd: string): boolean {
+  const resolved = resolveArg(arg, cwd);
+  if (!resolved) return false;
+  return pathJail.check(resolved).violation !== null;
+}
+
+/**
+ * Git hooks and git config: git runs what they name on later commands
+ */
+function isGitControlFile(arg: string, cwd: string): boolean {
+  const resolved = resolveArg(arg, cwd);
+  if (!resolved) return false;
+  const parts = resolved.split(path.sep);
+  const git = parts.lastIndexOf('.git');
+  return git !== -1 && (parts[git + 1] === 'hooks' || (parts[git + 1] === 'config' && parts.length === git + 2));
+}
+
+/**
+ * Record a change to `args`: writes inside the project get `risk`, anything outside it
+ * (temp dirs included) and git hooks or config count as destructive
+ */
+function touchPaths(entry: SubCommandAnalysis, ctx: AnalysisContext, args: string[], verb: string, risk: CommandRisk = 'write') {
+  const outside = args.filter(arg => isOutsideProject(arg, ctx.cwd));
+  const gitFiles = args.filter(arg => !outside.includes(arg) && isGitControlFile(arg, ctx.cwd));
+  const inside = args.filter(arg => !outside.includes(arg) && !gitFiles.includes(arg));
+  if (outside.length > 0) raise(entry, 'destructive', `${verb} ${outside.join(', ')} (outside the project)`);
+  if (gitFiles.length > 0) raise(entry, 'destructive', `${verb} ${gitFiles.join(', ')} (git runs hooks and config on later commands)`);
+  if (inside.length > 0 || args.length === 0) raise(entry, risk, `${verb} ${inside.length > 0 ? inside.join(', ') : '(paths not known in advance)'}`);
+}
+
+function classifyRemove(program: string, args: string[], entry: SubCommandAnalysis, ctx: AnalysisContext) {
+  const targets = operandsOf(args);
+  const recursive = program === 'rmdir' || program === 'rimraf' || hasFlag(args, 'r', '--recursive') || hasFlag(args, 'R');
+  const protectedTarget = targets.find(t => PROTECTED_TARGETS.has(t) || PROTECTED_TARGETS.has(t.replace(/\/+$/, '') || '/'));
+  if (recursive && protectedTarget) {
+    block(entry, `Recursively deletes ${protectedTarget}`);
+    return;
+  }
+  touchPaths(entry, ctx, targets, recursive ? 'Recursively deletes' : 'Deletes', 'destructive');
+}
+
+function classifyFind(args: string[], entry: SubCommandAnalysis, ctx: AnalysisContext, out: SubCommandAnalysis[]) {
+  if (args.includes('-delete')) raise(entry, 'destructive', 'Deletes every file find matches');
+  if (args.some(arg => ['-fprint', '-fprint0', '-fprintf', '-fls'].includes(arg))) raise(entry, 'write', 'Writes find results to a file');
+  // -exec/-execdir/-ok run a command per match, up to ";" or "+"
+  for (let i = 0; i < args.length; i++) {
+    if (!['-exec', '-execdir', '-ok', '-okdir'].includes(args[i])) continue;
+    let end = i + 1;
+    while (end < args.length && args[end] !== ';' && args[end] !== '+') end++;
+    const nested = args.slice(i + 1, end).filter(arg => arg !== '{}');
+    classifyInto(nested, `find ${args[i]} ${nested.join(' ')}`, entry, ctx, out);
+    i = end;
+  }
+}
+
+function classifyAwk(program: string, args: string[], entry: SubCommandAnalysis, ctx: AnalysisContext) {
+  const scriptFile = args.findIndex(arg => arg === '-f' || arg === '--file');
+  if (scriptFile !== -1) {
+    raise(entry, 'destructive', `Runs the ${program} script ${args[scriptFile + 1] || ''}, which can run shell commands`.trimEnd());
+    return;
+  }
+  const code = operandsOf(args.filter((_, i) => !['-v', '-F', '-i', '--assign', '--field-separator', '--include'].includes(args[i - 1])))[0] || '';
+  if (/\bsystem\s*\(|\|\s*getline|\|\s*"|\|&/.test(code)) {
+    raise(entry, 'destructive', `Runs shell commands from ${program}`);
+  }
+  if (/\bprintf?\b[^;}]*>/.test(code)) {
+    raise(entry, 'write', `Writes files from ${program}`);
+  }
+  if (args.some((arg, i) => arg === 'inplace' && args[i - 1] === '-i')) {
+    touchPaths(entry, ctx, operandsOf(args).slice(1), 'Edits in place');
+  }
+}
+
+function classifyGit(args: string[], entry: SubCommandAnalysis, ctx: AnalysisContext) {
+  const [sub = '', ...rest] = skipOptions(args, ['-C', '-c', '--git-dir', '--work-tree', '--namespace']);
+  const operands = operandsOf(rest);
+  const has = (...names: string[]) => names.some(name => rest.includes(name));
+
+  if (GIT_READ_ONLY.has(sub)) return;
+  if (GIT_NETWORK.has(sub)) {
+    raise(entry, 'network', `git ${sub} talks to a remote repository`);
+    return;
+  }
+
+  switch (sub) {
+    case 'push':
+      raise(entry, 'network', 'Pushes commits to a remote repository');
+      if (hasFlag(rest, 'f', '--force', '--force-with-lease', '--mirror') || operands.some(o => o.startsWith('+'))) {
+        raise(entry, 'destructive', 'Force-pushes, which can overwrite remote history');
+      }
+      if (hasFlag(rest, 'd', '--delete') || operands.some(o => o.startsWith(':'))) {
+        raise(entry, 'destructive', 'Deletes a remote branch or tag');
+      }
+      return;
+    case 'branch':
+    case 'tag':
+      if (hasFlag(rest, 'D') || hasFlag(rest, 'd', '--delete')) {
+        raise(entry, 'destructive', `Deletes git ${sub === 'branch' ? 'branches' : 'tags'}`);
+      } else if (operands.length > 0 && !has('--list', '-l', '--contains', '--merged', '--no-merged', '--points-at')) {
+        raise(entry, 'write', `Creates or changes a git ${sub}`);
+      }
+      return;
+    case 'config': {
+      if (has('--get', '--get-all', '--get-regexp', '--list', '-l') || operands.length < 2) return;
+      const files = optionValues(rest, 'f', ['--file']);
+      const key = operands.find(operand => !files.includes(operand)) || '';
+      if (has('--global', '--system')) {
+        raise(entry, 'destructive', 'Changes git configuration outside the project');
+      } else if (GIT_EXEC_CONFIG.test(key)) {
+        raise(entry, 'destructive', `Sets ${key}, which makes git run a program`);
+      } else if (files.length > 0) {
+        touchPaths(entry, ctx, files, 'Changes git configuration in');
+      } else {
+        raise(entry, 'write', 'Changes git configuration');
+      }
+      return;
+    }
+    case 'remote':
+      if (operands.length > 0 && !['show', 'get-url'].includes(operands[0])) {
+        raise(entry, 'write', 'Changes git remotes');
+      }
+      return;
+    case 'stash':
+      if (['drop', 'clear'].includes(operands[0])) raise(entry, 'destructive', 'Deletes stashed changes');
+      else if (!['list', 'show'].includes(operands[0])) raise(entry, 'write', 'Stashes or restores uncommitted changes');
+      return;
+    case 'clean':
+      if (hasFlag(rest, 'f', '--force')) raise(entry, 'destructive', 'Deletes untracked files');
+      return;
+    case 'reset':
+      if (has('--hard', '--merge', '--keep')) raise(entry, 'destructive', 'Discards uncommitted changes');
+      else raise(entry, 'write', 'Moves HEAD or unstages changes');
+      return;
+    case 'checkout':
+      if (rest.includes('--') || operands.includes('.') || hasFlag(rest, 'f', '--force')) {
+        raise(entry, 'destructive', 'Discards uncommitted changes');
+      } else {
+        raise(entry, 'write', 'Switches branches');
+      }
+      return;
+    case 'restore':
+      if (has('--staged', '-S') && !has('--worktree', '-W')) raise(entry, 'write', 'Unstages changes');
+      else raise(entry, 'destructive', 'Discards uncommitted changes');
+      return;
+    default:
+      raise(entry, 'write', `Runs git ${sub}`);
+  }
+}
+
+function classifyPackageManager(program: string, args: string[], entry: SubCommandAnalysis) {
+  const [sub = '', next = ''] = skipOptions(args, ['--prefix', '-C', '--cwd', '--filter', '-F', '-w', '--workspace']);
+  const installs = ['install', 'i', 'add', 'ci', 'update', 'upgrade', 'up', 'dlx', 'create'];
+  const registry = ['publish', 'unpublish', 'audit', 'search', 'login', 'outdated', 'info', 'view', 'show', 'deprecate', 'dist-tag', 'owner'];
+  const readOnly = ['ls', 'list', 'll', 'la', 'why', 'explain', 'help', 'root', 'prefix', 'bin', 'get', 'whoami'];
+
+  if (sub === '') {
+    // "npm --version" prints, a bare "yarn"/"pnpm"/"bun" installs dependencies
+    if (program !== 'npm' && !args.some(arg => arg.startsWith('-'))) raise(entry, 'network', `${program} install downloads packages`);
+    return;
+  }
+  if (sub === 'global' || ((installs.includes(sub) || sub === 'link') && hasFlag(args, 'g', '--global', '--location=global'))) {
+    raise(entry, 'destructive', `Installs packages globally with ${program} (outside the project)`);
+    return;
+  }
+  if (installs.includes(sub)) {
+    raise(entry, 'network', `${program} ${sub} downloads packages`);
+    return;
+  }
+  if (sub === 'publish' || sub === 'unpublish') {
+    raise(entry, 'destructive', `${sub === 'publish' ? 'Publishes' : 'Unpublishes'} a package with ${program}, which cannot be taken back`);
+    return;
+  }
+  if (registry.includes(sub)) {
+    raise(entry, 'network', `${program} ${sub} queries the package registry`);
+    return;
+  }
+  if (readOnly.includes(sub) || (sub === 'config' && ['get', 'list', 'ls'].includes(next)) || (sub === 'version' && !next)) return;
+  if (sub === 'run' || sub === 'run-script' || sub === 'test' || sub === 't' || sub === 'start') {
+    const script = sub.startsWith('run') ? skipOptions(args.slice(args.indexOf(sub) + 1))[0] || '' : sub;
+    raise(entry, 'write', `Runs the project's ${script} script`);
+    return;
+  }
+  raise(entry, 'write', `Runs ${program} ${sub}`);
+}
+
+function classifyBuildTool(program: string, args: string[], entry: SubCommandAnalysis) {
+  const [sub = ''] = skipOptions(args);
+  const network: Record<string, string[]> = {
+    cargo: ['install', 'add', 'publish', 'search', 'update', 'fetch', 'login', 'yank'],
+    go: ['get', 'install', 'mod'],
+    pip: ['install', 'download', 'wheel', 'search'],
+    pipx: ['install', 'run', 'upgrade', 'reinstall'],
+    uv: ['add', 'sync', 'pip', 'tool', 'lock', 'run'],
+    poetry: ['add', 'install', 'update', 'lock', 'publish'],
+    gem: ['install', 'update', 'push'],
+    bundle: ['install', 'update', ''],
+    composer: ['install', 'require', 'update', ''],
+    brew: ['install', 'upgrade', 'update', 'reinstall', 'tap', 'fetch'],
+  };
+  const readOnly: Record<string, string[]> = {
+    cargo: ['--version', 'version', 'tree', 'metadata', 'search'],
+    go: ['version', 'env', 'list', 'doc', 'help'],
+    pip: ['list', 'show', 'freeze', 'check', '--version', 'help'],
+    brew: ['list', 'info', 'search', 'doctor', 'config', 'outdated', '--version', 'deps', 'leaves'],
+    gem: ['list', 'search', 'info', 'env'],
+  };
+  const publishes: Record<string, string[]> = {
+    cargo: ['publish', 'yank'],
+    poetry: ['publish'],
+    gem: ['push', 'yank'],
+  };
+  // Installs into the user's or the system's directories
+  const installsOutside: Record<string, string[]> = {
+    cargo: ['install', 'uninstall'],
+    go: ['install'],
+    pipx: ['install', 'upgrade', 'reinstall', 'uninstall'],
+    gem: ['install', 'update', 'uninstall'],
+    brew: ['install', 'upgrade', 'reinstall', 'uninstall', 'tap'],
+  };
+  const key = program === 'pip3' ? 'pip' : program;
+  if (readOnly[key]?.includes(sub)) return;
+  if (publishes[key]?.includes(sub)) {
+    raise(entry, 'destructive', `Publishes with ${program} ${sub}, which cannot be taken back`);
+    return;
+  }
+  if (installsOutside[key]?.includes(sub) || (key === 'pip' && sub === 'install' && args.includes('--user'))) {
+    raise(entry, 'destructive', `${program} ${sub} installs outside the project`);
+    return;
+  }
+  if (network[key]?.includes(sub)) {
+    raise(entry, 'network', `${program} ${sub || 'install'} downloads packages`);
+    return;
+  }
+  raise(entry, 'write', `Runs ${program}${sub ? ` ${sub}` : ''}`);
+}
+
+function classifySystemPackageManager(program: string, args: string[], entry: SubCommandAnalysis) {
+  const [sub = ''] = skipOptions(args);
+  if (['list', 'search', 'show', 'info', 'policy', 'query', '-Q', '-Ss', '-Si', '--version'].includes(sub)) return;
+  raise(entry, 'network', `${program} ${sub} downloads system packages`);
+  // Everything but Homebrew-like managers needs root to change packages
+  if (!['choco', 'winget', 'port'].includes(program)) raise(entry, 'privileged', `${program} ${sub} changes system packages`);
+}
+
+function classifyContainer(program: string, args: string[], entry: SubCommandAnalysis, ctx: AnalysisContext) {
+  const operands = skipOptions(args, ['-H', '--host', '--context', '-c', '--config', '-f', '--file', '-p', '--project-name']);
+  const sub = operands[0] || '';
+  const action = operands[1] || '';
+  if (['ps', 'images', 'logs', 'inspect', 'version', 'info', 'stats', 'top', 'history', 'port', 'diff', 'search', ''].includes(sub)) return;
+  if (['pull', 'push', 'login', 'build', 'buildx'].includes(sub)) {
+    raise(entry, 'network', `${program} ${sub} talks to a registry`);
+    return;
+  }
+  if (['rm', 'rmi', 'kill', 'prune'].includes(sub) || action === 'prune' || action === 'rm' || (sub === 'compose' && action === 'down')) {
+    raise(entry, 'destructive', `Removes or stops ${program} resources`);
+    return;
+  }
+  if (sub === 'exec') {
+    raise(entry, 'destructive', `Runs a command in a ${program} container, which may have host folders mounted`);
+    return;
+  }
+  if (sub === 'run' || sub === 'create') {
+    const sources = [
+      ...optionValues(args, 'v', ['--volume']).map(volume => volume.split(':')[0]),
+      ...optionValues(args, '', ['--mount']).map(mount => /(?:^|,)(?:source|src)=([^,]+)/.exec(mount)?.[1] || ''),
+    ].filter(source => /^[./~]/.test(source)); // Named volumes stay inside the container engine
+    const outside = sources.filter(source => isOutsideProject(source, ctx.cwd));
+    if (outside.length > 0) {
+      raise(entry, 'destructive', `Mounts ${outside.join(', ')} from the host into a container (outside the project)`);
+    }
+    const hostNamespaces = optionValues(args, '', ['--pid', '--ipc', '--uts', '--userns', '--cgroupns']).includes('host');
+    if (args.includes('--privileged') || hostNamespaces || optionValues(args, '', ['--cap-add', '--device']).length > 0) {
+      raise(entry, 'destructive', 'Gives a container access to the host');
+    }
+  }
+  raise(entry, 'write', `Runs ${program} ${sub}`);
+}
+
+function classifyArchive(program: string, args: string[], entry: SubCommandAnalysis, ctx: AnalysisContext) {
+  if (program === 'tar') {
+    // "tar xzf a.tar" bundles the modes without a dash
+    const bundled = args[0] && !args[0].startsWith('-') ? args[0] : '';
+    const modes = bundled + args.filter(arg => /^-[a-zA-Z]+$/.test(arg)).map(arg => arg.slice(1)).join('');
+    if (/x/.test(modes) || args.includes('--extract') || args.includes('--get')) {
+      const directories = optionValues(args, 'C', ['--directory']);
+      touchPaths(entry, ctx, [directories[directories.length - 1] || '.'], 'Extracts into');
+      if (hasFlag(args, 'P', '--absolute-names')) raise(entry, 'destructive', 'Extracts absolute paths, which can land anywhere');
+    } else if (/[cru]/.test(modes) || args.some(arg => ['--create', '--append', '--update'].includes(arg))) {
+      const archives = bundled.includes('f') ? args.slice(1, 2) : optionValues(args, 'f', ['--file']);
+      touchPaths(entry, ctx, archives, 'Writes the archive');
+    }
+    return;
+  }
+  if (program === 'unzip') {
+    if (hasFlag(args, 'l') || hasFlag(args, 't') || hasFlag(args, 'Z')) return;
+    const directories = optionValues(args, 'd', []);
+    touchPaths(entry, ctx, [directories[directories.length - 1] || '.'], 'Extracts into');
+    return;
+  }
+  if (program === 'zip') {
+    touchPaths(entry, ctx, operandsOf(args).slice(0, 1), 'Writes the archive');
+    return;
+  }
+  // gzip and gunzip replace the files they are given, unless writing to stdout
+  if (hasFlag(args, 'c', '--stdout', '--to-stdout') || hasFlag(args, 'l', '--list') || hasFlag(args, 't', '--test')) return;
+  touchPaths(entry, ctx, operandsOf(args), program === 'gunzip' || hasFlag(args, 'd', '--decompress') ? 'Decompresses' : 'Compresses');
+}
+
+function classifyScriptRunner(program: string, args: string[], entry: SubCommandAnalysis, ctx: AnalysisContext, out: SubCommandAnalysis[], readsStdin: boolean, pipedFrom: SubCommandAnalysis | null) {
+  // Inline code: sh -c "...", bash -lc "...", python -c, perl -e and the like
+  const inlineIndex = args.findIndex(arg => SHELLS.has(program) ? /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg) || /^\/c$/i.test(arg) || arg === '-Command' : !!INLINE_CODE[program]?.test(arg));
+  if (inlineIndex !== -1) {
+    const code = args[inlineIndex + 1] || '';
+    if (SHELLS.has(program)) {
+      out.push(...analyzeScript(code, { ...ctx, depth: ctx.depth + 1 }));
+      raise(entry, 'write', `Runs a nested ${program} command`);
+    } else {
+      // Shell commands can hide in any interpreter's code
+      raise(entry, 'destructive', `Runs inline ${program} code, which can do anything`);
+    }
+    return;
+  }
+
+  const operands = operandsOf(args);
+  if (operands.length > 0 && !SHELLS.has(program) && hasFlag(args, 'i', '--interactive')) {
+    entry.interactive = true;
+    raise(entry, 'destructive', `Runs ${program} ${operands[0]}, then reads code from its input`);
+  } else if (operands.length > 0) {
+    raise(entry, 'write', `Runs ${program} ${operands[0]}`);
+  } else if (args.some(arg => ['--version', '-v', '-V', '--help', '-h'].includes(arg))) {
+    return;
+  } else if (pipedFrom || readsStdin) {
+    const downloaded = pipedFrom && pipedFrom.risk === 'network';
+    raise(entry, 'destructive', downloaded ? `Runs a downloaded script with ${program}` : `Runs standard input as code with ${program}`);
+  } else {
+    entry.interactive = true;
+    raise(entry, 'destructive', `Starts an interactive ${program}; input sent to it runs as code`);
+  }
+}
+
+/**
+ * Classify one argv into `entry`. Wrappers recurse with the wrapped command;
+ * nested scripts (bash -c, eval, find -exec) add their own entries to `out`.
+ */
+function classifyWords(words: string[], entry: SubCommandAnalysis, ctx: AnalysisContext, out: SubCommandAnalysis[], readsStdin: boolean, pipedFrom: SubCommandAnalysis | null) {
+  let rest = words;
+  while (rest.length > 0 && (/^[A-Za-z_][A-Za-z0-9_]*=/.test(rest[0]) || SHELL_KEYWORDS.has(rest[0]))) rest = rest.slice(1);
+  // Loop and case headers ("for f in *.ts") and closing keywords run nothing themselves
+  if (rest.length === 0 || HEADER_KEYWORDS.has(rest[0])) return;
+
+  // "$(echo rm) -rf /" or "$CMD": what runs is only known when the line runs
+  if (/[$`]/.test(rest[0])) {
+    entry.program = rest[0];
+    raise(entry, 'destructive', `Runs a command whose name is only known at run time (${rest[0]})`);
+    return;
+  }
+
+  const program = path.basename(rest[0]).toLowerCase().replace(/\.exe$/, '');
+  const args = rest.slice(1);
+  entry.program = program;
+
+  if (program === 'sudo' || program === 'doas' || program === 'pkexec' || program === 'runas') {
+    entry.sudo = entry.sudo || program === 'sudo';
+    raise(entry, 'privileged', `Runs as root with ${program}`);
+    classifyWords(skipOptions(args, SUDO_VALUE_OPTIONS), entry, ctx, out, readsStdin, pipedFrom);
+    return;
+  }
+  if (program === 'su') {
+    raise(entry, 'privileged', 'Switches user with su');
+    const inline = args.indexOf('-c');
+    if (inline !== -1 && ctx.depth < MAX_DEPTH) out.push(...analyzeScript(args[inline + 1] || '', { ...ctx, depth: ctx.depth + 1, sudo: true }));
+    return;
+  }
+  if (WRAPPERS[program]) {
+    let wrapped = skipOptions(args, WRAPPERS[program]);
+    if (program === 'timeout') wrapped = wrapped.slice(1); // Duration
+    if (program === 'xargs' && wrapped.length === 0) return; // Defaults to echo
+    classifyWords(wrapped, entry, ctx, out, readsStdin, pipedFrom);
+    return;
+  }
+  if (program === 'eval') {
+    if (ctx.depth < MAX_DEPTH) out.push(...analyzeScript(args.join(' '), { ...ctx, depth: ctx.depth + 1 }));
+    raise(entry, 'write', 'Evaluates a constructed command');
+    return;
+  }
+  if (INTERPRETERS.has(program) && args[0] === '-m' && ['pip', 'pip3'].includes(args[1])) {
+    classifyBuildTool('pip', args.slice(2), entry);
+    return;
+  }
+  if (SHELLS.has(program) || INTERPRETERS.has(program)) {
+    if (program === 'bun' && args.length > 0 && !args[0].startsWith('-') && !/\.[cm]?[jt]sx?$/.test(args[0])) {
+      classifyPackageManager(program, args, entry);
+      return;
+    }
+    if (SHELLS.has(program) && ctx.depth >= MAX_DEPTH) {
+      raise(entry, 'destructive', 'Nests shells too deeply to analyze');
+      return;
+    }
+    classifyScriptRunner(program, args, entry, ctx, out, readsStdin, pipedFrom);
+    return;
+  }
+  if (program === 'source' || program === '.') {
+    raise(entry, 'write', `Runs ${operandsOf(args)[0] || 'a script'} in the current shell`);
+    return;
+  }
+  if (program === 'cd' || program === 'pushd') {
+    const target = operandsOf(args)[0];
+    const resolved = target ? resolveArg(target, ctx.cwd) : os.homedir();
+    if (resolved) ctx.cwd = resolved;
+    return;
+  }
+  if (program === 'sed') {
+    if (hasFlag(args, 'i', '--in-place') || args.some(arg => arg.startsWith('-i') || arg.startsWith('--in-place='))) {
+      const scripted = args.some(arg => ['-e', '-f', '--expression', '--file'].includes(arg));
+      const files = operandsOf(args.filter((arg, i) => !['-e', '-f', '--expression', '--file'].includes(args[i - 1])));
+      touchPaths(entry, ctx, scripted ? files : files.slice(1), 'Edits in place');
+    }
+    return;
+  }
+  if (AWKS.has(program)) {
+    classifyAwk(program, args, entry, ctx);
+    return;
+  }
+  if (READ_ONLY_COMMANDS.has(program)) return;
+
+  if (NETWORK_COMMANDS.has(program)) {
+    raise(entry, 'network', `${program} talks to the network`);
+    if (program === 'curl') {
+      const targets = [...optionValues(args, 'o', ['--output']), ...optionValues(args, '', ['--output-dir'])].filter(target => target !== '-');
+      if (targets.length > 0) touchPaths(entry, ctx, targets, 'Saves a download to');
+      else if (hasFlag(args, 'O', '--remote-name', '--remote-name-all')) touchPaths(entry, ctx, ['.'], 'Saves a download to');
+    }
+    if (program === 'wget' && !args.some(arg => /^-[a-zA-Z]*O-$/.test(arg) || arg === '--output-document=-' || arg === '--spider')) {
+      const targets = [...optionValues(args, 'O', ['--output-document']), ...optionValues(args, 'P', ['--directory-prefix'])].filter(target => target !== '-');
+      touchPaths(entry, ctx, targets.length > 0 ? targets : ['.'], 'Saves a download to');
+    }
+    return;
+  }
+  if (PRIVILEGED_COMMANDS.has(program)) {
+    if (program === 'crontab' && args.includes('-l')) return;
+    raise(entry, 'privileged', program === 'chown' || program === 'chgrp' ? 'Changes file ownership' : `${program} changes system configuration`);
+    return;
+  }
+  if (program === 'crontab') {
+    if (!args.includes('-l')) raise(entry, 'privileged', 'Changes scheduled jobs');
+    return;
+  }
+  if (SYSTEM_PACKAGE_MANAGERS.has(program)) {
+    classifySystemPackageManager(program, args, entry);
+    return;
+  }
+  if (['shutdown', 'reboot', 'halt', 'poweroff'].includes(program) || (program === 'init' && ['0', '6'].includes(args[0])) || (program === 'systemctl' && ['poweroff', 'reboot', 'halt'].includes(args[0]))) {
+    raise(entry, 'privileged', 'Shuts down or restarts the machine');
+    block(entry, 'Shuts down or restarts the machine');
+    return;
+  }
+  if (/^mkfs(\.|$)/.test(program) || ['fdisk', 'sfdisk', 'parted', 'wipefs'].includes(program) || (program === 'diskutil' && /^erase|^partition/i.test(args[0] || '')) || (program === 'format' && /^[a-z]:$/i.test(args[0] || ''))) {
+    block(entry, 'Formats or repartitions a disk');
+    return;
+  }
+
+  switch (program) {
+    case 'rm':
+    case 'rmdir':
+    case 'unlink':
+    case 'del':
+    case 'erase':
+    case 'rd':
+    case 'shred':
+    case 'srm':
+    case 'trash':
+    case 'rimraf':
+      classifyRemove(program, args, entry, ctx);
+      return;
+    case 'find':
+    case 'fd':
+      classifyFind(args, entry, ctx, out);
+      return;
+    case 'git':
+      classifyGit(args, entry, ctx);
+      return;
+    case 'npm':
+    case 'pnpm':
+    case 'yarn':
+      classifyPackageManager(program, args, entry);
+      return;
+    case 'npx':
+    case 'pnpx':
+    case 'bunx': {
+      const call = args.findIndex(arg => arg === '-c' || arg === '--call');
+      if (call !== -1 && ctx.depth < MAX_DEPTH) out.push(...analyzeScript(args[call + 1] || '', { ...ctx, depth: ctx.depth + 1 }));
+      const wrapped = skipOptions(args, ['-p', '--package', '-c', '--call']);
+      raise(entry, 'write', `Runs ${wrapped[0] || 'a package'} with ${program} (downloads it if missing)`);
+      // The package's command is classified like any other program
+      if (wrapped.length > 0) classifyWords(wrapped, entry, ctx, out, readsStdin, pipedFrom);
+      return;
+    }
+    case 'cargo':
+    case 'go':
+    case 'pip':
+    case 'pip3':
+    case 'pipx':
+    case 'uv':
+    case 'poetry':
+    case 'gem':
+    case 'bundle':
+    case 'composer':
+    case 'brew':
+      classifyBuildTool(program, args, entry);
+      return;
+    case 'docker':
+    case 'podman':
+      classifyContainer(program, args, entry, ctx);
+      return;
+    case 'mkdir':
+      touchPaths(entry, ctx, operandsOf(args.filter((_, i) => args[i - 1] !== '-m')), 'Creates directories');
+      return;
+    case 'touch':
+      touchPaths(entry, ctx, operandsOf(args), 'Creates or updates');
+      return;
+    case 'tee':
+      touchPaths(entry, ctx, operandsOf(args), hasFlag(args, 'a', '--append') ? 'Appends to' : 'Writes');
+      return;
+    case 'cp':
+    case 'ln':
+    case 'install':
+    case 'copy': {
+      const operands = operandsOf(args);
+      const targetOption = args.indexOf('-t');
+      const target = targetOption !== -1 ? args[targetOption + 1] : operands[operands.length - 1];
+      touchPaths(entry, ctx, target ? [target] : [], program === 'ln' ? 'Creates links in' : 'Copies into');
+      return;
+    }
+    case 'mv':
+    case 'move':
+    case 'rename':
+      touchPaths(entry, ctx, operandsOf(args), 'Moves');
+      return;
+    case 'truncate':
+      touchPaths(entry, ctx, operandsOf(args.filter((_, i) => !['-s', '--size'].includes(args[i - 1]))), 'Truncates', 'destructive');
+      return;
+    case 'dd': {
+      const output = args.find(arg => arg.startsWith('of='))?.slice(3);
+      if (output && /^\/dev\/(sd|hd|nvme|disk|rdisk|mmcblk|vd|xvd)/.test(output)) {
+        block(entry, `Overwrites the disk device ${output}`);
+      } else if (output) {
+        touchPaths(entry, ctx, [output], 'Writes raw data to', 'destructive');
+      }
+      return;
+    }
+    case 'chmod': {
+      const operands = operandsOf(args);
+      const mode = operands[0] || '';
+      if (/777|666|[oa]\+[rx]*w|\+[rwxt]*s|^[2-7][0-7]{3}$/.test(mode)) {
+        raise(entry, 'privileged', `Makes files world-writable or setuid (chmod ${mode})`);
+      }
+      touchPaths(entry, ctx, operands.slice(1), 'Changes permissions of');
+      return;
+    }
+    case 'kill':
+    case 'pkill':
+    case 'killall':
+    case 'taskkill':
+      if (!args.includes('-l')) raise(entry, 'destructive', `Stops processes with ${program}`);
+      return;
+  }
+  if (ARCHIVERS.has(program)) {
+    classifyArchive(program, args, entry, ctx);
+    return;
+  }
+  if (INSTALL_TARGET_TOOLS.has(program) && (operandsOf(args).some(target => target === 'install' || target === 'uninstall') || args.includes('--install'))) {
+    raise(entry, 'destructive', `${program} install copies files outside the project`);
+    return;
+  }
+  if (PROJECT_TOOLS.has(program)) {
+    raise(entry, 'write', `Runs ${program}`);
+    return;
+  }
+
+  // Scripts in the project (./build.sh) and anything unknown could do anything
+  raise(entry, 'destructive', `Runs ${program}, which is not recognized and could do anything`);
+}
+
+function classifyInto(words: string[], text: string, entry: SubCommandAnalysis, ctx: AnalysisContext, out: SubCommandAnalysis[]) {
+  const nested: SubCommandAnalysis = { command: text, program: '', risk: 'read-only', reasons: [], sudo: ctx.sudo, blocked: null, redirects: [], interactive: false };
+  classifyWords(words, nested, ctx, out, false, null);
+  for (const reason of nested.reasons) raise(entry, nested.risk, reason);
+  if (riskRank(nested.risk) > riskRank(entry.risk)) entry.risk = nested.risk;
+  entry.sudo = entry.sudo || nested.sudo;
+  entry.blocked = entry.blocked || nested.blocked;
+}
+
+function analyzeScript(script: string, parent: AnalysisContext): SubCommandAnalysis[] {
+  const { tokens, substitutions } = tokenize(script);
+  const ctx: AnalysisContext = { ...parent };
+  const results: SubCommandAnalysis[] = [];
+  const bySource = new Map<SimpleCommand, SubCommandAnalysis>();
+
+  for (const command of splitCommands(tokens)) {
+    const entry: SubCommandAnalysis = {
+      command: command.text,
+      program: '',
+      risk: ctx.sudo ? 'privileged' : 'read-only',
+      reasons: ctx.sudo ? ['Runs as root'] : [],
+      sudo: ctx.sudo,
+      blocked: null,
+      redirects: [],
+      interactive: false,
+    };
+    const nested: SubCommandAnalysis[] = [];
+    const readsStdin = command.redirects.some(r => r.op.startsWith('<<') || r.op === '<');
+    const pipedFrom = command.pipedFrom ? bySource.get(command.pipedFrom) || null : null;
+    classifyWords(command.words.map(w => w.value), entry, ctx, nested, readsStdin, pipedFrom);
+
+    for (const { op, target } of command.redirects) {
+      // Only output redirections to real files write anything ("2>&1" duplicates a descriptor)
+      if (!op.includes('>') || op.endsWith('&') || !target || IGNORED_REDIRECT_TARGETS.has(target) || /^\d+$|^-$/.test(target)) continue;
+      entry.redirects.push(target);
+      if (/^\/dev\/(sd|hd|nvme|disk|rdisk|mmcblk|vd|xvd)/.test(target)) {
+        block(entry, `Overwrites the disk device ${target}`);
+      } else {
+        touchPaths(entry, ctx, [target], op.includes('>>') ? 'Appends output to' : 'Writes output to');
+      }
+    }
+
+    bySource.set(command, entry);
+    results.push(entry, ...nested);
+  }
+
+  if (ctx.depth < MAX_DEPTH) {
+    for (const substitution of substitutions) {
+      results.push(...analyzeScript(substitution, { ...parent, depth: parent.depth + 1 }));
+    }
+  }
+  return results;
+}
+
+/**
+ * Classify a command line. `cwd` is where it will run (defaults to the project root)
+ * and decides which relative paths are inside the project.
+ */
+export function analyzeCommand(command: string, cwd?: string): CommandAnalysis {
+  const commands = analyzeScript(command, {
+    cwd: cwd ? path.resolve(cwd) : pathJail.getProjectRoot() || process.cwd(),
+    depth: 0,
+    sudo: false,
+  });
+
+  let risk: CommandRisk = 'read-only';
+  const reasons: string[] = [];
+  for (const sub of commands) {
+    if (riskRank(sub.risk) > riskRank(risk)) risk = sub.risk;
+    for (const reason of sub.reasons) {
+      if (!reasons.includes(reason)) reasons.push(reason);
+    }
+  }
+
+  let blocked = commands.find(sub => sub.blocked)?.blocked || null;
+  if (!blocked && FORK_BOMB.test(command)) blocked = 'Fork bomb';
+  if (blocked && !reasons.includes(blocked)) reasons.unshift(blocked);
+
+  return {
+    command,
+    risk: blocked && riskRank(risk) < riskRank('destructive') ? 'destructive' : risk,
+    commands,
+    reasons,
+    sudo: commands.some(sub => sub.sudo),
+    blocked,
+    interactive: commands.some(sub => sub.interactive),
+  };
+}
+
+/**
+ * Approval is needed before running anything destructive or privileged
+ */
+export function needsApproval(analysis: CommandAnalysis): boolean {
+  return riskRank(analysis.risk) >= riskRank('destructive');
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { commandRunner, summarizeOutput } from './command-runner.service';
+
+describe('commandRunner', () => {
+  it('streams output and reports the exit code', async () => {
+    const chunks: string[] = [];
+    const outcome = await commandRunner.run('echo', 'echo hi; exit 3', { onOutput: (_, data) => chunks.push(data) });
+    expect(outcome).toMatchObject({ stdout: 'hi\n', exitCode: 3, killed: false, timedOut: false });
+    expect(chunks.join('')).toBe('hi\n');
+  });
+
+  it.skipIf(process.platform === 'win32')('sends SIGKILL to commands that ignore SIGTERM', async () => {
+    const run = commandRunner.run('stubborn', "trap '' TERM; sleep 30", { timeout: 0 });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const started = Date.now();
+    expect(commandRunner.kill('stubborn')).toBe(true);
+    const outcome = await run;
+    expect(outcome.killed).toBe(true);
+    expect(Date.now() - started).toBeLessThan(10000);
+  }, 15000);
+});
+
+describe('summarizeOutput', () => {
+  it('keeps the head and tail of long output', () => {
+    expect(summarizeOutput('a'.repeat(10) + 'b'.repeat(10), 10)).toBe('aaaaa\n... [10 characters omitted] ...\nbbbbb');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Command Runner
+ * Spawns shell commands with streamed stdout/stderr, writable stdin and a kill
+ * switch. Used by the agent's execute_command/run_tests tools and by the
+ * execute-command IPC handler once the user approves a command.
+ *
+ * Every process is registered under an id (the tool call id) so the renderer
+ * can send input to it or kill it through 'command:write-stdin' / 'command:kill'.
+ */
+import { spawn, ChildProcess } from 'child_process';
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface CommandRunOptions {
+  cwd?: string;
+  timeout?: number; // ms, 0 disables
+  group?: string; // Lets a cancelled agent run kill only its own commands
+  onOutput?: (stream: OutputStream, data: string) => void;
+}
+
+export interface CommandOutcome {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  killed: boolean;
+  timedOut: boolean;
+  error?: string;
+}
+
+// How long a killed command gets to exit after SIGTERM before it is sent SIGKILL
+const KILL_GRACE_MS = 5000;
+
+// Head and tail kept per stream; the middle of very long output is dropped
+const BUFFER_EDGE_CHARS = 512 * 1024;
+
+/**
+ * Keeps the beginning and end of a stream without holding all of it in memory
+ */
+class OutputBuffer {
+  private head = '';
+  private tail = '';
+  private dropped = 0;
+
+  append(data: string) {
+    if (this.head.length < BUFFER_EDGE_CHARS) {
+      const room = BUFFER_EDGE_CHARS - this.head.length;
+      this.head += data.slice(0, room);
+      data = data.slice(room);
+    }
+    if (!data) return;
+    this.tail += data;
+    if (this.tail.length > BUFFER_EDGE_CHARS) {
+      this.dropped += this.tail.length - BUFFER_EDGE_CHARS;
+      this.tail = this.tail.slice(-BUFFER_EDGE_CHARS);
+    }
+  }
+
+  toString(): string {
+    return this.dropped > 0
+      ? `${this.head}\n... [${this.dropped} characters omitted] ...\n${this.tail}`
+      : this.head + this.tail;
+  }
+}
+
+/**
+ * Head/tail summary of command output for the model
+ */
+export function summarizeOutput(output: string, maxChars: number = 8000): string {
+  if (output.length <= maxChars) return output;
+  const edge = Math.floor(maxChars / 2);
+  const omitted = output.length - edge * 2;
+  return `${output.slice(0, edge)}\n... [${omitted} characters omitted] ...\n${output.slice(-edge)}`;
+}
+
+class CommandRunner {
+  private processes: Map<string, { child: ChildProcess; group?: string; killed: boolean }> = new Map();
+
+  run(id: string, command: string, options: CommandRunOptions = {}): Promise<CommandOutcome> {
+    const { cwd, timeout = 300000, group, onOutput } = options;
+    const stdout = new OutputBuffer();
+    const stderr = new OutputBuffer();
+
+    return new Promise((resolve) => {
+      let child: ChildProcess;
+      try {
+        child = spawn(command, [], {
+          cwd,
+          shell: true,
+          env: process.env,
+          stdio: ['pipe', 'pipe', 'pipe'],
+          // Own process group on POSIX so kill() reaches everything the shell started
+          detached: process.platform !== 'win32',
+          windowsHide: true,
+        });
+      } catch (error: any) {
+        resolve({ stdout: '', stderr: '', exitCode: -1, killed: false, timedOut: false, error: error.message || String(error) });
+        return;
+      }
+
+      const entry = { child, group, killed: false };
+      this.processes.set(id, entry);
+      let timedOut = false;
+      let settled = false;
+
+      const timer = timeout > 0
+        ? setTimeout(() => {
+          timedOut = true;
+          this.kill(id);
+        }, timeout)
+        : null;
+
+      const finish = (exitCode: number, error?: string) => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        if (this.processes.get(id) === entry) this.processes.delete(id);
+        resolve({
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          exitCode,
+          killed: entry.killed,
+          timedOut,
+          error: error || (timedOut ? 'Command timed out' : entry.killed ? 'Command was stopped' : undefined),
+        });
+      };
+
+      child.stdout?.on('data', (data: Buffer) => {
+        const text = data.toString();
+        stdout.append(text);
+        onOutput?.('stdout', text);
+      });
+      child.stderr?.on('data', (data: Buffer) => {
+        const text = data.toString();
+        stderr.append(text);
+        onOutput?.('stderr', text);
+      });
+      // Writing to a process that already exited must not crash the main process
+      child.stdin?.on('error', () => {});
+
+      child.on('close', (code, signal) => finish(code ?? (signal ? 1 : 0)));
+      child.on('error', (error) => finish(-1, error.message));
+    });
+  }
+
+  isRunning(id: string): boolean {
+    return this.processes.has(id);
+  }
+
+  writeStdin(id: string, data: string): boolean {
+    const entry = this.processes.get(id);
+    if (!entry?.child.stdin || entry.child.stdin.destroyed) return false;
+    entry.child.stdin.write(data);
+    return true;
+  }
+
+  /**
+   * Stop a command: SIGTERM to its process group, then SIGKILL if anything
+   * still holds its output open after KILL_GRACE_MS
+   */
+  kill(id: string): boolean {
+    const entry = this.processes.get(id);
+    if (!entry || entry.child.pid === undefined) return false;
+    const pid = entry.child.pid;
+    const alreadyKilled = entry.killed;
+    entry.killed = true;
+    console.log(`[CommandRunner] Killing ${id} (pid ${pid})`);
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true });
+      return true;
+    }
+    this.signal(entry.child, 'SIGTERM');
+    if (!alreadyKilled) {
+      setTimeout(() => {
+        // The entry is removed once the command's output closes
+        if (this.processes.get(id) !== entry) return;
+        console.log(`[CommandRunner] ${id} (pid ${pid}) ignored SIGTERM, sending SIGKILL`);
+        this.signal(entry.child, 'SIGKILL');
+      }, KILL_GRACE_MS).unref();
+    }
+    return true;
+  }
+
+  private signal(child: ChildProcess, signal: NodeJS.Signals) {
+    try {
+      process.kill(-child.pid!, signal);
+    } catch {
+      child.kill(signal);
+    }
+  }
+
+  /**
+   * Kill every running command, or only those started for `group`
+   */
+  killAll(group?: string) {
+    for (const [id, entry] of this.processes) {
+      if (group === undefined || entry.group === group) this.kill(id);
+    }
+  }
+}
+
+export const commandRunner = new CommandRunner();
@@ -0,0 +1,200 @@
+/**
+ * Commit Message Service
+ * Writes commit messages for the staged diff and pull request descriptions
+ * for the current branch with the provider selected in the renderer.
+ *
+ * Diffs that do not fit in one request are split per file into chunks,
+ * each chunk is summarized first and the final prompt gets the summaries.
+ */
+import { gitService, GitError, GitDiffFile } from './git.service';
+import type { AIBackendService, ChatOptions } from './ai-backend.service';
+
+export interface GeneratedCommitMessage {
+  subject: string;
+  body: string;
+  message: string; // subject and body joined the way git expects
+}
+
+export interface GeneratedPullRequest {
+  base: string;
+  title: string;
+  body: string; // Markdown
+  commits: number;
+}
+
+const MAX_DIFF_CHARS = 16000; // Diffs up to this size are sent as they are
+const CHUNK_CHARS = 12000;
+const MAX_CHUNKS = 8; // Files beyond this are only listed by name
+const STYLE_SAMPLE_SIZE = 15;
+const MAX_PR_COMMITS = 50;
+
+const CONVENTIONAL_SUBJECT = /^[a-z]+(\([^)]+\))?!?: \S/;
+
+const SUMMARY_INSTRUCTION = `You summarize part of a git diff for someone who will write the commit message.
+List what changed and why it appears to have changed as short bullet points, one per logical change.
+Mention file names, functions and behavior. Do not invent anything that is not in the diff.`;
+
+const COMMIT_INSTRUCTION = `You write git commit messages.
+Reply with the commit message only: a subject line, a blank line, then the body.
+- Subject: imperative mood, at most 72 characters, no trailing period.
+- Body: explain what changed and why, wrapped at 72 characters. Use "-" bullets for several independent changes. Leave the body out for trivial changes.
+- Do not wrap the message in quotes or code fences and do not add any commentary.`;
+
+const PR_INSTRUCTION = `You write pull request descriptions.
+Reply with the title on the first line, a blank line, then the description in Markdown.
+- Title: at most 72 characters, describing the branch as a whole.
+- Description: a "## Summary" section of one or two sentences, a "## Changes" section with bullet points, and a "## Testing" section that suggests how a reviewer can verify the change.
+- Do not wrap the reply in code fences and do not add any commentary.`;
+
+/**
+ * One section per file, split at the `diff --git` headers
+ */
+function splitByFile(patch: string): string[] {
+  return patch.split(/^(?=diff --git )/m).filter(section => section.trim());
+}
+
+function formatStat(files: GitDiffFile[]): string {
+  return files
+    .map(file => {
+      const name = file.from ? `${file.from} -> ${file.path}` : file.path;
+      return file.binary ? `${name} (binary)` : `${name} (+${file.additions} -${file.deletions})`;
+    })
+    .join('\n');
+}
+
+/**
+ * Models like to wrap their answer in fences or quotes even when told not to
+ */
+function cleanReply(text: string): string {
+  let cleaned = text.trim();
+  const fenced = cleaned.match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+  if (fenced) cleaned = fenced[1].trim();
+  if (/^(["'`]).*\1$/s.test(cleaned)) cleaned = cleaned.slice(1, -1).trim();
+  return cleaned;
+}
+
+function splitTitle(text: string, label: string): { title: string; body: string } {
+  const lines = cleanReply(text).split('\n');
+  const title = (lines.shift() || '').replace(new RegExp(`^(\\*\\*)?${label}:?(\\*\\*)?:?\\s*`, 'i'), '').replace(/^#+\s*/, '').trim();
+  return { title, body: lines.join('\n').trim() };
+}
+
+export class CommitMessageService {
+  constructor(private aiBackend: Pick<AIBackendService, 'complete'>) {}
+
+  /**
+   * Commit message for the staged changes, following the repository's
+   * recent subject style
+   */
+  async generateCommitMessage(options: ChatOptions): Promise<GeneratedCommitMessage> {
+    const { files, patch } = await gitService.diff({ staged: true });
+    if (!patch.trim() && files.length === 0) {
+      throw new GitError('No staged changes. Stage the changes to describe first.');
+    }
+
+    const recent = await gitService.log({ maxCount: STYLE_SAMPLE_SIZE });
+    const changes = await this.describeDiff(patch, files, options);
+
+    const prompt = [
+      this.styleGuide(recent.map(commit => commit.subject)),
+      `Files changed:\n${formatStat(files)}`,
+      changes,
+      'Write the commit message for these staged changes.',
+    ].join('\n\n');
+
+    const reply = await this.aiBackend.complete(COMMIT_INSTRUCTION, prompt, options);
+    const { title: subject, body } = splitTitle(reply, 'subject');
+    if (!subject) throw new Error('The model returned an empty commit message');
+
+    console.log(`[CommitMessage] Generated commit message for ${files.length} staged file(s)`);
+    return { subject, body, message: body ? `${subject}\n\n${body}` : subject };
+  }
+
+  /**
+   * Pull request title and description for the commits on the current
+   * branch that are not on `base`
+   */
+  async generatePullRequest(base: string, options: ChatOptions): Promise<GeneratedPullRequest> {
+    const status = await gitService.status();
+    const branch = status.branch || 'HEAD';
+    if (branch === base) {
+      throw new GitError(`The current branch is ${base}; switch to the branch to describe first.`);
+    }
+
+    const commits = await gitService.log({ ref: `${base}..HEAD`, maxCount: MAX_PR_COMMITS });
+    if (commits.length === 0) {
+      throw new GitError(`${branch} has no commits that are not on ${base}`);
+    }
+    // Three dots: the changes since the branch point, not the difference to base's tip
+    const { files, patch } = await gitService.diff({ ref: `${base}...HEAD` });
+    const changes = await this.describeDiff(patch, files, options);
+
+    const commitList = commits
+      .map(commit => `- ${commit.subject}${commit.body ? `\n  ${commit.body.split('\n').join('\n  ')}` : ''}`)
+      .join('\n');
+    const prompt = [
+      `Branch ${branch} is to be merged into ${base}.`,
+      `Commits (newest first):\n${commitList}`,
+      `Files changed:\n${formatStat(files)}`,
+      changes,
+      'Write the pull request title and description.',
+    ].join('\n\n');
+
+    const reply = await this.aiBackend.complete(PR_INSTRUCTION, prompt, options);
+    const { title, body } = splitTitle(reply, 'title');
+    if (!title) throw new Error('The model returned an empty pull request description');
+
+    console.log(`[CommitMessage] Generated pull request description for ${branch} against ${base}`);
+    return { base, title, body, commits: commits.length };
+  }
+
+  private styleGuide(subjects: string[]): string {
+    if (subjects.length === 0) {
+      return 'This is the first commit of the repository. Use a conventional-commit subject such as "feat: ..." or "fix(scope): ...".';
+    }
+    const conventional = subjects.filter(subject => CONVENTIONAL_SUBJECT.test(subject)).length;
+    const guide = conventional * 2 >= subjects.length
+      ? 'The repository uses conventional commits. Use the same types and scopes as these recent subjects:'
+      : 'Use a conventional-commit subject such as "feat: ..." or "fix(scope): ...", unless the recent subjects below clearly follow another convention (ticket prefixes, tags in brackets, capitalization); then match theirs:';
+    return `${guide}\n${subjects.map(subject => `- ${subject}`).join('\n')}`;
+  }
+
+  /**
+   * The diff itself when it is small enough, otherwise summaries of it
+   */
+  private async describeDiff(patch: string, files: GitDiffFile[], options: ChatOptions): Promise<string> {
+    if (patch.length <= MAX_DIFF_CHARS) {
+      return `Diff:\n${patch}`;
+    }
+
+    const chunks: string[] = [];
+    let current = '';
+    let omitted = 0;
+    for (let section of splitByFile(patch)) {
+      if (section.length > CHUNK_CHARS) {
+        section = `${section.slice(0, CHUNK_CHARS)}\n[... rest of this file's diff truncated]\n`;
+      }
+      if (current && current.length + section.length > CHUNK_CHARS) {
+        chunks.push(current);
+        current = '';
+      }
+      if (chunks.length >= MAX_CHUNKS) {
+        omitted++;
+        continue;
+      }
+      current += section;
+    }
+    if (current && chunks.length < MAX_CHUNKS) chunks.push(current);
+
+    console.log(`[CommitMessage] Summarizing a ${patch.length} character diff in ${chunks.length} chunk(s)`);
+    // One at a time, parallel requests run into provider rate limits
+    const summaries: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      const summary = await this.aiBackend.complete(SUMMARY_INSTRUCTION, `Diff part ${i + 1} of ${chunks.length}:\n${chunks[i]}`, options);
+      summaries.push(summary.trim());
+    }
+
+    const note = omitted > 0 ? `\n\n${omitted} more file(s) changed; see the file list above.` : '';
+    return `The diff is too large to include; summaries of its parts:\n\n${summaries.join('\n\n')}${note}`;
+  }
+}
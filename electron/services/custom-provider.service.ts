@@ -0,0 +1,85 @@
+/**
+ * Custom Provider Service
+ * User-configured OpenAI-compatible endpoints (LM Studio, llama.cpp server, vLLM, ...)
+ * Endpoint: {baseUrl}/chat/completions, models discovered via {baseUrl}/models
+ */
+import { OpenAICompatibleService, SYSTEM_INSTRUCTION } from './openai-compatible.service';
+import { FALLBACK_TOOL_INSTRUCTION } from './tool-definitions';
+
+export interface CustomEndpointConfig {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. http://localhost:8080/v1
+  apiKey?: string;
+  headers?: Record<string, string>;
+  toolMode: 'native' | 'emulated';
+  models?: string[];
+}
+
+export class CustomProviderService extends OpenAICompatibleService {
+  readonly name = 'CustomProviderService';
+  readonly displayName: string;
+  readonly defaultModel: string;
+  readonly requiresApiKey = false; // Local servers usually run without auth
+  protected baseUrl: string;
+  private config: CustomEndpointConfig;
+
+  constructor(config: CustomEndpointConfig) {
+    super();
+    this.config = config;
+    this.displayName = config.name || 'Custom endpoint';
+    this.defaultModel = config.models?.[0] || '';
+    // Normalize so relative paths like 'chat/completions' resolve under the version prefix
+    this.baseUrl = config.baseUrl.trim().replace(/\/*$/, '/');
+    this.nativeTools = config.toolMode !== 'emulated';
+  }
+
+  buildSystemInstruction(availableFunctions: string): string {
+    const instruction = SYSTEM_INSTRUCTION(availableFunctions);
+    return this.nativeTools ? instruction : instruction + FALLBACK_TOOL_INSTRUCTION;
+  }
+
+  protected getHeaders(apiKey?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...(this.config.headers || {}),
+    };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Discover models served by the endpoint (GET /models)
+   */
+  async listModels(): Promise<{ success: boolean; models: any[]; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}models`, {
+        method: 'GET',
+        headers: this.getHeaders(this.config.apiKey),
+        signal: AbortSignal.timeout(10000),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        return { success: false, models: [], error: `${this.displayName} returned ${response.status}: ${errorText.substring(0, 200)}` };
+      }
+
+      const json: any = await response.json();
+      const models = (json.data || json.models || []).map((m: any) => {
+        const id = m.id || m.name;
+        return {
+          id,
+          name: id,
+          desc: `Served by ${this.displayName}`,
+          limits: 'Custom endpoint',
+          provider: 'custom',
+        };
+      });
+      return { success: true, models };
+    } catch (error: any) {
+      console.error(`[CustomProviderService] Failed to list models for ${this.baseUrl}:`, error);
+      return { success: false, models: [], error: error.message || String(error) };
+    }
+  }
+}
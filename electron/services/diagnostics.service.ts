@@ -0,0 +1,128 @@
+/**
+ * Diagnostics Service
+ * The get_diagnostics tool: ESLint and TypeScript compiler problems for some
+ * files or the whole project, merged into one compact list so the model can
+ * check its own edits without running the tools through the shell.
+ */
+import * as path from 'path';
+import { eslintService, ESLintResult } from './eslint.service';
+import { typeCheckService, TypeDiagnostic } from './typecheck.service';
+import { pathJail, PathJailError } from './path-jail.service';
+
+export type DiagnosticSource = 'eslint' | 'typescript';
+
+export interface Diagnostic {
+  path: string; // Relative to the project root
+  line: number;
+  column: number;
+  severity: 'error' | 'warning' | 'info';
+  source: DiagnosticSource;
+  code: string | null; // ESLint rule or TS error code
+  message: string;
+}
+
+const SOURCES: DiagnosticSource[] = ['eslint', 'typescript'];
+const SEVERITY_RANK = { error: 0, warning: 1, info: 2 };
+const MAX_DIAGNOSTICS = 200;
+const MAX_MESSAGE_CHARS = 400;
+
+function relativeTo(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/');
+}
+
+export function fromESLint(root: string, result: ESLintResult): Diagnostic[] {
+  return result.diagnostics.map(d => ({
+    path: relativeTo(root, result.filePath),
+    line: d.line,
+    column: d.column,
+    severity: d.severity,
+    source: 'eslint' as const,
+    code: d.ruleId,
+    message: d.message,
+  }));
+}
+
+export function fromTypeScript(root: string, d: TypeDiagnostic): Diagnostic {
+  return {
+    path: d.filePath ? relativeTo(root, d.filePath) : '',
+    line: d.line,
+    column: d.column,
+    severity: d.severity,
+    source: 'typescript',
+    code: d.code,
+    message: d.message,
+  };
+}
+
+export function compareDiagnostics(a: Diagnostic, b: Diagnostic): number {
+  return SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column;
+}
+
+/**
+ * Problems from every requested source; a source that cannot run (no config,
+ * not installed) adds a note instead of failing the others
+ */
+export async function collectDiagnostics(
+  root: string,
+  files?: string[],
+  sources: DiagnosticSource[] = SOURCES,
+): Promise<{ diagnostics: Diagnostic[]; notes: string[] }> {
+  const diagnostics: Diagnostic[] = [];
+  const notes: string[] = [];
+
+  if (sources.includes('eslint')) {
+    if (!eslintService.isEnabled()) {
+      notes.push('ESLint is turned off in the settings');
+    } else {
+      try {
+        for (const result of await eslintService.lintProject(root, files)) {
+          diagnostics.push(...fromESLint(root, result));
+        }
+      } catch (error: any) {
+        notes.push(`ESLint did not run: ${error.message.split('\n')[0]}`);
+      }
+    }
+  }
+
+  if (sources.includes('typescript')) {
+    try {
+      const result = await typeCheckService.check(root, files);
+      notes.push(...result.notes);
+      diagnostics.push(...result.diagnostics.map(d => fromTypeScript(root, d)));
+    } catch (error: any) {
+      notes.push(`TypeScript did not run: ${error.message.split('\n')[0]}`);
+    }
+  }
+
+  diagnostics.sort(compareDiagnostics);
+  return { diagnostics, notes };
+}
+
+/**
+ * get_diagnostics: errors first, capped, with counts for what was left out
+ */
+export async function getDiagnostics(args: { paths?: string[]; sources?: DiagnosticSource[]; include_warnings?: boolean }): Promise<any> {
+  try {
+    const root = pathJail.getProjectRoot();
+    if (!root) return { error: 'No project folder is open' };
+    const files = Array.isArray(args.paths) && args.paths.length > 0 ? args.paths.map(p => pathJail.resolve(p)) : undefined;
+    const sources = Array.isArray(args.sources) ? SOURCES.filter(source => args.sources!.includes(source)) : SOURCES;
+
+    const { diagnostics, notes } = await collectDiagnostics(root, files, sources.length > 0 ? sources : SOURCES);
+    const shown = diagnostics.filter(d => d.severity === 'error' || (args.include_warnings !== false && d.severity === 'warning'));
+    const errors = diagnostics.filter(d => d.severity === 'error').length;
+    return {
+      scope: files ? files.map(f => relativeTo(root, f)) : 'project',
+      errors,
+      warnings: diagnostics.filter(d => d.severity === 'warning').length,
+      diagnostics: shown.slice(0, MAX_DIAGNOSTICS).map(d => ({
+        ...d,
+        message: d.message.length > MAX_MESSAGE_CHARS ? `${d.message.slice(0, MAX_MESSAGE_CHARS)}...` : d.message,
+      })),
+      ...(shown.length > MAX_DIAGNOSTICS && { omitted: shown.length - MAX_DIAGNOSTICS }),
+      ...(notes.length > 0 && { notes }),
+    };
+  } catch (error: any) {
+    return { error: error.message || String(error), ...(error instanceof PathJailError && { code: error.code }) };
+  }
+}
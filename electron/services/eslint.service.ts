@@ -23,11 +23,14 @@ export interface ESLintResult {
   error?: string;
 }
 
+const LINTABLE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'];
+
 export class ESLintService {
   private eslint: any = null;
   private mainWindow: BrowserWindow | null = null;
   private enabled: boolean = true;
   private configPath: string | null = null;
+  private projectLinters = new Map<string, any>();
 
   constructor() {
     this.initializeESLint();
@@ -72,7 +75,7 @@ export class ESLintService {
     try {
       // Only lint JavaScript/TypeScript files
       const ext = path.extname(filePath).toLowerCase();
-      if (!['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'].includes(ext)) {
+      if (!LINTABLE_EXTENSIONS.includes(ext)) {
         return { filePath, diagnostics: [] };
       }
 
@@ -83,19 +86,7 @@ export class ESLintService {
         return { filePath, diagnostics: [] };
       }
 
-      const result = results[0];
-      const diagnostics: ESLintDiagnostic[] = result.messages.map((msg: any) => ({
-        severity: this.getSeverity(msg.severity),
-        message: msg.message,
-        line: msg.line,
-        column: msg.column,
-        endLine: msg.endLine || msg.line,
-        endColumn: msg.endColumn || msg.column,
-        ruleId: msg.ruleId || null,
-        source: msg.source || '',
-      }));
-
-      return { filePath, diagnostics };
+      return { filePath, diagnostics: this.toDiagnostics(results[0].messages) };
     } catch (error: any) {
       console.error('[ESLint] Error linting file:', error.message);
       return { 
@@ -106,6 +97,20 @@ export class ESLintService {
     }
   }
 
+  // Messages without a position (fatal config errors) point at the top of the file
+  private toDiagnostics(messages: any[]): ESLintDiagnostic[] {
+    return messages.map((msg: any) => ({
+      severity: this.getSeverity(msg.severity),
+      message: msg.message,
+      line: msg.line || 1,
+      column: msg.column || 1,
+      endLine: msg.endLine || msg.line || 1,
+      endColumn: msg.endColumn || msg.column || 1,
+      ruleId: msg.ruleId || null,
+      source: msg.source || '',
+    }));
+  }
+
   private getSeverity(eslintSeverity: number): 'error' | 'warning' | 'info' {
     switch (eslintSeverity) {
       case 2: return 'error';
@@ -126,7 +131,41 @@ export class ESLintService {
     return results;
   }
 
+  /**
+   * Lint files on disk the way the project lints itself: with its own ESLint
+   * (the app's when it has none) and its config, relative to its root.
+   * Without files, lints the whole project. Throws when ESLint has no config.
+   */
+  async lintProject(root: string, files?: string[]): Promise<ESLintResult[]> {
+    let eslint = this.projectLinters.get(root);
+    if (!eslint) {
+      const modulePath = require.resolve('eslint', { paths: [root, __dirname] });
+      const { ESLint } = await import(modulePath);
+      eslint = new ESLint({ cwd: root, fix: false, errorOnUnmatchedPattern: false });
+      this.projectLinters.set(root, eslint);
+    }
+
+    const targets: string[] = [];
+    for (const file of files || []) {
+      if (LINTABLE_EXTENSIONS.includes(path.extname(file).toLowerCase()) && !(await eslint.isPathIgnored(file))) {
+        targets.push(file);
+      }
+    }
+    if (files && targets.length === 0) return [];
+
+    const results = await eslint.lintFiles(files ? targets : ['.']);
+    return results.map((result: any) => ({ filePath: result.filePath, diagnostics: this.toDiagnostics(result.messages) }));
+  }
+
+  /**
+   * Forget the project's linter so its next run picks up changed config files
+   */
+  clearProjectLinter(root: string) {
+    this.projectLinters.delete(root);
+  }
+
   async reloadConfig() {
+    this.projectLinters.clear();
     await this.initializeESLint();
   }
 }
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { rankPaths, scorePath } from './file-finder.service';
+
+const ranked = (paths: string[], query: string, options = {}) => rankPaths(paths, query, options).map(match => match.path);
+
+describe('scorePath', () => {
+  it('needs every term to match in order', () => {
+    expect(scorePath('src/components/Button.tsx', ['btn'])).not.toBeNull();
+    expect(scorePath('src/components/Button.tsx', ['tsxsrc'])).toBeNull();
+    expect(scorePath('src/components/Button.tsx', ['comp', 'butt'])).not.toBeNull();
+    expect(scorePath('src/components/Button.tsx', ['comp', 'zzz'])).toBeNull();
+  });
+
+  it('matches lowercase terms in either case and terms with capitals exactly', () => {
+    expect(scorePath('src/FileTree.tsx', ['filetree'])).not.toBeNull();
+    expect(scorePath('src/FileTree.tsx', ['FT'])).not.toBeNull();
+    expect(scorePath('src/filetree.tsx', ['FT'])).toBeNull();
+  });
+
+  it('prefers consecutive characters and word starts', () => {
+    const consecutive = scorePath('src/button.ts', ['butt'])!;
+    const scattered = scorePath('src/b_u_t_t.ts', ['butt'])!;
+    expect(consecutive).toBeGreaterThan(scattered);
+    expect(scorePath('src/fileTree.ts', ['ft'])!).toBeGreaterThan(scorePath('src/softer.ts', ['ft'])!);
+  });
+
+  it('prefers a match in the file name over one across folders', () => {
+    expect(scorePath('lib/other/index.ts', ['index'])!).toBeGreaterThan(scorePath('index/lib/other.ts', ['index'])!);
+  });
+
+  it('collects the matched positions', () => {
+    const positions: number[] = [];
+    scorePath('src/app.ts', ['app'], undefined, positions);
+    expect(positions).toEqual([4, 5, 6]);
+  });
+});
+
+describe('rankPaths', () => {
+  const paths = [
+    'src/components/ChatInterface.tsx',
+    'src/components/chat/ChatMessage.tsx',
+    'src/services/chat.service.ts',
+    'docs/chatting-guide.md',
+    'src/index.ts',
+  ];
+
+  it('puts the exact file name first', () => {
+    expect(ranked(paths, 'chat.service')[0]).toBe('src/services/chat.service.ts');
+    expect(ranked(paths, 'index')[0]).toBe('src/index.ts');
+  });
+
+  it('keeps only the best matches, sorted', () => {
+    const all = rankPaths(paths, 'chat');
+    expect(all.map(match => match.path)).toHaveLength(4);
+    expect(all.map(match => match.score)).toEqual([...all.map(match => match.score)].sort((a, b) => b - a));
+    expect(ranked(paths, 'chat', { limit: 2 })).toEqual(all.slice(0, 2).map(match => match.path));
+  });
+
+  it('breaks ties by the shorter path', () => {
+    expect(ranked(['b/long/util.ts', 'a/util.ts'], 'util.ts')).toEqual(['a/util.ts', 'b/long/util.ts']);
+  });
+
+  it('boosts recent files and lists them for an empty query', () => {
+    const recent = ['docs/chatting-guide.md', 'src/gone.ts', 'src/index.ts'];
+    expect(ranked(paths, 'chat', { recent })[0]).toBe('docs/chatting-guide.md');
+    expect(ranked(paths, '  ', { recent })).toEqual(['docs/chatting-guide.md', 'src/index.ts']);
+  });
+
+  it('returns sorted, unique positions for highlighting', () => {
+    const [match] = rankPaths(['src/app/app.ts'], 'app app');
+    expect(match.positions).toEqual([...new Set(match.positions)].sort((a, b) => a - b));
+  });
+
+  it('ranks a 100k-file project quickly', () => {
+    const folders = ['src', 'lib', 'test', 'packages/core', 'packages/ui/components', 'node_modules/some-dependency/dist'];
+    const words = ['button', 'service', 'index', 'helper', 'config', 'parser', 'renderer', 'store', 'utils', 'types'];
+    const large: string[] = [];
+    for (let i = 0; i < 100000; i++) {
+      large.push(`${folders[i % folders.length]}/${words[i % words.length]}${i % 97}/${words[(i * 7) % words.length]}-${i}.ts`);
+    }
+
+    const started = performance.now();
+    const matches = rankPaths(large, 'ser', { limit: 50 });
+    rankPaths(large, 'pkg ui btn');
+    const elapsed = performance.now() - started;
+
+    expect(matches).toHaveLength(50);
+    // Well under a second on a laptop; the bound leaves room for slow CI machines
+    expect(elapsed).toBeLessThan(3000);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * File Finder Service
+ * fzf-style fuzzy ranking of project paths for quick open and the Sidebar's
+ * file search. A match rewards consecutive characters and characters at the
+ * start of path segments and words, prefers the file name over its folders
+ * and boosts recently opened files. Each candidate is scored in one pass so
+ * that ranking stays fast on very large projects.
+ */
+
+export interface FileMatch {
+  path: string; // As given
+  score: number;
+  positions: number[]; // Matched character indexes, for highlighting
+}
+
+export interface RankOptions {
+  recent?: string[]; // Most recently opened first, in the same form as the paths
+  limit?: number;
+}
+
+const SCORE_MATCH = 16;
+const SCORE_GAP_START = -3;
+const SCORE_GAP_EXTENSION = -1;
+const BONUS_SEPARATOR = 9; // After a path separator
+const BONUS_BOUNDARY = 8; // After _ - . or a space
+const BONUS_CAMEL = 7; // fooBar, foo1
+const BONUS_CONSECUTIVE = 4;
+const BONUS_FIRST_CHAR_MULTIPLIER = 2;
+const BONUS_BASENAME = 24; // A term matched within the file name
+const BONUS_RECENT = 40; // For the most recent file, fading with age
+const DEFAULT_LIMIT = 100;
+
+function isSeparator(char: string): boolean {
+  return char === '/' || char === '\\';
+}
+
+function isSubsequence(text: string, term: string): boolean {
+  let index = -1;
+  for (const char of term) {
+    index = text.indexOf(char, index + 1);
+    if (index < 0) return false;
+  }
+  return true;
+}
+
+function bonusAt(text: string, index: number): number {
+  if (index === 0) return BONUS_SEPARATOR;
+  const previous = text[index - 1];
+  const current = text[index];
+  if (isSeparator(previous)) return BONUS_SEPARATOR;
+  if (previous === '_' || previous === '-' || previous === '.' || previous === ' ') return BONUS_BOUNDARY;
+  const previousIsLower = previous >= 'a' && previous <= 'z';
+  const previousIsDigit = previous >= '0' && previous <= '9';
+  if ((previousIsLower && current >= 'A' && current <= 'Z') || (!previousIsDigit && current >= '0' && current <= '9')) return BONUS_CAMEL;
+  return 0;
+}
+
+/**
+ * Tightest window [start, end] of `target` from `from` that contains `term`
+ * as a subsequence: forward to the first complete match, then backward from
+ * its end (fzf's v1 algorithm)
+ */
+function findWindow(target: string, term: string, from: number): [number, number] | null {
+  let t = 0;
+  let end = -1;
+  for (let i = from; i < target.length; i++) {
+    if (target[i] === term[t] && ++t === term.length) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+  t = term.length - 1;
+  let start = end;
+  for (let i = end; i >= from; i--) {
+    if (target[i] === term[t] && --t < 0) {
+      start = i;
+      break;
+    }
+  }
+  return [start, end];
+}
+
+/**
+ * Score `term` inside the window, taking the first occurrence of each character
+ */
+function scoreWindow(text: string, target: string, term: string, window: [number, number], positions?: number[]): number {
+  let score = 0;
+  let t = 0;
+  let previous = -1;
+  let chunkBonus = 0;
+  for (let i = window[0]; i <= window[1] && t < term.length; i++) {
+    if (target[i] !== term[t]) continue;
+    let bonus = bonusAt(text, i);
+    if (previous >= 0 && i === previous + 1) {
+      // Consecutive characters keep the bonus of the position their run started at
+      bonus = Math.max(bonus, chunkBonus, BONUS_CONSECUTIVE);
+    } else {
+      if (previous >= 0) score += SCORE_GAP_START + SCORE_GAP_EXTENSION * (i - previous - 2);
+      chunkBonus = bonus;
+    }
+    score += SCORE_MATCH + (t === 0 ? bonus * BONUS_FIRST_CHAR_MULTIPLIER : bonus);
+    positions?.push(i);
+    previous = i;
+    t++;
+  }
+  return score;
+}
+
+/**
+ * Score one path against the query's space-separated terms, all of which
+ * have to match. Lowercase terms match either case; a term with capitals
+ * matches case-sensitively. Pass `positions` to collect the matched indexes.
+ *
+ * @returns null when the path does not match
+ */
+export function scorePath(filePath: string, terms: string[], lowerPath = filePath.toLowerCase(), positions?: number[]): number | null {
+  const nameStart = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\')) + 1;
+  let score = 0;
+  for (const term of terms) {
+    const target = term === term.toLowerCase() ? lowerPath : filePath;
+    // A match within the file name beats a tighter one spread across folders
+    const window = findWindow(target, term, nameStart) || findWindow(target, term, 0);
+    if (!window) return null;
+    score += scoreWindow(filePath, target, term, window, positions);
+    // More for covering more of the name, so that an exact name comes first
+    if (window[0] >= nameStart) score += BONUS_BASENAME * (1 + term.length / Math.max(1, filePath.length - nameStart));
+  }
+  return score;
+}
+
+function compareMatches(a: FileMatch, b: FileMatch): number {
+  return b.score - a.score || a.path.length - b.path.length || (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+}
+
+/**
+ * Rank `paths` for `query`, best first. An empty query lists the recent
+ * files that are still among the paths.
+ */
+export function rankPaths(paths: string[], query: string, options: RankOptions = {}): FileMatch[] {
+  const limit = options.limit || DEFAULT_LIMIT;
+  const recent = new Map((options.recent || []).map((filePath, index) => [filePath, index]));
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+
+  if (terms.length === 0) {
+    const available = new Set(paths);
+    return (options.recent || [])
+      .filter(filePath => available.has(filePath))
+      .slice(0, limit)
+      .map(filePath => ({ path: filePath, score: 0, positions: [] }));
+  }
+
+  // Only the best `limit` matches are kept, sorted, so that a short query
+  // matching most of a huge project does not sort all of it
+  const lowerTerms = terms.map(term => term.toLowerCase());
+  const top: FileMatch[] = [];
+  for (const filePath of paths) {
+    const lowerPath = filePath.toLowerCase();
+    // Cheap rejection before scoring: every character of each term, in order
+    if (!lowerTerms.every(term => isSubsequence(lowerPath, term))) continue;
+
+    let score = scorePath(filePath, terms, lowerPath);
+    if (score === null) continue;
+    const age = recent.get(filePath);
+    if (age !== undefined) score += BONUS_RECENT * (1 - age / recent.size);
+
+    const match = { path: filePath, score, positions: [] };
+    if (top.length === limit && compareMatches(match, top[limit - 1]) >= 0) continue;
+    let low = 0;
+    let high = top.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (compareMatches(top[middle], match) <= 0) low = middle + 1; else high = middle;
+    }
+    top.splice(low, 0, match);
+    if (top.length > limit) top.pop();
+  }
+
+  for (const match of top) {
+    const positions: number[] = [];
+    scorePath(match.path, terms, match.path.toLowerCase(), positions);
+    match.positions = Array.from(new Set(positions)).sort((a, b) => a - b);
+  }
+  return top;
+}
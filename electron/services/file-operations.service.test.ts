@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { applyHunks, applyPatch, editFile, hasPendingContent, parseUnifiedDiff, releasePendingContent } from './file-operations.service';
+import { pathJail } from './path-jail.service';
+
+let projectRoot: string;
+let worktreeRoot: string;
+const sent: Array<{ channel: string; payload: any }> = [];
+const mainWindow = { isDestroyed: () => false, webContents: { send: (channel: string, payload: any) => sent.push({ channel, payload }) } };
+
+beforeEach(() => {
+  sent.length = 0;
+  projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-files-')));
+  worktreeRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-worktree-')));
+  for (const root of [projectRoot, worktreeRoot]) {
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'src/a.ts'), 'const a = 1;\n', 'utf-8');
+  }
+  pathJail.setProjectRoot(projectRoot);
+});
+
+afterEach(() => {
+  pathJail.setProjectRoot(null);
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+  fs.rmSync(worktreeRoot, { recursive: true, force: true });
+});
+
+describe('pending diffs', () => {
+  it('carry the absolute path the change was made in', async () => {
+    const result = await pathJail.runInRoot(worktreeRoot, () =>
+      editFile({ path: 'src/a.ts', old_string: '1', new_string: '2' }, mainWindow));
+    const worktreeFile = path.join(worktreeRoot, 'src/a.ts');
+    expect(result.file_path).toBe(worktreeFile);
+    expect(sent.find(message => message.channel === 'file-operation:pending-diff')?.payload.filePath).toBe(worktreeFile);
+
+    // Approvals come in over IPC, outside the run's root
+    expect(hasPendingContent(worktreeFile)).toBe(true);
+    releasePendingContent(worktreeFile);
+    expect(hasPendingContent(worktreeFile)).toBe(false);
+  });
+
+  it('resolve relative paths against the project', async () => {
+    const result = await editFile({ path: 'src/a.ts', old_string: '1', new_string: '2' }, mainWindow);
+    expect(result.file_path).toBe(path.join(projectRoot, 'src/a.ts'));
+    releasePendingContent('src/a.ts');
+    expect(hasPendingContent(result.file_path!)).toBe(false);
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('splits a patch into files and hunks', () => {
+    const files = parseUnifiedDiff([
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,2 @@',
+      ' keep',
+      '-old',
+      '+new',
+      '--- /dev/null',
+      '+++ b/src/b.ts',
+      '@@ -0,0 +1 @@',
+      '+hello',
+      '',
+    ].join('\n'));
+    expect(files).toEqual([
+      { oldPath: 'src/a.ts', newPath: 'src/a.ts', hunks: [{ oldStart: 1, oldLines: ['keep', 'old'], newLines: ['keep', 'new'] }] },
+      { oldPath: null, newPath: 'src/b.ts', hunks: [{ oldStart: 0, oldLines: [], newLines: ['hello'] }] },
+    ]);
+  });
+
+  it('marks the side a "No newline at end of file" marker belongs to', () => {
+    const [file] = parseUnifiedDiff([
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1 +1 @@',
+      '-old',
+      '\\ No newline at end of file',
+      '+new',
+    ].join('\n'));
+    expect(file.hunks[0]).toMatchObject({ oldNoNewline: true });
+    expect(file.hunks[0].newNoNewline).toBeUndefined();
+  });
+});
+
+describe('applyHunks', () => {
+  const hunk = (oldStart: number, oldLines: string[], newLines: string[], extra = {}) => ({ oldStart, oldLines, newLines, ...extra });
+
+  it('keeps the final newline of the file', () => {
+    expect(applyHunks('a\nb\n', [hunk(2, ['b'], ['c'])]).content).toBe('a\nc\n');
+    expect(applyHunks('a\nb', [hunk(2, ['b'], ['c'])]).content).toBe('a\nc');
+  });
+
+  it('ends new files with a newline unless the patch says not to', () => {
+    expect(applyHunks('', [hunk(0, [], ['hello', 'world'])]).content).toBe('hello\nworld\n');
+    expect(applyHunks('', [hunk(0, [], ['hello'], { newNoNewline: true })]).content).toBe('hello');
+  });
+
+  it('adds or drops the final newline at the end of the file only', () => {
+    expect(applyHunks('a\nb', [hunk(2, ['b'], ['b'], { oldNoNewline: true })]).content).toBe('a\nb\n');
+    expect(applyHunks('a\nb\n', [hunk(2, ['b'], ['b'], { newNoNewline: true })]).content).toBe('a\nb');
+    expect(applyHunks('a\nb\n', [hunk(1, ['a'], ['x'], { newNoNewline: true })]).content).toBe('x\nb\n');
+  });
+
+  it('finds hunks whose line numbers drifted', () => {
+    expect(applyHunks('x\ny\na\nb\n', [hunk(1, ['a'], ['c'])]).content).toBe('x\ny\nc\nb\n');
+  });
+
+  it('reports hunks that do not match', () => {
+    expect(applyHunks('a\n', [hunk(1, ['nope'], ['c'])]).error).toMatch('Hunk 1 (at line 1) does not match');
+  });
+});
+
+describe('editFile', () => {
+  it('replaces one occurrence and refuses ambiguous ones', async () => {
+    fs.writeFileSync(path.join(projectRoot, 'src/b.ts'), 'x;\nx;\n', 'utf-8');
+    const ambiguous = await editFile({ path: 'src/b.ts', old_string: 'x;', new_string: 'y;' }, mainWindow);
+    expect(ambiguous.error).toBeDefined();
+
+    const all = await editFile({ path: 'src/b.ts', old_string: 'x;', new_string: 'y;', replace_all: true }, mainWindow);
+    expect(all.content).toBe('y;\ny;\n');
+    releasePendingContent('src/b.ts');
+  });
+
+  it('edits on top of a change that is still pending', async () => {
+    await editFile({ path: 'src/a.ts', old_string: 'a', new_string: 'b' }, mainWindow);
+    const second = await editFile({ path: 'src/a.ts', old_string: '1', new_string: '2' }, mainWindow);
+    expect(second.content).toBe('const b = 2;\n');
+    releasePendingContent('src/a.ts');
+  });
+});
+
+describe('applyPatch', () => {
+  it('creates new files with a final newline', async () => {
+    const result = await applyPatch({ patch: '--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1,2 @@\n+hello\n+world\n' }, mainWindow);
+    expect(result.patched_files).toEqual([expect.objectContaining({ isNewFile: true, content: 'hello\nworld\n' })]);
+    releasePendingContent('src/new.ts');
+  });
+
+  it('applies repeated sections of a file one after the other', async () => {
+    fs.writeFileSync(path.join(projectRoot, 'src/c.ts'), 'one\ntwo\nthree\n', 'utf-8');
+    const section = (from: string, to: string, line: number) => `--- a/src/c.ts\n+++ b/src/c.ts\n@@ -${line} +${line} @@\n-${from}\n+${to}\n`;
+    const result = await applyPatch({ patch: section('one', '1', 1) + section('three', '3', 3) }, mainWindow);
+    expect(result.patched_files).toHaveLength(1);
+    expect(result.patched_files![0].content).toBe('1\ntwo\n3\n');
+    expect(sent.filter(message => message.channel === 'file-operation:pending-diff')).toHaveLength(1);
+    releasePendingContent('src/c.ts');
+  });
+
+  it('changes nothing when one file does not apply', async () => {
+    const patch = '--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-const a = 1;\n+const a = 2;\n'
+      + '--- a/src/missing.ts\n+++ b/src/missing.ts\n@@ -1 +1 @@\n-x\n+y\n';
+    const result = await applyPatch({ patch }, mainWindow);
+    expect(result.error).toMatch('File not found: src/missing.ts');
+    expect(hasPendingContent('src/a.ts')).toBe(false);
+  });
+});
@@ -4,13 +4,12 @@
  */
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as os from 'os';
-import { glob } from 'glob';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { webSearchService, WebSearchResult } from './web-search.service';
-
-const execAsync = promisify(exec);
+import { writeAccumulator, WriteMode } from './write-accumulator.service';
+import { pathJail } from './path-jail.service';
+import { searchService } from './search.service';
+import { analyzeCommand, needsApproval, CommandRisk } from './command-analysis.service';
+import { commandRunner, summarizeOutput, OutputStream } from './command-runner.service';
 
 export interface FileResult {
   file_path?: string;
@@ -34,8 +33,13 @@ export interface FileResult {
   matches?: Array<{
     file: string;
     line: number;
+    column?: number;
     content: string;
+    before?: string[]; // Context lines
+    after?: string[];
   }>;
+  has_more?: boolean;
+  next_offset?: number;
   title?: string;
   steps?: Array<{
     id: string;
@@ -46,17 +50,83 @@ export interface FileResult {
   message?: string;
   summary?: string;
   command?: string;
+  cwd?: string; // Where an approved command has to run
   stdout?: string;
   stderr?: string;
   exit_code?: number;
   needsPassword?: boolean;
   needsElevation?: boolean;
+  risk?: CommandRisk;
+  riskReasons?: string[];
+  truncated?: boolean;
+  code?: string; // Structured error code, e.g. COMMAND_BLOCKED
+  replacements?: number;
+  chunks_received?: number;
+  buffered_length?: number;
+  patched_files?: Array<{
+    file_path: string;
+    isNewFile: boolean;
+    originalContent: string;
+    content: string;
+  }>;
 }
 
+// Latest proposed content per resolved path while a diff awaits approval, so that
+// consecutive edits to the same file build on each other instead of on the disk copy
+const pendingContents = new Map<string, string>();
+
+// Throws PathJailError for paths outside the project; callers report it as a tool error
 function resolvePath(filePath: string): string {
-  return filePath.startsWith('~') 
-    ? path.resolve(os.homedir(), filePath.slice(1))
-    : path.resolve(filePath);
+  return pathJail.resolve(filePath);
+}
+
+/**
+ * Forget the proposed content for a file once its diff is approved or rejected
+ */
+export function releasePendingContent(filePath: string): void {
+  pendingContents.delete(pathJail.toAbsolute(filePath));
+}
+
+/**
+ * Whether a proposed change to this file is still awaiting approval
+ */
+export function hasPendingContent(filePath: string): boolean {
+  return pendingContents.has(pathJail.toAbsolute(filePath));
+}
+
+async function loadOriginal(resolvedPath: string): Promise<{ originalContent: string; isNewFile: boolean }> {
+  try {
+    const stats = await fs.stat(resolvedPath);
+    if (stats.isFile()) {
+      return { originalContent: await fs.readFile(resolvedPath, 'utf-8'), isNewFile: false };
+    }
+  } catch {}
+  return { originalContent: '', isNewFile: true };
+}
+
+/**
+ * Propose new content for a file; it is written once the user approves the diff.
+ * The diff carries the resolved absolute path, so approving it writes the same
+ * file the tool read (also from an isolated run's worktree).
+ */
+export function emitPendingDiff(
+  mainWindow: any,
+  resolvedPath: string,
+  original: string,
+  modified: string,
+  isNewFile: boolean
+): void {
+  pendingContents.set(resolvedPath, modified);
+  // Create pending diff instead of writing immediately
+  // Send IPC message to renderer to add pending diff
+  if (mainWindow) {
+    mainWindow.webContents.send('file-operation:pending-diff', {
+      filePath: resolvedPath,
+      original,
+      modified,
+      isNewFile
+    });
+  }
 }
 
 export async function readFile(args: { file_path?: string; path?: string; start_line?: number; end_line?: number }): Promise<FileResult> {
@@ -128,51 +198,354 @@ export async function peekFile(args: { file_path?: string; path?: string; previe
 
 export async function writeFile(
   args: { file_path?: string; path?: string; content: string; finalize?: boolean; mode?: string },
+  mainWindow?: any,
+  runId: string = 'default'
+): Promise<FileResult> {
+  try {
+    const filePath = args.file_path || args.path;
+    if (!filePath) return { error: 'No path provided' };
+    if (typeof args.content !== 'string') return { error: 'content must be a string', file_path: filePath };
+    const resolvedPath = resolvePath(filePath);
+    const mode: WriteMode = args.mode === 'append' ? 'append' : 'overwrite';
+    
+    // Chunked write: buffer until the model sends the finalize=true chunk
+    if (args.finalize === false) {
+      const buffered = writeAccumulator.append(runId, resolvedPath, args.content, mode);
+      return {
+        file_path: filePath,
+        status: 'buffering',
+        chunks_received: buffered.chunks,
+        buffered_length: buffered.length,
+        message: `Chunk ${buffered.chunks} buffered (${buffered.length} chars so far). Send the next chunk, and set finalize=true on the last one.`
+      };
+    }
+    
+    const { originalContent, isNewFile } = await loadOriginal(resolvedPath);
+    
+    // Earlier chunks decide the mode; the final chunk completes the content
+    const previous = writeAccumulator.take(runId, resolvedPath);
+    const written = (previous?.content || '') + args.content;
+    const effectiveMode = previous?.mode || mode;
+    const modified = effectiveMode === 'append' ? originalContent + written : written;
+    
+    emitPendingDiff(mainWindow, resolvedPath, originalContent, modified, isNewFile);
+    
+    // Return pending status with full content for diff widget
+    return {
+      file_path: resolvedPath,
+      status: 'pending',
+      isNewFile,
+      originalContent: originalContent,
+      content: modified, // Full content for diff widget
+      modified: modified, // Also include as modified for clarity
+      ...(previous ? { chunks_received: previous.chunks + 1 } : {}),
+    };
+  } catch (error: any) {
+    return { error: error.message || String(error), file_path: args.file_path || args.path };
+  }
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+/**
+ * Surgical edit: replace an exact string in an existing file.
+ * old_string must match exactly once unless replace_all is set.
+ */
+export async function editFile(
+  args: { file_path?: string; path?: string; old_string: string; new_string: string; replace_all?: boolean },
   mainWindow?: any
 ): Promise<FileResult> {
   try {
     const filePath = args.file_path || args.path;
     if (!filePath) return { error: 'No path provided' };
+    if (typeof args.old_string !== 'string' || args.old_string.length === 0) {
+      return { error: 'old_string must be a non-empty string. Use write_file to create new files.', file_path: filePath };
+    }
+    if (typeof args.new_string !== 'string') {
+      return { error: 'new_string must be a string', file_path: filePath };
+    }
+    if (args.old_string === args.new_string) {
+      return { error: 'old_string and new_string are identical - nothing to change', file_path: filePath };
+    }
     const resolvedPath = resolvePath(filePath);
     
-    let originalContent = '';
-    let isNewFile = true;
+    const { originalContent, isNewFile } = await loadOriginal(resolvedPath);
+    if (isNewFile) {
+      return { error: `File not found: ${filePath}. Use write_file to create new files.`, file_path: filePath };
+    }
+    const current = pendingContents.get(resolvedPath) ?? originalContent;
     
-    try {
-      const stats = await fs.stat(resolvedPath);
-      if (stats.isFile()) {
-        isNewFile = false;
-        originalContent = await fs.readFile(resolvedPath, 'utf-8');
+    const occurrences = countOccurrences(current, args.old_string);
+    if (occurrences === 0) {
+      return {
+        error: `old_string not found in ${filePath}. It must match the file exactly, including whitespace and indentation. Use read_file to get the current content.`,
+        file_path: filePath
+      };
+    }
+    if (occurrences > 1 && !args.replace_all) {
+      return {
+        error: `old_string matches ${occurrences} locations in ${filePath}. Include more surrounding context to make it unique, or set replace_all=true.`,
+        file_path: filePath
+      };
+    }
+    
+    const modified = args.replace_all
+      ? current.split(args.old_string).join(args.new_string)
+      : current.replace(args.old_string, () => args.new_string);
+    
+    emitPendingDiff(mainWindow, resolvedPath, originalContent, modified, false);
+    
+    return {
+      file_path: resolvedPath,
+      status: 'pending',
+      isNewFile: false,
+      originalContent,
+      content: modified,
+      modified,
+      replacements: args.replace_all ? occurrences : 1,
+    };
+  } catch (error: any) {
+    return { error: error.message || String(error), file_path: args.file_path || args.path };
+  }
+}
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+  oldNoNewline?: boolean; // "\ No newline at end of file" after the old side's last line
+  newNoNewline?: boolean;
+}
+
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+function stripPatchPath(raw: string): string | null {
+  const p = raw.split('\t')[0].trim();
+  if (p === '/dev/null') return null;
+  return p.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff into per-file hunks, one entry per file section
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+  let lastSide: '-' | '+' | ' ' | null = null;
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = { oldPath: stripPatchPath(line.slice(4)), newPath: stripPatchPath(lines[i + 1].slice(4)), hunks: [] };
+      files.push(current);
+      hunk = null;
+      i++;
+      continue;
+    }
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      if (!current) {
+        // Hunks without file headers - caller supplies the path
+        current = { oldPath: null, newPath: null, hunks: [] };
+        files.push(current);
+      }
+      hunk = { oldStart: parseInt(header[1], 10), oldLines: [], newLines: [] };
+      current.hunks.push(hunk);
+      lastSide = null;
+      continue;
+    }
+    if (!hunk) continue;
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" belongs to the line before it
+      if (lastSide !== '+') hunk.oldNoNewline = true;
+      if (lastSide !== '-') hunk.newNoNewline = true;
+      continue;
+    }
+    if (line.startsWith('+')) {
+      hunk.newLines.push(line.slice(1));
+      lastSide = '+';
+    } else if (line.startsWith('-')) {
+      hunk.oldLines.push(line.slice(1));
+      lastSide = '-';
+    } else if (line.startsWith(' ') || line === '') {
+      // Trailing empty line at end of patch is not context
+      if (line === '' && i === lines.length - 1) continue;
+      hunk.oldLines.push(line.slice(1));
+      hunk.newLines.push(line.slice(1));
+      lastSide = ' ';
+    }
+  }
+  return files;
+}
+
+function matchesAt(lines: string[], block: string[], at: number): boolean {
+  if (at < 0 || at + block.length > lines.length) return false;
+  for (let j = 0; j < block.length; j++) {
+    if (lines[at + j] !== block[j]) return false;
+  }
+  return true;
+}
+
+/**
+ * Apply hunks in order. Each hunk is tried at its stated line first, then searched
+ * for nearest match after the previous hunk (line numbers from models drift).
+ * The file keeps its final newline unless a hunk at the end says otherwise.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): { content?: string; error?: string } {
+  // An empty file gets a final newline like any new file
+  let finalNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.split('\n');
+  if (content.endsWith('\n')) lines.pop();
+  let searchFrom = 0;
+  let offset = 0;
+  
+  for (let h = 0; h < hunks.length; h++) {
+    const hunk = hunks[h];
+    const expected = hunk.oldStart - 1 + offset;
+    let at = -1;
+    
+    if (hunk.oldLines.length === 0) {
+      at = Math.min(Math.max(expected + 1, 0), lines.length);
+      if (hunk.oldStart === 0) at = 0;
+    } else if (matchesAt(lines, hunk.oldLines, expected)) {
+      at = expected;
+    } else {
+      let best = -1;
+      for (let k = searchFrom; k <= lines.length - hunk.oldLines.length; k++) {
+        if (matchesAt(lines, hunk.oldLines, k) && (best === -1 || Math.abs(k - expected) < Math.abs(best - expected))) {
+          best = k;
+        }
       }
-    } catch {
-      isNewFile = true;
+      at = best;
+    }
+    
+    if (at === -1) {
+      return { error: `Hunk ${h + 1} (at line ${hunk.oldStart}) does not match the current file content. Re-read the file and regenerate the patch.` };
+    }
+    
+    if (at + hunk.oldLines.length === lines.length) {
+      if (hunk.newNoNewline) finalNewline = false;
+      else if (hunk.oldNoNewline) finalNewline = true;
+    }
+    lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+    offset += hunk.newLines.length - hunk.oldLines.length;
+    searchFrom = at + hunk.newLines.length;
+  }
+  if (lines.length === 0) return { content: '' };
+  return { content: lines.join('\n') + (finalNewline ? '\n' : '') };
+}
+
+/**
+ * Paths a tool call would touch, for the path jail and permission rules
+ */
+export function getToolPaths(toolName: string, args: Record<string, any>): string[] {
+  if (toolName === 'apply_patch') {
+    return getPatchTargets(args);
+  }
+  if (toolName === 'git_commit' || toolName === 'get_diagnostics') {
+    const paths = toolName === 'git_commit' ? args.files : args.paths;
+    return Array.isArray(paths) ? paths.filter((f: any) => typeof f === 'string' && f) : [];
+  }
+  const filePath = args.file_path || args.path || args.directory_path || args.searchPath;
+  return typeof filePath === 'string' && filePath ? [filePath] : [];
+}
+
+/**
+ * Files a patch would touch, without applying it
+ */
+export function getPatchTargets(args: { patch?: string; file_path?: string; path?: string }): string[] {
+  const overridePath = args.file_path || args.path;
+  if (overridePath) return [overridePath];
+  if (typeof args.patch !== 'string') return [];
+  const targets = parseUnifiedDiff(args.patch)
+    .map(fp => fp.newPath || fp.oldPath)
+    .filter((p): p is string => !!p);
+  return Array.from(new Set(targets));
+}
+
+/**
+ * Apply a unified diff. Every touched file becomes its own pending diff; a file
+ * with several sections gets them applied one after the other.
+ * Changes are validated for all files before any diff is emitted.
+ */
+export async function applyPatch(
+  args: { patch: string; file_path?: string; path?: string },
+  mainWindow?: any
+): Promise<FileResult> {
+  try {
+    if (typeof args.patch !== 'string' || !args.patch.trim()) return { error: 'No patch provided' };
+    const filePatches = parseUnifiedDiff(args.patch);
+    if (filePatches.length === 0 || filePatches.every(fp => fp.hunks.length === 0)) {
+      return { error: 'Patch contains no hunks. Provide a unified diff with @@ hunk headers.' };
+    }
+    const overridePath = args.file_path || args.path;
+    if (overridePath && new Set(filePatches.map(fp => fp.newPath || fp.oldPath)).size > 1) {
+      return { error: 'path can only be given for single-file patches' };
     }
     
-    // For chunked writes, we need to track accumulated content
-    // This will be handled by the AI backend service
+    const results: NonNullable<FileResult['patched_files']> = [];
+    const staged: Array<{ resolvedPath: string; original: string; modified: string; isNewFile: boolean }> = [];
+    
+    for (const fp of filePatches) {
+      if (fp.hunks.length === 0) continue;
+      const filePath = overridePath || fp.newPath || fp.oldPath;
+      if (!filePath) return { error: 'Could not determine target file for patch. Pass path explicitly.' };
+      if (fp.newPath === null && fp.oldPath !== null && !overridePath) {
+        return { error: `Deleting files is not supported by apply_patch: ${fp.oldPath}`, file_path: fp.oldPath };
+      }
+      const resolvedPath = resolvePath(filePath);
+      const earlier = staged.find(change => change.resolvedPath === resolvedPath);
+      if (earlier) {
+        const applied = applyHunks(earlier.modified, fp.hunks);
+        if (applied.error !== undefined || applied.content === undefined) {
+          return { error: `${filePath}: ${applied.error}`, file_path: filePath };
+        }
+        earlier.modified = applied.content;
+        continue;
+      }
+      const { originalContent, isNewFile } = await loadOriginal(resolvedPath);
+      if (isNewFile && fp.oldPath !== null && !overridePath) {
+        return { error: `File not found: ${filePath}`, file_path: filePath };
+      }
+      const current = isNewFile ? '' : (pendingContents.get(resolvedPath) ?? originalContent);
+      const applied = applyHunks(current, fp.hunks);
+      if (applied.error !== undefined || applied.content === undefined) {
+        return { error: `${filePath}: ${applied.error}`, file_path: filePath };
+      }
+      staged.push({ resolvedPath, original: originalContent, modified: applied.content, isNewFile });
+    }
     
-    // Create pending diff instead of writing immediately
-    // Send IPC message to renderer to add pending diff
-    if (mainWindow) {
-      mainWindow.webContents.send('file-operation:pending-diff', {
-        filePath,
-        original: originalContent,
-        modified: args.content,
-        isNewFile
+    for (const change of staged) {
+      emitPendingDiff(mainWindow, change.resolvedPath, change.original, change.modified, change.isNewFile);
+      results.push({
+        file_path: change.resolvedPath,
+        isNewFile: change.isNewFile,
+        originalContent: change.original,
+        content: change.modified,
       });
     }
     
-    // Return pending status with full content for diff widget
     return {
-      file_path: filePath,
       status: 'pending',
-      isNewFile,
-      originalContent: originalContent,
-      content: args.content, // Full content for diff widget
-      modified: args.content, // Also include as modified for clarity
+      file_path: results.length === 1 ? results[0].file_path : undefined,
+      patched_files: results,
     };
   } catch (error: any) {
-    return { error: error.message || String(error), file_path: args.file_path || args.path };
+    return { error: error.message || String(error) };
   }
 }
 
@@ -206,30 +579,52 @@ export async function grepLines(args: { file_path?: string; path?: string; start
   return readFile(args);
 }
 
-export async function searchCode(args: { search_term?: string; pattern?: string; searchPath?: string }): Promise<FileResult> {
+const MAX_SEARCH_RESULTS = 200;
+
+export async function searchCode(args: {
+  search_term?: string;
+  pattern?: string;
+  regex?: boolean;
+  case_sensitive?: boolean;
+  include?: string[] | string;
+  exclude?: string[] | string;
+  path?: string;
+  searchPath?: string;
+  context_lines?: number;
+  max_results?: number;
+  offset?: number;
+}): Promise<FileResult> {
   try {
     const searchTerm = args.search_term || args.pattern;
     if (!searchTerm) return { error: 'No search term provided' };
-    const basePath = args.searchPath || (process as any).cwd();
-    const files = await glob('**/*.{js,ts,jsx,tsx,py,md,json,html,css,scss}', {
-      cwd: basePath,
-      ignore: ['node_modules/**', 'dist/**', '.git/**'],
+    const root = pathJail.getProjectRoot() || process.cwd();
+    const searchPath = args.path || args.searchPath;
+    const globs = (value?: string[] | string) => (typeof value === 'string' ? [value] : value || []).filter(Boolean);
+
+    const result = await searchService.search(root, {
+      pattern: searchTerm,
+      regex: !!args.regex,
+      caseSensitive: args.case_sensitive !== false,
+      include: globs(args.include),
+      exclude: globs(args.exclude),
+      searchPath: searchPath ? resolvePath(searchPath) : undefined,
+      contextLines: args.context_lines,
+      maxResults: Math.min(args.max_results || 50, MAX_SEARCH_RESULTS),
+      offset: args.offset,
     });
-    
-    const matches: Array<{ file: string; line: number; content: string }> = [];
-    for (const file of files.slice(0, 100)) {
-      const filePath = path.join(basePath, file);
-      try {
-        const content = await fs.readFile(filePath, 'utf-8');
-        const lines = content.split('\n');
-        lines.forEach((line, index) => {
-          if (line.includes(searchTerm)) {
-            matches.push({ file, line: index + 1, content: line.trim() });
-          }
-        });
-      } catch {}
-    }
-    return { search_term: searchTerm, matches };
+    return {
+      search_term: searchTerm,
+      matches: result.matches.map(match => ({
+        file: match.file,
+        line: match.line,
+        column: match.column,
+        content: match.content.trim(),
+        ...(match.before?.length && { before: match.before }),
+        ...(match.after?.length && { after: match.after }),
+      })),
+      has_more: result.hasMore,
+      ...(result.hasMore && { next_offset: result.nextOffset, message: `More matches exist; call again with offset ${result.nextOffset} or narrow the search` }),
+    };
   } catch (error: any) {
     return { error: error.message || String(error) };
   }
@@ -253,43 +648,73 @@ export function taskComplete(args: { summary: string }): FileResult {
   return { summary: args.summary, status: 'completed' };
 }
 
-export async function executeCommand(args: { command: string; needs_elevation?: boolean }): Promise<FileResult> {
-  try {
-    const cmd = args.command.toLowerCase();
-    const elevatedPatterns = ['sudo', 'rm -rf /', 'chmod 777', 'chown'];
-    const isDangerous = elevatedPatterns.some(p => cmd.includes(p)) || args.needs_elevation;
+export interface CommandStreamOptions {
+  id?: string; // Tool call id; the renderer uses it for stdin and kill
+  group?: string;
+  onStart?: (command: string) => void;
+  onOutput?: (stream: OutputStream, data: string) => void;
+}
 
-    if (isDangerous) {
-      return {
-        command: args.command,
-        status: 'pending',
-        needsPassword: cmd.includes('sudo'),
-        needsElevation: true,
-      };
-    }
+let nextCommandId = 1;
 
-    const { stdout, stderr } = await execAsync(args.command, {
-      timeout: 300000,
-      maxBuffer: 10 * 1024 * 1024,
-    });
-    return { command: args.command, stdout, stderr, exit_code: 0, status: 'completed' };
-  } catch (error: any) {
+/**
+ * @param preApproved - the permission policy already allowed this command, skip the elevation prompt
+ * @param stream - receives output while the command runs; the result only carries a head/tail summary
+ */
+export async function executeCommand(args: { command: string; needs_elevation?: boolean }, preApproved: boolean = false, stream: CommandStreamOptions = {}): Promise<FileResult> {
+  const analysis = analyzeCommand(args.command);
+  if (analysis.blocked) {
     return {
       command: args.command,
-      stdout: error.stdout || '',
-      stderr: error.stderr || '',
-      exit_code: error.code || 1,
-      status: 'completed',
+      error: `Command blocked for security reasons: ${analysis.blocked}`,
+      code: 'COMMAND_BLOCKED',
+      risk: analysis.risk,
+      riskReasons: analysis.reasons,
     };
   }
+
+  if (!preApproved && (needsApproval(analysis) || args.needs_elevation)) {
+    return {
+      command: args.command,
+      status: 'pending',
+      needsPassword: analysis.sudo,
+      needsElevation: true,
+      cwd: pathJail.getProjectRoot() || undefined,
+      risk: analysis.risk,
+      riskReasons: analysis.reasons,
+    };
+  }
+
+  stream.onStart?.(args.command);
+  const outcome = await commandRunner.run(stream.id || `command_${nextCommandId++}`, args.command, {
+    cwd: pathJail.getProjectRoot() || undefined,
+    timeout: 300000,
+    group: stream.group,
+    onOutput: stream.onOutput,
+  });
+  const stdout = summarizeOutput(outcome.stdout);
+  const stderr = summarizeOutput(outcome.stderr);
+  return {
+    command: args.command,
+    stdout,
+    stderr,
+    exit_code: outcome.exitCode,
+    status: 'completed',
+    ...(stdout.length < outcome.stdout.length || stderr.length < outcome.stderr.length ? { truncated: true } : {}),
+    ...(outcome.killed ? { message: outcome.timedOut ? 'Command timed out and was killed' : 'Command was stopped by the user' } : {}),
+    ...(outcome.error && !outcome.killed ? { error: outcome.error } : {}),
+  };
+}
+
+export function getTestCommand(framework?: string): string {
+  if (framework === 'pytest') return 'pytest';
+  if (framework === 'cargo') return 'cargo test';
+  if (framework === 'go') return 'go test ./...';
+  return 'npm test';
 }
 
-export async function runTests(args: { framework?: string }): Promise<FileResult> {
-  let command = 'npm test';
-  if (args.framework === 'pytest') command = 'pytest';
-  else if (args.framework === 'cargo') command = 'cargo test';
-  else if (args.framework === 'go') command = 'go test ./...';
-  return executeCommand({ command });
+export async function runTests(args: { framework?: string; needs_elevation?: boolean }, preApproved: boolean = false, stream: CommandStreamOptions = {}): Promise<FileResult> {
+  return executeCommand({ command: getTestCommand(args.framework), needs_elevation: args.needs_elevation }, preApproved, stream);
 }
 
 export async function searchWeb(args: { query: string; max_results?: number }): Promise<WebSearchResult> {
@@ -3,24 +3,17 @@
  * Direct integration with Google Gemini API using native function calling
  * Endpoint: https://generativelanguage.googleapis.com/v1beta/models/{model}:streamGenerateContent
  */
-import { BrowserWindow } from 'electron';
-import { AgenticLoopManager } from './agentic-loop.service';
 import {
-  readFile,
-  writeFile,
-  listFiles,
-  peekFile,
-  searchCode,
-  createPlan,
-  taskComplete,
-  executeCommand,
-  runTests,
-  searchWeb,
-} from './file-operations.service';
-import { TOOL_DEFINITIONS } from './tool-definitions';
-import { SmartContext } from './smart-context.service';
+  ProviderAdapter,
+  ConversationMessage,
+  TurnContext,
+  AgentTurn,
+  ToolCallRequest,
+  ToolCallResult,
+  ProviderError,
+} from './agent-executor.service';
 
-const SYSTEM_INSTRUCTION = `You are Candy, a friendly and autonomous coding assistant for CandyCode.
+const SYSTEM_INSTRUCTION = (availableFunctions: string) => `You are Candy, a friendly and autonomous coding assistant for CandyCode.
 
 AGENTIC BEHAVIOR:
 - Use function calls to execute actions - call functions directly, don't describe them
@@ -61,517 +54,157 @@ FUNCTION CALLING - THIS IS HOW YOU WORK:
 - **YOU DON'T NEED TO EXPLAIN** - Just call the function. The system handles execution.
 
 AVAILABLE FUNCTIONS (USE THESE):
-- write_file(path, content): Create or modify files (creates pending diff for approval)
-- read_file(path): Read file content
-- peek_file(path): Quick peek at file summary
-- list_files(directory_path): List directory contents
-- search_code(pattern): Search codebase
-- create_plan(title, steps): Create task plan with dynamic task management
-- task_complete(summary): Mark task done (provide summary first)
-- execute_command(command): Run commands (waits for approvals if needed)
-- run_tests(framework): Run tests (waits for approvals if needed)
-- web_search(query): Search the web for information
+${availableFunctions}
 
 CRITICAL: Function calling is NOT optional. When tools are available, you MUST use them instead of providing text instructions.`;
 
-export interface GeminiChatOptions {
-  apiKey?: string;
-  model?: string;
-  context?: {
-    files?: Array<{ path: string; content?: string; startLine?: number; endLine?: number }>;
-    images?: Array<{ path: string; data: string }>;
-    project?: string;
-    contextMode?: 'full' | 'smart' | 'minimal';
-  };
-  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
-  isPro?: boolean; // Deprecated
-  licenseTier?: 'free' | 'standard' | 'pro';
+interface GeminiConversation {
+  systemInstruction: string;
+  contents: any[];
 }
 
-export interface GeminiChunkData {
-  type: 'text' | 'function_call' | 'function_result' | 'error' | 'done' | 'continuation';
-  data?: any;
-  callId?: string;
-  name?: string;
-}
-
-export interface ContinuationState {
-  userInput: string;
-  todoList?: Array<{ id: string; description: string; status: string; order: number }>;
-  filesCreated: string[];
-  lastFileContent?: { path: string; content: string };
-  recentSummary: string;
-}
-
-export class GeminiService {
-  private mainWindow: BrowserWindow | null = null;
-  private cancelController: AbortController | null = null;
-  private loopManager: AgenticLoopManager;
-  private onChunkCallback: ((chunk: GeminiChunkData) => void) | undefined = undefined;
+export class GeminiService implements ProviderAdapter<GeminiConversation> {
+  readonly name = 'GeminiService';
+  readonly displayName = 'Gemini';
+  readonly defaultModel = 'gemini-2.5-flash';
+  readonly requiresApiKey = true;
+  readonly enforceLicense = true;
+  readonly requestTimeoutMs = 180000;
   private baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
-  private filesCreated: Set<string> = new Set();
-  private filesWriting: Map<string, string> = new Map();
-  private todoList: Array<{ id: string; description: string; status: string; order: number }> = [];
-  private lastFileContent: { path: string; content: string } | null = null;
-  private continuationCount: number = 0;
-  private maxContinuations: number = 10;
-  private originalUserInput: string = '';
-
-  constructor() {
-    this.loopManager = new AgenticLoopManager(30);
-  }
-
-  setMainWindow(window: BrowserWindow) {
-    this.mainWindow = window;
-  }
 
-  private sendChunk(chunk: GeminiChunkData) {
-    if (this.mainWindow) {
-      this.mainWindow.webContents.send('ai-backend:chunk', chunk);
-    }
-    if (this.onChunkCallback) {
-      try {
-        this.onChunkCallback(chunk);
-      } catch (error) {
-        console.error('[GeminiService] Error in onChunk callback:', error);
-      }
-    }
+  buildSystemInstruction(availableFunctions: string): string {
+    return SYSTEM_INSTRUCTION(availableFunctions);
   }
 
-  private getToolFunctions() {
+  createConversation(systemInstruction: string, messages: ConversationMessage[]): GeminiConversation {
     return {
-      read_file: readFile,
-      write_file: writeFile,
-      list_files: listFiles,
-      peek_file: peekFile,
-      search_code: searchCode,
-      create_plan: createPlan,
-      task_complete: taskComplete,
-      execute_command: executeCommand,
-      run_tests: runTests,
-      web_search: searchWeb,
+      systemInstruction,
+      contents: messages.map(msg => ({
+        role: msg.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: msg.content }],
+      }))
     };
   }
 
-  private getStatusMessageForFunction(functionName: string, args: Record<string, any>): string | null {
-    switch (functionName) {
-      case 'write_file':
-        return `Creating file ${args.path}...`;
-      case 'read_file':
-        return `Reading file ${args.path}...`;
-      case 'peek_file':
-        return `Peeking at file ${args.path}...`;
-      case 'list_files':
-        return `Listing files in ${args.directory_path}...`;
-      case 'search_code':
-        return `Searching codebase for "${args.pattern}"...`;
-      case 'create_plan':
-        return `Creating plan: ${args.title}...`;
-      case 'execute_command':
-        return `Executing command: ${args.command}...`;
-      case 'run_tests':
-        return `Running tests...`;
-      default:
-        return null;
-    }
-  }
-
-  private async checkPendingApprovals(): Promise<boolean> {
-    if (!this.mainWindow) return false;
+  async streamTurn(conversation: GeminiConversation, ctx: TurnContext): Promise<AgentTurn> {
+    const generationConfig: any = { 
+      temperature: 0.7, 
+      maxOutputTokens: 65536, 
+      topP: 0.95 
+    };
     
-    try {
-      const result = await this.mainWindow.webContents.executeJavaScript(`
-        (() => {
-          const store = window.__CANDYCODE_STORE__;
-          if (!store) return false;
-          const state = store.getState();
-          return state.pendingDiffs && state.pendingDiffs.size > 0;
-        })()
-      `);
-      return result === true;
-    } catch {
-      return false;
-    }
-  }
-
-  private async waitForApprovals(maxWait: number = 300000): Promise<void> {
-    const startTime = Date.now();
-    while (Date.now() - startTime < maxWait) {
-      const hasPending = await this.checkPendingApprovals();
-      if (!hasPending) {
-        return;
-      }
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
-  }
-
-  private async executeFunctionCall(
-    functionName: string,
-    args: Record<string, any>,
-    callId: string,
-    collectedFunctionResults: Array<{ name: string; response: any }>
-  ): Promise<void> {
-    const toolFunctions = this.getToolFunctions();
-    let func = (toolFunctions as any)[functionName];
-
-    if (!func) {
-      const error = `Unknown function: ${functionName}`;
-      console.error(`[GeminiService] ${error}`);
-      collectedFunctionResults.push({ name: functionName, response: { error } });
-      this.sendChunk({ type: 'function_result', name: functionName, data: { error }, callId });
-      return;
-    }
-
-    const dependentOperations = ['run_tests', 'execute_command'];
-    if (dependentOperations.includes(functionName)) {
-      const hasPending = await this.checkPendingApprovals();
-      if (hasPending) {
-        this.sendChunk({ type: 'text', data: 'Waiting for file approvals before proceeding...' });
-        await this.waitForApprovals();
-      }
+    // Enable thinking mode for Gemini 3 models
+    if (ctx.model.includes('gemini-3')) {
+      generationConfig.thinkingConfig = {
+        thinkingBudget: 8192
+      };
     }
+    
+    const requestBody = {
+      contents: conversation.contents,
+      generationConfig: generationConfig,
+      systemInstruction: { parts: [{ text: conversation.systemInstruction }] },
+      // One-shot completions run without tools
+      ...(ctx.tools.length > 0 && {
+        tools: [{ functionDeclarations: ctx.tools }],
+        toolConfig: { functionCallingConfig: { mode: 'AUTO' } }
+      })
+    };
 
+    const url = `${this.baseUrl}/models/${ctx.model}:streamGenerateContent?key=${ctx.apiKey}`;
+    let response: Response;
     try {
-      console.log(`[GeminiService] Executing ${functionName} with args:`, args);
-      
-      let result;
-      if (functionName === 'write_file' && this.mainWindow) {
-        result = await func(args, this.mainWindow);
-      } else {
-        result = await func(args);
-      }
-      
-      console.log(`[GeminiService] Function ${functionName} result:`, result);
-
-      if (functionName === 'write_file' && result.file_path && !result.error) {
-        this.filesCreated.add(result.file_path);
-        if (result.content || result.modified) {
-          this.lastFileContent = {
-            path: result.file_path,
-            content: result.content || result.modified || ''
-          };
-        }
-      }
-      
-      if (functionName === 'create_plan' && result.steps) {
-        this.todoList = result.steps.map((step: any, index: number) => ({
-          id: step.id || String(index + 1),
-          description: step.description || '',
-          status: step.status || 'pending',
-          order: step.order || index + 1
-        }));
-      }
-
-      collectedFunctionResults.push({ name: functionName, response: result });
-      this.sendChunk({ type: 'function_result', name: functionName, data: result, callId });
-
-      if (functionName === 'task_complete') {
-        this.loopManager.markTaskCompleted();
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody),
+        signal: ctx.signal,
+      });
+    } catch (fetchError: any) {
+      if (fetchError.name === 'AbortError' || ctx.signal.aborted) throw fetchError;
+      if (fetchError.message?.includes('timeout')) {
+        throw new ProviderError('TIMEOUT', 'Request timed out. Continuing with new session...');
       }
-    } catch (error: any) {
-      console.error(`[GeminiService] Error executing ${functionName}:`, error);
-      const errorResult = { error: error.message || String(error) };
-      collectedFunctionResults.push({ name: functionName, response: errorResult });
-      this.sendChunk({ type: 'function_result', name: functionName, data: errorResult, callId });
+      throw new ProviderError('TRANSIENT', `Request failed: ${fetchError.message || String(fetchError)}`);
     }
-  }
 
-  async chatStream(
-    prompt: string,
-    options: GeminiChatOptions,
-    onChunk?: (chunk: GeminiChunkData) => void,
-    continuationState?: ContinuationState,
-    window?: BrowserWindow
-  ): Promise<void> {
-    this.onChunkCallback = onChunk;
-    
-    // LICENSE CHECK: Set limits based on License Tier
-    const tier = options.licenseTier || (options.isPro ? 'pro' : 'free');
-    
-    // Define limits
-    const allLimits = {
-        free: { maxLoops: 50, allowSmartContext: false, allowFullContext: false },
-        standard: { maxLoops: 15, allowSmartContext: true, allowFullContext: false }, // Kept for type compatibility
-        pro: { maxLoops: Infinity, allowSmartContext: true, allowFullContext: true }
-    };
-    const limits = allLimits[tier] || { maxLoops: 50, allowSmartContext: false, allowFullContext: false };
-    
-    // Update loop manager with the new limit
-    this.loopManager = new AgenticLoopManager(limits.maxLoops);
-    
-    if (continuationState) {
-      this.originalUserInput = continuationState.userInput;
-      this.filesCreated = new Set(continuationState.filesCreated);
-      this.todoList = continuationState.todoList || [];
-      this.lastFileContent = continuationState.lastFileContent || null;
-      this.continuationCount++;
-    } else {
-      this.loopManager.reset();
-      this.filesCreated.clear();
-      this.filesWriting.clear();
-      this.todoList = [];
-      this.lastFileContent = null;
-      this.continuationCount = 0;
-      this.originalUserInput = prompt;
+    if (!response.ok) {
+      throw this.parseError(response.status, await response.text());
     }
-    
-    this.loopManager.setIsActive(true);
-    this.cancelController = new AbortController();
 
-    if (!options.apiKey) {
-      this.sendChunk({ type: 'error', data: 'No Gemini API key provided. Please set it in Settings.' });
-      this.sendChunk({ type: 'done' });
-      return;
-    }
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    if (!reader) throw new ProviderError('FATAL', 'No response body reader available');
 
-    const model = options.model || 'gemini-2.5-flash';
-    const contents: any[] = [];
-    
-    if (continuationState) {
-      const continuationPrompt = this.buildContinuationPrompt(continuationState, options);
-      contents.push({
-        role: 'user',
-        parts: [{ text: continuationPrompt }]
-      });
-      contents.push({
-        role: 'model',
-        parts: [{ text: "I'll continue from where we left off. Let me check the current state and proceed." }]
-      });
-      this.sendChunk({ type: 'continuation', data: 'Continuing session...' });
-    }
+    let buffer = '';
+    let fullText = '';
+    const toolCalls: ToolCallRequest[] = [];
+    const originalFcParts: any[] = [];
 
-    if (options.conversationHistory) {
-      for (const msg of options.conversationHistory) {
-        contents.push({
-          role: msg.role === 'assistant' ? 'model' : 'user',
-          parts: [{ text: msg.content }],
-        });
-      }
-    }
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      ctx.keepAlive();
 
-    if (!continuationState) {
-      let contextText = '';
+      buffer += decoder.decode(value, { stream: true });
       
-      // BUILD SMART CONTEXT IF PROJECT IS ACTIVE
-      if (options.context?.project) {
-        const isStartOfSession = !options.conversationHistory || options.conversationHistory.length < 2;
-        
-        // LICENSE CHECK: Downgrade context mode if not allowed
-        let selectedContextMode = options.context.contextMode || 'smart';
-        
-        // Downgrade logic based on tier capabilities
-        if (!limits.allowFullContext && selectedContextMode === 'full') {
-            selectedContextMode = limits.allowSmartContext ? 'smart' : 'minimal';
-        } else if (!limits.allowSmartContext && selectedContextMode === 'smart') {
-            selectedContextMode = 'minimal';
+      let startIdx = buffer.indexOf('{');
+      while (startIdx !== -1) {
+        let endIdx = -1;
+        let depth = 0;
+        for (let i = startIdx; i < buffer.length; i++) {
+          if (buffer[i] === '{') depth++;
+          else if (buffer[i] === '}') depth--;
+          if (depth === 0) {
+            endIdx = i;
+            break;
+          }
         }
         
-        // Notify user if downgraded (only if it differs from what was requested)
-        if (selectedContextMode !== options.context.contextMode) {
-             this.sendChunk({ 
-               type: 'text', 
-               data: `> **License Limit:** Context downgraded to "${selectedContextMode}". Upgrade your license for better context awareness.\n\n` 
-             });
-        }
-
-        if (isStartOfSession || selectedContextMode === 'full') {
-          console.log(`[GeminiService] Building project context with mode: ${selectedContextMode}`);
-          const smartContext = new SmartContext(
-            options.context.project, 
-            selectedContextMode
-          );
-          const projectSummary = await smartContext.buildContext();
-          contextText += projectSummary + '\n\n';
+        if (endIdx !== -1) {
+          const jsonStr = buffer.substring(startIdx, endIdx + 1);
+          try {
+            const item = JSON.parse(jsonStr);
+            this.processCandidate(item, (text) => {
+              fullText += text;
+              ctx.emitText(text);
+            }, (fc, originalPart) => {
+              toolCalls.push({ id: `${fc.name}_${Date.now()}_${toolCalls.length}`, name: fc.name, args: fc.args || {} });
+              originalFcParts.push(originalPart || { functionCall: fc });
+            });
+          } catch (e) {}
+          buffer = buffer.substring(endIdx + 1);
+          startIdx = buffer.indexOf('{');
         } else {
-          // Optimization: Only send project tree/path and rely on tools for subsequent messages
-          contextText += `Active Project: ${options.context.project}\nUse tools (list_files, read_file, search_code) to explore the codebase as needed.\n\n`;
+          break;
         }
       }
-
-      if (options.context?.files && options.context.files.length > 0) {
-        contextText += 'User-Selected Context Files:\n';
-        contextText += options.context.files
-          .map(f => `File: ${f.path}\n${f.content || ''}`)
-          .join('\n\n');
-        contextText += '\n\n';
-      }
-
-      contents.push({
-        role: 'user',
-        parts: [{ text: contextText + prompt }],
-      });
     }
 
-    try {
-      while (this.loopManager.shouldContinueLoop()) {
-        if (this.cancelController?.signal.aborted) {
-          this.sendChunk({ type: 'done' });
-          return;
-        }
-
-        this.loopManager.incrementIteration();
-
-        const generationConfig: any = { 
-          temperature: 0.7, 
-          maxOutputTokens: 65536, 
-          topP: 0.95 
-        };
-        
-        // Enable thinking mode for Gemini 3 models
-        if (model.includes('gemini-3')) {
-          generationConfig.thinkingConfig = {
-            thinkingBudget: 8192
-          };
-        }
-        
-        const requestBody = {
-          contents: contents,
-          generationConfig: generationConfig,
-          tools: TOOL_DEFINITIONS,
-          systemInstruction: { parts: [{ text: SYSTEM_INSTRUCTION }] },
-          toolConfig: { functionCallingConfig: { mode: 'AUTO' } }
-        };
-
-        const url = `${this.baseUrl}/models/${model}:streamGenerateContent?key=${options.apiKey}`;
-        let response: Response;
-        try {
-          response = await fetch(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(requestBody),
-            signal: this.cancelController.signal,
-          });
-        } catch (fetchError: any) {
-          if (fetchError.name === 'AbortError' || fetchError.message?.includes('timeout')) {
-            const errorInfo = { type: 'TIMEOUT', message: 'Request timed out (180s). Continuing with new session...' };
-            return this.handleContinuation(prompt, options, errorInfo);
-          }
-          throw fetchError;
-        }
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          const errorInfo = this.parseError(response.status, errorText);
-          
-          if (errorInfo.type === 'CONTEXT_LIMIT' || errorInfo.type === 'TIMEOUT') {
-            return this.handleContinuation(prompt, options, errorInfo);
-          }
-          
-          if (errorInfo.type === 'RATE_LIMIT') {
-            this.sendChunk({ type: 'error', data: errorInfo.message });
-            this.sendChunk({ type: 'text', data: 'Waiting 65 seconds for rate limit...' });
-            await new Promise(resolve => setTimeout(resolve, 65000));
-            this.sendChunk({ type: 'text', data: 'Resuming...' });
-            continue;
-          }
-          
-          throw new Error(errorInfo.message);
-        }
-
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        if (!reader) throw new Error('No response body reader available');
-
-        let buffer = '';
-        let fullText = '';
-        let functionCalls: any[] = [];
-        let originalFcParts: any[] = [];
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          
-          let startIdx = buffer.indexOf('{');
-          while (startIdx !== -1) {
-            let endIdx = -1;
-            let depth = 0;
-            for (let i = startIdx; i < buffer.length; i++) {
-              if (buffer[i] === '{') depth++;
-              else if (buffer[i] === '}') depth--;
-              if (depth === 0) {
-                endIdx = i;
-                break;
-              }
-            }
-            
-            if (endIdx !== -1) {
-              const jsonStr = buffer.substring(startIdx, endIdx + 1);
-              try {
-                const item = JSON.parse(jsonStr);
-                this.processCandidate(item, (text) => {
-                  fullText += text;
-                  this.sendChunk({ type: 'text', data: text });
-                }, (fc, originalPart) => {
-                  functionCalls.push(fc);
-                  if (originalPart) {
-                    originalFcParts.push(originalPart);
-                  } else {
-                    originalFcParts.push({ functionCall: fc });
-                  }
-                });
-              } catch (e) {}
-              buffer = buffer.substring(endIdx + 1);
-              startIdx = buffer.indexOf('{');
-            } else {
-              break;
-            }
-          }
-        }
-
-        const modelParts: any[] = [];
-        if (fullText) modelParts.push({ text: fullText });
-        if (originalFcParts.length > 0) {
-          modelParts.push(...originalFcParts);
-        }
-        contents.push({ role: 'model', parts: modelParts });
-
-        if (functionCalls.length === 0) {
-          this.sendChunk({ type: 'done' });
-          return;
-        }
-
-        const functionResponses: any[] = [];
-        for (const fc of functionCalls) {
-          const callId = `${fc.name}_${Date.now()}`;
-          // Status messages are now handled by ChatPanel based on function_call chunks
-          this.sendChunk({ type: 'function_call', name: fc.name, data: fc.args, callId });
-          
-          const collectedResults: any[] = [];
-          await this.executeFunctionCall(fc.name, fc.args, callId, collectedResults);
-          if (collectedResults.length > 0) {
-            functionResponses.push({
-              name: fc.name,
-              response: { result: collectedResults[0].response }
-            });
-          }
-        }
+    // Original parts keep thought signatures that Gemini 3 requires on replay
+    return { text: fullText, toolCalls, raw: originalFcParts };
+  }
 
-        contents.push({
-          role: 'user',
-          parts: functionResponses.map(fr => ({ functionResponse: fr }))
-        });
+  appendTurn(conversation: GeminiConversation, turn: AgentTurn, results: ToolCallResult[]): void {
+    const modelParts: any[] = [];
+    if (turn.text) modelParts.push({ text: turn.text });
+    modelParts.push(...(turn.raw || []));
+    conversation.contents.push({ role: 'model', parts: modelParts });
+
+    conversation.contents.push({
+      role: 'user',
+      parts: results.map(result => ({
+        functionResponse: { name: result.name, response: { result: result.response } }
+      }))
+    });
+  }
 
-        if (this.loopManager.getTaskCompleted()) {
-          this.sendChunk({ type: 'done' });
-          return;
-        }
-      }
-      
-      // If we exit the loop without completion, notify the user about the limit
-      if (!this.loopManager.getTaskCompleted() && tier !== 'pro' && this.loopManager.getCurrentIteration() >= limits.maxLoops) {
-          this.sendChunk({ 
-              type: 'text', 
-              data: `\n\n**License Limit Reached:** The autonomous agent has stopped after ${limits.maxLoops} iterations. Upgrade to a higher tier for extended autonomous coding.` 
-          });
-      }
-      
-      this.sendChunk({ type: 'done' });
-    } catch (error: any) {
-      console.error('[GeminiService] Error in chatStream:', error);
-      this.sendChunk({ type: 'error', data: error.message || String(error) });
-      this.sendChunk({ type: 'done' });
+  appendUserMessage(conversation: GeminiConversation, text: string): void {
+    const last = conversation.contents[conversation.contents.length - 1];
+    if (last?.role === 'user') {
+      last.parts.push({ text });
+    } else {
+      conversation.contents.push({ role: 'user', parts: [{ text }] });
     }
   }
 
@@ -592,7 +225,7 @@ export class GeminiService {
     }
   }
 
-  private parseError(status: number, errorText: string): { type: string; message: string } {
+  private parseError(status: number, errorText: string): ProviderError {
     let errorBody = errorText.substring(0, 1000);
     let errorCode: string | undefined;
     
@@ -606,7 +239,7 @@ export class GeminiService {
     }
     
     if (status === 429) {
-      return { type: 'RATE_LIMIT', message: `Rate limit exceeded. Free tier: 2-15 RPM. Wait 60s.\n${errorBody}` };
+      return new ProviderError('RATE_LIMIT', `Rate limit exceeded. Free tier: 2-15 RPM. Wait 60s.\n${errorBody}`, 65000);
     } else if (status === 400) {
       const errorLower = errorBody.toLowerCase();
       const contextLimitPhrases = [
@@ -618,86 +251,12 @@ export class GeminiService {
       ];
       
       if (contextLimitPhrases.some(phrase => errorLower.includes(phrase))) {
-        return { type: 'CONTEXT_LIMIT', message: `Context limit reached: ${errorBody}` };
+        return new ProviderError('CONTEXT_LIMIT', `Context limit reached: ${errorBody}`);
       }
-      return { type: 'BAD_REQUEST', message: `Bad request: ${errorBody}` };
+      return new ProviderError('FATAL', `Bad request: ${errorBody}`);
     } else {
-      return { type: `API_ERROR_${status}`, message: `API error ${status}: ${errorBody}` };
-    }
-  }
-
-  private async handleContinuation(
-    prompt: string,
-    options: GeminiChatOptions,
-    errorInfo: { type: string; message: string }
-  ): Promise<void> {
-    if (this.continuationCount >= this.maxContinuations) {
-      this.sendChunk({ type: 'error', data: `Too many continuations (${this.maxContinuations}). Stopping.` });
-      this.sendChunk({ type: 'done' });
-      return;
-    }
-    
-    this.sendChunk({ type: 'error', data: errorInfo.message });
-    this.sendChunk({ type: 'text', data: 'Creating continuation session...' });
-    
-    const continuationState = this.createContinuationState(prompt, options);
-    
-    await this.chatStream(prompt, options, this.onChunkCallback, continuationState);
-  }
-
-  private createContinuationState(prompt: string, options: GeminiChatOptions): ContinuationState {
-    const recentSummary = 'Working on task...';
-    
-    return {
-      userInput: this.originalUserInput || prompt,
-      todoList: this.todoList,
-      filesCreated: Array.from(this.filesCreated),
-      lastFileContent: this.lastFileContent || undefined,
-      recentSummary,
-    };
-  }
-
-  private buildContinuationPrompt(state: ContinuationState, options: GeminiChatOptions): string {
-    const todoSummary = state.todoList && state.todoList.length > 0
-      ? state.todoList.map(t => `  ${t.status === 'completed' ? '✓' : t.status === 'in-progress' ? '▶' : '☐'} [${t.id}] ${t.description}`).join('\n')
-      : 'No tasks yet';
-    
-    const previousFiles = state.filesCreated.length > 0
-      ? state.filesCreated.slice(0, -1).map(f => `  • ${f}`).join('\n') + (state.filesCreated.length > 10 ? '\n  ... and more' : '')
-      : 'None';
-    
-    const lastFileSection = state.lastFileContent
-      ? `\nLast file being written (may be incomplete - continue if needed):\n  Path: ${state.lastFileContent.path}\n  Content:\n\`\`\`\n${state.lastFileContent.content.substring(0, 5000)}\n\`\`\`\n`
-      : '';
-    
-    let contextText = '';
-    if (options.context?.project) {
-      contextText = `\n\nProject context (compressed):\nActive Project: ${options.context.project}\n`;
+      return new ProviderError(status >= 500 ? 'TRANSIENT' : 'FATAL', `API error ${status}: ${errorBody}`);
     }
-    
-    return `CONTINUATION SESSION - Previous session hit context limit or timeout.
-
-Original task: ${state.userInput}
-
-Current status:
-To-Do List (fully preserved):
-${todoSummary}
-
-Files created: ${state.filesCreated.length}
-Previous files (paths only):
-${previousFiles}${lastFileSection}
-
-Recent progress: ${state.recentSummary}
-${contextText}
-
-IMPORTANT: Continue from where you left off. Check the to-do list, verify files created, and continue working until task_complete is called. Do NOT restart the task.`;
-  }
-
-  cancel(): void {
-    if (this.cancelController) this.cancelController.abort();
-    this.loopManager.setIsActive(false);
-    this.onChunkCallback = undefined;
-    this.sendChunk({ type: 'done' });
   }
 
   async listModels(): Promise<{ success: boolean; models: any[] }> {
@@ -711,4 +270,4 @@ IMPORTANT: Continue from where you left off. Check the to-do list, verify files
       ]
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,88 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gitService, parseStatus } from './git.service';
+import { pathJail } from './path-jail.service';
+
+const entries = (...tokens: string[]) => tokens.join('\0') + '\0';
+
+describe('parseStatus', () => {
+  it('reads the branch headers', () => {
+    const status = parseStatus(entries(
+      '# branch.oid 0123456789abcdef0123456789abcdef01234567',
+      '# branch.head main',
+      '# branch.upstream origin/main',
+      '# branch.ab +2 -1',
+    ));
+    expect(status).toMatchObject({ head: '0123456789abcdef0123456789abcdef01234567', branch: 'main', upstream: 'origin/main', ahead: 2, behind: 1 });
+  });
+
+  it('reports no head before the first commit and no branch when detached', () => {
+    expect(parseStatus(entries('# branch.oid (initial)', '# branch.head main')).head).toBeNull();
+    expect(parseStatus(entries('# branch.oid abc', '# branch.head (detached)')).branch).toBeNull();
+  });
+
+  it('splits changes into staged, unstaged, untracked and conflicted', () => {
+    const status = parseStatus(entries(
+      '1 MM N... 100644 100644 100644 aaaa bbbb src/both changed.ts',
+      '1 A. N... 000000 100644 100644 0000 cccc src/new.ts',
+      '2 R. N... 100644 100644 100644 dddd dddd R100 src/renamed.ts',
+      'src/original.ts',
+      'u UU N... 100644 100644 100644 100644 eeee ffff 1111 src/conflict.ts',
+      '? notes.txt',
+    ));
+    expect(status.staged).toEqual([
+      { path: 'src/both changed.ts', change: 'modified' },
+      { path: 'src/new.ts', change: 'added' },
+      { path: 'src/renamed.ts', from: 'src/original.ts', change: 'renamed' },
+    ]);
+    expect(status.unstaged).toEqual([{ path: 'src/both changed.ts', change: 'modified' }]);
+    expect(status.conflicted).toEqual(['src/conflict.ts']);
+    expect(status.untracked).toEqual(['notes.txt']);
+  });
+
+  it('makes paths relative to a project inside the repository', () => {
+    const status = parseStatus(entries('1 .M N... 100644 100644 100644 aaaa aaaa app/src/a.ts', '? app/b.ts'), 'app/\n');
+    expect(status.unstaged).toEqual([{ path: 'src/a.ts', change: 'modified' }]);
+    expect(status.untracked).toEqual(['b.ts']);
+  });
+});
+
+describe('gitService in a project inside a repository', () => {
+  let repo: string;
+  const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: repo, encoding: 'utf-8' });
+
+  beforeEach(() => {
+    repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-git-')));
+    fs.mkdirSync(path.join(repo, 'app/src'), { recursive: true });
+    fs.writeFileSync(path.join(repo, 'app/src/a.ts'), 'one\n', 'utf-8');
+    fs.writeFileSync(path.join(repo, 'outside.txt'), 'one\n', 'utf-8');
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-qm', 'initial');
+    pathJail.setProjectRoot(path.join(repo, 'app'));
+  });
+
+  afterEach(() => {
+    pathJail.setProjectRoot(null);
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('lists paths that stage and unstage accept', async () => {
+    fs.writeFileSync(path.join(repo, 'app/src/a.ts'), 'two\n', 'utf-8');
+    fs.writeFileSync(path.join(repo, 'outside.txt'), 'two\n', 'utf-8');
+
+    const before = await gitService.status();
+    expect(before.root).toBe(path.join(repo, 'app'));
+    expect(before.unstaged).toEqual([{ path: 'src/a.ts', change: 'modified' }]);
+
+    await gitService.stage(before.unstaged.map(change => change.path));
+    const staged = await gitService.status();
+    expect(staged.staged).toEqual([{ path: 'src/a.ts', change: 'modified' }]);
+
+    await gitService.unstage(staged.staged.map(change => change.path));
+    expect((await gitService.status()).unstaged).toEqual([{ path: 'src/a.ts', change: 'modified' }]);
+  });
+});
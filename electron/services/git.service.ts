@@ -0,0 +1,726 @@
+/**
+ * Git Service
+ * Structured access to the project's git repository. Runs the git binary
+ * directly (no shell) in the project root and parses its machine-readable
+ * output, so the agent and the UI get data instead of terminal text.
+ *
+ * The git_* agent tools at the bottom wrap these calls; git_commit and
+ * git_checkout ask for approval unless the permission policy allowed them.
+ */
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathJail, PathJailError } from './path-jail.service';
+import { toolApprovalService } from './tool-approval.service';
+import { summarizeOutput } from './command-runner.service';
+
+export type GitChange = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'type-changed' | 'unmerged';
+
+export interface GitFileChange {
+  path: string;
+  from?: string; // Original path of a rename or copy
+  change: GitChange;
+}
+
+export interface GitStatus {
+  root: string; // Project root; the paths below are relative to it, like the paths stage() and friends take
+  branch: string | null; // null when HEAD is detached
+  head: string | null; // null before the first commit
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+export interface GitDiffFile {
+  path: string;
+  from?: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body: string;
+}
+
+export interface GitBranch {
+  name: string;
+  remote: boolean;
+  current: boolean;
+  hash: string;
+  upstream: string | null;
+}
+
+export interface GitHunk {
+  index: number;
+  header: string; // The @@ line
+  lines: string[];
+}
+
+export type HunkAction = 'stage' | 'unstage' | 'discard';
+
+export interface GitBlameLine {
+  line: number;
+  commit: string; // Short hash, or 'uncommitted'
+  content: string;
+}
+
+// How a file shows up in the file tree
+export type GitDecoration = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'ignored' | 'conflicted';
+
+// Absolute paths under the project root; untracked or ignored folders end with '/'
+export type GitDecorations = Record<string, GitDecoration>;
+
+// Lines of the editor's buffer that differ from HEAD
+export interface GitLineChange {
+  kind: 'added' | 'modified' | 'deleted';
+  startLine: number; // For deletions the line above the removed lines, 0 at the top of the file
+  endLine: number;
+  originalLines: string[]; // What HEAD has in their place
+}
+
+export class GitError extends Error {
+  constructor(message: string, public readonly exitCode: number | null = null) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+const MAX_BUFFER = 32 * 1024 * 1024;
+const MAX_PATCH_CHARS = 20000;
+const MAX_LIST_ENTRIES = 500;
+const MAX_LOG_COUNT = 100;
+const MAX_BLAME_LINES = 400;
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+const LOG_FORMAT = ['%H', '%h', '%an', '%ae', '%aI', '%s', '%b'].join('%x1f') + '%x1e';
+
+const CHANGE_CODES: Record<string, GitChange> = {
+  M: 'modified',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type-changed',
+  U: 'unmerged',
+};
+
+/**
+ * Refs come from the model; one starting with '-' would be read as an option
+ */
+function checkRef(ref: string, label: string = 'ref'): string {
+  const value = (ref || '').trim();
+  if (!value || value.startsWith('-') || /[\s\x00-\x1f]/.test(value)) {
+    throw new GitError(`Invalid ${label}: ${JSON.stringify(ref)}`);
+  }
+  return value;
+}
+
+/**
+ * A path from `git status` (relative to the repository root) relative to the
+ * project, which may be a folder inside the repository. `prefix` is the
+ * project's `git rev-parse --show-prefix`.
+ */
+function toProjectPath(prefix: string, repoPath: string): string {
+  return path.posix.relative(prefix.trim() || '.', repoPath);
+}
+
+/**
+ * `git status --porcelain=v2 --branch -z` output, with paths made relative to the project
+ */
+export function parseStatus(output: string, prefix: string = ''): Omit<GitStatus, 'root'> {
+  const status: Omit<GitStatus, 'root'> = {
+    branch: null, head: null, upstream: null, ahead: 0, behind: 0,
+    staged: [], unstaged: [], untracked: [], conflicted: [],
+  };
+  const local = (repoPath: string) => toProjectPath(prefix, repoPath);
+
+  const tokens = output.split('\0');
+  for (let i = 0; i < tokens.length; i++) {
+    const entry = tokens[i];
+    if (entry.startsWith('# branch.oid ')) {
+      const oid = entry.slice(13);
+      status.head = oid === '(initial)' ? null : oid;
+    } else if (entry.startsWith('# branch.head ')) {
+      const head = entry.slice(14);
+      status.branch = head === '(detached)' ? null : head;
+    } else if (entry.startsWith('# branch.upstream ')) {
+      status.upstream = entry.slice(18);
+    } else if (entry.startsWith('# branch.ab ')) {
+      const match = entry.match(/\+(\d+) -(\d+)/);
+      if (match) {
+        status.ahead = parseInt(match[1], 10);
+        status.behind = parseInt(match[2], 10);
+      }
+    } else if (entry.startsWith('1 ') || entry.startsWith('2 ')) {
+      // 1 XY sub mH mI mW hH hI path / 2 XY sub mH mI mW hH hI Xscore path, then the original path
+      const fields = entry.split(' ');
+      const xy = fields[1];
+      const filePath = local(fields.slice(entry.startsWith('1 ') ? 8 : 9).join(' '));
+      const from = entry.startsWith('2 ') ? local(tokens[++i]) : undefined;
+      if (xy[0] !== '.') status.staged.push({ path: filePath, ...(from && { from }), change: CHANGE_CODES[xy[0]] || 'modified' });
+      if (xy[1] !== '.') status.unstaged.push({ path: filePath, change: CHANGE_CODES[xy[1]] || 'modified' });
+    } else if (entry.startsWith('u ')) {
+      status.conflicted.push(local(entry.split(' ').slice(10).join(' ')));
+    } else if (entry.startsWith('? ')) {
+      status.untracked.push(local(entry.slice(2)));
+    }
+  }
+  return status;
+}
+
+function parseCommits(output: string): GitCommitInfo[] {
+  return output
+    .split(RECORD)
+    .map(record => record.replace(/^\n/, ''))
+    .filter(record => record.trim())
+    .map(record => {
+      const [hash, shortHash, author, email, date, subject, body = ''] = record.split(FIELD);
+      return { hash, shortHash, author, email, date, subject, body: body.trim() };
+    });
+}
+
+/**
+ * `git diff --numstat -z` output; renames are "adds\tdels\t\0from\0to\0"
+ */
+function parseNumstat(output: string): GitDiffFile[] {
+  const tokens = output.split('\0');
+  const files: GitDiffFile[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const match = tokens[i].match(/^(-|\d+)\t(-|\d+)\t(.*)$/s);
+    if (!match) continue;
+    const binary = match[1] === '-';
+    const file: GitDiffFile = {
+      path: match[3],
+      additions: binary ? 0 : parseInt(match[1], 10),
+      deletions: binary ? 0 : parseInt(match[2], 10),
+      binary,
+    };
+    if (!match[3]) {
+      file.from = tokens[++i];
+      file.path = tokens[++i];
+    }
+    files.push(file);
+  }
+  return files;
+}
+
+/**
+ * `git diff -U0` output as line changes of the new side
+ */
+function parseLineChanges(output: string): GitLineChange[] {
+  const changes: GitLineChange[] = [];
+  let current: GitLineChange | null = null;
+  for (const line of output.split('\n')) {
+    const match = line.match(/^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (match) {
+      const removed = match[1] === undefined ? 1 : parseInt(match[1], 10);
+      const start = parseInt(match[2], 10);
+      const added = match[3] === undefined ? 1 : parseInt(match[3], 10);
+      current = added === 0
+        ? { kind: 'deleted', startLine: start, endLine: start, originalLines: [] }
+        : { kind: removed === 0 ? 'added' : 'modified', startLine: start, endLine: start + added - 1, originalLines: [] };
+      changes.push(current);
+    } else if (current && line.startsWith('-')) {
+      current.originalLines.push(line.slice(1).replace(/\r$/, ''));
+    }
+  }
+  return changes;
+}
+
+class GitService {
+  /**
+   * Run git in the project root. Rejects with GitError on a non-zero exit
+   * unless `allowExitCodes` includes it.
+   */
+  run(args: string[], options: { allowExitCodes?: number[]; input?: string } = {}): Promise<{ stdout: string; exitCode: number }> {
+    const cwd = pathJail.getProjectRoot();
+    if (!cwd) return Promise.reject(new GitError('No project folder is open'));
+
+    return new Promise((resolve, reject) => {
+      const child = execFile('git', args, {
+        cwd,
+        maxBuffer: MAX_BUFFER,
+        windowsHide: true,
+        // Never block on a credential prompt or take index locks for read-only calls
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0', LC_ALL: 'C' },
+      }, (error: any, stdout, stderr) => {
+        const exitCode = error ? (typeof error.code === 'number' ? error.code : -1) : 0;
+        if (error && !options.allowExitCodes?.includes(exitCode)) {
+          if (error.code === 'ENOENT') {
+            reject(new GitError('git is not installed or not on PATH'));
+          } else {
+            reject(new GitError((stderr || error.message).trim().replace(/^fatal: /, ''), exitCode));
+          }
+          return;
+        }
+        resolve({ stdout, exitCode });
+      });
+      if (options.input !== undefined) {
+        child.stdin?.end(options.input);
+      }
+    });
+  }
+
+  /**
+   * Path relative to the project root, as git expects it
+   */
+  relativePath(filePath: string): string {
+    const relative = path.relative(pathJail.getProjectRoot()!, pathJail.resolve(filePath));
+    return relative.split(path.sep).join('/') || '.';
+  }
+
+  async getRoot(): Promise<string> {
+    const { stdout } = await this.run(['rev-parse', '--show-toplevel']);
+    return stdout.trim();
+  }
+
+  /**
+   * Status of the project's files; a project inside a larger repository only
+   * sees its own folder
+   */
+  async status(): Promise<GitStatus> {
+    const [{ stdout: prefix }, { stdout }] = await Promise.all([
+      this.run(['rev-parse', '--show-prefix']),
+      this.run(['status', '--porcelain=v2', '--branch', '--untracked-files=all', '-z', '--', '.']),
+    ]);
+    return { root: pathJail.getProjectRoot()!, ...parseStatus(stdout, prefix) };
+  }
+
+  /**
+   * Status of every changed, untracked or ignored path, for the file tree.
+   * Untracked and ignored folders come as one entry instead of their contents.
+   */
+  async decorations(): Promise<GitDecorations> {
+    const projectRoot = pathJail.getProjectRoot()!;
+    const [{ stdout: prefix }, { stdout }] = await Promise.all([
+      this.run(['rev-parse', '--show-prefix']),
+      this.run(['status', '--porcelain=v2', '--untracked-files=normal', '--ignored=traditional', '-z']),
+    ]);
+    const decorations: GitDecorations = {};
+    const add = (entry: string, decoration: GitDecoration) => {
+      const relative = toProjectPath(prefix, entry);
+      if (!relative || relative.startsWith('..')) return;
+      decorations[path.join(projectRoot, relative) + (entry.endsWith('/') ? '/' : '')] = decoration;
+    };
+
+    const tokens = stdout.split('\0');
+    for (let i = 0; i < tokens.length; i++) {
+      const entry = tokens[i];
+      if (entry.startsWith('1 ') || entry.startsWith('2 ')) {
+        const fields = entry.split(' ');
+        const xy = fields[1];
+        const filePath = fields.slice(entry.startsWith('1 ') ? 8 : 9).join(' ');
+        if (entry.startsWith('2 ')) i++; // Skip the original path
+        // A new file stays added however it was edited since
+        add(filePath, xy[0] === 'A' ? 'added'
+          : xy.includes('D') ? 'deleted'
+          : xy[0] === 'R' || xy[0] === 'C' ? 'renamed'
+          : 'modified');
+      } else if (entry.startsWith('u ')) {
+        add(entry.split(' ').slice(10).join(' '), 'conflicted');
+      } else if (entry.startsWith('? ')) {
+        add(entry.slice(2), 'untracked');
+      } else if (entry.startsWith('! ')) {
+        add(entry.slice(2), 'ignored');
+      }
+    }
+    return decorations;
+  }
+
+  /**
+   * Where `content` (the editor's possibly unsaved buffer) differs from the
+   * file at HEAD. Files that are not in HEAD have nothing to compare with.
+   */
+  async lineChanges(filePath: string, content: string): Promise<GitLineChange[]> {
+    const { stdout: original, exitCode } = await this.run(['show', `HEAD:./${this.relativePath(filePath)}`], { allowExitCodes: [128] });
+    if (exitCode !== 0) return [];
+
+    // diff --no-index compares files on disk, so both sides go to a scratch folder
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'candycode-diff-'));
+    try {
+      await Promise.all([
+        fs.writeFile(path.join(dir, 'head'), original, 'utf-8'),
+        fs.writeFile(path.join(dir, 'buffer'), content, 'utf-8'),
+      ]);
+      const { stdout } = await this.run(
+        ['diff', '--no-index', '--no-color', '--no-ext-diff', '-U0', path.join(dir, 'head'), path.join(dir, 'buffer')],
+        { allowExitCodes: [1] },
+      );
+      return parseLineChanges(stdout);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  async diff(options: { staged?: boolean; ref?: string; path?: string; contextLines?: number } = {}): Promise<{ files: GitDiffFile[]; patch: string }> {
+    const args = ['diff', '--no-color', '--no-ext-diff', '-M'];
+    if (options.staged) args.push('--cached');
+    if (options.ref) args.push(checkRef(options.ref));
+    const pathspec = options.path ? ['--', this.relativePath(options.path)] : ['--'];
+
+    const [numstat, patch] = await Promise.all([
+      this.run([...args, '--numstat', '-z', ...pathspec]),
+      this.run([...args, `-U${Math.min(Math.max(options.contextLines ?? 3, 0), 20)}`, ...pathspec]),
+    ]);
+    return { files: parseNumstat(numstat.stdout), patch: patch.stdout };
+  }
+
+  async log(options: { maxCount?: number; ref?: string; path?: string; author?: string; since?: string; grep?: string } = {}): Promise<GitCommitInfo[]> {
+    const args = ['log', `--max-count=${Math.min(Math.max(options.maxCount ?? 20, 1), MAX_LOG_COUNT)}`, `--format=${LOG_FORMAT}`];
+    if (options.author) args.push(`--author=${options.author}`);
+    if (options.since) args.push(`--since=${options.since}`);
+    if (options.grep) args.push(`--grep=${options.grep}`, '--regexp-ignore-case');
+    if (options.ref) args.push(checkRef(options.ref));
+    args.push('--');
+    if (options.path) args.push(this.relativePath(options.path));
+
+    try {
+      const { stdout } = await this.run(args);
+      return parseCommits(stdout);
+    } catch (error: any) {
+      // A repository without commits has no log rather than an error
+      if (/does not have any commits/.test(error.message)) return [];
+      throw error;
+    }
+  }
+
+  async blame(filePath: string, startLine?: number, endLine?: number): Promise<{ commits: Record<string, { author: string; date: string; summary: string }>; lines: GitBlameLine[] }> {
+    const args = ['blame', '--porcelain'];
+    if (startLine || endLine) {
+      const start = Math.max(startLine || 1, 1);
+      args.push(`-L${start},${endLine ? Math.max(endLine, start) : `+${MAX_BLAME_LINES}`}`);
+    }
+    args.push('--', this.relativePath(filePath));
+    const { stdout } = await this.run(args);
+
+    const commits: Record<string, { author: string; date: string; summary: string }> = {};
+    const lines: GitBlameLine[] = [];
+    let current: { hash: string; line: number } | null = null;
+    let pending: { author?: string; time?: number; summary?: string } = {};
+
+    for (const line of stdout.split('\n')) {
+      const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+      if (header) {
+        current = { hash: header[1], line: parseInt(header[2], 10) };
+        pending = {};
+      } else if (line.startsWith('\t') && current) {
+        const uncommitted = /^0+$/.test(current.hash);
+        const short = uncommitted ? 'uncommitted' : current.hash.slice(0, 8);
+        if (!commits[short] && uncommitted) {
+          commits[short] = { author: '', date: '', summary: 'Not committed yet' };
+        } else if (!commits[short] && pending.summary !== undefined) {
+          commits[short] = {
+            author: pending.author || '',
+            date: pending.time ? new Date(pending.time * 1000).toISOString() : '',
+            summary: pending.summary,
+          };
+        }
+        if (lines.length < MAX_BLAME_LINES) {
+          lines.push({ line: current.line, commit: short, content: line.slice(1) });
+        }
+        current = null;
+      } else if (current) {
+        const space = line.indexOf(' ');
+        const key = space === -1 ? line : line.slice(0, space);
+        const value = space === -1 ? '' : line.slice(space + 1);
+        if (key === 'author') pending.author = value;
+        else if (key === 'author-time') pending.time = parseInt(value, 10);
+        else if (key === 'summary') pending.summary = value;
+      }
+    }
+    return { commits, lines };
+  }
+
+  async show(ref: string = 'HEAD'): Promise<{ commit: GitCommitInfo; files: GitDiffFile[]; patch: string }> {
+    const target = checkRef(ref);
+    const [meta, numstat, patch] = await Promise.all([
+      this.run(['show', '-s', `--format=${LOG_FORMAT}`, target, '--']),
+      this.run(['show', '--format=', '--numstat', '-z', '-M', target, '--']),
+      this.run(['show', '--format=', '--no-color', '--no-ext-diff', '-M', target, '--']),
+    ]);
+    const [commit] = parseCommits(meta.stdout);
+    if (!commit) throw new GitError(`Not a commit: ${ref}`);
+    return { commit, files: parseNumstat(numstat.stdout), patch: patch.stdout };
+  }
+
+  /**
+   * Contents of a file at a revision
+   */
+  async showFile(ref: string, filePath: string): Promise<string> {
+    // './' makes the path relative to the project root rather than the repository root
+    const { stdout } = await this.run(['show', `${checkRef(ref)}:./${this.relativePath(filePath)}`]);
+    return stdout;
+  }
+
+  async hasStagedChanges(): Promise<boolean> {
+    const { exitCode } = await this.run(['diff', '--cached', '--quiet'], { allowExitCodes: [1] });
+    return exitCode === 1;
+  }
+
+  async stage(paths: string[] | 'all'): Promise<void> {
+    if (paths === 'all') {
+      await this.run(['add', '--all']);
+    } else if (paths.length > 0) {
+      await this.run(['add', '--', ...paths.map(p => this.relativePath(p))]);
+    }
+  }
+
+  async commit(message: string): Promise<GitCommitInfo> {
+    await this.run(['commit', '-m', message]);
+    const [commit] = await this.log({ maxCount: 1 });
+    return commit;
+  }
+
+  async unstage(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    const relative = paths.map(p => this.relativePath(p));
+    const { exitCode } = await this.run(['rev-parse', '--verify', '--quiet', 'HEAD'], { allowExitCodes: [1] });
+    // Before the first commit there is no HEAD to reset to
+    await this.run(exitCode === 0 ? ['reset', '-q', '--', ...relative] : ['rm', '--cached', '-r', '-q', '--', ...relative]);
+  }
+
+  /**
+   * Throw away working tree changes. Tracked files go back to their staged
+   * version; untracked files are deleted.
+   */
+  async discard(paths: string[], untracked: string[] = []): Promise<void> {
+    if (paths.length > 0) {
+      await this.run(['checkout', '--', ...paths.map(p => this.relativePath(p))]);
+    }
+    if (untracked.length > 0) {
+      await this.run(['clean', '-f', '-q', '--', ...untracked.map(p => this.relativePath(p))]);
+    }
+  }
+
+  /**
+   * Hunks of one file's unstaged (or staged) diff, with the file header kept
+   * for rebuilding single-hunk patches
+   */
+  async hunks(filePath: string, staged: boolean = false): Promise<{ header: string; hunks: GitHunk[] }> {
+    const args = ['diff', '--no-color', '--no-ext-diff', ...(staged ? ['--cached'] : []), '--', this.relativePath(filePath)];
+    const { stdout } = await this.run(args);
+    const lines = stdout.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+
+    const headerLines: string[] = [];
+    const hunks: GitHunk[] = [];
+    for (const line of lines) {
+      if (line.startsWith('@@')) {
+        hunks.push({ index: hunks.length, header: line, lines: [] });
+      } else if (hunks.length > 0) {
+        hunks[hunks.length - 1].lines.push(line);
+      } else {
+        headerLines.push(line);
+      }
+    }
+    return { header: headerLines.join('\n'), hunks };
+  }
+
+  /**
+   * Stage or unstage one hunk, or discard it from the working tree.
+   * `expectedHeader` guards against the file changing since the hunks were listed.
+   */
+  async applyHunk(filePath: string, index: number, action: HunkAction, expectedHeader?: string): Promise<void> {
+    const { header, hunks } = await this.hunks(filePath, action === 'unstage');
+    const hunk = hunks[index];
+    if (!hunk || (expectedHeader && hunk.header !== expectedHeader)) {
+      throw new GitError('The file changed since the diff was shown; refresh and try again');
+    }
+    const patch = [header, hunk.header, ...hunk.lines].join('\n') + '\n';
+    const args = ['apply', '--whitespace=nowarn'];
+    if (action !== 'discard') args.push('--cached');
+    if (action !== 'stage') args.push('--reverse');
+    await this.run([...args, '-'], { input: patch });
+  }
+
+  /**
+   * Both sides of a file's diff: index vs working tree, or HEAD vs index when staged
+   */
+  async diffContents(filePath: string, staged: boolean = false): Promise<{ original: string; modified: string }> {
+    const relative = this.relativePath(filePath);
+    const readRevision = async (spec: string) => {
+      const { stdout, exitCode } = await this.run(['show', spec], { allowExitCodes: [128] });
+      return exitCode === 0 ? stdout : '';
+    };
+    if (staged) {
+      return { original: await readRevision(`HEAD:./${relative}`), modified: await readRevision(`:./${relative}`) };
+    }
+    const original = await readRevision(`:./${relative}`);
+    const modified = await fs.readFile(pathJail.resolve(filePath), 'utf-8').catch(() => '');
+    return { original, modified };
+  }
+
+  async branches(): Promise<GitBranch[]> {
+    const format = ['%(refname)', '%(refname:short)', '%(objectname:short)', '%(upstream:short)', '%(HEAD)'].join('%1f');
+    const { stdout } = await this.run(['for-each-ref', `--format=${format}`, '--sort=-committerdate', 'refs/heads', 'refs/remotes']);
+    return stdout
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        const [ref, name, hash, upstream, head] = line.split(FIELD);
+        return { ref, name, remote: ref.startsWith('refs/remotes/'), current: head === '*', hash, upstream: upstream || null };
+      })
+      // origin/HEAD is only a pointer to the default branch
+      .filter(branch => !(branch.remote && branch.ref.endsWith('/HEAD')))
+      .map(({ ref, ...branch }) => branch);
+  }
+
+  async checkout(ref: string, create: boolean = false, startPoint?: string): Promise<void> {
+    // The trailing '--' keeps git from treating a ref that matches a file as a path to restore
+    const args = create
+      ? ['checkout', '-b', checkRef(ref, 'branch name'), ...(startPoint ? [checkRef(startPoint, 'start point')] : []), '--']
+      : ['checkout', checkRef(ref), '--'];
+    await this.run(args);
+  }
+}
+
+export const gitService = new GitService();
+
+function toolError(error: any) {
+  return { error: error.message || String(error), ...(error instanceof PathJailError && { code: error.code }) };
+}
+
+function trimList<T>(list: T[]): { items: T[]; omitted: number } {
+  return { items: list.slice(0, MAX_LIST_ENTRIES), omitted: Math.max(list.length - MAX_LIST_ENTRIES, 0) };
+}
+
+export async function gitStatus(): Promise<any> {
+  try {
+    const status = await gitService.status();
+    const staged = trimList(status.staged);
+    const unstaged = trimList(status.unstaged);
+    const untracked = trimList(status.untracked);
+    const omitted = staged.omitted + unstaged.omitted + untracked.omitted;
+    return {
+      branch: status.branch,
+      detached: status.branch === null && status.head !== null,
+      head: status.head?.slice(0, 8) ?? null,
+      upstream: status.upstream,
+      ahead: status.ahead,
+      behind: status.behind,
+      clean: status.staged.length + status.unstaged.length + status.untracked.length + status.conflicted.length === 0,
+      staged: staged.items,
+      unstaged: unstaged.items,
+      untracked: untracked.items,
+      conflicted: status.conflicted,
+      ...(omitted > 0 && { truncated: true, message: `${omitted} more entries omitted` }),
+    };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+export async function gitDiff(args: { staged?: boolean; ref?: string; path?: string; context_lines?: number }): Promise<any> {
+  try {
+    const { files, patch } = await gitService.diff({ staged: args.staged, ref: args.ref, path: args.path, contextLines: args.context_lines });
+    return {
+      against: args.ref || (args.staged ? 'HEAD (staged changes)' : 'index (unstaged changes)'),
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+      patch: summarizeOutput(patch, MAX_PATCH_CHARS),
+      truncated: patch.length > MAX_PATCH_CHARS,
+    };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+export async function gitLog(args: { max_count?: number; ref?: string; path?: string; author?: string; since?: string; grep?: string }): Promise<any> {
+  try {
+    const commits = await gitService.log({
+      maxCount: args.max_count, ref: args.ref, path: args.path, author: args.author, since: args.since, grep: args.grep,
+    });
+    return { commits: commits.map(c => ({ ...c, body: c.body.length > 500 ? `${c.body.slice(0, 500)}...` : c.body })) };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+export async function gitBlame(args: { path: string; start_line?: number; end_line?: number }): Promise<any> {
+  try {
+    if (!args.path) return { error: 'path is required' };
+    const { commits, lines } = await gitService.blame(args.path, args.start_line, args.end_line);
+    return {
+      path: args.path,
+      commits,
+      lines,
+      ...(lines.length >= MAX_BLAME_LINES && { truncated: true, message: `Showing ${MAX_BLAME_LINES} lines; use start_line/end_line for more` }),
+    };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+export async function gitShow(args: { ref?: string; path?: string }): Promise<any> {
+  try {
+    const ref = args.ref || 'HEAD';
+    if (args.path) {
+      const content = await gitService.showFile(ref, args.path);
+      return { ref, path: args.path, content: summarizeOutput(content, MAX_PATCH_CHARS), truncated: content.length > MAX_PATCH_CHARS };
+    }
+    const { commit, files, patch } = await gitService.show(ref);
+    return { commit, files, patch: summarizeOutput(patch, MAX_PATCH_CHARS), truncated: patch.length > MAX_PATCH_CHARS };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+/**
+ * @param preApproved - the permission policy already allowed (or the user approved) this call
+ */
+export async function gitCommit(args: { message: string; files?: string[]; all?: boolean }, preApproved: boolean = false): Promise<any> {
+  try {
+    const message = (args.message || '').trim();
+    if (!message) return { error: 'A commit message is required' };
+    const files = Array.isArray(args.files) ? args.files : [];
+
+    if (!preApproved) {
+      const staging = args.all ? 'Stages all changes first.' : files.length > 0 ? `Stages ${files.join(', ')} first.` : 'Commits the staged changes.';
+      const approved = await toolApprovalService.request({ source: 'git', toolName: 'git_commit', description: staging, args });
+      if (!approved) return { error: 'User declined the commit', code: 'PERMISSION_REJECTED' };
+    }
+
+    await gitService.stage(args.all ? 'all' : files);
+    if (!(await gitService.hasStagedChanges())) {
+      return { error: 'Nothing to commit: no staged changes. Pass files or all: true to stage changes.' };
+    }
+    const commit = await gitService.commit(message);
+    const { files: changed } = await gitService.show(commit.hash);
+    return { success: true, hash: commit.hash, shortHash: commit.shortHash, subject: commit.subject, files: changed };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+/**
+ * @param preApproved - the permission policy already allowed (or the user approved) this call
+ */
+export async function gitCheckout(args: { ref: string; create?: boolean; start_point?: string }, preApproved: boolean = false): Promise<any> {
+  try {
+    const previous = (await gitService.status()).branch;
+    if (!preApproved) {
+      const description = args.create ? `Creates branch ${args.ref}${args.start_point ? ` from ${args.start_point}` : ''}.` : `Switches from ${previous || 'a detached HEAD'} to ${args.ref}.`;
+      const approved = await toolApprovalService.request({ source: 'git', toolName: 'git_checkout', description, args });
+      if (!approved) return { error: `User declined checking out ${args.ref}`, code: 'PERMISSION_REJECTED' };
+    }
+
+    await gitService.checkout(args.ref, !!args.create, args.start_point);
+    const status = await gitService.status();
+    return { success: true, previous, branch: status.branch, head: status.head?.slice(0, 8) ?? null, detached: status.branch === null };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
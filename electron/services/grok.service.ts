@@ -3,24 +3,9 @@
  * OpenAI-compatible integration with xAI's Grok API
  * Endpoint: https://api.x.ai/v1/chat/completions
  */
-import { BrowserWindow } from 'electron';
-import { TOOL_DEFINITIONS } from './tool-definitions';
-import {
-  readFile,
-  writeFile,
-  listFiles,
-  peekFile,
-  searchCode,
-  createPlan,
-  taskComplete,
-  executeCommand,
-  runTests,
-  searchWeb,
-} from './file-operations.service';
-import { SmartContext } from './smart-context.service';
-import { AgenticLoopManager } from './agentic-loop.service';
+import { OpenAICompatibleService } from './openai-compatible.service';
 
-const SYSTEM_INSTRUCTION = `You are Candy, a friendly and autonomous coding assistant for CandyCode.
+const SYSTEM_INSTRUCTION = (availableFunctions: string) => `You are Candy, a friendly and autonomous coding assistant for CandyCode.
 
 AGENTIC BEHAVIOR:
 - Use function calls to execute actions - call functions directly, don't describe them
@@ -40,461 +25,22 @@ DYNAMIC TASK TRACKING:
 - Example: After writing a file, update the plan with that step marked as "completed"
 
 AVAILABLE FUNCTIONS:
-- write_file(path, content): Create or modify files
-- read_file(path): Read file content
-- peek_file(path): Quick peek at file summary
-- list_files(directory_path): List directory contents
-- search_code(pattern): Search codebase
-- create_plan(title, steps): Create/update task plan - call again with status updates!
-- task_complete(summary): Mark task done
-- execute_command(command): Run commands
-- run_tests(framework): Run tests
-- web_search(query): Search the web
+${availableFunctions}
 
 CRITICAL: Function calling is NOT optional. When tools are available, you MUST use them.`;
 
-export interface GrokChatOptions {
-  apiKey?: string;
-  model?: string;
-  context?: {
-    files?: Array<{ path: string; content?: string }>;
-    project?: string;
-    contextMode?: 'full' | 'smart' | 'minimal';
-  };
-  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
-  isPro?: boolean; // Deprecated
-  licenseTier?: 'free' | 'standard' | 'pro';
-}
-
-export interface GrokChunkData {
-  type: 'text' | 'function_call' | 'function_result' | 'error' | 'done';
-  data?: any;
-  callId?: string;
-  name?: string;
-}
-
-/**
- * Convert Gemini-style tool definitions to OpenAI tools format
- */
-function convertToOpenAITools(geminiTools: any[]): any[] {
-  const tools: any[] = [];
-  for (const toolGroup of geminiTools) {
-    const decls = toolGroup.functionDeclarations || [];
-    for (const declaration of decls) {
-      tools.push({
-        type: 'function',
-        function: {
-          name: declaration.name,
-          description: declaration.description || '',
-          parameters: declaration.parameters || { type: 'object', properties: {}, required: [] }
-        }
-      });
-    }
-  }
-  return tools;
-}
-
-export class GrokService {
-  private mainWindow: BrowserWindow | null = null;
-  private cancelController: AbortController | null = null;
-  private onChunkCallback: ((chunk: GrokChunkData) => void) | undefined = undefined;
-  private baseUrl = 'https://api.x.ai/v1/';
-  private taskCompleted = false;
-  private loopManager: AgenticLoopManager;
-
-  constructor() {
-    this.loopManager = new AgenticLoopManager(30);
-  }
-
-  setMainWindow(window: BrowserWindow) {
-    this.mainWindow = window;
-  }
-
-  private sendChunk(chunk: GrokChunkData) {
-    if (this.mainWindow) {
-      this.mainWindow.webContents.send('ai-backend:chunk', chunk);
-    }
-    if (this.onChunkCallback) {
-      try {
-        this.onChunkCallback(chunk);
-      } catch (error) {
-        console.error('[GrokService] Error in onChunk callback:', error);
-      }
-    }
-  }
-
-  private getToolFunctions() {
-    return {
-      read_file: readFile,
-      write_file: writeFile,
-      list_files: listFiles,
-      peek_file: peekFile,
-      search_code: searchCode,
-      create_plan: createPlan,
-      task_complete: taskComplete,
-      execute_command: executeCommand,
-      run_tests: runTests,
-      web_search: searchWeb,
-    };
-  }
-
-  private async executeFunctionCall(
-    functionName: string,
-    args: Record<string, any>,
-    callId: string
-  ): Promise<{ name: string; response: any }> {
-    const toolFunctions = this.getToolFunctions();
-    const func = (toolFunctions as any)[functionName];
+export class GrokService extends OpenAICompatibleService {
+  readonly name = 'GrokService';
+  readonly displayName = 'Grok';
+  readonly defaultModel = 'grok-4.1-fast';
+  protected baseUrl = 'https://api.x.ai/v1/';
 
-    if (!func) {
-      const error = `Unknown function: ${functionName}`;
-      console.error(`[GrokService] ${error}`);
-      return { name: functionName, response: { error } };
-    }
-
-    try {
-      console.log(`[GrokService] Executing ${functionName} with args:`, args);
-      
-      let result;
-      if (functionName === 'write_file' && this.mainWindow) {
-        result = await func(args, this.mainWindow);
-      } else {
-        result = await func(args);
-      }
-      
-      console.log(`[GrokService] Function ${functionName} result:`, result);
-
-      if (functionName === 'task_complete') {
-        this.taskCompleted = true;
-        this.loopManager.markTaskCompleted();
-      }
-
-      return { name: functionName, response: result };
-    } catch (error: any) {
-      console.error(`[GrokService] Error executing ${functionName}:`, error);
-      return { name: functionName, response: { error: error.message || String(error) } };
-    }
+  buildSystemInstruction(availableFunctions: string): string {
+    return SYSTEM_INSTRUCTION(availableFunctions);
   }
 
-  private extractWaitTime(errorText: string): number | null {
-    // Try to extract wait time from error messages like "try again in 1.266s"
-    const match = errorText.match(/try again in (\d+(?:\.\d+)?)/i);
-    if (match) {
-      return Math.ceil(parseFloat(match[1]) * 1000) + 500; // Add 500ms buffer
-    }
-    return null;
-  }
-
-  async chatStream(
-    prompt: string,
-    options: GrokChatOptions,
-    onChunk?: (chunk: GrokChunkData) => void
-  ): Promise<void> {
-    this.onChunkCallback = onChunk;
-    this.taskCompleted = false;
-    
-    // LICENSE CHECK: Set limits based on License Tier
-    const tier = options.licenseTier || (options.isPro ? 'pro' : 'free');
-    const MAX_LOOPS = tier === 'free' ? 50 : (tier === 'pro' ? Infinity : 50);
-
-    // Update loop manager with the new limit
-    this.loopManager = new AgenticLoopManager(isFinite(MAX_LOOPS) ? MAX_LOOPS : 1000);
-    this.loopManager.setIsActive(true);
-    
-    // Fresh AbortController for each request
-    this.cancelController = new AbortController();
-    const timeoutId = setTimeout(() => this.cancelController?.abort(), 60000); // 60s timeout
-
-    if (!options.apiKey) {
-      this.sendChunk({ type: 'error', data: 'No Grok API key provided. Please set it in Settings.' });
-      this.sendChunk({ type: 'done' });
-      clearTimeout(timeoutId);
-      return;
-    }
-
-    const model = options.model || 'grok-4.1-fast';
-    const messages: any[] = [];
-
-    // System message
-    messages.push({ role: 'system', content: SYSTEM_INSTRUCTION });
-
-    // Conversation history
-    if (options.conversationHistory) {
-      for (const msg of options.conversationHistory) {
-        messages.push({ role: msg.role, content: msg.content });
-      }
-    }
-
-    // Build context
-    let contextText = '';
-    
-    // BUILD SMART CONTEXT IF PROJECT IS ACTIVE
-    if (options.context?.project) {
-      const isStartOfSession = !options.conversationHistory || options.conversationHistory.length < 2;
-      
-      // LICENSE CHECK: Force minimal context if not Pro
-      let selectedContextMode = options.context.contextMode || 'smart';
-      if (tier !== 'pro' && selectedContextMode !== 'minimal') {
-           selectedContextMode = 'minimal';
-           this.sendChunk({
-             type: 'text',
-             data: '> **Free Tier Notice:** Project Context restricted to "Minimal" mode. Upgrade to Pro for Smart/Full context awareness.\n\n'
-           });
-      }
-
-      if (isStartOfSession || selectedContextMode === 'full') {
-        console.log(`[GrokService] Building project context with mode: ${selectedContextMode}`);
-        const smartContext = new SmartContext(
-          options.context.project, 
-          selectedContextMode
-        );
-        const projectSummary = await smartContext.buildContext();
-        contextText += projectSummary + '\n\n';
-      } else {
-        contextText += `Active Project: ${options.context.project}\nUse tools (list_files, read_file, search_code) to explore the codebase as needed.\n\n`;
-      }
-    }
-
-    if (options.context?.files && options.context.files.length > 0) {
-      contextText += 'Context Files:\n';
-      contextText += options.context.files
-        .map(f => `File: ${f.path}\n${f.content || ''}`)
-        .join('\n\n');
-      contextText += '\n\n';
-    }
-
-    messages.push({ role: 'user', content: contextText + prompt });
-
-    let iteration = 0;
-
-    try {
-      while (this.loopManager.shouldContinueLoop()) {
-        if (this.cancelController?.signal.aborted) {
-          this.sendChunk({ type: 'done' });
-          clearTimeout(timeoutId);
-          return;
-        }
-
-        this.loopManager.incrementIteration();
-        iteration++; // Keep local counter for logging
-        console.log(`[GrokService] Iteration ${this.loopManager.getCurrentIteration()}/${MAX_LOOPS}`);
-
-        const requestBody = {
-          model,
-          messages,
-          tools: convertToOpenAITools(TOOL_DEFINITIONS),
-          tool_choice: 'auto',
-          stream: true,
-          temperature: 0.7,
-          max_tokens: 32768
-        };
-
-        const url = `${this.baseUrl}chat/completions`;
-        let response: Response | null = null;
-        let lastError = '';
-
-        // Retry logic with exponential backoff for rate limits
-        for (let attempt = 0; attempt < 3; attempt++) {
-          try {
-            console.log(`[GrokService] Request attempt ${attempt + 1}/3`);
-            
-            response = await fetch(url, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${options.apiKey}`,
-              },
-              body: JSON.stringify(requestBody),
-              signal: this.cancelController.signal,
-            });
-
-            if (response.ok) {
-              break;
-            }
-
-            // Handle rate limit with retry
-            if (response.status === 429 && attempt < 2) {
-              const errorText = await response.text();
-              lastError = errorText;
-              const waitTime = this.extractWaitTime(errorText) || (attempt + 1) * 2000;
-              console.log(`[GrokService] Rate limited, waiting ${waitTime}ms before retry`);
-              this.sendChunk({ type: 'text', data: `Rate limit hit. Retrying in ${Math.ceil(waitTime / 1000)}s...` });
-              await new Promise(resolve => setTimeout(resolve, waitTime));
-              continue;
-            }
-
-            // Non-retryable error
-            lastError = await response.text();
-            break;
-          } catch (fetchError: any) {
-            lastError = fetchError.message || String(fetchError);
-            if (fetchError.name === 'AbortError') {
-              throw fetchError;
-            }
-            if (attempt < 2) {
-              console.log(`[GrokService] Fetch error, retrying: ${lastError}`);
-              await new Promise(resolve => setTimeout(resolve, (attempt + 1) * 1000));
-              continue;
-            }
-          }
-        }
-
-        if (!response || !response.ok) {
-          this.sendChunk({ type: 'error', data: `Grok API error (${response?.status || 'fetch failed'}): ${lastError}` });
-          this.sendChunk({ type: 'done' });
-          clearTimeout(timeoutId);
-          return;
-        }
-
-        // Process streaming response
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
-          this.sendChunk({ type: 'error', data: 'No response body reader available' });
-          this.sendChunk({ type: 'done' });
-          clearTimeout(timeoutId);
-          return;
-        }
-
-        let buffer = '';
-        let fullText = '';
-        let currentToolCalls: Record<number, { id: string; name: string; arguments: string }> = {};
-        let processedToolCallsThisIteration = false;
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            const trimmed = line.trim();
-            if (!trimmed || trimmed === 'data: [DONE]') continue;
-            if (!trimmed.startsWith('data: ')) continue;
-
-            try {
-              const json = JSON.parse(trimmed.slice(6));
-              const delta = json.choices?.[0]?.delta;
-              const finishReason = json.choices?.[0]?.finish_reason;
-
-              // Handle text content
-              if (delta?.content) {
-                fullText += delta.content;
-                this.sendChunk({ type: 'text', data: delta.content });
-              }
-
-              // Handle tool calls
-              if (delta?.tool_calls) {
-                for (const toolCall of delta.tool_calls) {
-                  const index = toolCall.index ?? 0;
-                  if (!currentToolCalls[index]) {
-                    currentToolCalls[index] = { id: '', name: '', arguments: '' };
-                  }
-                  if (toolCall.id) currentToolCalls[index].id = toolCall.id;
-                  if (toolCall.function?.name) currentToolCalls[index].name = toolCall.function.name;
-                  if (toolCall.function?.arguments) currentToolCalls[index].arguments += toolCall.function.arguments;
-                }
-              }
-
-              // Handle finish with tool_calls
-              if (finishReason === 'tool_calls' || finishReason === 'stop') {
-                // Process accumulated tool calls
-                const toolCallEntries = Object.values(currentToolCalls).filter(tc => tc.name && tc.arguments);
-                
-                if (toolCallEntries.length > 0) {
-                  processedToolCallsThisIteration = true;
-                  
-                  // Add assistant message with tool calls
-                  const assistantMsg: any = { role: 'assistant', content: fullText || null };
-                  assistantMsg.tool_calls = toolCallEntries.map((tc, i) => ({
-                    id: tc.id || `call_${Date.now()}_${i}`,
-                    type: 'function',
-                    function: { name: tc.name, arguments: tc.arguments }
-                  }));
-                  messages.push(assistantMsg);
-
-                  // Execute each tool call and add results
-                  for (const tc of toolCallEntries) {
-                    try {
-                      const args = JSON.parse(tc.arguments);
-                      const callId = tc.id || `call_${Date.now()}`;
-                      
-                      this.sendChunk({ type: 'function_call', name: tc.name, data: args, callId });
-                      
-                      const result = await this.executeFunctionCall(tc.name, args, callId);
-                      
-                      this.sendChunk({ type: 'function_result', name: result.name, data: result.response, callId });
-
-                      // Add tool result to messages
-                      messages.push({
-                        role: 'tool',
-                        tool_call_id: callId,
-                        content: typeof result.response === 'string' ? result.response : JSON.stringify(result.response)
-                      });
-                    } catch (parseError: any) {
-                      console.error('[GrokService] Failed to parse tool arguments:', parseError);
-                    }
-                  }
-
-                  // Reset for next iteration
-                  currentToolCalls = {};
-                  fullText = '';
-                } else if (finishReason === 'stop' && fullText && !this.taskCompleted) {
-                  // Model finished with text but no tool calls - add continuation prompt
-                  messages.push({ role: 'assistant', content: fullText });
-                  // No continuation here, rely on loop manager or user
-                  fullText = '';
-                }
-              }
-            } catch (parseError) {
-              // Ignore JSON parse errors for partial chunks
-            }
-          }
-        }
-
-        // Continue loop if tool calls were processed or task not completed
-        if (!processedToolCallsThisIteration && !fullText && this.taskCompleted) {
-          console.log('[GrokService] Task completed, ending loop');
-          break;
-        }
-        
-        if (processedToolCallsThisIteration) {
-          console.log('[GrokService] Tool calls processed, continuing loop...');
-        } else if (!fullText && !this.taskCompleted) {
-            break;
-        }
-      }
-
-      // If we exit the loop without completion, notify the user about the limit
-      if (!this.loopManager.getTaskCompleted() && tier !== 'pro' && this.loopManager.getCurrentIteration() >= MAX_LOOPS) {
-          this.sendChunk({
-              type: 'text',
-              data: `\n\n**License Limit Reached:** The autonomous agent has stopped after ${MAX_LOOPS} iterations. Upgrade to Pro for extended autonomous coding.`
-          });
-      }
-
-      this.sendChunk({ type: 'done' });
-      clearTimeout(timeoutId);
-    } catch (error: any) {
-      if (error.name !== 'AbortError') {
-        console.error('[GrokService] Error in chatStream:', error);
-        this.sendChunk({ type: 'error', data: error.message || String(error) });
-      }
-      this.sendChunk({ type: 'done' });
-      clearTimeout(timeoutId);
-    }
-  }
-
-  cancel(): void {
-    if (this.cancelController) {
-      this.cancelController.abort();
-    }
-    this.loopManager.setIsActive(false);
-    this.onChunkCallback = undefined;
-    this.sendChunk({ type: 'done' });
+  protected getMaxTokens(model: string): number {
+    return 32768;
   }
 
   async listModels(): Promise<{ success: boolean; models: any[] }> {
@@ -507,4 +53,4 @@ export class GrokService {
       ]
     };
   }
-}
\ No newline at end of file
+}
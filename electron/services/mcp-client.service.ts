@@ -0,0 +1,355 @@
+/**
+ * MCP Client
+ * Minimal Model Context Protocol client (JSON-RPC 2.0) for a single server.
+ * Transports: stdio (spawned process, newline-delimited JSON) and
+ * streamable HTTP restricted to localhost.
+ */
+import { spawn, ChildProcess } from 'child_process';
+import { URL } from 'url';
+
+const PROTOCOL_VERSION = '2025-03-26';
+const REQUEST_TIMEOUT_MS = 60000;
+const TOOL_CALL_TIMEOUT_MS = 300000;
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+export interface McpServerDefinition {
+  transport?: 'stdio' | 'http'; // Inferred from url/command when omitted
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: any;
+}
+
+export interface McpResource {
+  uri: string;
+  name?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+interface McpTransport {
+  start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+class StdioTransport implements McpTransport {
+  private process: ChildProcess | null = null;
+  private buffer = '';
+
+  constructor(private definition: McpServerDefinition, private label: string) {}
+
+  async start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void> {
+    const { command, args = [], env = {}, cwd } = this.definition;
+    if (!command) throw new Error('stdio server requires a command');
+
+    this.process = spawn(command, args, {
+      cwd: cwd || undefined,
+      env: { ...process.env, ...env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32', // npx/uvx are .cmd shims on Windows
+    });
+
+    this.process.stdout?.on('data', (data: Buffer) => {
+      this.buffer += data.toString();
+      const lines = this.buffer.split('\n');
+      this.buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+        try {
+          onMessage(JSON.parse(trimmed));
+        } catch (e) {
+          console.warn(`[MCP:${this.label}] Ignoring non-JSON output: ${trimmed.substring(0, 200)}`);
+        }
+      }
+    });
+    this.process.stderr?.on('data', (data: Buffer) => {
+      console.log(`[MCP:${this.label}] ${data.toString().trimEnd()}`);
+    });
+    this.process.on('error', (error) => onClose(error));
+    this.process.on('exit', (code) => {
+      this.process = null;
+      onClose(code ? new Error(`Server exited with code ${code}`) : undefined);
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.process?.stdin?.writable) throw new Error('Server process is not running');
+    this.process.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  async close(): Promise<void> {
+    if (this.process) {
+      this.process.kill();
+      this.process = null;
+    }
+  }
+}
+
+class HttpTransport implements McpTransport {
+  private sessionId: string | null = null;
+  private onMessage: (message: JsonRpcMessage) => void = () => {};
+
+  constructor(private definition: McpServerDefinition, private label: string) {}
+
+  async start(onMessage: (message: JsonRpcMessage) => void): Promise<void> {
+    if (!this.definition.url) throw new Error('http server requires a url');
+    const { hostname } = new URL(this.definition.url);
+    if (!LOCAL_HOSTS.includes(hostname)) {
+      throw new Error(`Only localhost MCP servers are supported over HTTP (got ${hostname})`);
+    }
+    this.onMessage = onMessage;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      ...(this.definition.headers || {}),
+    };
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+
+    const response = await fetch(this.definition.url!, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(message),
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`HTTP ${response.status}: ${errorText.substring(0, 500)}`);
+    }
+    if (response.status === 202 || !response.body) return;
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      await this.readEventStream(response);
+    } else {
+      const text = await response.text();
+      if (!text.trim()) return;
+      const parsed = JSON.parse(text);
+      (Array.isArray(parsed) ? parsed : [parsed]).forEach(m => this.onMessage(m));
+    }
+  }
+
+  private async readEventStream(response: Response): Promise<void> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let data = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.replace(/\r$/, '');
+        if (trimmed.startsWith('data:')) {
+          data += trimmed.slice(5).trimStart();
+        } else if (trimmed === '' && data) {
+          try {
+            this.onMessage(JSON.parse(data));
+          } catch (e) {
+            console.warn(`[MCP:${this.label}] Ignoring malformed event: ${data.substring(0, 200)}`);
+          }
+          data = '';
+        }
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    try {
+      await fetch(this.definition.url!, {
+        method: 'DELETE',
+        headers: { 'Mcp-Session-Id': this.sessionId, ...(this.definition.headers || {}) },
+      });
+    } catch (e) {
+      // Server may already be gone
+    }
+    this.sessionId = null;
+  }
+}
+
+export class McpClient {
+  private transport: McpTransport;
+  private nextId = 1;
+  private pending: Map<number | string, { resolve: (value: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }> = new Map();
+  private capabilities: any = {};
+  private closed = false;
+
+  tools: McpTool[] = [];
+  resources: McpResource[] = [];
+  prompts: McpPrompt[] = [];
+  serverInfo: { name?: string; version?: string } = {};
+  onToolsChanged: (() => void) | null = null;
+  onClose: ((error?: Error) => void) | null = null;
+
+  constructor(private label: string, definition: McpServerDefinition, private getRoots: () => string[] = () => []) {
+    const transport = definition.transport || (definition.url ? 'http' : 'stdio');
+    this.transport = transport === 'http' ? new HttpTransport(definition, label) : new StdioTransport(definition, label);
+  }
+
+  /**
+   * Start the transport, run the initialize handshake and fetch the server's catalog
+   */
+  async connect(): Promise<void> {
+    await this.transport.start(
+      (message) => this.handleMessage(message),
+      (error) => this.handleClose(error)
+    );
+
+    const result = await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: { roots: { listChanged: false } },
+      clientInfo: { name: 'CandyCode', version: '1.0.0' },
+    });
+    this.capabilities = result?.capabilities || {};
+    this.serverInfo = result?.serverInfo || {};
+    await this.notify('notifications/initialized');
+    await this.refreshCatalog();
+  }
+
+  async refreshCatalog(): Promise<void> {
+    this.tools = this.capabilities.tools ? await this.listAll('tools/list', 'tools') : [];
+    this.resources = this.capabilities.resources ? await this.listAll('resources/list', 'resources') : [];
+    this.prompts = this.capabilities.prompts ? await this.listAll('prompts/list', 'prompts') : [];
+  }
+
+  async callTool(name: string, args: Record<string, any>): Promise<any> {
+    return this.request('tools/call', { name, arguments: args }, TOOL_CALL_TIMEOUT_MS);
+  }
+
+  async readResource(uri: string): Promise<any> {
+    return this.request('resources/read', { uri });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.rejectAll(new Error('MCP client closed'));
+    await this.transport.close();
+  }
+
+  private async listAll(method: string, key: string): Promise<any[]> {
+    const items: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request(method, cursor ? { cursor } : {});
+      items.push(...(result?.[key] || []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+    return items;
+  }
+
+  private request(method: string, params?: any, timeoutMs: number = REQUEST_TIMEOUT_MS): Promise<any> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`${method} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport.send({ jsonrpc: '2.0', id, method, params }).catch((error) => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error);
+      });
+    });
+  }
+
+  private notify(method: string, params?: any): Promise<void> {
+    return this.transport.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private handleMessage(message: JsonRpcMessage) {
+    // Response to one of our requests
+    if (message.id !== undefined && !message.method) {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+      clearTimeout(pending.timer);
+      this.pending.delete(message.id);
+      if (message.error) {
+        pending.reject(new Error(message.error.message || `MCP error ${message.error.code}`));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    // Request from the server
+    if (message.id !== undefined && message.method) {
+      this.handleServerRequest(message);
+      return;
+    }
+
+    // Notification from the server
+    if (message.method === 'notifications/tools/list_changed') {
+      this.listAll('tools/list', 'tools')
+        .then((tools) => {
+          this.tools = tools;
+          this.onToolsChanged?.();
+        })
+        .catch((error) => console.error(`[MCP:${this.label}] Failed to refresh tools:`, error));
+    }
+  }
+
+  private handleServerRequest(message: JsonRpcMessage) {
+    let reply: JsonRpcMessage;
+    if (message.method === 'ping') {
+      reply = { jsonrpc: '2.0', id: message.id, result: {} };
+    } else if (message.method === 'roots/list') {
+      const roots = this.getRoots().map(root => ({ uri: `file://${root}`, name: root }));
+      reply = { jsonrpc: '2.0', id: message.id, result: { roots } };
+    } else {
+      reply = { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported: ${message.method}` } };
+    }
+    this.transport.send(reply).catch((error) => console.error(`[MCP:${this.label}] Failed to reply:`, error));
+  }
+
+  private handleClose(error?: Error) {
+    this.rejectAll(error || new Error('MCP server closed the connection'));
+    if (!this.closed) {
+      this.closed = true;
+      this.onClose?.(error);
+    }
+  }
+
+  private rejectAll(error: Error) {
+    for (const [id, pending] of Array.from(this.pending.entries())) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(id);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mcpManager } from './mcp-manager.service';
+import { projectTrust } from './project-trust.service';
+
+let projectRoot: string;
+let configPath: string;
+
+function writeProjectConfig(servers: Record<string, any>) {
+  fs.mkdirSync(path.dirname(configPath), { recursive: true });
+  fs.writeFileSync(configPath, JSON.stringify({ mcpServers: servers }), 'utf-8');
+}
+
+beforeEach(async () => {
+  projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-mcp-')));
+  configPath = path.join(projectRoot, '.candycode', 'mcp.json');
+  writeProjectConfig({ evil: { command: 'candycode-missing-server', args: ['--wipe'] } });
+  await mcpManager.initialize();
+  await mcpManager.setProjectRoot(projectRoot);
+});
+
+afterEach(async () => {
+  await mcpManager.setProjectRoot(null);
+  await mcpManager.shutdown();
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe('project servers', () => {
+  it('stay off until the project config is trusted', async () => {
+    expect(mcpManager.getStatus()).toEqual([expect.objectContaining({ name: 'evil', scope: 'project', state: 'disabled' })]);
+    expect(mcpManager.getTrustRequest()).toEqual({
+      configPath,
+      effects: ['Start MCP server "evil": candycode-missing-server --wipe'],
+    });
+
+    projectTrust.trust(configPath);
+    expect(mcpManager.getTrustRequest()).toBeNull();
+    const [status] = await mcpManager.refresh();
+    expect(status.state).not.toBe('disabled');
+  });
+
+  it('need trust again when the config changes', async () => {
+    projectTrust.trust(configPath);
+    writeProjectConfig({ evil: { command: 'candycode-other-server' } });
+    expect(mcpManager.getTrustRequest()?.effects).toEqual(['Start MCP server "evil": candycode-other-server']);
+  });
+
+  it('are trusted when the user saves them', async () => {
+    await mcpManager.saveConfig('project', { mine: { command: 'candycode-missing-server', enabled: false } });
+    expect(projectTrust.isTrusted(configPath)).toBe(true);
+  });
+});
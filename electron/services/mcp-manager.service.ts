@@ -0,0 +1,414 @@
+/**
+ * MCP Manager
+ * Owns the configured Model Context Protocol servers and exposes their tools
+ * to the agent executor.
+ *
+ * Servers are defined per user (<userData>/mcp.json) and per project
+ * (<project>/.candycode/mcp.json); a project server shadows a user server
+ * with the same name:
+ *   { "mcpServers": { "github": { "command": "npx", "args": ["-y", "@modelcontextprotocol/server-github"] } } }
+ *
+ * Project servers only start once the user trusts the project's mcp.json
+ * (project-trust.service.ts), and their tools always ask unless denied: a
+ * checked-in file cannot approve its own tools.
+ *
+ * Tools are exposed to the model as mcp__<server>__<tool>.
+ */
+import { app, BrowserWindow } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { McpClient, McpServerDefinition, McpTool, McpResource, McpPrompt } from './mcp-client.service';
+import { toolApprovalService } from './tool-approval.service';
+import { projectTrust, TrustRequest } from './project-trust.service';
+
+export type McpApproval = 'allow' | 'ask' | 'deny';
+export type McpScope = 'user' | 'project';
+
+export interface McpServerConfig extends McpServerDefinition {
+  enabled?: boolean; // Defaults to true
+  defaultApproval?: McpApproval; // Defaults to 'ask'
+  toolApprovals?: Record<string, McpApproval>;
+}
+
+export interface McpServerStatus {
+  name: string;
+  scope: McpScope;
+  state: 'disabled' | 'connecting' | 'connected' | 'error';
+  error?: string;
+  serverInfo?: { name?: string; version?: string };
+  tools: McpTool[];
+  resources: McpResource[];
+  prompts: McpPrompt[];
+}
+
+interface ServerEntry {
+  name: string;
+  scope: McpScope;
+  config: McpServerConfig;
+  client: McpClient | null;
+  status: McpServerStatus;
+}
+
+const TOOL_PREFIX = 'mcp__';
+const READ_RESOURCE_TOOL = 'mcp_read_resource';
+// Schema keywords every provider accepts (Gemini rejects most of JSON Schema)
+const SCHEMA_KEYS = ['type', 'description', 'properties', 'required', 'items', 'enum', 'format', 'nullable'];
+
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function sanitizeSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') {
+    return { type: 'object', properties: {} };
+  }
+  const result: any = {};
+  for (const key of SCHEMA_KEYS) {
+    if (schema[key] === undefined) continue;
+    if (key === 'properties') {
+      result.properties = {};
+      for (const [prop, value] of Object.entries(schema.properties || {})) {
+        result.properties[prop] = sanitizeSchema(value);
+      }
+    } else if (key === 'items') {
+      result.items = sanitizeSchema(schema.items);
+    } else if (key === 'type' && Array.isArray(schema.type)) {
+      // ["string", "null"] -> string
+      result.type = schema.type.find((t: string) => t !== 'null') || 'string';
+    } else {
+      result[key] = schema[key];
+    }
+  }
+  if (!result.type) {
+    result.type = result.properties ? 'object' : 'string';
+  }
+  return result;
+}
+
+/**
+ * Flatten MCP content blocks into something every provider can read
+ */
+function formatToolResult(result: any): any {
+  const blocks: any[] = result?.content || [];
+  const text = blocks
+    .map((block) => {
+      if (block.type === 'text') return block.text;
+      if (block.type === 'resource') return block.resource?.text ?? `[resource ${block.resource?.uri}]`;
+      if (block.type === 'image' || block.type === 'audio') return `[${block.type} ${block.mimeType || ''}]`.trim();
+      return JSON.stringify(block);
+    })
+    .join('\n');
+
+  if (result?.isError) {
+    return { error: text || 'MCP tool reported an error' };
+  }
+  const formatted: any = { success: true, content: text };
+  if (result?.structuredContent) {
+    formatted.structuredContent = result.structuredContent;
+  }
+  return formatted;
+}
+
+class McpManager {
+  private mainWindow: BrowserWindow | null = null;
+  private projectRoot: string | null = null;
+  private servers: Map<string, ServerEntry> = new Map();
+  private toolIndex: Map<string, { server: string; tool: McpTool }> = new Map();
+  private initialized = false;
+  private reloadQueue: Promise<void> = Promise.resolve();
+
+  setMainWindow(window: BrowserWindow) {
+    this.mainWindow = window;
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized = true;
+    await this.reload();
+  }
+
+  async setProjectRoot(projectRoot: string | null): Promise<void> {
+    if (this.projectRoot === projectRoot) return;
+    this.projectRoot = projectRoot;
+    if (this.initialized) {
+      await this.reload();
+    }
+  }
+
+  private getConfigPath(scope: McpScope): string | null {
+    if (scope === 'user') {
+      return path.join(app.getPath('userData'), 'mcp.json');
+    }
+    return this.projectRoot ? path.join(this.projectRoot, '.candycode', 'mcp.json') : null;
+  }
+
+  getConfig(scope: McpScope): Record<string, McpServerConfig> {
+    const configPath = this.getConfigPath(scope);
+    if (!configPath || !fs.existsSync(configPath)) return {};
+    try {
+      const parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return parsed.mcpServers || {};
+    } catch (error) {
+      console.error(`[MCP] Failed to read ${configPath}:`, error);
+      return {};
+    }
+  }
+
+  async saveConfig(scope: McpScope, servers: Record<string, McpServerConfig>): Promise<{ success: boolean; error?: string }> {
+    const configPath = this.getConfigPath(scope);
+    if (!configPath) {
+      return { success: false, error: 'Open a project to configure project servers' };
+    }
+    try {
+      fs.mkdirSync(path.dirname(configPath), { recursive: true });
+      fs.writeFileSync(configPath, JSON.stringify({ mcpServers: servers }, null, 2), 'utf-8');
+      // The user wrote this config themselves
+      if (scope === 'project') projectTrust.trust(configPath);
+      await this.reload();
+      return { success: true };
+    } catch (error: any) {
+      console.error(`[MCP] Failed to save ${configPath}:`, error);
+      return { success: false, error: error.message || String(error) };
+    }
+  }
+
+  /**
+   * The project servers that would start once the project's config is trusted
+   */
+  getTrustRequest(): TrustRequest | null {
+    const configPath = this.getConfigPath('project');
+    if (!configPath || projectTrust.isTrusted(configPath)) return null;
+    const effects = Object.entries(this.getConfig('project'))
+      .filter(([, config]) => config.enabled !== false)
+      .map(([name, config]) => `Start MCP server "${name}": ${[config.command, ...(config.args || [])].filter(Boolean).join(' ') || config.url || ''}`.trimEnd());
+    return effects.length > 0 ? { configPath, effects } : null;
+  }
+
+  getStatus(): McpServerStatus[] {
+    return Array.from(this.servers.values()).map(entry => entry.status);
+  }
+
+  /**
+   * Reconnect every server from the current config files
+   */
+  async refresh(): Promise<McpServerStatus[]> {
+    await this.reload();
+    return this.getStatus();
+  }
+
+  /**
+   * Reloads are queued so a project switch during startup never leaves servers running
+   */
+  private reload(): Promise<void> {
+    this.reloadQueue = this.reloadQueue.then(() => this.connectAll(), () => this.connectAll());
+    return this.reloadQueue;
+  }
+
+  private async connectAll(): Promise<void> {
+    await this.shutdown();
+
+    const merged = new Map<string, { scope: McpScope; config: McpServerConfig }>();
+    for (const [name, config] of Object.entries(this.getConfig('user'))) {
+      merged.set(name, { scope: 'user', config });
+    }
+    for (const [name, config] of Object.entries(this.getConfig('project'))) {
+      merged.set(name, { scope: 'project', config });
+    }
+
+    const projectConfig = this.getConfigPath('project');
+    const projectTrusted = !projectConfig || projectTrust.isTrusted(projectConfig);
+    for (const [name, { scope, config }] of Array.from(merged.entries())) {
+      const enabled = config.enabled !== false;
+      const untrusted = enabled && scope === 'project' && !projectTrusted;
+      this.servers.set(name, {
+        name,
+        scope,
+        config,
+        client: null,
+        status: {
+          name,
+          scope,
+          state: enabled && !untrusted ? 'connecting' : 'disabled',
+          error: untrusted ? "Off until you trust this project's .candycode/mcp.json" : undefined,
+          tools: [],
+          resources: [],
+          prompts: [],
+        },
+      });
+    }
+    this.notifyStatus();
+
+    await Promise.all(
+      Array.from(this.servers.values())
+        .filter(entry => entry.status.state === 'connecting')
+        .map(entry => this.connect(entry))
+    );
+  }
+
+  private async connect(entry: ServerEntry): Promise<void> {
+    const definition: McpServerDefinition = {
+      ...entry.config,
+      cwd: entry.config.cwd || this.projectRoot || undefined,
+    };
+    const client = new McpClient(entry.name, definition, () => (this.projectRoot ? [this.projectRoot] : []));
+    entry.client = client;
+
+    client.onToolsChanged = () => {
+      entry.status.tools = client.tools;
+      this.rebuildToolIndex();
+      this.notifyStatus();
+    };
+    client.onClose = (error) => {
+      if (entry.client !== client) return;
+      entry.client = null;
+      entry.status = { ...entry.status, state: 'error', error: error?.message || 'Server disconnected', tools: [], resources: [], prompts: [] };
+      this.rebuildToolIndex();
+      this.notifyStatus();
+    };
+
+    try {
+      await client.connect();
+      entry.status = {
+        ...entry.status,
+        state: 'connected',
+        error: undefined,
+        serverInfo: client.serverInfo,
+        tools: client.tools,
+        resources: client.resources,
+        prompts: client.prompts,
+      };
+      console.log(`[MCP] Connected to ${entry.name}: ${client.tools.length} tools, ${client.resources.length} resources`);
+    } catch (error: any) {
+      console.error(`[MCP] Failed to connect to ${entry.name}:`, error);
+      entry.status = { ...entry.status, state: 'error', error: error.message || String(error) };
+      if (entry.client === client) {
+        entry.client = null;
+        await client.close();
+      }
+    }
+    this.rebuildToolIndex();
+    this.notifyStatus();
+  }
+
+  private rebuildToolIndex() {
+    this.toolIndex.clear();
+    for (const entry of Array.from(this.servers.values())) {
+      if (!entry.client) continue;
+      for (const tool of entry.status.tools) {
+        const qualified = `${TOOL_PREFIX}${sanitizeName(entry.name)}__${sanitizeName(tool.name)}`.substring(0, 64);
+        this.toolIndex.set(qualified, { server: entry.name, tool });
+      }
+    }
+  }
+
+  private notifyStatus() {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send('mcp:status-changed', this.getStatus());
+    }
+  }
+
+  /**
+   * Function declarations for every connected tool, in the TOOL_DEFINITIONS format
+   */
+  getToolDeclarations(): any[] {
+    const declarations: any[] = Array.from(this.toolIndex.entries()).map(([qualified, { server, tool }]) => ({
+      name: qualified,
+      description: `[MCP: ${server}] ${tool.description || tool.name}`,
+      parameters: sanitizeSchema(tool.inputSchema),
+    }));
+
+    const withResources = Array.from(this.servers.values()).filter(e => e.client && e.status.resources.length > 0);
+    if (withResources.length > 0) {
+      const catalog = withResources
+        .map(e => `${e.name}: ${e.status.resources.slice(0, 20).map(r => r.uri).join(', ')}`)
+        .join('; ');
+      declarations.push({
+        name: READ_RESOURCE_TOOL,
+        description: `Read a resource exposed by an MCP server. Available: ${catalog}`,
+        parameters: {
+          type: 'object',
+          properties: {
+            server: { type: 'string', description: 'MCP server name' },
+            uri: { type: 'string', description: 'Resource URI' },
+          },
+          required: ['server', 'uri'],
+        },
+      });
+    }
+    return declarations;
+  }
+
+  isMcpTool(name: string): boolean {
+    return this.toolIndex.has(name) || name === READ_RESOURCE_TOOL;
+  }
+
+  /**
+   * Server that provides a qualified tool name (for UI labels)
+   */
+  getToolServer(name: string): string | null {
+    return this.toolIndex.get(name)?.server || null;
+  }
+
+  /**
+   * @param preApproved - the permission policy already allowed (or the user approved) this call
+   */
+  async callTool(name: string, args: Record<string, any>, preApproved: boolean = false): Promise<any> {
+    if (name === READ_RESOURCE_TOOL) {
+      return this.readResource(args.server, args.uri);
+    }
+
+    const target = this.toolIndex.get(name);
+    const entry = target && this.servers.get(target.server);
+    if (!target || !entry?.client) {
+      return { error: `MCP tool ${name} is not available` };
+    }
+
+    const configured = entry.config.toolApprovals?.[target.tool.name] || entry.config.defaultApproval || 'ask';
+    const approval = configured === 'allow' && entry.scope === 'project' ? 'ask' : configured;
+    if (approval === 'deny') {
+      return { error: `MCP tool ${target.tool.name} on ${target.server} is disabled in settings` };
+    }
+    if (approval === 'ask' && !preApproved) {
+      const approved = await toolApprovalService.request({
+        source: `mcp:${target.server}`,
+        toolName: target.tool.name,
+        description: target.tool.description,
+        args: args || {},
+      });
+      if (!approved) {
+        return { error: `User declined ${target.tool.name} on ${target.server}` };
+      }
+    }
+
+    const result = await entry.client.callTool(target.tool.name, args || {});
+    return formatToolResult(result);
+  }
+
+  async readResource(server: string, uri: string): Promise<any> {
+    const entry = this.servers.get(server);
+    if (!entry?.client) {
+      return { error: `MCP server ${server} is not connected` };
+    }
+    const result = await entry.client.readResource(uri);
+    const content = (result?.contents || [])
+      .map((item: any) => item.text ?? `[binary ${item.mimeType || 'data'} at ${item.uri}]`)
+      .join('\n');
+    return { success: true, uri, content };
+  }
+
+  async shutdown(): Promise<void> {
+    const entries = Array.from(this.servers.values());
+    this.servers.clear();
+    this.toolIndex.clear();
+    await Promise.all(
+      entries.map(async (entry) => {
+        const client = entry.client;
+        entry.client = null;
+        if (client) {
+          await client.close().catch((error) => console.error(`[MCP] Failed to stop ${entry.name}:`, error));
+        }
+      })
+    );
+  }
+}
+
+export const mcpManager = new McpManager();
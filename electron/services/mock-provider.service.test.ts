@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadMockFixture, MockFixture, MockProviderService } from './mock-provider.service';
+import { SessionRecorder } from './session-recorder.service';
+import { AgentTurn, ProviderError, TurnContext } from './agent-executor.service';
+
+const SAMPLE_FIXTURE = path.resolve(__dirname, '../../fixtures/mock/create-file.yaml');
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-mock-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeFixture(name: string, content: string): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, content, 'utf-8');
+  return filePath;
+}
+
+function turnContext(emitted: string[] = []): TurnContext {
+  return {
+    model: 'mock',
+    signal: new AbortController().signal,
+    tools: [],
+    emitText: text => emitted.push(text),
+    keepAlive: () => {},
+  };
+}
+
+async function allTurns(fixture: MockFixture): Promise<AgentTurn[]> {
+  const provider = new MockProviderService(fixture);
+  const conversation = provider.createConversation('', []);
+  const turns: AgentTurn[] = [];
+  for (;;) {
+    const turn = await provider.streamTurn(conversation, turnContext());
+    if (!turn.text && turn.toolCalls.length === 0) return turns;
+    turns.push(turn);
+  }
+}
+
+describe('loadMockFixture', () => {
+  it('loads the sample fixture', () => {
+    const fixture = loadMockFixture(SAMPLE_FIXTURE);
+    expect(fixture.name).toBe('Create hello.txt');
+    expect(fixture.chunks[0]).toEqual({ type: 'text', data: "I'll create the file for you.\n" });
+    expect(fixture.chunks.at(-1)).toEqual({ type: 'done' });
+  });
+
+  it('reads JSON and YAML the same way', () => {
+    const chunks = [{ type: 'text', data: 'hi' }, { type: 'function_call', name: 'read_file', data: { path: 'a.ts' } }, { type: 'done' }];
+    const fromJson = loadMockFixture(writeFixture('session.json', JSON.stringify({ chunks })));
+    const fromYaml = loadMockFixture(writeFixture('session.yml', [
+      'chunks:',
+      '  - { type: text, data: hi }',
+      '  - { type: function_call, name: read_file, data: { path: a.ts } }',
+      '  - { type: done }',
+    ].join('\n')));
+    expect(fromJson.chunks).toEqual(chunks);
+    expect(fromYaml.chunks).toEqual(chunks);
+  });
+
+  it('accepts a bare list of chunks', () => {
+    const fixture = loadMockFixture(writeFixture('bare.json', JSON.stringify([{ type: 'text', data: 'hi' }])));
+    expect(fixture.chunks).toEqual([{ type: 'text', data: 'hi' }]);
+  });
+
+  it('accepts every chunk type a recording can contain', () => {
+    const chunks = [{ type: 'worktree', data: { branch: 'candycode/a' } }, { type: 'verification', data: { passed: true } }, { type: 'done' }];
+    expect(loadMockFixture(writeFixture('run.json', JSON.stringify({ chunks }))).chunks).toEqual(chunks);
+  });
+
+  it('rejects a missing file, a missing chunk list and unknown chunk types', () => {
+    expect(() => loadMockFixture(path.join(dir, 'missing.json'))).toThrow('Mock fixture not found');
+    expect(() => loadMockFixture(writeFixture('empty.json', '{}'))).toThrow('must contain a "chunks" list');
+    expect(() => loadMockFixture(writeFixture('bad.json', JSON.stringify({ chunks: [{ type: 'text' }, { type: 'nope' }] }))))
+      .toThrow('chunk 1 has invalid type "nope"');
+  });
+});
+
+describe('MockProviderService', () => {
+  it('groups chunks into turns of text and the tool calls that follow it', async () => {
+    const turns = await allTurns({ ...loadMockFixture(SAMPLE_FIXTURE), delayMs: 0 });
+    expect(turns.map(turn => [turn.text, turn.toolCalls.map(call => call.name)])).toEqual([
+      ["I'll create the file for you.\n", ['create_plan', 'write_file']],
+      ['hello.txt is ready for review.', ['task_complete']],
+    ]);
+    expect(turns[0].toolCalls[1]).toEqual({
+      id: 'call_2',
+      name: 'write_file',
+      args: { path: 'hello.txt', content: 'Hello from the mock provider\n' },
+    });
+  });
+
+  it('numbers calls without a recorded id', async () => {
+    const turns = await allTurns({ chunks: [{ type: 'function_call', name: 'list_files', data: { path: '.' } }] });
+    expect(turns[0].toolCalls[0].id).toBe('mock_0');
+  });
+
+  it('streams the text of each turn', async () => {
+    const provider = new MockProviderService({ chunks: [{ type: 'text', data: 'Hello' }] });
+    const emitted: string[] = [];
+    await provider.streamTurn(provider.createConversation('', []), turnContext(emitted));
+    expect(emitted).toEqual(['Hello']);
+  });
+
+  it('fails the turn that a scripted error belongs to', async () => {
+    const provider = new MockProviderService({ chunks: [{ type: 'text', data: 'Working' }, { type: 'error', data: 'Rate limited' }] });
+    const conversation = provider.createConversation('', []);
+    const error = await provider.streamTurn(conversation, turnContext()).catch(e => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.type).toBe('FATAL');
+    expect(error.message).toBe('Rate limited');
+  });
+});
+
+describe('SessionRecorder', () => {
+  const recordingsDir = process.env.CANDYCODE_RECORDINGS_DIR;
+
+  afterEach(() => {
+    if (recordingsDir === undefined) delete process.env.CANDYCODE_RECORDINGS_DIR;
+    else process.env.CANDYCODE_RECORDINGS_DIR = recordingsDir;
+  });
+
+  it('writes a fixture the mock provider replays', () => {
+    process.env.CANDYCODE_RECORDINGS_DIR = dir;
+    const recorder = new SessionRecorder('groq', 'Create hello.txt');
+    recorder.record({ type: 'text', data: 'Creating ' });
+    recorder.record({ type: 'text', data: 'the file' });
+    recorder.record({ type: 'command_output', callId: 'c1', data: { stream: 'stdout', text: 'a' } });
+    recorder.record({ type: 'command_output', callId: 'c1', data: { stream: 'stdout', text: 'b' } });
+    recorder.record({ type: 'done' });
+
+    const fixture = loadMockFixture(recorder.save());
+    expect(fixture.chunks).toEqual([
+      { type: 'text', data: 'Creating the file' },
+      { type: 'command_output', callId: 'c1', data: { stream: 'stdout', text: 'ab' } },
+      { type: 'done' },
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Mock Provider Service
+ * Scripted provider for offline agent testing and demos - no network, no API key.
+ *
+ * Fixtures are JSON or YAML files with a list of ChunkData events, the same format
+ * SessionRecorder writes:
+ *   chunks:
+ *     - { type: text, data: "Creating the file..." }
+ *     - { type: function_call, name: write_file, data: { path: hello.txt, content: hi } }
+ *     - { type: function_result, name: write_file, data: { success: true } }
+ *     - { type: done }
+ * fixtures/mock/ has a sample.
+ *
+ * By default the chunks are replayed verbatim. With executeTools: true the function_call
+ * chunks are run through the agent executor instead, so real tools and approvals fire.
+ */
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import {
+  ProviderAdapter,
+  ConversationMessage,
+  TurnContext,
+  AgentTurn,
+  ChunkData,
+  ProviderError,
+} from './agent-executor.service';
+
+export interface MockFixture {
+  name?: string;
+  description?: string;
+  executeTools?: boolean; // Run function_call chunks for real instead of replaying results
+  delayMs?: number; // Pause between replayed chunks
+  chunks: ChunkData[];
+}
+
+interface MockTurn extends AgentTurn {
+  error?: string;
+}
+
+interface MockConversation {
+  turns: MockTurn[];
+  cursor: number;
+}
+
+// Keyed by ChunkData['type'], so a new chunk type does not compile until it is listed here
+const CHUNK_TYPES = Object.keys({
+  text: true,
+  function_call: true,
+  function_result: true,
+  error: true,
+  done: true,
+  continuation: true,
+  command_start: true,
+  command_output: true,
+  worktree: true,
+  verification: true,
+} satisfies Record<ChunkData['type'], true>);
+
+/**
+ * Read and validate a fixture file (.json, .yaml or .yml)
+ */
+export function loadMockFixture(filePath: string): MockFixture {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Mock fixture not found: ${resolvedPath}`);
+  }
+
+  const raw = fs.readFileSync(resolvedPath, 'utf-8');
+  const ext = path.extname(resolvedPath).toLowerCase();
+  const parsed: any = ext === '.yaml' || ext === '.yml' ? yaml.load(raw) : JSON.parse(raw);
+
+  // A bare list of chunks is accepted as shorthand
+  const fixture: MockFixture = Array.isArray(parsed) ? { chunks: parsed } : parsed;
+  if (!fixture || !Array.isArray(fixture.chunks)) {
+    throw new Error(`Mock fixture ${resolvedPath} must contain a "chunks" list`);
+  }
+  fixture.chunks.forEach((chunk, index) => {
+    if (!chunk || !CHUNK_TYPES.includes(chunk.type)) {
+      throw new Error(`Mock fixture ${resolvedPath}: chunk ${index} has invalid type "${chunk?.type}"`);
+    }
+  });
+  return fixture;
+}
+
+/**
+ * Group chunks into model turns: text followed by the tool calls it leads to.
+ * Recorded function_result and command chunks are dropped - the executor produces real ones.
+ */
+function splitTurns(chunks: ChunkData[]): MockTurn[] {
+  const turns: MockTurn[] = [];
+  let current: MockTurn = { text: '', toolCalls: [] };
+  const flush = () => {
+    if (current.text || current.toolCalls.length > 0 || current.error) {
+      turns.push(current);
+    }
+    current = { text: '', toolCalls: [] };
+  };
+
+  chunks.forEach((chunk, index) => {
+    switch (chunk.type) {
+      case 'text':
+        if (current.toolCalls.length > 0) flush();
+        current.text += chunk.data || '';
+        break;
+      case 'function_call':
+        current.toolCalls.push({
+          id: chunk.callId || `mock_${index}`,
+          name: chunk.name || '',
+          args: chunk.data || {},
+        });
+        break;
+      case 'error':
+        current.error = String(chunk.data || 'Mock error');
+        flush();
+        break;
+    }
+  });
+  flush();
+  return turns;
+}
+
+export class MockProviderService implements ProviderAdapter<MockConversation> {
+  readonly name = 'MockProviderService';
+  readonly displayName = 'Mock';
+  readonly defaultModel = 'mock';
+  readonly requiresApiKey = false;
+  readonly enforceLicense = false;
+  readonly requestTimeoutMs = 60000;
+  private fixture: MockFixture;
+
+  constructor(fixture: MockFixture) {
+    this.fixture = fixture;
+  }
+
+  buildSystemInstruction(availableFunctions: string): string {
+    return `Scripted mock session: ${this.fixture.name || 'unnamed fixture'}\n${availableFunctions}`;
+  }
+
+  createConversation(systemInstruction: string, messages: ConversationMessage[]): MockConversation {
+    return { turns: splitTurns(this.fixture.chunks), cursor: 0 };
+  }
+
+  async streamTurn(conversation: MockConversation, ctx: TurnContext): Promise<AgentTurn> {
+    const turn = conversation.turns[conversation.cursor++];
+    if (!turn) {
+      return { text: '', toolCalls: [] };
+    }
+
+    if (turn.text) {
+      await this.delay(ctx.signal);
+      ctx.emitText(turn.text);
+    }
+    if (turn.error) {
+      throw new ProviderError('FATAL', turn.error);
+    }
+    return { text: turn.text, toolCalls: turn.toolCalls };
+  }
+
+  appendTurn(): void {
+    // The script already knows what comes next
+  }
+
+  appendUserMessage(): void {
+    // Same for feedback between turns
+  }
+
+  async listModels(): Promise<{ success: boolean; models: any[] }> {
+    return {
+      success: true,
+      models: [
+        { id: 'mock', name: 'Mock (scripted)', desc: `Replays ${this.fixture.name || 'a recorded fixture'}`, limits: 'Offline, no API key', provider: 'mock' }
+      ]
+    };
+  }
+
+  private delay(signal: AbortSignal): Promise<void> {
+    const ms = this.fixture.delayMs || 0;
+    if (ms <= 0 || signal.aborted) return Promise.resolve();
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+}
@@ -2,27 +2,21 @@
  * Ollama Service
  * Local LLM integration using the official 'ollama' npm package
  */
-import { BrowserWindow } from 'electron';
 import { Ollama, Message } from 'ollama';
 // @ts-ignore
 import nodeFetch from 'node-fetch';
 import { Buffer } from 'buffer';
-import { TOOL_DEFINITIONS } from './tool-definitions';
-import { SmartContext } from './smart-context.service';
 import {
-  readFile,
-  writeFile,
-  listFiles,
-  peekFile,
-  searchCode,
-  createPlan,
-  taskComplete,
-  executeCommand,
-  runTests,
-  searchWeb,
-} from './file-operations.service';
-
-const SYSTEM_INSTRUCTION = `You are Alpha, a friendly and autonomous coding assistant for AlphaStudio.
+  ProviderAdapter,
+  ConversationMessage,
+  TurnContext,
+  AgentTurn,
+  ToolCallRequest,
+  ToolCallResult,
+} from './agent-executor.service';
+import { FALLBACK_TOOL_INSTRUCTION, parseManualToolCalls, formatManualToolResults } from './tool-definitions';
+
+const SYSTEM_INSTRUCTION = (availableFunctions: string) => `You are Alpha, a friendly and autonomous coding assistant for AlphaStudio.
 
 AGENTIC BEHAVIOR:
 - Use function calls to execute actions - call functions directly, don't describe them
@@ -42,47 +36,22 @@ DYNAMIC TASK TRACKING:
 - Example: After writing a file, update the plan with that step marked as "completed"
 
 AVAILABLE FUNCTIONS:
-- write_file(path, content): Create or modify files
-- read_file(path): Read file content
-- peek_file(path): Quick peek at file summary
-- list_files(directory_path): List directory contents
-- search_code(pattern): Search codebase
-- create_plan(title, steps): Create/update task plan - call again with status updates!
-- task_complete(summary): Mark task done
-- execute_command(command): Run commands
-- run_tests(framework): Run tests
-- web_search(query): Search the web
+${availableFunctions}
 
 CRITICAL: Function calling is NOT optional. When tools are available, you MUST use them.`;
 
-const FALLBACK_TOOL_INSTRUCTION = `
-IMPORTANT: Your current model does NOT support native tool calling. 
-To call a function, you MUST use the following EXACT format on a new line:
-TOOL_CALL: function_name({"arg1": "value1", "arg2": "value2"})
-
-Example:
-TOOL_CALL: write_file({"path": "hello.txt", "content": "Hello World"})
-`;
-
-export interface OllamaChatOptions {
-  model?: string;
-  context?: {
-    files?: Array<{ path: string; content?: string }>;
-    project?: string;
-    contextMode?: 'full' | 'smart' | 'minimal';
-  };
-  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
-}
-
-export interface OllamaChunkData {
-  type: 'text' | 'function_call' | 'function_result' | 'error' | 'done';
-  data?: any;
-  callId?: string;
-  name?: string;
+interface OllamaConversation {
+  messages: Message[];
+  useNativeTools: boolean;
 }
 
-export class OllamaService {
-  private mainWindow: BrowserWindow | null = null;
+export class OllamaService implements ProviderAdapter<OllamaConversation> {
+  readonly name = 'OllamaService';
+  readonly displayName = 'Ollama';
+  readonly defaultModel = 'llama3.2';
+  readonly requiresApiKey = false;
+  readonly enforceLicense = false;
+  readonly requestTimeoutMs = 300000;
   // Official Ollama client with node-fetch shim for Electron/Node environments
   private ollama = new Ollama({
     host: 'http://127.0.0.1:11434',
@@ -141,83 +110,11 @@ export class OllamaService {
       return response as any;
     }
   });
-  private onChunkCallback: ((chunk: OllamaChunkData) => void) | undefined = undefined;
-  private taskCompleted = false;
   private activeModelName: string | null = null;
-  private abortController: AbortController | null = null;
   private modelCapabilities: Map<string, { supportsTools: boolean }> = new Map();
 
   constructor() { }
 
-  setMainWindow(window: BrowserWindow) {
-    this.mainWindow = window;
-  }
-
-  private sendChunk(chunk: OllamaChunkData) {
-    if (this.mainWindow) {
-      this.mainWindow.webContents.send('ai-backend:chunk', chunk);
-    }
-    if (this.onChunkCallback) {
-      try {
-        this.onChunkCallback(chunk);
-      } catch (error) {
-        console.error('[OllamaService] Error in onChunk callback:', error);
-      }
-    }
-  }
-
-  private getToolFunctions() {
-    return {
-      read_file: readFile,
-      write_file: writeFile,
-      list_files: listFiles,
-      peek_file: peekFile,
-      search_code: searchCode,
-      create_plan: createPlan,
-      task_complete: taskComplete,
-      execute_command: executeCommand,
-      run_tests: runTests,
-      web_search: searchWeb,
-    };
-  }
-
-  private async executeFunctionCall(
-    functionName: string,
-    args: Record<string, any>,
-    callId: string
-  ): Promise<{ name: string; response: any }> {
-    const toolFunctions = this.getToolFunctions();
-    const func = (toolFunctions as any)[functionName];
-
-    if (!func) {
-      const error = `Unknown function: ${functionName}`;
-      console.error(`[OllamaService] ${error}`);
-      return { name: functionName, response: { error } };
-    }
-
-    try {
-      console.log(`[OllamaService] Executing ${functionName} with args:`, args);
-
-      let result;
-      if (functionName === 'write_file' && this.mainWindow) {
-        result = await func(args, this.mainWindow);
-      } else {
-        result = await func(args);
-      }
-
-      console.log(`[OllamaService] Function ${functionName} result:`, result);
-
-      if (functionName === 'task_complete') {
-        this.taskCompleted = true;
-      }
-
-      return { name: functionName, response: result };
-    } catch (error: any) {
-      console.error(`[OllamaService] Error executing ${functionName}:`, error);
-      return { name: functionName, response: { error: error.message || String(error) } };
-    }
-  }
-
   /**
    * Check if Ollama server is running
    */
@@ -350,224 +247,134 @@ export class OllamaService {
     }
   }
 
-  async chatStream(
-    prompt: string,
-    options: OllamaChatOptions = {},
-    onChunk?: (chunk: OllamaChunkData) => void
-  ): Promise<void> {
-    this.abortController = new AbortController();
-    this.onChunkCallback = onChunk;
-    this.taskCompleted = false;
-
-    const model = options.model || 'llama3.2';
+  buildSystemInstruction(availableFunctions: string): string {
+    return SYSTEM_INSTRUCTION(availableFunctions);
+  }
 
+  async prepare(model: string): Promise<void> {
     if (this.activeModelName !== model) {
       console.log(`[OllamaService] Model ${model} not active, loading it...`);
       await this.runModel(model);
     }
+  }
 
-    const messages: Message[] = [];
-    const capabilities = this.modelCapabilities.get(model);
-    const useNativeTools = capabilities ? capabilities.supportsTools : true;
-
-    let systemContent = SYSTEM_INSTRUCTION;
-    if (!useNativeTools) {
-      systemContent += FALLBACK_TOOL_INSTRUCTION;
-    }
-    messages.push({ role: 'system', content: systemContent });
-
-    if (options.conversationHistory) {
-      for (const msg of options.conversationHistory) {
-        messages.push({ role: msg.role, content: msg.content });
-      }
-    }
-
-    // Build context: SmartContext for the project directory + any explicitly selected files
-    let contextStr = '';
-
-    if (options.context?.project) {
-      const isStartOfSession = !options.conversationHistory || options.conversationHistory.length < 2;
-      const contextMode = options.context.contextMode || 'smart';
-
-      if (isStartOfSession || contextMode === 'full') {
-        console.log(`[OllamaService] Building SmartContext for: ${options.context.project} (mode: ${contextMode})`);
-        try {
-          // Wrap in a timeout so a slow/hanging SmartContext doesn't block the response
-          const smartContext = new SmartContext(options.context.project, contextMode);
-          const buildPromise = smartContext.buildContext();
-          const timeoutPromise = new Promise<string>((_, reject) =>
-            setTimeout(() => reject(new Error('SmartContext timeout after 15s')), 15000)
-          );
-          const projectSummary = await Promise.race([buildPromise, timeoutPromise]);
-          contextStr += projectSummary + '\n\n';
-          console.log(`[OllamaService] SmartContext built (${projectSummary.length} chars)`);
-        } catch (err: any) {
-          console.error('[OllamaService] SmartContext failed, falling back to path only:', err.message);
-          contextStr += `Active Project: ${options.context.project}\n\n`;
-        }
-      } else {
-        contextStr += `Active Project: ${options.context.project}\nUse tools (list_files, read_file, search_code) to explore the codebase as needed.\n\n`;
-      }
-    }
+  createConversation(systemInstruction: string, messages: ConversationMessage[]): OllamaConversation {
+    // Tool support is resolved in streamTurn, once the model is known
+    return {
+      messages: [
+        { role: 'system', content: systemInstruction },
+        ...messages.map(msg => ({ role: msg.role, content: msg.content }))
+      ],
+      useNativeTools: true,
+    };
+  }
 
-    if (options.context?.files && options.context.files.length > 0) {
-      contextStr += '## Project Files:\n';
-      for (const file of options.context.files) {
-        contextStr += `### ${file.path}\n`;
-        if (file.content) {
-          contextStr += '```\n' + file.content + '\n```\n';
-        }
-      }
+  async streamTurn(conversation: OllamaConversation, ctx: TurnContext): Promise<AgentTurn> {
+    const { model } = ctx;
+    const capabilities = this.modelCapabilities.get(model);
+    if (capabilities && !capabilities.supportsTools && ctx.tools.length > 0) {
+      this.useFallbackTools(conversation);
     }
 
-    const userContent = contextStr ? `${contextStr}\n\nUser Query:\n${prompt}` : prompt;
-    messages.push({ role: 'user', content: userContent });
+    console.log(`[OllamaService] Starting chat stream with model: ${model} (Native tools: ${conversation.useNativeTools})`);
 
+    let response;
     try {
-      const flatTools = TOOL_DEFINITIONS[0].functionDeclarations;
-
-      console.log(`[OllamaService] Starting chat stream with model: ${model} (Native tools: ${useNativeTools})`);
+      response = await this.ollama.chat({
+        model,
+        messages: conversation.messages,
+        stream: true,
+        tools: conversation.useNativeTools && ctx.tools.length > 0 ? ctx.tools as any : undefined,
+        options: {
+          temperature: 0.7,
+          top_p: 0.9,
+        }
+      });
+    } catch (error: any) {
+      // If the model doesn't support tools, update capabilities and retry without tools
+      if (error.message && error.message.includes('does not support tools')) {
+        console.warn(`[OllamaService] Model ${model} does not support native tools. Retrying without tools...`);
+        this.modelCapabilities.set(model, { supportsTools: false });
+        this.useFallbackTools(conversation);
 
-      let response;
-      try {
         response = await this.ollama.chat({
           model,
-          messages,
+          messages: conversation.messages,
           stream: true,
-          tools: flatTools as any,
           options: {
             temperature: 0.7,
             top_p: 0.9,
           }
         });
-      } catch (error: any) {
-        // If the model doesn't support tools, update capabilities and retry without tools
-        if (error.message && error.message.includes('does not support tools')) {
-          console.warn(`[OllamaService] Model ${model} does not support native tools. Retrying without tools...`);
-          this.modelCapabilities.set(model, { supportsTools: false });
-
-          // Update system instruction for the retry
-          messages[0].content = SYSTEM_INSTRUCTION + FALLBACK_TOOL_INSTRUCTION;
-
-          response = await this.ollama.chat({
-            model,
-            messages,
-            stream: true,
-            options: {
-              temperature: 0.7,
-              top_p: 0.9,
-            }
-          });
-        } else {
-          throw error;
-        }
+      } else {
+        throw error;
       }
+    }
 
-      let fullText = '';
+    const onAbort = () => response.abort();
+    ctx.signal.addEventListener('abort', onAbort);
+
+    let fullText = '';
+    const toolCalls: ToolCallRequest[] = [];
+    try {
       for await (const part of response) {
-        if (this.abortController.signal.aborted) break;
+        ctx.keepAlive();
 
         if (part.message?.content) {
-          const content = part.message.content;
-          fullText += content;
-          this.sendChunk({ type: 'text', data: content });
-
-          // Check for manual tool calls in the streamed text if native tools are not supported or not used
-          if (!useNativeTools || !part.message.tool_calls) {
-            await this.checkForManualToolCalls(fullText);
-          }
+          fullText += part.message.content;
+          ctx.emitText(part.message.content);
         }
 
         if (part.message?.tool_calls) {
           for (const toolCall of part.message.tool_calls) {
-            const callId = `call_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
-            const functionName = toolCall.function?.name;
-            const functionArgs = toolCall.function?.arguments || {};
-
-            this.sendChunk({
-              type: 'function_call',
-              callId,
-              name: functionName,
-              data: functionArgs,
-            });
-
-            const result = await this.executeFunctionCall(functionName, functionArgs, callId);
-            this.sendChunk({
-              type: 'function_result',
-              callId,
-              name: functionName,
-              data: result.response,
+            toolCalls.push({
+              id: `call_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+              name: toolCall.function?.name,
+              args: toolCall.function?.arguments || {},
             });
           }
         }
       }
+    } finally {
+      ctx.signal.removeEventListener('abort', onAbort);
+    }
 
-      this.sendChunk({ type: 'done' });
-    } catch (error: any) {
-      if (error.name !== 'AbortError') {
-        console.error('[OllamaService] Error in chatStream:', error);
-        this.sendChunk({ type: 'error', data: error.message || String(error) });
-      }
-      this.sendChunk({ type: 'done' });
+    if (!conversation.useNativeTools) {
+      toolCalls.push(...parseManualToolCalls(fullText));
     }
+
+    return { text: fullText, toolCalls };
   }
 
-  /**
-   * Look for manual tool calls in text like TOOL_CALL: function_name({"arg": "val"})
-   */
-  private async checkForManualToolCalls(text: string) {
-    // We look for the pattern in the accumulated text
-    // Only process the last one found to avoid double execution (though we should keep track of what we've processed)
-    // For simplicity in a stream, we'll look for completed lines
-    const lines = text.split('\n');
-    for (const line of lines) {
-      const match = line.match(/TOOL_CALL:\s*(\w+)\s*\((.*)\)/);
-      if (match) {
-        const functionName = match[1];
-        const argsStr = match[2];
-
-        // Try to parse args as JSON
-        try {
-          const args = JSON.parse(argsStr);
-          // Check if we already executed this in this session (basic check)
-          // In a real implementation, we'd want a more robust way to track processed tool calls
-          // For now, we'll rely on the model following the "one call per task" logic or similar
-
-          // To prevent multiple executions of the same line as it's streamed:
-          // We can use a property to track processed lines
-          if (!(this as any)._processedLines) (this as any)._processedLines = new Set();
-          if ((this as any)._processedLines.has(line)) continue;
-          (this as any)._processedLines.add(line);
-
-          const callId = `manual_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
-          this.sendChunk({
-            type: 'function_call',
-            callId,
-            name: functionName,
-            data: args,
-          });
-
-          const result = await this.executeFunctionCall(functionName, args, callId);
-          this.sendChunk({
-            type: 'function_result',
-            callId,
-            name: functionName,
-            data: result.response,
-          });
-        } catch (e) {
-          // If not valid JSON, maybe it's just being streamed still
-        }
+  appendTurn(conversation: OllamaConversation, turn: AgentTurn, results: ToolCallResult[]): void {
+    if (conversation.useNativeTools) {
+      conversation.messages.push({
+        role: 'assistant',
+        content: turn.text,
+        tool_calls: turn.toolCalls.map(tc => ({ function: { name: tc.name, arguments: tc.args } })),
+      });
+      for (const result of results) {
+        conversation.messages.push({ role: 'tool', content: JSON.stringify(result.response) });
       }
+      return;
     }
+
+    // Fallback mode: the model only understands plain text, so results go back as a user message
+    conversation.messages.push({ role: 'assistant', content: turn.text });
+    conversation.messages.push({
+      role: 'user',
+      content: formatManualToolResults(results),
+    });
   }
 
-  cancel(): void {
-    if (this.abortController) {
-      this.abortController.abort();
-    }
-    this.onChunkCallback = undefined;
-    (this as any)._processedLines = new Set();
-    this.sendChunk({ type: 'done' });
+  appendUserMessage(conversation: OllamaConversation, text: string): void {
+    conversation.messages.push({ role: 'user', content: text });
+  }
+
+  private useFallbackTools(conversation: OllamaConversation): void {
+    if (!conversation.useNativeTools) return;
+    conversation.useNativeTools = false;
+    conversation.messages[0].content += FALLBACK_TOOL_INSTRUCTION;
   }
 
   async listModels(): Promise<{ success: boolean; models: any[] }> {
@@ -0,0 +1,256 @@
+/**
+ * OpenAI-Compatible Provider Base
+ * Shared request and SSE stream handling for chat/completions APIs.
+ * Subclasses only supply endpoint, models, prompt and transport details.
+ */
+import {
+  ProviderAdapter,
+  ConversationMessage,
+  TurnContext,
+  AgentTurn,
+  ToolCallRequest,
+  ToolCallResult,
+  ProviderError,
+} from './agent-executor.service';
+import { parseManualToolCalls, formatManualToolResults } from './tool-definitions';
+
+/**
+ * Convert Gemini-style tool definitions to OpenAI tools format
+ */
+export function convertToOpenAITools(declarations: any[]): any[] {
+  return declarations.map((declaration) => ({
+    type: 'function',
+    function: {
+      name: declaration.name,
+      description: declaration.description || '',
+      parameters: declaration.parameters || { type: 'object', properties: {}, required: [] }
+    }
+  }));
+}
+
+const CONTEXT_LIMIT_PHRASES = [
+  'context length', 'context_length_exceeded', 'maximum context', 'context window',
+  'too many tokens', 'token limit', 'input too long'
+];
+
+/**
+ * Agent prompt shared by the OpenAI-compatible providers
+ */
+export const SYSTEM_INSTRUCTION = (availableFunctions: string) => `You are Candy, a friendly and autonomous coding assistant for CandyCode.
+
+AGENTIC BEHAVIOR:
+- Use function calls to execute actions - call functions directly, don't describe them
+- When asked to create/write files, IMMEDIATELY call write_file function
+- Work autonomously: call functions sequentially without waiting for intermediate responses
+- Provide brief, helpful text responses throughout your work to keep the user informed
+- After completing all actions, provide a summary and call task_complete
+
+CRITICAL RULES:
+- **MANDATORY**: When user asks to generate/create/write files, you MUST call write_file() function
+- When task is fully complete, call task_complete(summary='...') with the markdown summary
+- CRITICAL: After calling task_complete, STOP immediately
+
+DYNAMIC TASK TRACKING:
+- Use create_plan(title, steps) at the START of complex tasks with all steps set to "pending"
+- After completing EACH step, call create_plan again with that step's status updated to "completed"
+- Example: After writing a file, update the plan with that step marked as "completed"
+
+AVAILABLE FUNCTIONS:
+${availableFunctions}
+
+CRITICAL: Function calling is NOT optional. When tools are available, you MUST use them.`;
+
+export abstract class OpenAICompatibleService implements ProviderAdapter<any[]> {
+  abstract readonly name: string;
+  abstract readonly displayName: string;
+  abstract readonly defaultModel: string;
+  readonly requiresApiKey: boolean = true;
+  readonly enforceLicense: boolean = true;
+  readonly requestTimeoutMs: number = 60000;
+  protected abstract baseUrl: string;
+  // When false, tools are described in the prompt and parsed from TOOL_CALL lines
+  protected nativeTools: boolean = true;
+
+  abstract buildSystemInstruction(availableFunctions: string): string;
+  abstract listModels(): Promise<{ success: boolean; models: any[] }>;
+
+  protected getMaxTokens(model: string): number {
+    return 4096;
+  }
+
+  protected getHeaders(apiKey?: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    };
+  }
+
+  /**
+   * Transport hook - subclasses that cannot use global fetch override this
+   */
+  protected fetchImpl(url: string, init: { method: string; headers: Record<string, string>; body: string; signal: AbortSignal }): Promise<any> {
+    return fetch(url, init);
+  }
+
+  private extractWaitTime(errorText: string): number | undefined {
+    // Try to extract wait time from error messages like "try again in 1.266s"
+    const match = errorText.match(/try again in (\d+(?:\.\d+)?)/i);
+    if (match) {
+      return Math.ceil(parseFloat(match[1]) * 1000) + 500; // Add 500ms buffer
+    }
+    return undefined;
+  }
+
+  protected parseError(status: number, errorText: string): ProviderError {
+    const message = `${this.displayName} API error (${status}): ${errorText.substring(0, 1000)}`;
+    if (status === 429) {
+      return new ProviderError('RATE_LIMIT', message, this.extractWaitTime(errorText));
+    }
+    if (status >= 500) {
+      return new ProviderError('TRANSIENT', message);
+    }
+    const errorLower = errorText.toLowerCase();
+    if ((status === 400 || status === 413) && CONTEXT_LIMIT_PHRASES.some(phrase => errorLower.includes(phrase))) {
+      return new ProviderError('CONTEXT_LIMIT', message);
+    }
+    return new ProviderError('FATAL', message);
+  }
+
+  createConversation(systemInstruction: string, messages: ConversationMessage[]): any[] {
+    return [
+      { role: 'system', content: systemInstruction },
+      ...messages.map(msg => ({ role: msg.role, content: msg.content }))
+    ];
+  }
+
+  async streamTurn(messages: any[], ctx: TurnContext): Promise<AgentTurn> {
+    const requestBody = {
+      model: ctx.model,
+      messages,
+      ...(this.nativeTools && ctx.tools.length > 0 ? { tools: convertToOpenAITools(ctx.tools), tool_choice: 'auto' } : {}),
+      stream: true,
+      temperature: 0.7,
+      max_tokens: this.getMaxTokens(ctx.model)
+    };
+
+    let response: any;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}chat/completions`, {
+        method: 'POST',
+        headers: this.getHeaders(ctx.apiKey),
+        body: JSON.stringify(requestBody),
+        signal: ctx.signal,
+      });
+    } catch (fetchError: any) {
+      if (fetchError.name === 'AbortError' || ctx.signal.aborted) throw fetchError;
+      throw new ProviderError('TRANSIENT', `Request failed: ${fetchError.message || String(fetchError)}`);
+    }
+
+    if (!response.ok) {
+      throw this.parseError(response.status, await response.text());
+    }
+
+    // Process streaming response
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    if (!reader) {
+      throw new ProviderError('FATAL', 'No response body reader available');
+    }
+
+    let buffer = '';
+    let fullText = '';
+    const currentToolCalls: Record<number, { id: string; name: string; arguments: string }> = {};
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      ctx.keepAlive();
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed === 'data: [DONE]') continue;
+        if (!trimmed.startsWith('data: ')) continue;
+
+        try {
+          const json = JSON.parse(trimmed.slice(6));
+          const delta = json.choices?.[0]?.delta;
+
+          // Handle text content
+          if (delta?.content) {
+            fullText += delta.content;
+            ctx.emitText(delta.content);
+          }
+
+          // Handle tool calls
+          if (delta?.tool_calls) {
+            for (const toolCall of delta.tool_calls) {
+              const index = toolCall.index ?? 0;
+              if (!currentToolCalls[index]) {
+                currentToolCalls[index] = { id: '', name: '', arguments: '' };
+              }
+              if (toolCall.id) currentToolCalls[index].id = toolCall.id;
+              if (toolCall.function?.name) currentToolCalls[index].name = toolCall.function.name;
+              if (toolCall.function?.arguments) currentToolCalls[index].arguments += toolCall.function.arguments;
+            }
+          }
+        } catch (parseError) {
+          // Ignore JSON parse errors for partial chunks
+        }
+      }
+    }
+
+    const toolCalls: ToolCallRequest[] = [];
+    Object.values(currentToolCalls)
+      .filter(tc => tc.name)
+      .forEach((tc, i) => {
+        try {
+          toolCalls.push({
+            id: tc.id || `call_${Date.now()}_${i}`,
+            name: tc.name,
+            args: tc.arguments ? JSON.parse(tc.arguments) : {}
+          });
+        } catch (parseError) {
+          console.error(`[${this.name}] Failed to parse tool arguments:`, parseError);
+        }
+      });
+
+    if (!this.nativeTools) {
+      toolCalls.push(...parseManualToolCalls(fullText));
+    }
+
+    return { text: fullText, toolCalls };
+  }
+
+  appendTurn(messages: any[], turn: AgentTurn, results: ToolCallResult[]): void {
+    if (!this.nativeTools) {
+      messages.push({ role: 'assistant', content: turn.text });
+      messages.push({ role: 'user', content: formatManualToolResults(results) });
+      return;
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: turn.text || null,
+      tool_calls: turn.toolCalls.map(tc => ({
+        id: tc.id,
+        type: 'function',
+        function: { name: tc.name, arguments: JSON.stringify(tc.args) }
+      }))
+    });
+    for (const result of results) {
+      messages.push({
+        role: 'tool',
+        tool_call_id: result.id,
+        content: typeof result.response === 'string' ? result.response : JSON.stringify(result.response)
+      });
+    }
+  }
+
+  appendUserMessage(messages: any[], text: string): void {
+    messages.push({ role: 'user', content: text });
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Path Jail
+ * Keeps agent file tools inside the current project (set from project:set-current).
+ * Relative paths resolve against the project root, and symlinks are followed so a
+ * link inside the project cannot be used to reach files outside it.
+ *
+ * Paths outside the root are only usable after the user approves them
+ * (see AgentExecutor); approvals last until the project changes.
+ * Without an open project there is nothing to anchor to and paths are not restricted.
+ *
+ * runInRoot() re-anchors everything called from inside it (file tools, commands,
+ * git) at another folder, such as the git worktree of an isolated agent run,
+ * without affecting anything running concurrently.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type PathViolation = 'outside' | 'symlink';
+
+export interface PathCheck {
+  absolutePath: string;
+  realPath: string;
+  violation: PathViolation | null;
+}
+
+export class PathJailError extends Error {
+  readonly code = 'PATH_OUTSIDE_PROJECT';
+
+  constructor(message: string, public readonly filePath: string, public readonly violation: PathViolation) {
+    super(message);
+    this.name = 'PathJailError';
+  }
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * realpath of the deepest existing ancestor, with the missing tail appended,
+ * so new files are checked against where they would really be created
+ */
+function realPathOf(absolutePath: string): string {
+  const missing: string[] = [];
+  let current = absolutePath;
+  while (true) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return absolutePath;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+interface RootScope {
+  root: string;
+  realRoot: string;
+}
+
+class PathJail {
+  private projectRoot: string | null = null;
+  private realRoot: string | null = null;
+  private allowedOutside: Set<string> = new Set();
+  private scope = new AsyncLocalStorage<RootScope>();
+
+  setProjectRoot(projectRoot: string | null) {
+    this.projectRoot = projectRoot ? path.resolve(projectRoot) : null;
+    this.realRoot = this.projectRoot ? realPathOf(this.projectRoot) : null;
+    this.allowedOutside.clear();
+  }
+
+  /**
+   * The project root, or the root of the enclosing runInRoot() call
+   */
+  getProjectRoot(): string | null {
+    return this.scope.getStore()?.root ?? this.projectRoot;
+  }
+
+  /**
+   * Run `fn` with the jail anchored at `root` instead of the project. Absolute
+   * paths into the project are mapped to the same place below `root`, so
+   * paths the model saw in the project context keep working.
+   */
+  runInRoot<T>(root: string, fn: () => Promise<T>): Promise<T> {
+    const resolved = path.resolve(root);
+    return this.scope.run({ root: resolved, realRoot: realPathOf(resolved) }, fn);
+  }
+
+  /**
+   * Absolute path without any checks (~ expanded, relative to the project root)
+   */
+  toAbsolute(filePath: string): string {
+    if (filePath === '~' || filePath.startsWith('~/') || filePath.startsWith('~\\')) {
+      return path.resolve(os.homedir(), filePath.slice(2));
+    }
+    const scope = this.scope.getStore();
+    const absolutePath = path.resolve(scope?.root || this.projectRoot || process.cwd(), filePath);
+    if (scope && this.projectRoot && isInside(absolutePath, this.projectRoot) && !isInside(absolutePath, scope.root)) {
+      return path.join(scope.root, path.relative(this.projectRoot, absolutePath));
+    }
+    return absolutePath;
+  }
+
+  check(filePath: string): PathCheck {
+    const absolutePath = this.toAbsolute(filePath);
+    const realPath = realPathOf(absolutePath);
+    const scope = this.scope.getStore();
+    const root = scope?.root ?? this.projectRoot;
+    const realRoot = scope?.realRoot ?? this.realRoot;
+    if (!root || !realRoot) {
+      return { absolutePath, realPath, violation: null };
+    }
+    if (isInside(realPath, realRoot) || this.isAllowed(realPath)) {
+      return { absolutePath, realPath, violation: null };
+    }
+    // Lexically inside but really outside means a symlink points out of the project
+    const violation: PathViolation = isInside(absolutePath, root) ? 'symlink' : 'outside';
+    return { absolutePath, realPath, violation };
+  }
+
+  /**
+   * Absolute path for a tool, or PathJailError if it leaves the project
+   */
+  resolve(filePath: string): string {
+    const { absolutePath, realPath, violation } = this.check(filePath);
+    if (violation) {
+      throw new PathJailError(this.describe(filePath, realPath, violation), filePath, violation);
+    }
+    return absolutePath;
+  }
+
+  describe(filePath: string, realPath: string, violation: PathViolation): string {
+    return violation === 'symlink'
+      ? `Path escapes the project through a symlink: ${filePath} -> ${realPath}`
+      : `Path is outside the project (${this.getProjectRoot()}): ${filePath}`;
+  }
+
+  /**
+   * User-approved escape hatch; covers the path and everything below it
+   */
+  allowOutside(realPath: string) {
+    this.allowedOutside.add(realPath);
+  }
+
+  private isAllowed(realPath: string): boolean {
+    return Array.from(this.allowedOutside).some(allowed => isInside(realPath, allowed));
+  }
+}
+
+export const pathJail = new PathJail();
@@ -0,0 +1,278 @@
+/**
+ * Permission Policy
+ * Decides whether a tool call may run before the agent executor dispatches it.
+ *
+ * Rules come from the user (<userData>/permissions.json) and the project
+ * (<project>/.candycode/permissions.json, meant to be checked in):
+ *   { "rules": [
+ *     { "tool": "execute_command", "command": "npm test", "action": "allow" },
+ *     { "tool": "execute_command", "command": "git push", "action": "ask" },
+ *     { "tool": ["write_file", "edit_file", "apply_patch"], "path": "!src/**", "action": "deny" }
+ *   ] }
+ *
+ * - tool: name or glob (e.g. "mcp__github__*"), or a list of them
+ * - path: glob relative to the project root; a leading "!" matches paths outside it
+ * - command: prefix of each command in the line (whole words); chains like
+ *   "npm test && rm -rf x" are split, so an allow rule must cover every part.
+ *   An allow rule does not cover a command that redirects its output to a file
+ *   or is rated destructive or privileged ("npm test > /etc/passwd"), unless
+ *   the rule lists the risks it allows or names the exact command line
+ * - risk: command risk from the shell analysis (read-only, write, network,
+ *   destructive, privileged), or a list of them
+ *
+ * Of all matching rules the strictest wins (deny > ask > allow). With no
+ * matching rule the tool keeps its built-in behavior ('default').
+ *
+ * The project file is checked in, so its allow rules only apply once the user
+ * trusts it (project-trust.service.ts); its ask and deny rules always do.
+ */
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { getToolPaths, getTestCommand } from './file-operations.service';
+import { pathJail } from './path-jail.service';
+import { analyzeCommand, CommandRisk, RISK_LEVELS } from './command-analysis.service';
+import { projectTrust, TrustRequest } from './project-trust.service';
+
+export type PermissionAction = 'allow' | 'ask' | 'deny';
+export type PermissionScope = 'user' | 'project';
+
+export interface PermissionRule {
+  tool: string | string[];
+  path?: string;
+  command?: string;
+  risk?: CommandRisk | CommandRisk[];
+  action: PermissionAction;
+  reason?: string; // Shown to the model and user on deny
+}
+
+export interface PermissionDecision {
+  action: PermissionAction | 'default';
+  rule?: PermissionRule;
+  scope?: PermissionScope;
+}
+
+// Tools that change files, used for "always allow" rules from the diff widgets
+export const FILE_WRITE_TOOLS = ['write_file', 'edit_file', 'apply_patch'];
+
+const ACTION_RANK: Record<PermissionAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches any number of directories, including none
+        pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+        i += glob[i + 2] === '/' ? 2 : 1;
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesGlob(glob: string, value: string): boolean {
+  // A directory pattern like "src/" covers everything below it
+  const normalized = glob.endsWith('/') ? `${glob}**` : glob;
+  return globToRegExp(normalized).test(value);
+}
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+interface SubjectCommand {
+  text: string;
+  risk: CommandRisk;
+  redirects: string[];
+}
+
+interface CommandSubject {
+  line: string; // The whole command line
+  commands: SubjectCommand[];
+}
+
+class PermissionPolicy {
+  private projectRoot: string | null = null;
+
+  setProjectRoot(projectRoot: string | null) {
+    this.projectRoot = projectRoot;
+  }
+
+  private getRulesPath(scope: PermissionScope): string | null {
+    if (scope === 'user') {
+      return path.join(app.getPath('userData'), 'permissions.json');
+    }
+    return this.projectRoot ? path.join(this.projectRoot, '.candycode', 'permissions.json') : null;
+  }
+
+  /**
+   * Rules are read on every call so edits to the checked-in file apply immediately
+   */
+  getRules(scope: PermissionScope): PermissionRule[] {
+    const rulesPath = this.getRulesPath(scope);
+    if (!rulesPath || !fs.existsSync(rulesPath)) return [];
+    try {
+      const parsed = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
+      return Array.isArray(parsed.rules) ? parsed.rules : [];
+    } catch (error) {
+      console.error(`[PermissionPolicy] Failed to read ${rulesPath}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the rules edited in the settings; the user wrote them, so they are trusted
+   */
+  saveRules(scope: PermissionScope, rules: PermissionRule[]): { success: boolean; error?: string } {
+    return this.writeRules(scope, rules, true);
+  }
+
+  private writeRules(scope: PermissionScope, rules: PermissionRule[], trust: boolean): { success: boolean; error?: string } {
+    const rulesPath = this.getRulesPath(scope);
+    if (!rulesPath) {
+      return { success: false, error: 'Open a project to configure project permissions' };
+    }
+    try {
+      fs.mkdirSync(path.dirname(rulesPath), { recursive: true });
+      fs.writeFileSync(rulesPath, JSON.stringify({ rules }, null, 2), 'utf-8');
+      if (scope === 'project' && trust) projectTrust.trust(rulesPath);
+      return { success: true };
+    } catch (error: any) {
+      console.error(`[PermissionPolicy] Failed to save ${rulesPath}:`, error);
+      return { success: false, error: error.message || String(error) };
+    }
+  }
+
+  /**
+   * Add a rule (used by the "always allow" buttons). Absolute paths inside the
+   * project are stored relative to its root. An untrusted project file stays
+   * untrusted: the rules already in it were never shown to the user.
+   */
+  addRule(rule: PermissionRule, scope: PermissionScope = 'user'): { success: boolean; error?: string } {
+    const stored: PermissionRule = { ...rule };
+    if (stored.path && path.isAbsolute(stored.path)) {
+      const { absolute, relative } = this.resolveSubject(stored.path);
+      stored.path = relative.startsWith('../') || !this.projectRoot ? absolute : relative;
+    }
+    if (stored.command) {
+      stored.command = normalizeCommand(stored.command);
+    }
+    const rules = this.getRules(scope);
+    const duplicate = rules.some(r => JSON.stringify(r) === JSON.stringify(stored));
+    return duplicate ? { success: true } : this.writeRules(scope, [...rules, stored], this.isTrusted(scope));
+  }
+
+  private isTrusted(scope: PermissionScope): boolean {
+    const rulesPath = this.getRulesPath(scope);
+    return scope === 'user' || !rulesPath || projectTrust.isTrusted(rulesPath);
+  }
+
+  /**
+   * The allow rules that would apply once the project's rules are trusted
+   */
+  getTrustRequest(): TrustRequest | null {
+    const rulesPath = this.getRulesPath('project');
+    if (!rulesPath || this.isTrusted('project')) return null;
+    const effects = this.getRules('project')
+      .filter(rule => rule.action === 'allow')
+      .map(rule => {
+        const tools = Array.isArray(rule.tool) ? rule.tool.join(', ') : rule.tool || 'every tool';
+        const scope = [rule.command && `"${rule.command}"`, rule.path, rule.risk && `${rule.risk} commands`].filter(Boolean).join(', ');
+        return `Allow ${tools} without asking${scope ? ` for ${scope}` : ''}`;
+      });
+    return effects.length > 0 ? { configPath: rulesPath, effects } : null;
+  }
+
+  evaluate(toolName: string, args: Record<string, any> = {}): PermissionDecision {
+    const paths = getToolPaths(toolName, args).map(p => this.resolveSubject(p));
+    const command = this.getSubjectCommand(toolName, args);
+
+    let decision: PermissionDecision = { action: 'default' };
+    for (const scope of ['project', 'user'] as PermissionScope[]) {
+      const trusted = this.isTrusted(scope);
+      for (const rule of this.getRules(scope)) {
+        if (rule.action === 'allow' && !trusted) continue;
+        if (!this.matches(rule, toolName, paths, command)) continue;
+        if (decision.action === 'default' || ACTION_RANK[rule.action] > ACTION_RANK[decision.action]) {
+          decision = { action: rule.action, rule, scope };
+        }
+      }
+    }
+    return decision;
+  }
+
+  private matches(rule: PermissionRule, toolName: string, paths: Array<{ absolute: string; relative: string }>, command: CommandSubject | null): boolean {
+    if (!ACTION_RANK.hasOwnProperty(rule.action)) return false;
+
+    const tools = Array.isArray(rule.tool) ? rule.tool : [rule.tool || '*'];
+    if (!tools.some(t => matchesGlob(t, toolName))) return false;
+
+    if (rule.path) {
+      if (paths.length === 0) return false;
+      const negated = rule.path.startsWith('!');
+      const glob = negated ? rule.path.slice(1) : rule.path;
+      const test = (p: { absolute: string; relative: string }) =>
+        matchesGlob(glob, path.isAbsolute(glob) ? p.absolute : p.relative) !== negated;
+      // Allow must cover every touched path; one match is enough to ask or deny
+      const hit = rule.action === 'allow' ? paths.every(test) : paths.some(test);
+      if (!hit) return false;
+    }
+
+    if (rule.command) {
+      if (command === null) return false;
+      const prefix = normalizeCommand(rule.command);
+      // Allow covers what the prefix names, not writes or deletions added to it;
+      // a rule that lists risks says itself what it allows (checked below)
+      const covered = (c: SubjectCommand) => rule.action !== 'allow' || !!rule.risk
+        || (c.redirects.length === 0 && RISK_LEVELS.indexOf(c.risk) < RISK_LEVELS.indexOf('destructive'));
+      const test = (c: SubjectCommand) => (c.text === prefix || c.text.startsWith(prefix + ' ')) && covered(c);
+      // An exact match covers the whole line (rules saved from "always allow")
+      const hit = command.line === prefix
+        || (rule.action === 'allow' ? command.commands.every(test) : command.commands.some(test));
+      if (!hit) return false;
+    }
+
+    if (rule.risk) {
+      if (command === null) return false;
+      const risks = Array.isArray(rule.risk) ? rule.risk : [rule.risk];
+      const test = (c: { risk: CommandRisk }) => risks.includes(c.risk);
+      const hit = rule.action === 'allow' ? command.commands.every(test) : command.commands.some(test);
+      if (!hit) return false;
+    }
+    return true;
+  }
+
+  private getSubjectCommand(toolName: string, args: Record<string, any>): CommandSubject | null {
+    const line = toolName === 'run_tests' ? getTestCommand(args.framework) : args.command;
+    if (typeof line !== 'string') return null;
+    const analysis = analyzeCommand(line);
+    return {
+      line: normalizeCommand(line),
+      commands: analysis.commands.map(c => ({ text: normalizeCommand(c.command), risk: c.risk, redirects: c.redirects })),
+    };
+  }
+
+  /**
+   * Resolve like the file tools do; rules match the path relative to the
+   * project root unless the rule itself is absolute
+   */
+  private resolveSubject(filePath: string): { absolute: string; relative: string } {
+    const resolved = pathJail.toAbsolute(filePath);
+    const absolute = resolved.split(path.sep).join('/');
+    // Inside an isolated run the jail root is the worktree, where the paths now point
+    const root = this.projectRoot ? pathJail.getProjectRoot() || this.projectRoot : null;
+    if (!root) return { absolute, relative: absolute };
+    const relative = path.relative(root, resolved).split(path.sep).join('/') || '.';
+    return { absolute, relative };
+  }
+}
+
+export const permissionPolicy = new PermissionPolicy();
@@ -0,0 +1,195 @@
+/**
+ * Problems Service
+ * Project-wide diagnostics for the Problems panel: the type-check service in
+ * watch mode plus ESLint, which lints the whole project once and then only
+ * the files the project watcher reports. Runs while the panel is open.
+ */
+import { BrowserWindow } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { eslintService } from './eslint.service';
+import { typeCheckService, FileChangeKind } from './typecheck.service';
+import { Diagnostic, fromESLint, fromTypeScript, compareDiagnostics } from './diagnostics.service';
+
+export interface Problem extends Diagnostic {
+  filePath: string; // Absolute; empty for problems not tied to a file
+}
+
+export interface ProblemsSnapshot {
+  root: string | null;
+  problems: Problem[];
+  notes: string[];
+  checking: boolean; // The first type check or lint has not finished yet
+}
+
+const LINT_DELAY_MS = 300;
+const ESLINT_CONFIG_PATTERN = /^(eslint\.config\.[cm]?[jt]s|\.eslintrc(\.[a-z]+)?|\.eslintignore)$/;
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+
+class ProblemsService {
+  private mainWindow: BrowserWindow | null = null;
+  private root: string | null = null;
+  private active = false;
+  private generation = 0;
+
+  private typeProblems: Problem[] = [];
+  private typeNotes: string[] = [];
+  private typesChecked = false;
+  private lintProblems = new Map<string, Problem[]>(); // File -> its ESLint problems
+  private lintNotes: string[] = [];
+  private linted = false;
+  // Extensions the project lint covered; explicit paths would bypass the config's own file patterns
+  private lintedExtensions = new Set<string>();
+  private lintQueue = new Set<string>();
+  private lintTimer: NodeJS.Timeout | null = null;
+  private fullLintQueued = false;
+
+  setMainWindow(window: BrowserWindow) {
+    this.mainWindow = window;
+  }
+
+  /**
+   * The panel opened; starts checking the project if it is not already
+   */
+  start(): ProblemsSnapshot {
+    if (!this.active) {
+      this.active = true;
+      this.restart();
+    }
+    return this.getSnapshot();
+  }
+
+  stop() {
+    this.active = false;
+    this.reset();
+  }
+
+  setProjectRoot(root: string | null) {
+    if (root === this.root) return;
+    this.root = root;
+    if (this.active) this.restart();
+  }
+
+  /**
+   * Forwarded from the project watcher in main.ts
+   */
+  handleFileEvent(filePath: string, kind: FileChangeKind) {
+    if (!this.active || !this.root) return;
+    const relative = path.relative(this.root, filePath);
+    if (relative.startsWith('..') || relative.split(path.sep).some(part => IGNORED_DIRECTORIES.includes(part))) return;
+
+    typeCheckService.notifyFileChange(filePath, kind);
+    if (ESLINT_CONFIG_PATTERN.test(path.basename(filePath))) {
+      eslintService.clearProjectLinter(this.root);
+      this.fullLintQueued = true;
+      this.scheduleLint();
+    } else if (this.lintedExtensions.has(path.extname(filePath).toLowerCase())) {
+      this.lintQueue.add(filePath);
+      this.scheduleLint();
+    }
+  }
+
+  getSnapshot(): ProblemsSnapshot {
+    const problems = [...this.typeProblems, ...Array.from(this.lintProblems.values()).flat()].sort(compareDiagnostics);
+    return {
+      root: this.root,
+      problems,
+      notes: [...this.typeNotes, ...this.lintNotes],
+      checking: this.active && !!this.root && (!this.typesChecked || !this.linted),
+    };
+  }
+
+  private reset() {
+    this.generation++;
+    typeCheckService.unwatch();
+    if (this.lintTimer) clearTimeout(this.lintTimer);
+    this.lintTimer = null;
+    this.lintQueue.clear();
+    this.fullLintQueued = false;
+    this.typeProblems = [];
+    this.typeNotes = [];
+    this.typesChecked = false;
+    this.lintProblems.clear();
+    this.lintNotes = [];
+    this.linted = false;
+    this.lintedExtensions.clear();
+  }
+
+  private restart() {
+    this.reset();
+    const root = this.root;
+    this.notify();
+    if (!root) return;
+
+    const generation = this.generation;
+    typeCheckService.watch(root, result => {
+      if (generation !== this.generation) return;
+      this.typeProblems = result.diagnostics.map(d => ({ ...fromTypeScript(root, d), filePath: d.filePath }));
+      this.typeNotes = result.notes;
+      this.typesChecked = true;
+      this.notify();
+    }).catch(error => {
+      if (generation !== this.generation) return;
+      this.typeNotes = [`TypeScript did not run: ${error.message.split('\n')[0]}`];
+      this.typesChecked = true;
+      this.notify();
+    });
+
+    this.fullLintQueued = true;
+    this.runLint();
+  }
+
+  private scheduleLint() {
+    if (this.lintTimer) clearTimeout(this.lintTimer);
+    this.lintTimer = setTimeout(() => this.runLint(), LINT_DELAY_MS);
+  }
+
+  private async runLint() {
+    this.lintTimer = null;
+    const root = this.root;
+    if (!root) return;
+    const generation = this.generation;
+    const full = this.fullLintQueued;
+    const files = Array.from(this.lintQueue);
+    this.fullLintQueued = false;
+    this.lintQueue.clear();
+
+    if (!eslintService.isEnabled()) {
+      this.lintProblems.clear();
+      this.lintNotes = ['ESLint is turned off in the settings'];
+      this.linted = true;
+      this.notify();
+      return;
+    }
+
+    try {
+      const results = await eslintService.lintProject(root, full ? undefined : files.filter(file => fs.existsSync(file)));
+      if (generation !== this.generation) return;
+      if (full) {
+        this.lintProblems.clear();
+        this.lintedExtensions = new Set(results.map(result => path.extname(result.filePath).toLowerCase()));
+      }
+      // Files without a result were deleted or are ignored now
+      for (const file of files) this.lintProblems.delete(file);
+      for (const result of results) {
+        const problems = fromESLint(root, result).map(d => ({ ...d, filePath: result.filePath }));
+        if (problems.length > 0) this.lintProblems.set(result.filePath, problems);
+      }
+      this.lintNotes = [];
+    } catch (error: any) {
+      if (generation !== this.generation) return;
+      this.lintProblems.clear();
+      this.lintNotes = [`ESLint did not run: ${error.message.split('\n')[0]}`];
+    }
+    this.linted = true;
+    this.notify();
+  }
+
+  private notify() {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send('problems:changed', this.getSnapshot());
+    }
+  }
+}
+
+export const problemsService = new ProblemsService();
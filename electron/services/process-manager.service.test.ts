@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, MockInstance, vi } from 'vitest';
+import { processManager } from './process-manager.service';
+import { pathJail } from './path-jail.service';
+import { permissionPolicy } from './permission-policy.service';
+import { toolApprovalService } from './tool-approval.service';
+
+// A terminal that records what is typed into it and never exits on its own
+const written: string[] = [];
+vi.mock('node-pty', () => ({
+  spawn: () => ({
+    pid: 99999999, // Above any real pid, in case a signal is sent to it
+    onData: () => {},
+    onExit: () => {},
+    write: (data: string) => written.push(data),
+    kill: () => {},
+  }),
+}));
+
+let projectRoot: string;
+let approve: MockInstance<typeof toolApprovalService.request>;
+
+beforeEach(() => {
+  written.length = 0;
+  projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-processes-')));
+  pathJail.setProjectRoot(projectRoot);
+  permissionPolicy.setProjectRoot(projectRoot);
+  approve = vi.spyOn(toolApprovalService, 'request').mockResolvedValue(true);
+});
+
+afterEach(() => {
+  approve.mockRestore();
+  permissionPolicy.setProjectRoot(null);
+  pathJail.setProjectRoot(null);
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+async function startShell(): Promise<string> {
+  const result = await processManager.start({ command: 'bash', timeout_seconds: 0 }, 'shell-test');
+  expect(result.error).toBeUndefined();
+  approve.mockClear();
+  return result.message.match(/proc_\d+/)[0];
+}
+
+describe('interactive processes', () => {
+  it('need approval to start', async () => {
+    approve.mockResolvedValue(false);
+    const result = await processManager.start({ command: 'python3', timeout_seconds: 0 }, 'shell-test');
+    expect(result.code).toBe('PERMISSION_REJECTED');
+    expect(approve).toHaveBeenCalledWith(expect.objectContaining({ toolName: 'start_process' }));
+  });
+
+  it('ask before input that would need approval as a command', async () => {
+    const id = await startShell();
+    expect(await processManager.sendInput({ process_id: id, input: 'ls -la' }, 'shell-test')).toMatchObject({ success: true });
+    expect(approve).not.toHaveBeenCalled();
+
+    approve.mockResolvedValue(false);
+    const declined = await processManager.sendInput({ process_id: id, input: 'rm -rf build' }, 'shell-test');
+    expect(declined.code).toBe('PERMISSION_REJECTED');
+    expect(approve).toHaveBeenCalledWith(expect.objectContaining({ toolName: 'send_process_input' }));
+    expect(written).toEqual(['ls -la\r']);
+  });
+
+  it('apply the command permission rules to input', async () => {
+    permissionPolicy.saveRules('project', [{ tool: 'execute_command', command: 'git push', action: 'deny' }]);
+    const id = await startShell();
+    const denied = await processManager.sendInput({ process_id: id, input: 'git status\ngit push' }, 'shell-test', true);
+    expect(denied.code).toBe('PERMISSION_DENIED');
+    expect(written).toEqual([]);
+  });
+});
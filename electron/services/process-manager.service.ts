@@ -0,0 +1,438 @@
+/**
+ * Process Manager
+ * Long-running background processes (dev servers, watchers) the agent starts
+ * with start_process and keeps using across turns through read_process_output,
+ * send_process_input and stop_process.
+ *
+ * Processes run in a pseudo-terminal (node-pty, like the integrated terminal)
+ * so tools that check for a TTY keep their normal output. Each one belongs to
+ * the chat session that started it; the agent only sees its own session's
+ * processes, while the Processes panel lists all of them.
+ *
+ * Starting a shell or REPL needs approval, and every line later sent to one is
+ * checked like an execute_command call: permission rules, then approval for
+ * anything destructive.
+ */
+import { BrowserWindow } from 'electron';
+import * as os from 'os';
+import * as pty from 'node-pty';
+import { analyzeCommand, needsApproval } from './command-analysis.service';
+import { toolApprovalService } from './tool-approval.service';
+import { permissionPolicy } from './permission-policy.service';
+import { pathJail } from './path-jail.service';
+import { summarizeOutput } from './command-runner.service';
+
+export type ProcessStatus = 'running' | 'exited' | 'stopped';
+
+export interface ManagedProcessInfo {
+  id: string;
+  name: string;
+  command: string;
+  cwd: string;
+  pid: number;
+  sessionId: string;
+  status: ProcessStatus;
+  exitCode: number | null;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+interface ProcessEntry {
+  info: ManagedProcessInfo;
+  pty: pty.IPty;
+  output: string;
+  dropped: number; // Characters trimmed from the front of `output`
+  readOffset: number; // Absolute offset the agent has read up to
+  pendingLine: string; // Unfinished raw line, converted once its newline arrives
+  interactive: boolean; // A shell or REPL, whose input runs as code
+  listeners: Set<(gotData: boolean) => void>;
+}
+
+// Output kept per process; older output is dropped from the front
+const MAX_OUTPUT_CHARS = 256 * 1024;
+const MAX_PENDING_CHARS = 64 * 1024;
+const MAX_RUNNING = 8;
+const DEFAULT_WAIT_SECONDS = 5;
+const MAX_WAIT_SECONDS = 120;
+const STOP_GRACE_MS = 3000;
+const DEFAULT_SESSION = 'default';
+
+// CSI/OSC escape sequences and other control characters from the terminal
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]|[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/g;
+
+/**
+ * Terminal output as plain text: escape codes removed and carriage-return
+ * redraws (progress bars, spinners) collapsed to their final state
+ */
+function toPlainText(data: string): string {
+  return data
+    .replace(ANSI_PATTERN, '')
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => {
+      const redraw = line.lastIndexOf('\r', line.length - 2);
+      return (redraw === -1 ? line : line.slice(redraw + 1)).replace(/\r$/, '');
+    })
+    .join('\n');
+}
+
+function matchesWaitFor(output: string, waitFor: string): boolean {
+  try {
+    return new RegExp(waitFor, 'i').test(output);
+  } catch {
+    return output.toLowerCase().includes(waitFor.toLowerCase());
+  }
+}
+
+class ProcessManager {
+  private mainWindow: BrowserWindow | null = null;
+  private processes: Map<string, ProcessEntry> = new Map();
+  private nextId = 1;
+
+  setMainWindow(window: BrowserWindow) {
+    this.mainWindow = window;
+  }
+
+  list(sessionId?: string): ManagedProcessInfo[] {
+    return Array.from(this.processes.values())
+      .map(e => ({ ...e.info }))
+      .filter(info => sessionId === undefined || info.sessionId === sessionId);
+  }
+
+  /**
+   * Everything still buffered for a process (for the Processes panel)
+   */
+  getOutput(id: string): string {
+    const entry = this.processes.get(id);
+    return entry ? entry.output + toPlainText(entry.pendingLine) : '';
+  }
+
+  /**
+   * start_process tool
+   * @param preApproved - the permission policy already allowed (or the user approved) this call
+   */
+  async start(
+    args: { command: string; name?: string; wait_for?: string; timeout_seconds?: number },
+    sessionId: string = DEFAULT_SESSION,
+    preApproved: boolean = false
+  ): Promise<any> {
+    const command = (args.command || '').trim();
+    if (!command) return { error: 'command is required' };
+
+    const running = Array.from(this.processes.values()).filter(e => e.info.status === 'running');
+    if (running.length >= MAX_RUNNING) {
+      return { error: `Too many background processes (${MAX_RUNNING} running). Stop one with stop_process first.` };
+    }
+
+    const cwd = pathJail.getProjectRoot() || os.homedir();
+    const analysis = analyzeCommand(command, cwd);
+    if (analysis.blocked) {
+      return { error: `Command blocked: ${analysis.reasons.join('; ')}`, code: 'COMMAND_BLOCKED', risk: analysis.risk, riskReasons: analysis.reasons };
+    }
+    if (needsApproval(analysis) && !preApproved) {
+      const approved = await toolApprovalService.request({
+        source: 'background process',
+        toolName: 'start_process',
+        description: analysis.reasons.join('\n'),
+        args,
+      });
+      if (!approved) {
+        return { error: `User declined to start: ${command}`, code: 'PERMISSION_REJECTED' };
+      }
+    }
+
+    const isWindows = os.platform() === 'win32';
+    const shell = isWindows ? 'powershell.exe' : (process.env.SHELL || 'bash');
+    const shellArgs = isWindows ? ['-NoLogo', '-Command', command] : ['-c', command];
+
+    let ptyProcess: pty.IPty;
+    try {
+      ptyProcess = pty.spawn(shell, shellArgs, {
+        name: 'xterm-256color',
+        cols: 120,
+        rows: 30,
+        cwd,
+        env: { ...process.env, TERM: 'xterm-256color', COLORTERM: 'truecolor' } as any,
+      });
+    } catch (error: any) {
+      return { error: `Failed to start process: ${error.message || error}` };
+    }
+
+    const id = `proc_${this.nextId++}`;
+    const entry: ProcessEntry = {
+      info: {
+        id,
+        name: (args.name || '').trim() || command.split(/\s+/).slice(0, 3).join(' '),
+        command,
+        cwd,
+        pid: ptyProcess.pid,
+        sessionId,
+        status: 'running',
+        exitCode: null,
+        startedAt: Date.now(),
+        endedAt: null,
+      },
+      pty: ptyProcess,
+      output: '',
+      dropped: 0,
+      readOffset: 0,
+      pendingLine: '',
+      interactive: analysis.interactive,
+      listeners: new Set(),
+    };
+    this.processes.set(id, entry);
+    console.log(`[ProcessManager] Started ${id} (pid ${ptyProcess.pid}): ${command}`);
+
+    ptyProcess.onData((data) => this.handleData(entry, data));
+    ptyProcess.onExit(({ exitCode }) => {
+      this.flushPendingLine(entry);
+      if (entry.info.status === 'running') entry.info.status = 'exited';
+      entry.info.exitCode = exitCode;
+      entry.info.endedAt = Date.now();
+      console.log(`[ProcessManager] ${id} ${entry.info.status} with code ${exitCode}`);
+      entry.listeners.forEach(listener => listener(false));
+      this.notifyChanged();
+    });
+    this.notifyChanged();
+
+    const seconds = Math.min(Math.max(args.timeout_seconds ?? DEFAULT_WAIT_SECONDS, 0), MAX_WAIT_SECONDS);
+    const ready = await this.waitFor(entry, args.wait_for, seconds * 1000);
+
+    return {
+      ...this.readNew(entry),
+      message: entry.info.status === 'running'
+        ? `Started ${id} in the background${args.wait_for ? (ready ? ` ("${args.wait_for}" seen)` : `; "${args.wait_for}" not seen after ${seconds}s`) : ''}`
+        : `Process exited with code ${entry.info.exitCode} during startup`,
+    };
+  }
+
+  /**
+   * read_process_output tool: output produced since the last read
+   */
+  read(args: { process_id: string; all?: boolean; wait_seconds?: number }, sessionId: string = DEFAULT_SESSION): Promise<any> | any {
+    const entry = this.find(args.process_id, sessionId);
+    if (!entry) return this.notFound(args.process_id, sessionId);
+    if (args.all) entry.readOffset = entry.dropped;
+
+    const seconds = Math.min(Math.max(args.wait_seconds ?? 0, 0), MAX_WAIT_SECONDS);
+    if (seconds === 0 || entry.info.status !== 'running') return this.readNew(entry);
+    // Waits for the next output (or exit) so the agent can poll without spinning
+    return this.waitFor(entry, '', seconds * 1000).then(() => this.readNew(entry));
+  }
+
+  /**
+   * send_process_input tool
+   * @param preApproved - the permission policy already allowed (or the user approved) this call
+   */
+  async sendInput(
+    args: { process_id: string; input: string; press_enter?: boolean },
+    sessionId: string = DEFAULT_SESSION,
+    preApproved: boolean = false
+  ): Promise<any> {
+    const entry = this.find(args.process_id, sessionId);
+    if (!entry) return this.notFound(args.process_id, sessionId);
+    if (entry.info.status !== 'running') {
+      return { error: `Process ${entry.info.id} is not running (${entry.info.status})` };
+    }
+    const input = args.input ?? '';
+    const lines = input.split(/\r?\n/).filter(line => line.trim());
+    const analyses = lines.map(line => analyzeCommand(line, entry.info.cwd));
+    if (analyses.some(analysis => analysis.blocked)) {
+      return { error: 'Input blocked: it would run a blocked command', code: 'COMMAND_BLOCKED' };
+    }
+
+    // Input to a shell or REPL is as powerful as a command line
+    if (entry.interactive) {
+      const reasons: string[] = [];
+      for (const [i, line] of lines.entries()) {
+        const decision = permissionPolicy.evaluate('execute_command', { command: line });
+        if (decision.action === 'deny') {
+          return { error: `Input denied by your permissions: ${line}`, code: 'PERMISSION_DENIED' };
+        }
+        if (decision.action === 'ask' || (decision.action === 'default' && needsApproval(analyses[i]))) {
+          reasons.push(`${line}: ${analyses[i].reasons.join('; ') || 'asked for by your permissions'}`);
+        }
+      }
+      if (reasons.length > 0 && !preApproved) {
+        const approved = await toolApprovalService.request({
+          source: 'background process',
+          toolName: 'send_process_input',
+          description: `Input to ${entry.info.name} (${entry.info.id}):\n${reasons.join('\n')}`,
+          args,
+        });
+        if (!approved) {
+          return { error: `User declined to send input to ${entry.info.id}`, code: 'PERMISSION_REJECTED' };
+        }
+      }
+    }
+
+    entry.pty.write(args.press_enter === false ? input : `${input}\r`);
+    return { success: true, process_id: entry.info.id };
+  }
+
+  /**
+   * stop_process tool
+   */
+  async stopProcess(args: { process_id: string }, sessionId: string = DEFAULT_SESSION): Promise<any> {
+    const entry = this.find(args.process_id, sessionId);
+    if (!entry) return this.notFound(args.process_id, sessionId);
+    if (entry.info.status === 'running') {
+      this.stop(entry.info.id);
+      await this.waitFor(entry, undefined, STOP_GRACE_MS + 1000);
+    }
+    return { ...this.readNew(entry), message: `Process ${entry.info.id} is ${entry.info.status}` };
+  }
+
+  /**
+   * Stop a process. SIGTERM goes to the whole process group so children of
+   * the shell (npm -> node -> vite) stop too; SIGKILL follows if it lingers.
+   */
+  stop(id: string): boolean {
+    const entry = this.processes.get(id);
+    if (!entry || entry.info.status !== 'running') return false;
+    entry.info.status = 'stopped';
+    console.log(`[ProcessManager] Stopping ${id} (pid ${entry.info.pid})`);
+    this.signal(entry, 'SIGTERM');
+    setTimeout(() => {
+      if (entry.info.endedAt === null) this.signal(entry, 'SIGKILL');
+    }, STOP_GRACE_MS);
+    this.notifyChanged();
+    return true;
+  }
+
+  /**
+   * Drop a finished process from the list
+   */
+  remove(id: string): boolean {
+    const entry = this.processes.get(id);
+    if (!entry || entry.info.status === 'running') return false;
+    this.processes.delete(id);
+    this.notifyChanged();
+    return true;
+  }
+
+  /**
+   * Stop and forget every process a chat session started
+   */
+  stopSession(sessionId: string) {
+    for (const entry of Array.from(this.processes.values())) {
+      if (entry.info.sessionId !== sessionId) continue;
+      this.stop(entry.info.id);
+      this.processes.delete(entry.info.id);
+    }
+    this.notifyChanged();
+  }
+
+  stopAll() {
+    for (const entry of Array.from(this.processes.values())) {
+      this.stop(entry.info.id);
+    }
+  }
+
+  private signal(entry: ProcessEntry, signal: 'SIGTERM' | 'SIGKILL') {
+    try {
+      if (os.platform() === 'win32') {
+        entry.pty.kill();
+      } else {
+        process.kill(-entry.info.pid, signal);
+      }
+    } catch {
+      try {
+        entry.pty.kill(signal);
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  private handleData(entry: ProcessEntry, data: string) {
+    // Only whole lines are converted, so escape codes split across chunks stay intact
+    const text = entry.pendingLine + data;
+    const lastNewline = text.lastIndexOf('\n');
+    entry.pendingLine = text.slice(lastNewline + 1);
+    if (lastNewline !== -1) this.append(entry, toPlainText(text.slice(0, lastNewline + 1)));
+    if (entry.pendingLine.length > MAX_PENDING_CHARS) this.flushPendingLine(entry);
+    entry.listeners.forEach(listener => listener(true));
+  }
+
+  private flushPendingLine(entry: ProcessEntry) {
+    if (!entry.pendingLine) return;
+    this.append(entry, toPlainText(entry.pendingLine));
+    entry.pendingLine = '';
+  }
+
+  private append(entry: ProcessEntry, text: string) {
+    entry.output += text;
+    if (entry.output.length > MAX_OUTPUT_CHARS) {
+      const excess = entry.output.length - MAX_OUTPUT_CHARS;
+      entry.output = entry.output.slice(excess);
+      entry.dropped += excess;
+    }
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send('processes:output', { id: entry.info.id, data: text });
+    }
+  }
+
+  /**
+   * Resolves true once `pattern` appears in the unread output, or on the next
+   * output when it is empty; false on timeout or exit. Without a pattern it
+   * only waits for the process to exit.
+   */
+  private waitFor(entry: ProcessEntry, pattern: string | undefined, timeoutMs: number): Promise<boolean> {
+    const check = (gotData: boolean) => {
+      if (pattern === undefined) return false;
+      if (pattern === '') return gotData;
+      const start = Math.max(entry.readOffset - entry.dropped, 0);
+      return matchesWaitFor(entry.output.slice(start) + toPlainText(entry.pendingLine), pattern);
+    };
+
+    return new Promise((resolve) => {
+      if (check(false)) return resolve(true);
+      if (entry.info.endedAt !== null) return resolve(false);
+      const done = (value: boolean) => {
+        clearTimeout(timer);
+        entry.listeners.delete(listener);
+        resolve(value);
+      };
+      const listener = (gotData: boolean) => {
+        if (check(gotData)) done(true);
+        else if (entry.info.endedAt !== null) done(false);
+      };
+      const timer = setTimeout(() => done(false), timeoutMs);
+      entry.listeners.add(listener);
+    });
+  }
+
+  private readNew(entry: ProcessEntry) {
+    // A line still being written (e.g. a prompt) is returned but read again next time
+    const start = Math.max(entry.readOffset - entry.dropped, 0);
+    const output = entry.output.slice(start) + toPlainText(entry.pendingLine);
+    const skipped = Math.max(entry.dropped - entry.readOffset, 0);
+    entry.readOffset = entry.dropped + entry.output.length;
+    return {
+      process_id: entry.info.id,
+      status: entry.info.status,
+      exit_code: entry.info.exitCode,
+      output: (skipped > 0 ? `... [${skipped} earlier characters no longer buffered] ...\n` : '') + summarizeOutput(output),
+      truncated: skipped > 0 || output.length > 8000,
+    };
+  }
+
+  private find(id: string, sessionId: string): ProcessEntry | null {
+    const entry = this.processes.get(id);
+    return entry && entry.info.sessionId === sessionId ? entry : null;
+  }
+
+  private notFound(id: string, sessionId: string) {
+    const known = this.list(sessionId).map(p => `${p.id} (${p.name}, ${p.status})`);
+    return { error: `No background process ${id}. ${known.length ? `Known processes: ${known.join(', ')}` : 'No processes were started in this session.'}` };
+  }
+
+  private notifyChanged() {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send('processes:changed', this.list());
+    }
+  }
+}
+
+export const processManager = new ProcessManager();
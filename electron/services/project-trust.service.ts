@@ -0,0 +1,84 @@
+/**
+ * Project Trust
+ * Remembers which project config files (<project>/.candycode/*.json) the user
+ * trusts. These files are checked in, so without trust a cloned repository
+ * could start its own MCP servers or pre-approve commands just by being opened.
+ *
+ * Trust is kept per file as a hash of its content (<userData>/trusted-config.json):
+ * a file that changes, e.g. after a pull, has to be confirmed again. Files the
+ * user saves from the settings are trusted as they are written.
+ */
+import { app, BrowserWindow, dialog } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface TrustRequest {
+  configPath: string;
+  effects: string[]; // What the file would do once trusted, one line each
+}
+
+class ProjectTrust {
+  private getStorePath(): string {
+    return path.join(app.getPath('userData'), 'trusted-config.json');
+  }
+
+  private load(): Record<string, string> {
+    try {
+      return JSON.parse(fs.readFileSync(this.getStorePath(), 'utf-8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private hash(configPath: string): string | null {
+    try {
+      return crypto.createHash('sha256').update(fs.readFileSync(configPath)).digest('hex');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether the file's current content is trusted; a missing file has nothing to trust
+   */
+  isTrusted(configPath: string): boolean {
+    const hash = this.hash(configPath);
+    return hash === null || this.load()[path.resolve(configPath)] === hash;
+  }
+
+  trust(configPath: string): void {
+    const hash = this.hash(configPath);
+    if (hash === null) return;
+    const store = this.load();
+    store[path.resolve(configPath)] = hash;
+    try {
+      fs.writeFileSync(this.getStorePath(), JSON.stringify(store, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('[ProjectTrust] Failed to save trusted config:', error);
+    }
+  }
+
+  /**
+   * Ask the user whether the project's config may take effect. Resolves true
+   * when the files were trusted.
+   */
+  async confirm(window: BrowserWindow | null, requests: TrustRequest[]): Promise<boolean> {
+    if (requests.length === 0 || !window || window.isDestroyed()) return false;
+    const { response } = await dialog.showMessageBox(window, {
+      type: 'warning',
+      title: 'Trust Project Settings',
+      message: 'This project comes with settings that run programs or skip approvals:',
+      detail: requests.flatMap(request => request.effects).join('\n')
+        + '\n\nOnly trust them if you trust the project. Until then they stay off.',
+      buttons: ['Keep Off', 'Trust'],
+      defaultId: 0,
+      cancelId: 0,
+    });
+    if (response !== 1) return false;
+    requests.forEach(request => this.trust(request.configPath));
+    return true;
+  }
+}
+
+export const projectTrust = new ProjectTrust();
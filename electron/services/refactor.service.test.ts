@@ -0,0 +1,59 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyChangeSet } from './refactor.service';
+import { pathJail } from './path-jail.service';
+
+// Writes to any file named fail.ts fail, as on a full disk
+vi.mock('fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs/promises')>();
+  const writeFile = (async (file: any, ...rest: any[]) => {
+    if (String(file).endsWith('fail.ts')) throw new Error('ENOSPC: no space left on device');
+    return (actual.writeFile as any)(file, ...rest);
+  }) as typeof actual.writeFile;
+  return { ...actual, default: { ...actual, writeFile }, writeFile };
+});
+
+let projectRoot: string;
+
+beforeEach(() => {
+  projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-refactor-')));
+  fs.mkdirSync(path.join(projectRoot, 'src'));
+  fs.writeFileSync(path.join(projectRoot, 'src/a.ts'), 'one\n', 'utf-8');
+  pathJail.setProjectRoot(projectRoot);
+});
+
+afterEach(() => {
+  pathJail.setProjectRoot(null);
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe('applyChangeSet', () => {
+  it('writes every file, creating folders for new ones', async () => {
+    await applyChangeSet([
+      { filePath: 'src/a.ts', original: 'one\n', modified: 'two\n' },
+      { filePath: 'src/moved/b.ts', original: '', modified: 'b\n' },
+    ]);
+    expect(fs.readFileSync(path.join(projectRoot, 'src/a.ts'), 'utf-8')).toBe('two\n');
+    expect(fs.readFileSync(path.join(projectRoot, 'src/moved/b.ts'), 'utf-8')).toBe('b\n');
+  });
+
+  it('refuses files that changed since the change set was computed', async () => {
+    await expect(applyChangeSet([{ filePath: 'src/a.ts', original: 'zero\n', modified: 'two\n' }])).rejects.toThrow('changed since');
+    expect(fs.readFileSync(path.join(projectRoot, 'src/a.ts'), 'utf-8')).toBe('one\n');
+  });
+
+  it('puts files back and removes the folders it created when a write fails', async () => {
+    await expect(applyChangeSet([
+      { filePath: 'src/a.ts', original: 'one\n', modified: 'two\n' },
+      { filePath: 'lib/deep/b.ts', original: '', modified: 'b\n' },
+      { filePath: 'src/new/fail.ts', original: '', modified: 'x\n' },
+    ])).rejects.toThrow('no file was changed');
+
+    expect(fs.readFileSync(path.join(projectRoot, 'src/a.ts'), 'utf-8')).toBe('one\n');
+    expect(fs.existsSync(path.join(projectRoot, 'lib'))).toBe(false);
+    expect(fs.existsSync(path.join(projectRoot, 'src/new'))).toBe(false);
+    expect(fs.readdirSync(path.join(projectRoot, 'src'))).toEqual(['a.ts']);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Refactor Service
+ * Rename symbol and move to file across the project, computed by the file's
+ * symbol provider. A refactoring becomes one change set: the new content of
+ * every file it touches, reviewed as a single pending change and written all
+ * together or not at all. Also the rename_symbol agent tool.
+ */
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathJail } from './path-jail.service';
+import { emitPendingDiff, hasPendingContent } from './file-operations.service';
+import { symbolService, resolvePosition, requireRoot, offsetAt, toolError, FileEdit, TextEdit, SymbolArgs } from './symbols.service';
+
+export interface ChangeSetFile {
+  filePath: string; // Absolute
+  original: string; // Empty for a new file
+  modified: string;
+  isNewFile: boolean;
+}
+
+export interface ChangeSet {
+  title: string;
+  files: ChangeSetFile[];
+  edits: number;
+}
+
+export interface SourceRange {
+  startLine: number; // 1-based, like the editor
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+function relativeTo(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/');
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  // From the end, so earlier offsets stay valid
+  return [...edits].sort((a, b) => b.start - a.start).reduce(
+    (result, edit) => result.slice(0, edit.start) + edit.newText + result.slice(edit.end),
+    text,
+  );
+}
+
+/**
+ * The new content of every file the edits touch. Fails for files outside the
+ * project or in node_modules, and for files with an agent edit still waiting
+ * for approval, since the edits were computed from what is on disk.
+ */
+async function buildChangeSet(root: string, title: string, fileEdits: FileEdit[]): Promise<ChangeSet> {
+  const files: ChangeSetFile[] = [];
+  let edits = 0;
+  for (const fileEdit of fileEdits) {
+    if (fileEdit.edits.length === 0) continue;
+    const relativePath = relativeTo(root, fileEdit.filePath);
+    if (pathJail.check(fileEdit.filePath).violation || relativePath.split('/').includes('node_modules')) {
+      throw new Error(`The refactoring would change ${fileEdit.filePath}, which is outside the project's own files`);
+    }
+    if (hasPendingContent(fileEdit.filePath)) {
+      throw new Error(`${relativePath} has a change waiting for approval; approve or reject it first`);
+    }
+    const current = await readIfExists(fileEdit.filePath);
+    if (fileEdit.isNewFile && current !== null) throw new Error(`${relativePath} already exists`);
+    if (!fileEdit.isNewFile && current === null) throw new Error(`${relativePath} no longer exists`);
+
+    const original = current ?? '';
+    const modified = applyEdits(original, fileEdit.edits);
+    if (modified === original && !fileEdit.isNewFile) continue;
+    files.push({ filePath: fileEdit.filePath, original, modified, isNewFile: !!fileEdit.isNewFile });
+    edits += fileEdit.edits.length;
+  }
+  if (files.length === 0) throw new Error('The refactoring does not change anything');
+  files.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  return { title, files, edits };
+}
+
+/**
+ * Rename the symbol at a position (see resolvePosition) everywhere it is used
+ */
+export async function computeRename(args: SymbolArgs & { new_name?: string }): Promise<ChangeSet> {
+  const root = requireRoot();
+  const newName = typeof args.new_name === 'string' ? args.new_name.trim() : '';
+  if (!newName) throw new Error('new_name is required');
+
+  const position = await resolvePosition(root, args);
+  if (!position.provider.rename) {
+    throw new Error(`Renaming is not available for ${path.extname(position.filePath)} files`);
+  }
+  if (position.symbol === newName) throw new Error(`The symbol is already named ${newName}`);
+  const edits = await position.provider.rename(root, position.filePath, position.offset, newName);
+  return buildChangeSet(root, `Rename ${position.symbol} to ${newName}`, edits);
+}
+
+/**
+ * Move the top-level declarations within `range` of a file to another file,
+ * which is created when it does not exist; imports are updated everywhere
+ */
+export async function computeMove(filePath: string, range: SourceRange, targetPath: string): Promise<ChangeSet> {
+  const root = requireRoot();
+  const source = pathJail.resolve(filePath);
+  const target = pathJail.resolve(targetPath);
+  const provider = symbolService.providerFor(source);
+  if (!provider?.moveToFile) {
+    throw new Error(`Moving code is not available for ${path.extname(source)} files`);
+  }
+  if (!provider.supports(target)) throw new Error(`Cannot move ${path.extname(source)} code into a ${path.extname(target) || 'extensionless'} file`);
+  if (target === source) throw new Error('The target is the file itself');
+
+  const text = await fs.readFile(source, 'utf-8');
+  const start = offsetAt(text, range.startLine, range.startColumn);
+  const end = offsetAt(text, range.endLine, range.endColumn);
+  const edits = await provider.moveToFile(root, source, Math.min(start, end), Math.max(start, end), target);
+  return buildChangeSet(root, `Move to ${relativeTo(root, target)}`, edits);
+}
+
+/**
+ * Write every file of an approved change set, or none: each file must still
+ * have the content the change set was computed from, and when a write fails
+ * the files already written are put back and the folders created for new
+ * files are removed. The paths were checked against the
+ * project when the change set was computed (possibly in an agent worktree).
+ */
+export async function applyChangeSet(files: Array<{ filePath: string; original: string; modified: string }>): Promise<void> {
+  const root = pathJail.getProjectRoot() || '';
+  const previous = new Map<string, string | null>();
+  for (const file of files) {
+    const resolvedPath = pathJail.toAbsolute(file.filePath);
+    const current = await readIfExists(resolvedPath);
+    if ((current ?? '') !== file.original) {
+      throw new Error(`${relativeTo(root, resolvedPath)} changed since the refactoring was computed; run it again`);
+    }
+    previous.set(resolvedPath, current);
+  }
+
+  const written: string[] = [];
+  const createdFolders: string[] = []; // Topmost folder each mkdir created
+  try {
+    for (const file of files) {
+      const resolvedPath = pathJail.toAbsolute(file.filePath);
+      const created = await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+      if (created) createdFolders.push(created);
+      // Before writing, so that a write failing halfway is undone too
+      written.push(resolvedPath);
+      await fs.writeFile(resolvedPath, file.modified, 'utf-8');
+    }
+  } catch (error: any) {
+    for (const resolvedPath of written.reverse()) {
+      const content = previous.get(resolvedPath);
+      await (content === null || content === undefined ? fs.rm(resolvedPath, { force: true }) : fs.writeFile(resolvedPath, content, 'utf-8'))
+        .catch(rollbackError => console.error(`[Refactor] Failed to restore ${resolvedPath}:`, rollbackError));
+    }
+    for (const folder of createdFolders.reverse()) {
+      await fs.rm(folder, { recursive: true, force: true })
+        .catch(rollbackError => console.error(`[Refactor] Failed to remove ${folder}:`, rollbackError));
+    }
+    throw new Error(`${error.message}; no file was changed`);
+  }
+  console.log(`[Refactor] Applied a change set to ${files.length} file(s)`);
+}
+
+/**
+ * rename_symbol: the edits become pending diffs that the user approves
+ * together as one change
+ */
+export async function renameSymbol(args: SymbolArgs & { new_name?: string }, mainWindow?: any): Promise<any> {
+  try {
+    const root = requireRoot();
+    const changeSet = await computeRename(args);
+    for (const file of changeSet.files) {
+      emitPendingDiff(mainWindow, file.filePath, file.original, file.modified, file.isNewFile);
+    }
+    return {
+      status: 'pending',
+      title: changeSet.title,
+      files: changeSet.files.map(file => relativeTo(root, file.filePath)),
+      edits: changeSet.edits,
+      patched_files: changeSet.files.map(file => ({
+        file_path: file.filePath,
+        isNewFile: file.isNewFile,
+        originalContent: file.original,
+        content: file.modified,
+      })),
+      message: 'The edits wait for approval as one change and are applied together',
+    };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
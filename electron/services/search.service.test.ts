@@ -0,0 +1,36 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { searchService } from './search.service';
+
+let root: string;
+
+beforeEach(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-search-')));
+  fs.writeFileSync(path.join(root, 'a.ts'), "import fs from 'fs';\nconst foo = 1;\nexport { foo }\r\nfoo();\n", 'utf-8');
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+async function lines(pattern: string, options: { regex?: boolean; caseSensitive?: boolean } = { regex: true }): Promise<number[]> {
+  const result = await searchService.search(root, { pattern, ...options });
+  return result.matches.map(match => match.line);
+}
+
+describe('searchService.search', () => {
+  it('anchors ^ and $ at the start and end of each line', async () => {
+    expect(await lines('^import')).toEqual([1]);
+    expect(await lines('^foo')).toEqual([4]);
+    expect(await lines('foo }$')).toEqual([3]);
+    expect(await lines('= 1;$')).toEqual([2]);
+  });
+
+  it('matches literal text unless asked for a regex, ignoring case when asked', async () => {
+    expect(await lines('FOO', { caseSensitive: false })).toEqual([2, 3, 4]);
+    expect(await lines('foo()')).toEqual([2, 3, 4]);
+    expect(await lines('foo()', {})).toEqual([4]);
+  });
+});
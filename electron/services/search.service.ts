@@ -0,0 +1,446 @@
+/**
+ * Search Service
+ * Project-wide text search for the search_code tool and the search panel.
+ * Runs ripgrep when an `rg` binary is on PATH and a built-in walker
+ * otherwise; both honour .gitignore files, skip node_modules, .git, binary
+ * and very large files, and report matches in path order so that a search
+ * can be paged with an offset.
+ */
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+export interface SearchQuery {
+  pattern: string;
+  regex?: boolean; // Default: literal text
+  caseSensitive?: boolean; // Default: true
+  wholeWord?: boolean;
+  include?: string[]; // Globs relative to the root; without a slash they match names at any depth
+  exclude?: string[];
+  searchPath?: string; // Absolute file or directory to search; default the root
+  contextLines?: number;
+  maxResults?: number; // Matching lines per page
+  offset?: number; // Matching lines to skip
+}
+
+export interface SearchMatch {
+  file: string; // Relative to the root, with forward slashes
+  line: number;
+  column: number; // Of the first occurrence, 1-based
+  content: string; // The line, cut around the match when it is very long
+  ranges: Array<[number, number]>; // Occurrences as [start, end) offsets into content
+  before?: string[];
+  after?: string[];
+}
+
+export interface SearchResult {
+  engine: 'ripgrep' | 'builtin';
+  matches: SearchMatch[];
+  hasMore: boolean; // Matches past this page exist
+  nextOffset?: number;
+}
+
+export interface ReplaceResult {
+  original: string;
+  modified: string;
+  replacements: number; // Lines changed
+}
+
+export interface SearchStreamOptions {
+  onMatches?: (matches: SearchMatch[]) => void; // Called per file as results come in
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_CONTEXT_LINES = 10;
+const MAX_LINE_LENGTH = 300;
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+const BINARY_SNIFF_BYTES = 8000;
+const ALWAYS_SKIPPED = ['node_modules', '.git'];
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * The query as a global JavaScript regular expression. Throws a SyntaxError
+ * that names the problem for an invalid pattern.
+ */
+function buildRegExp(query: SearchQuery): RegExp {
+  let source = query.regex ? query.pattern : query.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (query.wholeWord) source = `\\b(?:${source})\\b`;
+  // Multiline, so ^ and $ anchor at line ends in the whole-file check as they do per line
+  return new RegExp(source, query.caseSensitive === false ? 'gim' : 'gm');
+}
+
+/**
+ * Keep long lines (minified code) readable by cutting them around the first occurrence
+ */
+function shortenLine(text: string, ranges: Array<[number, number]>): { content: string; ranges: Array<[number, number]> } {
+  if (text.length <= MAX_LINE_LENGTH) return { content: text, ranges };
+  const start = Math.max(0, Math.min((ranges[0]?.[0] ?? 0) - 100, text.length - MAX_LINE_LENGTH));
+  const end = start + MAX_LINE_LENGTH;
+  return {
+    content: text.slice(start, end),
+    ranges: ranges
+      .filter(([from]) => from >= start && from < end)
+      .map(([from, to]) => [from - start, Math.min(to, end) - start] as [number, number]),
+  };
+}
+
+function buildMatch(file: string, line: number, text: string, ranges: Array<[number, number]>): SearchMatch {
+  const shortened = shortenLine(text, ranges);
+  return { file, line, column: (ranges[0]?.[0] ?? 0) + 1, ...shortened };
+}
+
+/**
+ * Collects the requested page of matching lines and tells the caller when to stop
+ */
+class Pager {
+  readonly matches: SearchMatch[] = [];
+  private seen = 0;
+  hasMore = false;
+
+  constructor(private offset: number, private maxResults: number) {}
+
+  /**
+   * @returns the matches that fall into the page
+   */
+  add(fileMatches: SearchMatch[]): SearchMatch[] {
+    const page: SearchMatch[] = [];
+    for (const match of fileMatches) {
+      if (this.seen >= this.offset + this.maxResults) {
+        this.hasMore = true;
+        break;
+      }
+      if (this.seen >= this.offset) page.push(match);
+      this.seen++;
+    }
+    this.matches.push(...page);
+    return page;
+  }
+
+  result(engine: SearchResult['engine']): SearchResult {
+    return {
+      engine,
+      matches: this.matches,
+      hasMore: this.hasMore,
+      ...(this.hasMore && { nextOffset: this.offset + this.matches.length }),
+    };
+  }
+}
+
+class SearchService {
+  private ripgrep: Promise<boolean> | null = null;
+
+  /**
+   * Search the files under `root`. Rejects when the pattern is not a valid
+   * regular expression or the search path does not exist.
+   */
+  async search(root: string, query: SearchQuery, stream: SearchStreamOptions = {}): Promise<SearchResult> {
+    const normalized: SearchQuery = {
+      ...query,
+      contextLines: Math.max(0, Math.min(MAX_CONTEXT_LINES, Math.floor(query.contextLines || 0))),
+      maxResults: Math.max(1, Math.floor(query.maxResults || DEFAULT_MAX_RESULTS)),
+      offset: Math.max(0, Math.floor(query.offset || 0)),
+    };
+    const searchPath = query.searchPath || root;
+    await fs.stat(searchPath);
+
+    if (await this.hasRipgrep()) {
+      const result = await this.searchWithRipgrep(root, searchPath, normalized, stream);
+      if (result) return result;
+    }
+    return this.searchBuiltin(root, searchPath, normalized, stream);
+  }
+
+  /**
+   * Replace the query's matches in one file without writing it. In regex mode
+   * the replacement can refer to groups ($1, $<name>). `lines` limits the
+   * change to those lines; `content` replaces the file's content on disk as
+   * the starting point, e.g. an edit that is still awaiting approval.
+   */
+  async replace(filePath: string, query: SearchQuery, replacement: string, options: { lines?: number[]; content?: string } = {}): Promise<ReplaceResult> {
+    const regexp = buildRegExp(query);
+    const original = options.content ?? await fs.readFile(filePath, 'utf-8');
+    const only = options.lines ? new Set(options.lines) : null;
+    let replacements = 0;
+
+    const lines = original.split('\n').map((line, index) => {
+      if (only && !only.has(index + 1)) return line;
+      const ending = line.endsWith('\r') ? '\r' : '';
+      const text = ending ? line.slice(0, -1) : line;
+      regexp.lastIndex = 0;
+      if (!regexp.test(text)) return line;
+      regexp.lastIndex = 0;
+      replacements++;
+      return (query.regex ? text.replace(regexp, replacement) : text.replace(regexp, () => replacement)) + ending;
+    });
+    return { original, modified: lines.join('\n'), replacements };
+  }
+
+  private hasRipgrep(): Promise<boolean> {
+    if (!this.ripgrep) {
+      this.ripgrep = new Promise(resolve => {
+        const child = spawn('rg', ['--version'], { windowsHide: true, stdio: 'ignore' });
+        child.on('error', () => resolve(false));
+        child.on('close', code => resolve(code === 0));
+      });
+      this.ripgrep.then(available => console.log(`[Search] Using ${available ? 'ripgrep' : 'the built-in search'}`));
+    }
+    return this.ripgrep;
+  }
+
+  /**
+   * @returns null when ripgrep rejected the query (e.g. regex syntax it does not
+   * support) and the built-in search should take over
+   */
+  private searchWithRipgrep(root: string, searchPath: string, query: SearchQuery, stream: SearchStreamOptions): Promise<SearchResult | null> {
+    const args = ['--json', '--no-config', '--sort', 'path', '--hidden', '--no-require-git', '--no-ignore-dot', '--max-filesize', `${MAX_FILE_SIZE}`];
+    if (query.caseSensitive === false) args.push('--ignore-case');
+    if (query.wholeWord) args.push('--word-regexp');
+    if (!query.regex) args.push('--fixed-strings');
+    if (query.contextLines) args.push('--context', String(query.contextLines));
+    for (const glob of query.include || []) args.push('--glob', glob);
+    for (const glob of [...(query.exclude || []), ...ALWAYS_SKIPPED]) args.push('--glob', `!${glob}`);
+    args.push('--regexp', query.pattern, '--', path.relative(root, searchPath) || '.');
+
+    const pager = new Pager(query.offset!, query.maxResults!);
+    return new Promise((resolve, reject) => {
+      const child = spawn('rg', args, { cwd: root, windowsHide: true });
+      let buffer = '';
+      let stderr = '';
+      let file = '';
+      let fileMatches: SearchMatch[] = [];
+      let fileLines = new Map<number, string>();
+      let anyMatch = false;
+      let stopped = false;
+
+      const stop = () => {
+        if (stopped) return;
+        stopped = true;
+        child.kill();
+      };
+      const onAbort = () => stop();
+      stream.signal?.addEventListener('abort', onAbort);
+
+      const finishFile = () => {
+        if (fileMatches.length === 0) return;
+        if (query.contextLines) addContext(fileMatches, fileLines, query.contextLines);
+        const page = pager.add(fileMatches);
+        if (page.length > 0) stream.onMatches?.(page);
+        fileMatches = [];
+        fileLines = new Map();
+        if (pager.hasMore) stop();
+      };
+
+      const handleMessage = (message: any) => {
+        const data = message.data;
+        if (message.type === 'begin') {
+          file = toPosix(data.path.text ?? '').replace(/^\.\//, '');
+        } else if (message.type === 'match' || message.type === 'context') {
+          if (data.lines.text === undefined) return; // Not valid UTF-8
+          const text = data.lines.text.replace(/\r?\n$/, '');
+          fileLines.set(data.line_number, text);
+          if (message.type === 'match') {
+            anyMatch = true;
+            // Offsets are in bytes of the UTF-8 line
+            const bytes = Buffer.from(text);
+            const ranges = data.submatches.map((sub: any) => [
+              bytes.subarray(0, sub.start).toString().length,
+              bytes.subarray(0, sub.end).toString().length,
+            ] as [number, number]);
+            fileMatches.push(buildMatch(file, data.line_number, text, ranges));
+          }
+        } else if (message.type === 'end') {
+          finishFile();
+        }
+      };
+
+      child.stdout.setEncoding('utf-8');
+      child.stdout.on('data', (chunk: string) => {
+        if (stopped) return;
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (stopped || !line) continue;
+          try {
+            handleMessage(JSON.parse(line));
+          } catch {
+            // Ignore a malformed line rather than failing the search
+          }
+        }
+      });
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      child.on('error', error => {
+        stream.signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+      child.on('close', code => {
+        stream.signal?.removeEventListener('abort', onAbort);
+        // Exit code 2 also covers unreadable files, which still leave results behind
+        if (code === 2 && !stopped && !anyMatch) {
+          console.warn('[Search] ripgrep failed, using the built-in search:', stderr.trim().split('\n')[0]);
+          resolve(null);
+          return;
+        }
+        resolve(pager.result('ripgrep'));
+      });
+    });
+  }
+
+  private async searchBuiltin(root: string, searchPath: string, query: SearchQuery, stream: SearchStreamOptions): Promise<SearchResult> {
+    const regexp = buildRegExp(query);
+
+    const pager = new Pager(query.offset!, query.maxResults!);
+    const files = (await fs.stat(searchPath)).isFile()
+      ? [searchPath]
+      : this.walk(root, searchPath, query.include || [], query.exclude || []);
+
+    for await (const filePath of files) {
+      if (stream.signal?.aborted || pager.hasMore) break;
+      const text = await readText(filePath);
+      if (text === null) continue;
+      regexp.lastIndex = 0;
+      if (!regexp.test(text)) continue;
+
+      const fileMatches = matchLines(toPosix(path.relative(root, filePath)), text, regexp, query.contextLines!);
+      const page = pager.add(fileMatches);
+      if (page.length > 0) stream.onMatches?.(page);
+    }
+    return pager.result('builtin');
+  }
+
+  /**
+   * Files under `dir` in ripgrep's path order, with the .gitignore files along
+   * the way applied the way git applies them
+   */
+  private async *walk(root: string, dir: string, include: string[], exclude: string[]): AsyncGenerator<string> {
+    const includes = include.length > 0 ? ignore().add(include) : null;
+    const excludes = ignore().add([...exclude, ...ALWAYS_SKIPPED]);
+    const rules: Array<{ base: string; rules: Ignore }> = [];
+
+    // Rules from directories above the search path still apply
+    const sources = [{ base: root, file: path.join(root, '.git', 'info', 'exclude') }];
+    const parents: string[] = [];
+    for (let current = dir; ; current = path.dirname(current)) {
+      parents.unshift(current);
+      if (current === root || path.dirname(current) === current) break;
+    }
+    sources.push(...parents.map(base => ({ base, file: path.join(base, '.gitignore') })));
+    for (const { base, file } of sources) {
+      const loaded = await loadIgnoreFile(file);
+      if (loaded) rules.push({ base, rules: loaded });
+    }
+
+    const isIgnored = (filePath: string, isDirectory: boolean, levels: typeof rules) => {
+      let ignored = false;
+      for (const level of levels) {
+        const relative = toPosix(path.relative(level.base, filePath)) + (isDirectory ? '/' : '');
+        if (relative.startsWith('..')) continue;
+        const outcome = level.rules.test(relative);
+        if (outcome.ignored) ignored = true;
+        else if (outcome.unignored) ignored = false;
+      }
+      return ignored;
+    };
+
+    async function* visit(current: string, levels: typeof rules): AsyncGenerator<string> {
+      let entries;
+      try {
+        entries = await fs.readdir(current, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      const gitignore = current !== dir ? await loadIgnoreFile(path.join(current, '.gitignore')) : null;
+      const scope = gitignore ? [...levels, { base: current, rules: gitignore }] : levels;
+
+      entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+      for (const entry of entries) {
+        // Symbolic links are not followed, like ripgrep by default
+        if (!entry.isFile() && !entry.isDirectory()) continue;
+        const fullPath = path.join(current, entry.name);
+        const relative = toPosix(path.relative(root, fullPath));
+        const isDirectory = entry.isDirectory();
+        if (excludes.ignores(isDirectory ? `${relative}/` : relative) || isIgnored(fullPath, isDirectory, scope)) continue;
+        if (isDirectory) {
+          yield* visit(fullPath, scope);
+        } else if (!includes || includes.ignores(relative)) {
+          yield fullPath;
+        }
+      }
+    }
+
+    yield* visit(dir, rules);
+  }
+}
+
+async function loadIgnoreFile(filePath: string): Promise<Ignore | null> {
+  try {
+    return ignore().add(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @returns null for binary and oversized files
+ */
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    const stat = await fs.stat(filePath);
+    if (stat.size > MAX_FILE_SIZE) return null;
+    const buffer = await fs.readFile(filePath);
+    if (buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return null;
+    return buffer.toString('utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function matchLines(file: string, text: string, regexp: RegExp, contextLines: number): SearchMatch[] {
+  const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+  if (lines[lines.length - 1] === '') lines.pop();
+  const matches: SearchMatch[] = [];
+  const fileLines = new Map<number, string>();
+
+  lines.forEach((line, index) => {
+    const ranges: Array<[number, number]> = [];
+    regexp.lastIndex = 0;
+    let found: RegExpExecArray | null;
+    while ((found = regexp.exec(line)) !== null) {
+      ranges.push([found.index, found.index + found[0].length]);
+      if (found[0].length === 0) regexp.lastIndex++;
+      if (regexp.lastIndex > line.length) break;
+    }
+    if (ranges.length > 0) matches.push(buildMatch(file, index + 1, line, ranges));
+  });
+
+  if (contextLines > 0 && matches.length > 0) {
+    lines.forEach((line, index) => fileLines.set(index + 1, line));
+    addContext(matches, fileLines, contextLines);
+  }
+  return matches;
+}
+
+function addContext(matches: SearchMatch[], lines: Map<number, string>, contextLines: number) {
+  const shorten = (text: string) => (text.length > MAX_LINE_LENGTH ? text.slice(0, MAX_LINE_LENGTH) : text);
+  for (const match of matches) {
+    const before: string[] = [];
+    const after: string[] = [];
+    for (let line = Math.max(1, match.line - contextLines); line < match.line; line++) {
+      if (lines.has(line)) before.push(shorten(lines.get(line)!));
+    }
+    for (let line = match.line + 1; line <= match.line + contextLines && lines.has(line); line++) {
+      after.push(shorten(lines.get(line)!));
+    }
+    match.before = before;
+    match.after = after;
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,64 @@
+/**
+ * Session Recorder
+ * Captures the chunk stream of a real provider session into a mock fixture
+ * (see mock-provider.service.ts) so it can be replayed offline.
+ * Enabled with CANDYCODE_RECORD_SESSIONS=1; files go to CANDYCODE_RECORDINGS_DIR
+ * or <userData>/recordings.
+ */
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { ChunkData } from './agent-executor.service';
+import { MockFixture } from './mock-provider.service';
+
+export function isSessionRecordingEnabled(): boolean {
+  return process.env.CANDYCODE_RECORD_SESSIONS === '1';
+}
+
+export class SessionRecorder {
+  private chunks: ChunkData[] = [];
+  private provider: string;
+  private prompt: string;
+  private startedAt = new Date();
+
+  constructor(provider: string, prompt: string) {
+    this.provider = provider;
+    this.prompt = prompt;
+  }
+
+  record(chunk: ChunkData) {
+    // Merge streamed text so fixtures stay readable
+    const last = this.chunks[this.chunks.length - 1];
+    if (chunk.type === 'text' && last?.type === 'text') {
+      last.data = (last.data || '') + (chunk.data || '');
+      return;
+    }
+    if (chunk.type === 'command_output' && last?.type === 'command_output'
+      && last.callId === chunk.callId && last.data?.stream === chunk.data?.stream) {
+      last.data = { ...last.data, text: last.data.text + chunk.data.text };
+      return;
+    }
+    this.chunks.push({ ...chunk });
+  }
+
+  /**
+   * Write the fixture and return its path
+   */
+  save(): string {
+    const dir = process.env.CANDYCODE_RECORDINGS_DIR || path.join(app.getPath('userData'), 'recordings');
+    fs.mkdirSync(dir, { recursive: true });
+
+    const stamp = this.startedAt.toISOString().replace(/[:.]/g, '-');
+    const filePath = path.join(dir, `${this.provider}-${stamp}.json`);
+    const fixture: MockFixture & { provider: string; prompt: string; recordedAt: string } = {
+      name: `${this.provider} session ${this.startedAt.toISOString()}`,
+      provider: this.provider,
+      prompt: this.prompt,
+      recordedAt: this.startedAt.toISOString(),
+      chunks: this.chunks,
+    };
+    fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2), 'utf-8');
+    console.log(`[SessionRecorder] Saved ${this.chunks.length} chunks to ${filePath}`);
+    return filePath;
+  }
+}
@@ -338,7 +338,7 @@ ${tree}
 
 ## Instructions
 This is a minimal context view. Use \`read_file\` to examine any file you need.
-Use \`search_code\` to find specific patterns across the codebase.`;
+Use \`search_code\` to find specific patterns across the codebase, and \`find_definition\`/\`find_references\` to navigate TypeScript and JavaScript symbols.`;
   }
 
   private async buildSmartContext(): Promise<string> {
@@ -441,6 +441,8 @@ Use \`search_code\` to find specific patterns across the codebase.`;
 **IMPORTANT**: This is a compressed view showing code signatures and structure.
 - Use \`read_file(path)\` to get full file contents when needed
 - Use \`search_code(pattern)\` to find specific code patterns
+- Use \`find_definition\`, \`find_references\` and \`list_symbols\` to navigate TypeScript and JavaScript code
+- Use \`rename_symbol\` to rename TypeScript and JavaScript symbols instead of editing every file that uses them
 - Config files are shown in full below
 
 ## Project Structure
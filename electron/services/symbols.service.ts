@@ -0,0 +1,409 @@
+/**
+ * Symbols Service
+ * The symbol navigation tools: find_definition, find_references,
+ * list_symbols (a file's outline) and workspace_symbols. Each language is a
+ * SymbolProvider; TypeScript and JavaScript come from the language service in
+ * typescript-symbols.service.ts, and other languages can register their own.
+ *
+ * Results give 1-based lines: line/column for the name itself plus
+ * start_line/end_line covering the whole declaration or statement, ready to
+ * pass to read_file.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathJail, PathJailError } from './path-jail.service';
+import { FileChangeKind } from './typecheck.service';
+import { typescriptSymbolProvider } from './typescript-symbols.service';
+
+export interface SymbolLocation {
+  filePath: string; // Absolute
+  line: number; // Of the name
+  column: number;
+  startLine: number; // Of the whole declaration or statement
+  endLine: number;
+  name?: string;
+  kind?: string;
+  container?: string;
+  isDefinition?: boolean;
+  isWrite?: boolean;
+}
+
+export interface DocumentSymbol {
+  name: string;
+  kind: string;
+  line: number;
+  column: number;
+  startLine: number;
+  endLine: number;
+  children: DocumentSymbol[];
+}
+
+export interface WorkspaceSymbol extends SymbolLocation {
+  name: string;
+  kind: string;
+}
+
+export interface TextEdit {
+  start: number; // Character offsets into the file as it is on disk
+  end: number;
+  newText: string;
+}
+
+export interface FileEdit {
+  filePath: string; // Absolute
+  isNewFile?: boolean;
+  edits: TextEdit[];
+}
+
+export interface SymbolProvider {
+  readonly name: string;
+  supports(filePath: string): boolean;
+  /** `offset` is a character index into the file as it is on disk */
+  findDefinition(root: string, filePath: string, offset: number): Promise<SymbolLocation[]>;
+  findReferences(root: string, filePath: string, offset: number): Promise<SymbolLocation[]>;
+  listSymbols(root: string, filePath: string): Promise<DocumentSymbol[]>;
+  workspaceSymbols(root: string, query: string, limit: number): Promise<WorkspaceSymbol[]>;
+  /** Refactorings are optional; refactor.service.ts reports a provider without them */
+  rename?(root: string, filePath: string, offset: number, newName: string): Promise<FileEdit[]>;
+  moveToFile?(root: string, filePath: string, start: number, end: number, targetPath: string): Promise<FileEdit[]>;
+  /** The project changed; drop everything loaded for the old one */
+  reset(): void;
+  handleFileEvent(filePath: string, kind: FileChangeKind): void;
+}
+
+export interface SymbolArgs {
+  path?: string;
+  file_path?: string;
+  line?: number;
+  column?: number;
+  symbol?: string;
+}
+
+export interface ResolvedPosition {
+  provider: SymbolProvider;
+  filePath: string;
+  offset: number;
+  symbol: string;
+  message?: string;
+}
+
+const MAX_REFERENCES = 200;
+const MAX_OUTLINE_SYMBOLS = 500;
+const DEFAULT_WORKSPACE_RESULTS = 50;
+const MAX_WORKSPACE_RESULTS = 200;
+const MAX_PREVIEW_CHARS = 200;
+
+function relativeTo(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/');
+}
+
+function isInProject(filePath: string): boolean {
+  return !pathJail.check(filePath).violation;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Character offset of a 1-based line and column in `text`
+ */
+export function offsetAt(text: string, line: number, column: number): number {
+  let offset = 0;
+  for (let i = 1; i < line; i++) {
+    const next = text.indexOf('\n', offset);
+    if (next < 0) return text.length;
+    offset = next + 1;
+  }
+  return Math.min(offset + column - 1, text.length);
+}
+
+/**
+ * Index of `symbol` as a whole identifier in `text`, or -1
+ */
+function findIdentifier(text: string, symbol: string, from = 0): number {
+  const match = new RegExp(`(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`, 'g');
+  match.lastIndex = from;
+  return match.exec(text)?.index ?? -1;
+}
+
+class SymbolService {
+  private providers: SymbolProvider[] = [typescriptSymbolProvider];
+
+  register(provider: SymbolProvider) {
+    this.providers = [...this.providers.filter(p => p.name !== provider.name), provider];
+  }
+
+  providerFor(filePath: string): SymbolProvider | undefined {
+    return this.providers.find(provider => provider.supports(filePath));
+  }
+
+  getProviders(): SymbolProvider[] {
+    return this.providers;
+  }
+
+  setProjectRoot(_root: string | null) {
+    for (const provider of this.providers) provider.reset();
+  }
+
+  /**
+   * Forwarded from the project watcher in main.ts
+   */
+  handleFileEvent(filePath: string, kind: FileChangeKind) {
+    for (const provider of this.providers) provider.handleFileEvent(filePath, kind);
+  }
+}
+
+export const symbolService = new SymbolService();
+
+/**
+ * Formats results for the model, reading each file once for the previews
+ */
+class ResultFormatter {
+  private lines = new Map<string, string[]>();
+
+  constructor(private root: string) {}
+
+  preview(filePath: string, line: number): string {
+    if (!this.lines.has(filePath)) {
+      let content = '';
+      try {
+        content = fs.readFileSync(filePath, 'utf-8');
+      } catch {
+        // Deleted since the language service read it
+      }
+      this.lines.set(filePath, content.split('\n'));
+    }
+    const text = (this.lines.get(filePath)![line - 1] || '').trim();
+    return text.length > MAX_PREVIEW_CHARS ? `${text.slice(0, MAX_PREVIEW_CHARS)}...` : text;
+  }
+
+  location(location: SymbolLocation) {
+    return {
+      path: relativeTo(this.root, location.filePath),
+      line: location.line,
+      column: location.column,
+      start_line: location.startLine,
+      end_line: location.endLine,
+      ...(location.name && { name: location.name }),
+      ...(location.kind && { kind: location.kind }),
+      ...(location.container && { container: location.container }),
+      preview: this.preview(location.filePath, location.line),
+    };
+  }
+
+  outline(symbols: DocumentSymbol[], budget: { left: number }): any[] {
+    const result: any[] = [];
+    for (const symbol of symbols) {
+      if (budget.left <= 0) break;
+      budget.left--;
+      result.push({
+        name: symbol.name,
+        kind: symbol.kind,
+        line: symbol.line,
+        start_line: symbol.startLine,
+        end_line: symbol.endLine,
+        ...(symbol.children.length > 0 && { children: this.outline(symbol.children, budget) }),
+      });
+    }
+    return result;
+  }
+}
+
+function countSymbols(symbols: DocumentSymbol[]): number {
+  return symbols.reduce((count, symbol) => count + 1 + countSymbols(symbol.children), 0);
+}
+
+export function requireRoot(): string {
+  const root = pathJail.getProjectRoot();
+  if (!root) throw new Error('No project folder is open');
+  return root;
+}
+
+function requireProvider(filePath: string): SymbolProvider {
+  const provider = symbolService.providerFor(filePath);
+  if (!provider) {
+    throw new Error(`Symbol navigation is not available for ${path.extname(filePath) || path.basename(filePath)} files; use search_code instead`);
+  }
+  return provider;
+}
+
+/**
+ * Exact-name matches of `symbol` across the project, from every provider
+ */
+async function findDeclarations(root: string, symbol: string): Promise<WorkspaceSymbol[]> {
+  const declarations: WorkspaceSymbol[] = [];
+  for (const provider of symbolService.getProviders()) {
+    const found = await provider.workspaceSymbols(root, symbol, MAX_WORKSPACE_RESULTS);
+    declarations.push(...found.filter(item => item.name === symbol));
+  }
+  return declarations;
+}
+
+/**
+ * The position the model means: a line plus a column or the symbol's name on
+ * it, the first occurrence of the name in the file, or, with only a name, its
+ * declaration somewhere in the project
+ */
+export async function resolvePosition(root: string, args: SymbolArgs): Promise<ResolvedPosition> {
+  const symbol = typeof args.symbol === 'string' ? args.symbol.trim() : '';
+  const filePathArg = args.path || args.file_path;
+
+  if (!filePathArg) {
+    if (!symbol) throw new Error('Give path and line, or the symbol name');
+    const declarations = await findDeclarations(root, symbol);
+    if (declarations.length === 0) throw new Error(`No declaration named "${symbol}" was found; give path and line instead`);
+    const [first] = declarations;
+    return {
+      provider: requireProvider(first.filePath),
+      filePath: first.filePath,
+      offset: offsetAt(fs.readFileSync(first.filePath, 'utf-8'), first.line, first.column),
+      symbol,
+      ...(declarations.length > 1 && {
+        message: `${declarations.length} declarations are named "${symbol}"; using the one in ${relativeTo(root, first.filePath)}:${first.line}. Give path and line to pick another.`,
+      }),
+    };
+  }
+
+  const filePath = pathJail.resolve(filePathArg);
+  const provider = requireProvider(filePath);
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const lines = text.split('\n');
+
+  if (!args.line) {
+    if (!symbol) throw new Error('Give line (with column or symbol), or the symbol name');
+    const index = findIdentifier(text, symbol);
+    if (index < 0) throw new Error(`"${symbol}" does not occur in ${filePathArg}`);
+    return { provider, filePath, offset: index, symbol };
+  }
+
+  if (args.line < 1 || args.line > lines.length) {
+    throw new Error(`Line ${args.line} is out of range; ${filePathArg} has ${lines.length} lines`);
+  }
+  const lineText = lines[args.line - 1];
+  let column: number;
+  if (symbol) {
+    const index = findIdentifier(lineText, symbol, args.column ? args.column - 1 : 0);
+    if (index < 0) throw new Error(`"${symbol}" is not on line ${args.line} of ${filePathArg}: ${lineText.trim()}`);
+    column = index;
+  } else if (args.column) {
+    column = Math.min(args.column - 1, lineText.length);
+  } else {
+    throw new Error('Give column or symbol together with line');
+  }
+  const name = lineText.slice(column).match(/^[\w$]+/)?.[0] || symbol;
+  return { provider, filePath, offset: offsetAt(text, args.line, column + 1), symbol: name };
+}
+
+export function toolError(error: any) {
+  return { error: error.message || String(error), ...(error instanceof PathJailError && { code: error.code }) };
+}
+
+/**
+ * find_definition: where the symbol at a position, or with a name, is declared
+ */
+export async function findDefinition(args: SymbolArgs): Promise<any> {
+  try {
+    const root = requireRoot();
+    const format = new ResultFormatter(root);
+    if (!args.path && !args.file_path && args.symbol) {
+      const declarations = await findDeclarations(root, args.symbol.trim());
+      if (declarations.length === 0) return { symbol: args.symbol, definitions: [], message: `No declaration named "${args.symbol}" was found` };
+      return { symbol: args.symbol, definitions: declarations.map(d => format.location(d)) };
+    }
+
+    const position = await resolvePosition(root, args);
+    const definitions = await position.provider.findDefinition(root, position.filePath, position.offset);
+    const inside = definitions.filter(d => isInProject(d.filePath));
+    const outside = definitions.filter(d => !isInProject(d.filePath));
+    return {
+      symbol: position.symbol,
+      definitions: inside.map(d => format.location(d)),
+      ...(definitions.length === 0 && { message: 'No definition found at that position' }),
+      ...(outside.length > 0 && { message: `Also defined outside the project: ${outside.map(d => path.basename(d.filePath)).join(', ')}` }),
+    };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+/**
+ * find_references: every use of the symbol across the project, capped
+ */
+export async function findReferences(args: SymbolArgs & { include_declaration?: boolean }): Promise<any> {
+  try {
+    const root = requireRoot();
+    const format = new ResultFormatter(root);
+    const position = await resolvePosition(root, args);
+    const references = (await position.provider.findReferences(root, position.filePath, position.offset))
+      .filter(reference => isInProject(reference.filePath) && !reference.filePath.split(/[\\/]/).includes('node_modules'))
+      .filter(reference => args.include_declaration !== false || !reference.isDefinition)
+      .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line || a.column - b.column);
+
+    return {
+      symbol: position.symbol,
+      total: references.length,
+      files: new Set(references.map(reference => reference.filePath)).size,
+      references: references.slice(0, MAX_REFERENCES).map(reference => ({
+        path: relativeTo(root, reference.filePath),
+        line: reference.line,
+        column: reference.column,
+        ...(reference.isDefinition && { is_definition: true }),
+        ...(reference.isWrite && !reference.isDefinition && { is_write: true }),
+        preview: format.preview(reference.filePath, reference.line),
+      })),
+      ...(references.length > MAX_REFERENCES && { omitted: references.length - MAX_REFERENCES }),
+      ...(position.message && { message: position.message }),
+    };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+/**
+ * list_symbols: the outline of one file
+ */
+export async function listSymbols(args: { path?: string; file_path?: string }): Promise<any> {
+  try {
+    const root = requireRoot();
+    const filePathArg = args.path || args.file_path;
+    if (!filePathArg) return { error: 'path is required' };
+    const filePath = pathJail.resolve(filePathArg);
+    if (!fs.existsSync(filePath)) return { error: `File not found: ${filePathArg}` };
+    const symbols = await requireProvider(filePath).listSymbols(root, filePath);
+    const total = countSymbols(symbols);
+    return {
+      path: relativeTo(root, filePath),
+      symbols: new ResultFormatter(root).outline(symbols, { left: MAX_OUTLINE_SYMBOLS }),
+      ...(total > MAX_OUTLINE_SYMBOLS && { omitted: total - MAX_OUTLINE_SYMBOLS }),
+    };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+/**
+ * workspace_symbols: declarations across the project whose names match a
+ * query, exact names first
+ */
+export async function workspaceSymbols(args: { query?: string; max_results?: number }): Promise<any> {
+  try {
+    const root = requireRoot();
+    const query = typeof args.query === 'string' ? args.query.trim() : '';
+    if (!query) return { error: 'query is required' };
+    const limit = Math.min(Math.max(1, args.max_results || DEFAULT_WORKSPACE_RESULTS), MAX_WORKSPACE_RESULTS);
+    const format = new ResultFormatter(root);
+
+    const symbols: WorkspaceSymbol[] = [];
+    for (const provider of symbolService.getProviders()) {
+      symbols.push(...await provider.workspaceSymbols(root, query, limit + 1));
+    }
+    return {
+      query,
+      symbols: symbols.slice(0, limit).map(symbol => format.location(symbol)),
+      ...(symbols.length > limit && { has_more: true }),
+    };
+  } catch (error: any) {
+    return toolError(error);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Tool Approval Service
+ * Asks the user to approve a single tool call before it runs.
+ * Sends 'tool-approval:request' to the renderer and resolves when the
+ * ToolApprovalDialog answers through 'tool-approval:respond'.
+ */
+import { BrowserWindow } from 'electron';
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface ToolApprovalRequest {
+  source: string; // Where the tool comes from, e.g. 'mcp:github'
+  toolName: string;
+  description?: string;
+  args: Record<string, any>;
+}
+
+const APPROVAL_TIMEOUT_MS = 300000;
+
+class ToolApprovalService {
+  private mainWindow: BrowserWindow | null = null;
+  private nextId = 1;
+  private pending: Map<string, { resolve: (approved: boolean) => void; timer: NodeJS.Timeout; sessionId?: string }> = new Map();
+  private session = new AsyncLocalStorage<string>();
+
+  setMainWindow(window: BrowserWindow) {
+    this.mainWindow = window;
+  }
+
+  /**
+   * Run `fn` with the requests it makes tagged with the chat session, so cancelling
+   * that session leaves the other sessions' requests open
+   */
+  runInSession<T>(sessionId: string, fn: () => T): T {
+    return this.session.run(sessionId, fn);
+  }
+
+  /**
+   * Ask the user about a tool call. Resolves false on reject, timeout or cancel.
+   */
+  request(request: ToolApprovalRequest): Promise<boolean> {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) {
+      console.warn(`[ToolApproval] No window to ask about ${request.toolName}, rejecting`);
+      return Promise.resolve(false);
+    }
+
+    const id = `approval_${Date.now()}_${this.nextId++}`;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.respond(id, false), APPROVAL_TIMEOUT_MS);
+      this.pending.set(id, { resolve, timer, sessionId: this.session.getStore() });
+      this.mainWindow!.webContents.send('tool-approval:request', { id, ...request });
+    });
+  }
+
+  respond(id: string, approved: boolean) {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.pending.delete(id);
+    pending.resolve(approved);
+    this.mainWindow?.webContents.send('tool-approval:resolved', { id, approved });
+  }
+
+  /**
+   * Reject every open request, or only the session's (used when a run is cancelled)
+   */
+  cancelAll(sessionId?: string) {
+    for (const [id, pending] of Array.from(this.pending.entries())) {
+      if (!sessionId || pending.sessionId === sessionId) this.respond(id, false);
+    }
+  }
+}
+
+export const toolApprovalService = new ToolApprovalService();
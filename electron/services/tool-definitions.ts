@@ -32,18 +32,44 @@ export const TOOL_DEFINITIONS = [
       },
       {
         name: "write_file",
-        description: "Write content to a file. For small files, write complete content in one call. For large files (>10K chars), use chunked writes: call multiple times with finalize=false, then once with finalize=true for the last chunk.",
+        description: "Write content to a file. Use this to CREATE new files or fully rewrite small ones. To change part of an existing file, prefer edit_file or apply_patch instead of rewriting it. For small files, write complete content in one call. For large files (>10K chars), use chunked writes: call multiple times with finalize=false, then once with finalize=true for the last chunk.",
         parameters: {
           type: "object",
           properties: {
             path: { type: "string", description: "File path to write" },
             content: { type: "string", description: "File content (or chunk for large files)" },
-            mode: { type: "string", description: "Write mode: 'overwrite' (default) or 'append' to append to existing file" },
-            finalize: { type: "boolean", description: "If false, accumulate chunks. Set true on last chunk to write file. Default: true" }
+            mode: { type: "string", description: "Write mode: 'overwrite' (default) or 'append' to append to the file's current content on disk. For chunked writes, the mode of the first chunk applies." },
+            finalize: { type: "boolean", description: "If false, the chunk is buffered and nothing is proposed yet. Set true on the last chunk to propose the complete file as one pending diff. Default: true" }
           },
           required: ["path", "content"]
         }
       },
+      {
+        name: "edit_file",
+        description: "Edit an existing file by replacing an exact string. old_string must match the file content exactly (including whitespace and indentation) and must be unique unless replace_all is true. Include enough surrounding lines to make it unique. Creates a pending diff for approval. Much cheaper than rewriting the file with write_file.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string", description: "File path to edit" },
+            old_string: { type: "string", description: "Exact text to replace" },
+            new_string: { type: "string", description: "Replacement text" },
+            replace_all: { type: "boolean", description: "Optional: Replace every occurrence of old_string. Default: false" }
+          },
+          required: ["path", "old_string", "new_string"]
+        }
+      },
+      {
+        name: "apply_patch",
+        description: "Apply a unified diff (as produced by `diff -u` or `git diff`) to one or more files. Use for multiple scattered changes in one call. Context lines must match the current file content. Each changed file becomes a pending diff for approval.",
+        parameters: {
+          type: "object",
+          properties: {
+            patch: { type: "string", description: "Unified diff with ---/+++ file headers and @@ hunk headers" },
+            path: { type: "string", description: "Optional: Target file for a single-file patch without ---/+++ headers" }
+          },
+          required: ["patch"]
+        }
+      },
       {
         name: "list_files",
         description: "List files and directories in a path",
@@ -57,18 +83,26 @@ export const TOOL_DEFINITIONS = [
       },
       {
         name: "search_code",
-        description: "Search for a pattern in the codebase",
+        description: "Search file contents across the project. Honours .gitignore and skips node_modules, .git and binary files. Returns one entry per matching line, in file path order; when has_more is true, call again with next_offset as offset for the next page.",
         parameters: {
           type: "object",
           properties: {
-            pattern: { type: "string", description: "Search pattern" }
+            pattern: { type: "string", description: "Text to search for, or a regular expression when regex is true" },
+            regex: { type: "boolean", description: "Optional: Treat pattern as a regular expression. Default: false (literal text)" },
+            case_sensitive: { type: "boolean", description: "Optional: Match case exactly. Default: true" },
+            include: { type: "array", items: { type: "string" }, description: "Optional: Only search files matching these globs, relative to the project root, e.g. [\"*.ts\", \"src/**\"]. A glob without a slash matches file names at any depth" },
+            exclude: { type: "array", items: { type: "string" }, description: "Optional: Skip files and directories matching these globs, e.g. [\"*.test.ts\", \"dist\"]" },
+            path: { type: "string", description: "Optional: Directory or file to search in (default: the project root)" },
+            context_lines: { type: "number", description: "Optional: Lines of context to include before and after each match (0-10). Default: 0" },
+            max_results: { type: "number", description: "Optional: Matching lines per page (max 200). Default: 50" },
+            offset: { type: "number", description: "Optional: Matching lines to skip, from next_offset of the previous page. Default: 0" }
           },
           required: ["pattern"]
         }
       },
       {
         name: "execute_command",
-        description: "Execute a shell command. Safe commands run automatically. Elevated commands need approval. Package installs run interactively for password entry.",
+        description: "Execute a shell command in the project root. Read-only, project-local and network commands run automatically; destructive or privileged ones (deleting files, discarding git changes, sudo) need user approval. Catastrophic commands are always refused.",
         parameters: {
           type: "object",
           properties: {
@@ -78,6 +112,17 @@ export const TOOL_DEFINITIONS = [
           required: ["command"]
         }
       },
+      {
+        name: "run_tests",
+        description: "Run the project's test suite and return the output.",
+        parameters: {
+          type: "object",
+          properties: {
+            framework: { type: "string", description: "Optional: 'pytest', 'cargo' or 'go'. Defaults to npm test" }
+          },
+          required: []
+        }
+      },
       {
         name: "create_plan",
         description: "Create or update a task plan/to-do list. Use at start of complex tasks AND mid-task when you discover additional work needed. Supports dynamic task management with add/update/skip capabilities.",
@@ -128,7 +173,302 @@ export const TOOL_DEFINITIONS = [
           },
           required: ["query"]
         }
+      },
+      {
+        name: "start_process",
+        description: "Start a long-running command (dev server, file watcher, local database) in the background and return its early output. Use this instead of execute_command for anything that does not exit on its own. The process keeps running across turns until stop_process.",
+        parameters: {
+          type: "object",
+          properties: {
+            command: { type: "string", description: "Shell command to run in the project root, e.g. 'npm run dev'" },
+            name: { type: "string", description: "Optional: Short label shown in the Processes panel" },
+            wait_for: { type: "string", description: "Optional: Text or regex that signals the process is ready (e.g. 'Local:|ready in'). Returns as soon as it appears." },
+            timeout_seconds: { type: "number", description: "Optional: How long to wait for startup output (default 5, max 120)" }
+          },
+          required: ["command"]
+        }
+      },
+      {
+        name: "read_process_output",
+        description: "Read the output a background process produced since the last read, plus its status and exit code.",
+        parameters: {
+          type: "object",
+          properties: {
+            process_id: { type: "string", description: "ID returned by start_process (e.g. 'proc_1')" },
+            all: { type: "boolean", description: "Optional: Return all buffered output instead of only new output" },
+            wait_seconds: { type: "number", description: "Optional: Wait up to this long for new output (max 120)" }
+          },
+          required: ["process_id"]
+        }
+      },
+      {
+        name: "send_process_input",
+        description: "Type input into a running background process, e.g. answer a prompt or press a dev-server shortcut. Lines sent to a shell or REPL are checked like execute_command and may need the user's approval.",
+        parameters: {
+          type: "object",
+          properties: {
+            process_id: { type: "string", description: "ID returned by start_process" },
+            input: { type: "string", description: "Text to send" },
+            press_enter: { type: "boolean", description: "Optional: Press Enter after the input (default true)" }
+          },
+          required: ["process_id", "input"]
+        }
+      },
+      {
+        name: "stop_process",
+        description: "Stop a background process and everything it started. Returns its final output.",
+        parameters: {
+          type: "object",
+          properties: {
+            process_id: { type: "string", description: "ID returned by start_process" }
+          },
+          required: ["process_id"]
+        }
+      },
+      {
+        name: "git_status",
+        description: "Show the current branch, upstream ahead/behind counts and the staged, unstaged, untracked and conflicted files. Use this instead of running 'git status'.",
+        parameters: {
+          type: "object",
+          properties: {}
+        }
+      },
+      {
+        name: "git_diff",
+        description: "Show changes as per-file line counts plus a unified diff. By default shows unstaged changes; set staged for the staged changes, or ref to compare the working tree against a commit/branch (or 'a..b' for a range). Untracked files are not included.",
+        parameters: {
+          type: "object",
+          properties: {
+            staged: { type: "boolean", description: "Optional: Show staged changes instead of unstaged ones" },
+            ref: { type: "string", description: "Optional: Commit, branch or range to diff against (e.g. 'main', 'HEAD~3', 'main..feature')" },
+            path: { type: "string", description: "Optional: Limit the diff to a file or directory" },
+            context_lines: { type: "number", description: "Optional: Lines of context around changes (default 3)" }
+          }
+        }
+      },
+      {
+        name: "git_log",
+        description: "List commits (hash, author, date, subject, body), newest first.",
+        parameters: {
+          type: "object",
+          properties: {
+            max_count: { type: "number", description: "Optional: Number of commits (default 20, max 100)" },
+            ref: { type: "string", description: "Optional: Branch, commit or range to list (default HEAD)" },
+            path: { type: "string", description: "Optional: Only commits touching this file or directory" },
+            author: { type: "string", description: "Optional: Filter by author name or email" },
+            since: { type: "string", description: "Optional: Only commits after this date (e.g. '2 weeks ago', '2024-01-01')" },
+            grep: { type: "string", description: "Optional: Only commits whose message matches this pattern" }
+          }
+        }
+      },
+      {
+        name: "git_blame",
+        description: "Show which commit last changed each line of a file, with author, date and summary per commit.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string", description: "File to blame" },
+            start_line: { type: "number", description: "Optional: First line (1-indexed)" },
+            end_line: { type: "number", description: "Optional: Last line (1-indexed)" }
+          },
+          required: ["path"]
+        }
+      },
+      {
+        name: "git_show",
+        description: "Show a commit's metadata, changed files and patch; or, with path, the contents of that file at the given commit.",
+        parameters: {
+          type: "object",
+          properties: {
+            ref: { type: "string", description: "Optional: Commit, branch or tag (default HEAD)" },
+            path: { type: "string", description: "Optional: Return this file's contents at ref instead of the commit" }
+          }
+        }
+      },
+      {
+        name: "git_commit",
+        description: "Create a commit. Stages the given files (or all changes with all: true) first, otherwise commits what is already staged. Requires user approval.",
+        parameters: {
+          type: "object",
+          properties: {
+            message: { type: "string", description: "Commit message: a short summary line, optionally followed by a blank line and details" },
+            files: { type: "array", items: { type: "string" }, description: "Optional: Files to stage before committing" },
+            all: { type: "boolean", description: "Optional: Stage all changes, including untracked files" }
+          },
+          required: ["message"]
+        }
+      },
+      {
+        name: "git_checkout",
+        description: "Switch to a branch or commit, or create a new branch with create: true. Fails instead of overwriting uncommitted changes. Requires user approval.",
+        parameters: {
+          type: "object",
+          properties: {
+            ref: { type: "string", description: "Branch or commit to switch to, or the new branch name with create" },
+            create: { type: "boolean", description: "Optional: Create ref as a new branch" },
+            start_point: { type: "string", description: "Optional: Commit or branch the new branch starts from (default HEAD)" }
+          },
+          required: ["ref"]
+        }
+      },
+      {
+        name: "get_diagnostics",
+        description: "Get ESLint and TypeScript compiler errors and warnings, using the project's own configs. Call it on the files you changed before task_complete, and fix the errors it reports. Without paths it checks the whole project, which is slower.",
+        parameters: {
+          type: "object",
+          properties: {
+            paths: { type: "array", items: { type: "string" }, description: "Optional: Files to check (default: the whole project)" },
+            sources: { type: "array", items: { type: "string", enum: ["eslint", "typescript"] }, description: "Optional: Only these checkers (default both)" },
+            include_warnings: { type: "boolean", description: "Optional: Include warnings as well as errors. Default: true" }
+          }
+        }
+      },
+      {
+        name: "find_definition",
+        description: "Go to the definition of a symbol, using the language service (TypeScript and JavaScript). Give path and line plus the symbol's name on that line (or its column), or just symbol to look up a declaration by name. Each result has line/column of the name and start_line/end_line of the whole declaration, to pass to read_file. Prefer this over search_code for finding where something is defined.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string", description: "Optional: File in which the symbol is used" },
+            line: { type: "number", description: "Optional: Line of the usage (1-indexed)" },
+            column: { type: "number", description: "Optional: Column of the symbol on the line (1-indexed); not needed with symbol" },
+            symbol: { type: "string", description: "Optional: Name of the symbol, e.g. \"handleSubmit\". Alone, finds the declarations with exactly this name" }
+          }
+        }
+      },
+      {
+        name: "find_references",
+        description: "Find every reference to a symbol across the project, using the language service (TypeScript and JavaScript). Unlike search_code it skips same-named but unrelated identifiers, strings and comments. Identify the symbol like find_definition does.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string", description: "Optional: File in which the symbol is used or declared" },
+            line: { type: "number", description: "Optional: Line of the symbol (1-indexed)" },
+            column: { type: "number", description: "Optional: Column of the symbol on the line (1-indexed); not needed with symbol" },
+            symbol: { type: "string", description: "Optional: Name of the symbol. Alone, uses the declaration with exactly this name" },
+            include_declaration: { type: "boolean", description: "Optional: Include the declaration itself. Default: true" }
+          }
+        }
+      },
+      {
+        name: "list_symbols",
+        description: "Outline of a TypeScript or JavaScript file: its classes, functions, methods, interfaces, variables and so on, nested, with start_line/end_line for each. Cheaper than reading the whole file to find the part you need.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string", description: "File to outline" }
+          },
+          required: ["path"]
+        }
+      },
+      {
+        name: "workspace_symbols",
+        description: "Search declarations across the project by name (exact, prefix, camelCase or substring matches, best first), e.g. \"UserService\" or \"parseConf\". Returns where each is declared, with start_line/end_line.",
+        parameters: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Name or part of a name to search for" },
+            max_results: { type: "number", description: "Optional: Maximum results (max 200). Default: 50" }
+          },
+          required: ["query"]
+        }
+      },
+      {
+        name: "rename_symbol",
+        description: "Rename a variable, function, class, property or other symbol in every file that uses it, using the language service (TypeScript and JavaScript). Identify the symbol like find_definition does. Imports, re-exports and shorthand properties are updated too. The edits wait for the user's approval as one change and are applied together. Prefer this over editing each file by hand.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string", description: "Optional: File in which the symbol is used or declared" },
+            line: { type: "number", description: "Optional: Line of the symbol (1-indexed)" },
+            column: { type: "number", description: "Optional: Column of the symbol on the line (1-indexed); not needed with symbol" },
+            symbol: { type: "string", description: "Current name of the symbol. Alone, renames the declaration with exactly this name" },
+            new_name: { type: "string", description: "New name" }
+          },
+          required: ["new_name"]
+        }
+      },
+      {
+        name: "submit_review",
+        description: "Finish a code review by submitting its findings. Only available in review mode; call it exactly once.",
+        parameters: {
+          type: "object",
+          properties: {
+            summary: { type: "string", description: "Overall assessment of the changes in one or two sentences" },
+            comments: {
+              type: "array",
+              description: "One entry per finding, anchored to lines of the current version of the file. Empty when there is nothing to report.",
+              items: {
+                type: "object",
+                properties: {
+                  path: { type: "string", description: "File the finding is about, relative to the project root" },
+                  start_line: { type: "number", description: "First line of the finding in the current file" },
+                  end_line: { type: "number", description: "Optional: Last line of the finding (default start_line)" },
+                  severity: { type: "string", enum: ["critical", "warning", "suggestion", "nitpick"], description: "How much the finding matters" },
+                  message: { type: "string", description: "What is wrong and why" },
+                  suggestion: { type: "string", description: "Optional: Exact replacement for lines start_line to end_line that fixes the finding" }
+                },
+                required: ["path", "start_line", "severity", "message"]
+              }
+            }
+          },
+          required: ["summary", "comments"]
+        }
       }
     ]
   }
 ];
+
+/**
+ * One line per tool for the AVAILABLE FUNCTIONS section of system prompts,
+ * generated from the declarations so prompts never drift from the real tool set
+ */
+export function describeTools(declarations: any[] = TOOL_DEFINITIONS[0].functionDeclarations): string {
+  return declarations.map((declaration) => {
+    const properties = Object.keys(declaration.parameters?.properties || {});
+    const required: string[] = declaration.parameters?.required || [];
+    const params = properties.map(p => required.includes(p) ? p : `${p}?`).join(', ');
+    const summary = (declaration.description || '').split(/(?<=\.)\s/)[0];
+    return `- ${declaration.name}(${params}): ${summary}`;
+  }).join('\n');
+}
+
+/**
+ * Prompt-based tool calling for models without native function calling support
+ */
+export const FALLBACK_TOOL_INSTRUCTION = `
+IMPORTANT: Your current model does NOT support native tool calling. 
+To call a function, you MUST use the following EXACT format on a new line:
+TOOL_CALL: function_name({"arg1": "value1", "arg2": "value2"})
+
+Example:
+TOOL_CALL: write_file({"path": "hello.txt", "content": "Hello World"})
+`;
+
+/**
+ * Look for manual tool calls in text like TOOL_CALL: function_name({"arg": "val"})
+ */
+export function parseManualToolCalls(text: string): Array<{ id: string; name: string; args: Record<string, any> }> {
+  const toolCalls: Array<{ id: string; name: string; args: Record<string, any> }> = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/TOOL_CALL:\s*(\w+)\s*\((.*)\)/);
+    if (!match) continue;
+    try {
+      toolCalls.push({
+        id: `manual_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+        name: match[1],
+        args: JSON.parse(match[2]),
+      });
+    } catch (e) {
+      console.warn(`[ToolDefinitions] Ignoring malformed tool call: ${line}`);
+    }
+  }
+  return toolCalls;
+}
+
+/**
+ * Tool results sent back as plain text for prompt-based tool calling
+ */
+export function formatManualToolResults(results: Array<{ name: string; response: any }>): string {
+  return results.map(result => `TOOL_RESULT ${result.name}: ${JSON.stringify(result.response)}`).join('\n');
+}
@@ -0,0 +1,278 @@
+/**
+ * Type Check Service
+ * TypeScript compiler diagnostics for the project, checked with its own
+ * tsconfig.json and its own TypeScript (the app's copy when it has none), so
+ * the results match what `tsc --noEmit` reports in the project.
+ *
+ * Watch mode keeps incremental programs for the Problems panel. TypeScript's
+ * own file watching is replaced by the project watcher in main.ts, which
+ * forwards its events through notifyFileChange.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as TS from 'typescript';
+
+export interface TypeDiagnostic {
+  filePath: string; // Absolute; empty for diagnostics not tied to a file
+  line: number;
+  column: number;
+  severity: 'error' | 'warning' | 'info';
+  code: string;
+  message: string;
+}
+
+export interface TypeCheckResult {
+  diagnostics: TypeDiagnostic[];
+  configs: string[]; // tsconfig files that were checked
+  notes: string[];
+}
+
+export type FileChangeKind = 'created' | 'changed' | 'deleted';
+
+interface DirectoryWatch {
+  callback: TS.DirectoryWatcherCallback;
+  recursive: boolean;
+}
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+class TypeCheckService {
+  private typescript = new Map<string, typeof TS>();
+
+  // Watch mode
+  private watchPrograms: Array<TS.WatchOfConfigFile<TS.SemanticDiagnosticsBuilderProgram>> = [];
+  private fileWatches = new Map<string, Set<TS.FileWatcherCallback>>();
+  private directoryWatches = new Map<string, Set<DirectoryWatch>>();
+  private watchDiagnostics = new Map<string, TypeDiagnostic[]>(); // tsconfig -> latest diagnostics
+  private watchGeneration = 0;
+
+  /**
+   * The project's TypeScript, falling back to the one the app ships with
+   */
+  async loadTypeScript(root: string): Promise<typeof TS> {
+    const cached = this.typescript.get(root);
+    if (cached) return cached;
+    let modulePath: string;
+    try {
+      modulePath = require.resolve('typescript', { paths: [root, __dirname] });
+    } catch {
+      throw new Error('TypeScript is not available: install it in the project (npm install -D typescript)');
+    }
+    const ts: typeof TS = await import(modulePath);
+    this.typescript.set(root, ts);
+    return ts;
+  }
+
+  /**
+   * Type-check the project, or only the given files. Files are checked in the
+   * program of their nearest tsconfig.json inside the project.
+   */
+  async check(root: string, files?: string[]): Promise<TypeCheckResult> {
+    const ts = await this.loadTypeScript(root);
+    const result: TypeCheckResult = { diagnostics: [], configs: [], notes: [] };
+
+    // tsconfig -> files to check in it, or null for all of them
+    const targets = new Map<string, string[] | null>();
+    if (files) {
+      for (const file of files.filter(f => TS_EXTENSIONS.includes(path.extname(f).toLowerCase()))) {
+        const configPath = ts.findConfigFile(path.dirname(file), ts.sys.fileExists);
+        if (!configPath || !isInside(root, configPath)) {
+          result.notes.push(`${path.relative(root, file)} is not covered by a tsconfig.json in the project`);
+          continue;
+        }
+        targets.set(configPath, [...(targets.get(configPath) || []), file]);
+      }
+    } else {
+      const configPath = path.join(root, 'tsconfig.json');
+      if (!fs.existsSync(configPath)) {
+        result.notes.push('The project has no tsconfig.json');
+        return result;
+      }
+      targets.set(configPath, null);
+    }
+
+    const covered = new Set<string>();
+    for (const [configPath, configFiles] of targets) {
+      this.checkConfig(ts, configPath, configFiles, result, new Set(), covered);
+    }
+    for (const configFiles of targets.values()) {
+      // JavaScript files are only part of the program with allowJs, so only TypeScript ones are worth a note
+      for (const file of (configFiles || []).filter(f => !covered.has(f) && /\.[cm]?tsx?$/i.test(f))) {
+        result.notes.push(`${path.relative(root, file)} is not included by its tsconfig.json`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Keep the project type-checked: onUpdate gets every diagnostic of the
+   * project's tsconfig.json (or the projects it references) after the first
+   * check and after each rebuild caused by a file change
+   */
+  async watch(root: string, onUpdate: (result: TypeCheckResult) => void): Promise<void> {
+    this.unwatch();
+    const generation = this.watchGeneration;
+    const ts = await this.loadTypeScript(root);
+    if (generation !== this.watchGeneration) return; // unwatch() was called while TypeScript loaded
+
+    const rootConfig = path.join(root, 'tsconfig.json');
+    if (!fs.existsSync(rootConfig)) {
+      onUpdate({ diagnostics: [], configs: [], notes: ['The project has no tsconfig.json'] });
+      return;
+    }
+    const configs = this.resolveConfigs(ts, rootConfig, new Set());
+    const report = () => onUpdate({
+      diagnostics: configs.flatMap(configPath => this.watchDiagnostics.get(configPath) || []),
+      configs,
+      notes: [],
+    });
+
+    const system: TS.System = {
+      ...ts.sys,
+      watchFile: (filePath, callback) => this.addWatch(this.fileWatches, filePath, callback),
+      watchDirectory: (dirPath, callback, recursive) => this.addWatch(this.directoryWatches, dirPath, { callback, recursive: !!recursive }),
+    };
+
+    for (const configPath of configs) {
+      const configDiagnostics: TypeDiagnostic[] = [];
+      const host = ts.createWatchCompilerHost(
+        configPath,
+        { noEmit: true },
+        system,
+        ts.createSemanticDiagnosticsBuilderProgram,
+        diagnostic => configDiagnostics.push(this.toDiagnostic(ts, diagnostic)),
+        () => {}, // Watch status messages ("Starting compilation...") are not needed
+      );
+      // Replaces the default, which would emit; unchanged files keep their cached diagnostics
+      host.afterProgramCreate = builder => {
+        const diagnostics = [
+          ...builder.getConfigFileParsingDiagnostics(),
+          ...builder.getOptionsDiagnostics(),
+          ...builder.getGlobalDiagnostics(),
+          ...builder.getSyntacticDiagnostics(),
+          ...builder.getSemanticDiagnostics(),
+        ];
+        this.watchDiagnostics.set(configPath, [...configDiagnostics, ...diagnostics.map(diagnostic => this.toDiagnostic(ts, diagnostic))]);
+        configDiagnostics.length = 0;
+        if (generation === this.watchGeneration) report();
+      };
+      this.watchPrograms.push(ts.createWatchProgram(host));
+    }
+    console.log(`[TypeCheck] Watching ${configs.length} project(s) in ${root}`);
+  }
+
+  /**
+   * A file in the project changed on disk; the affected programs rebuild
+   * after TypeScript's usual short delay
+   */
+  notifyFileChange(filePath: string, kind: FileChangeKind) {
+    if (this.watchPrograms.length === 0) return;
+    const resolved = path.resolve(filePath);
+    const eventKind = kind === 'created' ? 0 : kind === 'deleted' ? 2 : 1; // ts.FileWatcherEventKind
+    for (const callback of Array.from(this.fileWatches.get(resolved) || [])) {
+      callback(resolved, eventKind);
+    }
+    for (const [dirPath, watches] of Array.from(this.directoryWatches)) {
+      if (!isInside(dirPath, resolved) || dirPath === resolved) continue;
+      for (const watch of Array.from(watches)) {
+        if (watch.recursive || path.dirname(resolved) === dirPath) watch.callback(resolved);
+      }
+    }
+  }
+
+  unwatch() {
+    this.watchGeneration++;
+    for (const program of this.watchPrograms) program.close();
+    this.watchPrograms = [];
+    this.fileWatches.clear();
+    this.directoryWatches.clear();
+    this.watchDiagnostics.clear();
+  }
+
+  private addWatch<T>(watches: Map<string, Set<T>>, watchedPath: string, entry: T): TS.FileWatcher {
+    const key = path.resolve(watchedPath);
+    const entries = watches.get(key) || new Set<T>();
+    entries.add(entry);
+    watches.set(key, entries);
+    return {
+      close: () => {
+        entries.delete(entry);
+        if (entries.size === 0 && watches.get(key) === entries) watches.delete(key);
+      },
+    };
+  }
+
+  /**
+   * The tsconfig files that hold the actual projects: a solution-style config
+   * ("files": [] plus references) is replaced by the projects it references
+   */
+  private resolveConfigs(ts: typeof TS, configPath: string, seen: Set<string>): string[] {
+    if (seen.has(configPath)) return [];
+    seen.add(configPath);
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) return [configPath]; // The watch program reports the error
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+    if (parsed.fileNames.length === 0 && parsed.projectReferences?.length) {
+      return parsed.projectReferences.flatMap(reference => this.resolveConfigs(ts, ts.resolveProjectReferencePath(reference), seen));
+    }
+    return [configPath];
+  }
+
+  private checkConfig(ts: typeof TS, configPath: string, files: string[] | null, result: TypeCheckResult, seen: Set<string>, covered: Set<string>) {
+    if (seen.has(configPath)) return;
+    seen.add(configPath);
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      result.diagnostics.push(this.toDiagnostic(ts, error));
+      return;
+    }
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+    result.configs.push(configPath);
+
+    // Solution-style configs ("files": [] plus references) only point at the real projects
+    if (parsed.fileNames.length === 0 && parsed.projectReferences?.length) {
+      for (const reference of parsed.projectReferences) {
+        this.checkConfig(ts, ts.resolveProjectReferencePath(reference), files, result, seen, covered);
+      }
+      return;
+    }
+
+    const program = ts.createProgram({
+      rootNames: parsed.fileNames,
+      options: { ...parsed.options, noEmit: true },
+      projectReferences: parsed.projectReferences,
+    });
+    const sourceFiles = (files || [])
+      .map(file => [file, program.getSourceFile(file)] as const)
+      .filter((entry): entry is readonly [string, TS.SourceFile] => !!entry[1]);
+    sourceFiles.forEach(([file]) => covered.add(file));
+    const diagnostics = files
+      ? sourceFiles.flatMap(([, sourceFile]) => [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)])
+      : ts.getPreEmitDiagnostics(program);
+    result.diagnostics.push(...diagnostics.map(diagnostic => this.toDiagnostic(ts, diagnostic)));
+  }
+
+  private toDiagnostic(ts: typeof TS, diagnostic: TS.Diagnostic): TypeDiagnostic {
+    const position = diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      : null;
+    return {
+      filePath: diagnostic.file ? path.resolve(diagnostic.file.fileName) : '',
+      line: position ? position.line + 1 : 0,
+      column: position ? position.character + 1 : 0,
+      severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error'
+        : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning'
+        : 'info',
+      code: `TS${diagnostic.code}`,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    };
+  }
+}
+
+export const typeCheckService = new TypeCheckService();
@@ -0,0 +1,391 @@
+/**
+ * TypeScript Symbols
+ * The symbol provider for TypeScript and JavaScript: a language service per
+ * tsconfig.json in the project, using the project's own TypeScript like the
+ * type-check service. Files are read from disk and versioned by their
+ * modification time, so edits are picked up without a watcher; the project
+ * watcher only reports created and deleted files, which change what each
+ * tsconfig includes.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as TS from 'typescript';
+import { typeCheckService, FileChangeKind } from './typecheck.service';
+import type { SymbolProvider, SymbolLocation, DocumentSymbol, WorkspaceSymbol, FileEdit } from './symbols.service';
+
+interface LanguageProject {
+  configPath: string | null; // null for the inferred project of files no tsconfig includes
+  fileNames: Set<string>;
+  options: TS.CompilerOptions;
+  references?: readonly TS.ProjectReference[];
+  service: TS.LanguageService;
+  stale: boolean; // Files were created or deleted since fileNames was read
+}
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const CONFIG_SEARCH_DEPTH = 3;
+const IGNORED_DIRECTORIES = ['node_modules', '.git', 'dist', 'build', 'out'];
+const MATCH_KIND_RANK: Record<string, number> = { exact: 0, prefix: 1, camelCase: 2, substring: 3 };
+
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function isProjectFile(root: string, filePath: string): boolean {
+  return isInside(root, filePath) && !filePath.split(/[\\/]/).includes('node_modules');
+}
+
+/**
+ * A module container is the file itself, named by its quoted path
+ */
+function containerOf(name: string, kind: string): string | undefined {
+  return name && kind !== 'module' && !name.startsWith('"') ? name : undefined;
+}
+
+/**
+ * Format settings following the file's own indentation, so that code a
+ * refactoring moves or generates matches it
+ */
+function formatSettingsFor(ts: typeof TS, text: string): TS.FormatCodeSettings {
+  const newLine = text.includes('\r\n') ? '\r\n' : '\n';
+  const indents = text.split('\n').map(line => line.match(/^[ \t]+(?=\S)/)?.[0]).filter((indent): indent is string => !!indent);
+  const settings = { ...ts.getDefaultFormatCodeSettings(newLine), semicolons: ts.SemicolonPreference.Ignore };
+  if (indents.some(indent => indent.startsWith('\t'))) {
+    return { ...settings, convertTabsToSpaces: false };
+  }
+  const size = indents.length > 0 ? Math.min(...indents.map(indent => indent.length)) : 2;
+  return { ...settings, indentSize: size, tabSize: size };
+}
+
+/**
+ * Whether `name` can be used as an identifier: one identifier token, and not
+ * a reserved word (contextual keywords such as `type` are fine)
+ */
+function isIdentifier(ts: typeof TS, name: string): boolean {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.Standard, name);
+  const token = scanner.scan();
+  if (scanner.getTextPos() !== name.length) return false;
+  return token === ts.SyntaxKind.Identifier || (token > ts.SyntaxKind.LastFutureReservedWord && token <= ts.SyntaxKind.LastKeyword);
+}
+
+function toFileEdits(changes: readonly TS.FileTextChanges[]): FileEdit[] {
+  return changes.map(change => ({
+    filePath: path.resolve(change.fileName),
+    isNewFile: !!change.isNewFile,
+    edits: change.textChanges.map(c => ({ start: c.span.start, end: c.span.start + c.span.length, newText: c.newText })),
+  }));
+}
+
+/**
+ * tsconfig.json files in the first few levels of the project, so that a
+ * separate config such as electron/tsconfig.json is searched as well
+ */
+function findConfigFiles(root: string): string[] {
+  const configs: string[] = [];
+  const visit = (dir: string, depth: number) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isFile() && entry.name === 'tsconfig.json') {
+        configs.push(path.join(dir, entry.name));
+      } else if (entry.isDirectory() && depth < CONFIG_SEARCH_DEPTH && !entry.name.startsWith('.') && !IGNORED_DIRECTORIES.includes(entry.name)) {
+        visit(path.join(dir, entry.name), depth + 1);
+      }
+    }
+  };
+  visit(root, 0);
+  return configs;
+}
+
+class TypeScriptSymbolProvider implements SymbolProvider {
+  readonly name = 'typescript';
+  private projects = new Map<string, LanguageProject>(); // tsconfig, or '' for the inferred project
+  private registry: TS.DocumentRegistry | null = null;
+
+  supports(filePath: string): boolean {
+    return TS_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  }
+
+  async findDefinition(root: string, filePath: string, offset: number): Promise<SymbolLocation[]> {
+    const ts = await typeCheckService.loadTypeScript(root);
+    const project = this.projectFor(ts, root, filePath);
+    const definitions = project.service.getDefinitionAtPosition(filePath, offset) || [];
+    return definitions.map(definition => ({
+      ...this.toLocation(project, definition.fileName, definition.textSpan, definition.contextSpan),
+      name: definition.name,
+      kind: definition.kind,
+      container: containerOf(definition.containerName, definition.containerKind),
+    }));
+  }
+
+  async findReferences(root: string, filePath: string, offset: number): Promise<SymbolLocation[]> {
+    const ts = await typeCheckService.loadTypeScript(root);
+    const project = this.projectFor(ts, root, filePath);
+    const referenced = project.service.findReferences(filePath, offset) || [];
+    return referenced.flatMap(symbol => symbol.references.map(reference => ({
+      ...this.toLocation(project, reference.fileName, reference.textSpan, reference.contextSpan),
+      name: symbol.definition.name,
+      isDefinition: !!reference.isDefinition,
+      isWrite: reference.isWriteAccess,
+    })));
+  }
+
+  async listSymbols(root: string, filePath: string): Promise<DocumentSymbol[]> {
+    const ts = await typeCheckService.loadTypeScript(root);
+    const project = this.projectFor(ts, root, filePath);
+    const sourceFile = project.service.getProgram()?.getSourceFile(filePath);
+    if (!sourceFile) return [];
+    const convert = (item: TS.NavigationTree): DocumentSymbol => {
+      const span = item.spans[0];
+      const name = sourceFile.getLineAndCharacterOfPosition((item.nameSpan || span).start);
+      return {
+        name: item.text,
+        kind: item.kind,
+        line: name.line + 1,
+        column: name.character + 1,
+        startLine: sourceFile.getLineAndCharacterOfPosition(span.start).line + 1,
+        endLine: sourceFile.getLineAndCharacterOfPosition(span.start + span.length).line + 1,
+        children: convertAll(item.childItems),
+      };
+    };
+    // TypeScript sorts the items by name; an outline reads better in source order
+    const convertAll = (items?: TS.NavigationTree[]) => (items || []).map(convert).sort((a, b) => a.startLine - b.startLine || a.line - b.line);
+    // The root item is the file itself
+    return convertAll(project.service.getNavigationTree(filePath).childItems);
+  }
+
+  async workspaceSymbols(root: string, query: string, limit: number): Promise<WorkspaceSymbol[]> {
+    const ts = await typeCheckService.loadTypeScript(root);
+    const configs = new Set<string>();
+    for (const configPath of findConfigFiles(root)) {
+      for (const resolved of this.resolveConfigs(ts, configPath, new Set())) configs.add(resolved);
+    }
+    const projects = Array.from(configs).map(configPath => this.loadProject(ts, root, configPath));
+    const inferred = this.projects.get('');
+    if (inferred) projects.push(inferred);
+
+    // Projects overlap (a file can be in several), so items are keyed by position
+    const items = new Map<string, { item: TS.NavigateToItem; project: LanguageProject }>();
+    for (const project of projects) {
+      for (const item of project.service.getNavigateToItems(query, undefined, undefined, false, true)) {
+        if (!isProjectFile(root, item.fileName)) continue;
+        const key = `${item.fileName}:${item.textSpan.start}`;
+        if (!items.has(key)) items.set(key, { item, project });
+      }
+    }
+    return Array.from(items.values())
+      .sort((a, b) => (MATCH_KIND_RANK[a.item.matchKind] ?? 4) - (MATCH_KIND_RANK[b.item.matchKind] ?? 4)
+        || a.item.name.length - b.item.name.length
+        || a.item.fileName.localeCompare(b.item.fileName)
+        || a.item.textSpan.start - b.item.textSpan.start)
+      .slice(0, limit)
+      .map(({ item, project }) => ({
+        ...this.toLocation(project, item.fileName, this.nameSpan(project, item), item.textSpan),
+        name: item.name,
+        kind: item.kind,
+        container: containerOf(item.containerName, item.containerKind),
+      }));
+  }
+
+  async rename(root: string, filePath: string, offset: number, newName: string): Promise<FileEdit[]> {
+    const ts = await typeCheckService.loadTypeScript(root);
+    const project = this.projectFor(ts, root, filePath);
+    const info = project.service.getRenameInfo(filePath, offset, { allowRenameOfImportPath: false });
+    if (!info.canRename) throw new Error(info.localizedErrorMessage);
+    if (!isIdentifier(ts, newName)) throw new Error(`"${newName}" is not a valid identifier`);
+
+    // Prefix and suffix text keep shorthand properties and re-exports working ({ a } -> { a: b })
+    const locations = project.service.findRenameLocations(filePath, offset, false, false, { providePrefixAndSuffixTextForRename: true }) || [];
+    const byFile = new Map<string, FileEdit>();
+    for (const location of locations) {
+      const file = path.resolve(location.fileName);
+      const fileEdit = byFile.get(file) || { filePath: file, edits: [] };
+      fileEdit.edits.push({
+        start: location.textSpan.start,
+        end: location.textSpan.start + location.textSpan.length,
+        newText: `${location.prefixText || ''}${newName}${location.suffixText || ''}`,
+      });
+      byFile.set(file, fileEdit);
+    }
+    return Array.from(byFile.values());
+  }
+
+  async moveToFile(root: string, filePath: string, start: number, end: number, targetPath: string): Promise<FileEdit[]> {
+    const ts = await typeCheckService.loadTypeScript(root);
+    const project = this.projectFor(ts, root, filePath);
+    const text = project.service.getProgram()?.getSourceFile(filePath)?.text ?? fs.readFileSync(filePath, 'utf-8');
+    let result: TS.RefactorEditInfo | undefined;
+    try {
+      result = project.service.getEditsForRefactor(
+        filePath,
+        formatSettingsFor(ts, text),
+        { pos: start, end },
+        'Move to file',
+        'Move to file',
+        { allowTextChangesInNewFiles: true, quotePreference: 'auto' },
+        { targetFile: targetPath },
+      );
+    } catch (error: any) {
+      // Older versions do not know the refactoring, newer ones reject positions it does not apply to
+      throw new Error(`TypeScript ${ts.version} cannot move this: ${error.message.split('\n')[0]}`);
+    }
+    if (!result || result.edits.length === 0) {
+      throw new Error('Nothing to move here; select top-level declarations or put the cursor on one');
+    }
+    return toFileEdits(result.edits);
+  }
+
+  reset() {
+    for (const project of this.projects.values()) project.service.dispose();
+    this.projects.clear();
+    this.registry = null;
+  }
+
+  handleFileEvent(filePath: string, kind: FileChangeKind) {
+    if (path.basename(filePath).startsWith('tsconfig') && path.extname(filePath) === '.json') {
+      this.reset();
+    } else if (kind !== 'changed' && this.supports(filePath)) {
+      for (const project of this.projects.values()) project.stale = true;
+    }
+  }
+
+  /**
+   * The project of the file's nearest tsconfig.json, or of one it references;
+   * files no tsconfig includes share an inferred project
+   */
+  private projectFor(ts: typeof TS, root: string, filePath: string): LanguageProject {
+    const configPath = ts.findConfigFile(path.dirname(filePath), ts.sys.fileExists);
+    if (configPath && isInside(root, configPath)) {
+      for (const resolved of this.resolveConfigs(ts, configPath, new Set())) {
+        const project = this.loadProject(ts, root, resolved);
+        if (project.fileNames.has(filePath)) return project;
+      }
+    }
+    for (const project of this.projects.values()) {
+      if (project.configPath && project.fileNames.has(filePath)) return project;
+    }
+
+    let inferred = this.projects.get('');
+    if (!inferred) {
+      inferred = this.createProject(ts, root, null, [], { allowJs: true, checkJs: false, jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ES2022 });
+      this.projects.set('', inferred);
+    }
+    inferred.fileNames.add(filePath);
+    return inferred;
+  }
+
+  /**
+   * The config plus the projects it references; a solution-style config
+   * ("files": [] plus references) only stands for its references
+   */
+  private resolveConfigs(ts: typeof TS, configPath: string, seen: Set<string>): string[] {
+    if (seen.has(configPath) || !fs.existsSync(configPath)) return [];
+    seen.add(configPath);
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) return [];
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+    const references = (parsed.projectReferences || []).flatMap(reference => this.resolveConfigs(ts, ts.resolveProjectReferencePath(reference), seen));
+    return parsed.fileNames.length === 0 && references.length > 0 ? references : [configPath, ...references];
+  }
+
+  private loadProject(ts: typeof TS, root: string, configPath: string): LanguageProject {
+    let project = this.projects.get(configPath);
+    if (project && !project.stale) return project;
+
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    const parsed = ts.parseJsonConfigFileContent(config || {}, ts.sys, path.dirname(configPath), undefined, configPath);
+    if (project) {
+      // The service asks the host for the file names again on its next request
+      project.fileNames = new Set(parsed.fileNames.map(fileName => path.resolve(fileName)));
+      project.stale = false;
+      return project;
+    }
+    project = this.createProject(ts, root, configPath, parsed.fileNames, parsed.options, parsed.projectReferences);
+    this.projects.set(configPath, project);
+    console.log(`[Symbols] Loaded ${path.relative(root, configPath) || configPath} (${project.fileNames.size} files)`);
+    return project;
+  }
+
+  private createProject(
+    ts: typeof TS,
+    root: string,
+    configPath: string | null,
+    fileNames: string[],
+    options: TS.CompilerOptions,
+    references?: readonly TS.ProjectReference[],
+  ): LanguageProject {
+    const project: LanguageProject = {
+      configPath,
+      fileNames: new Set(fileNames.map(fileName => path.resolve(fileName))),
+      options: { ...options, noEmit: true },
+      references,
+      service: null as unknown as TS.LanguageService,
+      stale: false,
+    };
+    const host: TS.LanguageServiceHost = {
+      getCompilationSettings: () => project.options,
+      getScriptFileNames: () => Array.from(project.fileNames),
+      getProjectReferences: () => project.references,
+      getScriptVersion: fileName => {
+        try {
+          return String(fs.statSync(fileName).mtimeMs);
+        } catch {
+          return '0';
+        }
+      },
+      getScriptSnapshot: fileName => {
+        try {
+          return ts.ScriptSnapshot.fromString(fs.readFileSync(fileName, 'utf-8'));
+        } catch {
+          return undefined;
+        }
+      },
+      getCurrentDirectory: () => (configPath ? path.dirname(configPath) : root),
+      getDefaultLibFileName: compilerOptions => ts.getDefaultLibFilePath(compilerOptions),
+      fileExists: ts.sys.fileExists,
+      readFile: ts.sys.readFile,
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories,
+      realpath: ts.sys.realpath,
+      useCaseSensitiveFileNames: () => ts.sys.useCaseSensitiveFileNames,
+    };
+    if (!this.registry) this.registry = ts.createDocumentRegistry(ts.sys.useCaseSensitiveFileNames, root);
+    project.service = ts.createLanguageService(host, this.registry);
+    return project;
+  }
+
+  /**
+   * Navigate-to items span their whole declaration; the name is its first
+   * occurrence inside it
+   */
+  private nameSpan(project: LanguageProject, item: TS.NavigateToItem): TS.TextSpan {
+    const text = project.service.getProgram()?.getSourceFile(item.fileName)?.text || '';
+    const index = text.indexOf(item.name, item.textSpan.start);
+    return index >= 0 && index < item.textSpan.start + item.textSpan.length
+      ? { start: index, length: item.name.length }
+      : item.textSpan;
+  }
+
+  private toLocation(project: LanguageProject, fileName: string, span: TS.TextSpan, contextSpan?: TS.TextSpan): SymbolLocation {
+    const filePath = path.resolve(fileName);
+    const sourceFile = project.service.getProgram()?.getSourceFile(fileName);
+    if (!sourceFile) return { filePath, line: 0, column: 0, startLine: 0, endLine: 0 };
+    const position = sourceFile.getLineAndCharacterOfPosition(span.start);
+    const context = contextSpan || span;
+    return {
+      filePath,
+      line: position.line + 1,
+      column: position.character + 1,
+      startLine: sourceFile.getLineAndCharacterOfPosition(context.start).line + 1,
+      endLine: sourceFile.getLineAndCharacterOfPosition(context.start + context.length).line + 1,
+    };
+  }
+}
+
+export const typescriptSymbolProvider = new TypeScriptSymbolProvider();
@@ -0,0 +1,114 @@
+/**
+ * Verification Service
+ * Checks the files an agent run touched before its task_complete is accepted:
+ * ESLint and TypeScript errors in those files, plus an optional test command.
+ * Failures are turned into feedback the model gets as its next user message.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { collectDiagnostics, Diagnostic, DiagnosticSource } from './diagnostics.service';
+import { executeCommand } from './file-operations.service';
+import { pathJail } from './path-jail.service';
+
+export interface VerifyOptions {
+  eslint: boolean;
+  typescript: boolean;
+  testCommand?: string; // Run from the project root; empty to skip
+  maxAttempts: number; // Times failures are sent back before task_complete is accepted anyway
+}
+
+export interface VerificationCheck {
+  name: 'eslint' | 'typescript' | 'tests';
+  passed: boolean;
+  summary: string;
+  details?: string; // Errors or test output, as sent to the model
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  files: string[]; // Relative to the project root
+  checks: VerificationCheck[];
+  notes: string[];
+}
+
+const MAX_REPORTED_ERRORS = 30;
+const MAX_TEST_OUTPUT_CHARS = 4000;
+
+function formatErrors(errors: Diagnostic[]): string {
+  const lines = errors.slice(0, MAX_REPORTED_ERRORS).map(d =>
+    `${d.path}:${d.line}:${d.column} ${d.code ? `${d.code} ` : ''}${d.message.split('\n')[0]}`);
+  if (errors.length > MAX_REPORTED_ERRORS) lines.push(`... and ${errors.length - MAX_REPORTED_ERRORS} more`);
+  return lines.join('\n');
+}
+
+function diagnosticsCheck(name: DiagnosticSource, label: string, diagnostics: Diagnostic[]): VerificationCheck {
+  const errors = diagnostics.filter(d => d.source === name && d.severity === 'error');
+  return errors.length === 0
+    ? { name, passed: true, summary: `${label}: no errors` }
+    : { name, passed: false, summary: `${label}: ${errors.length} error${errors.length === 1 ? '' : 's'}`, details: formatErrors(errors) };
+}
+
+/**
+ * Run the enabled checks on the given files (as the file tools reported them).
+ * Files that were deleted or are outside the project are skipped.
+ */
+export async function verifyFiles(filePaths: string[], options: VerifyOptions, commandGroup?: string): Promise<VerificationResult> {
+  const root = pathJail.getProjectRoot();
+  const result: VerificationResult = { passed: true, files: [], checks: [], notes: [] };
+  if (!root) {
+    result.notes.push('No project folder is open');
+    return result;
+  }
+
+  const files: string[] = [];
+  for (const filePath of filePaths) {
+    try {
+      const resolved = pathJail.resolve(filePath);
+      if (fs.existsSync(resolved) && !files.includes(resolved)) files.push(resolved);
+    } catch {
+      // Outside the project; not ours to check
+    }
+  }
+  result.files = files.map(f => path.relative(root, f).split(path.sep).join('/'));
+
+  const sources: DiagnosticSource[] = [];
+  if (options.eslint) sources.push('eslint');
+  if (options.typescript) sources.push('typescript');
+  if (sources.length > 0 && files.length > 0) {
+    const { diagnostics, notes } = await collectDiagnostics(root, files, sources);
+    result.notes.push(...notes);
+    if (options.eslint) result.checks.push(diagnosticsCheck('eslint', 'ESLint', diagnostics));
+    if (options.typescript) result.checks.push(diagnosticsCheck('typescript', 'TypeScript', diagnostics));
+  }
+
+  const testCommand = options.testCommand?.trim();
+  if (testCommand) {
+    // The user configured the command, so it runs without asking again
+    const outcome = await executeCommand({ command: testCommand }, true, { group: commandGroup });
+    const output = [outcome.stdout, outcome.stderr].filter(Boolean).join('\n').trim();
+    const passed = outcome.exit_code === 0 && !outcome.error;
+    result.checks.push({
+      name: 'tests',
+      passed,
+      summary: `${testCommand}: ${passed ? 'passed' : outcome.error || outcome.message || `exited with code ${outcome.exit_code}`}`,
+      ...(!passed && { details: output.length > MAX_TEST_OUTPUT_CHARS ? `...\n${output.slice(-MAX_TEST_OUTPUT_CHARS)}` : output || outcome.error }),
+    });
+  }
+
+  result.passed = result.checks.every(check => check.passed);
+  return result;
+}
+
+/**
+ * The synthetic user message that sends failed checks back to the model
+ */
+export function formatVerificationFeedback(result: VerificationResult, attempt: number, maxAttempts: number): string {
+  const sections = result.checks
+    .filter(check => !check.passed)
+    .map(check => `${check.summary}${check.details ? `\n${check.details}` : ''}`);
+  return [
+    `Automatic verification of your changes failed (attempt ${attempt} of ${maxAttempts}), so the task is not complete yet.`,
+    ...sections,
+    'Fix these problems, then call task_complete again. Do not silence the checks instead of fixing the code.',
+  ].join('\n\n');
+}
@@ -0,0 +1,226 @@
+/**
+ * Worktree Service
+ * Opt-in isolation for agent runs: every chat session that asks for it gets its
+ * own `git worktree` on a scratch branch, and its runs are anchored there with
+ * pathJail.runInRoot, so file tools, commands and git calls never touch the
+ * user's working copy. When the task is done its changes are merged,
+ * cherry-picked into the working copy or discarded.
+ *
+ * Worktrees live outside the project in <userData>/worktrees/<repo>-<hash>/<id>,
+ * with the task's metadata next to each one in <id>.json.
+ */
+import { app } from 'electron';
+import crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { gitService, GitError, GitDiffFile } from './git.service';
+import { pathJail } from './path-jail.service';
+
+export interface AgentWorktree {
+  id: string;
+  sessionId: string; // Chat session whose runs work in it
+  label: string; // The task that created it
+  branch: string;
+  path: string; // Root of the worktree
+  projectPath: string; // The project folder inside the worktree
+  baseCommit: string; // Commit the scratch branch started from
+  createdAt: number;
+}
+
+export interface WorktreeChanges {
+  worktree: AgentWorktree;
+  files: GitDiffFile[];
+  patch: string;
+}
+
+const BRANCH_PREFIX = 'candycode/';
+const MAX_LABEL_LENGTH = 80;
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32)
+    .replace(/-+$/, '') || 'task';
+}
+
+class WorktreeService {
+  /**
+   * Where the current repository keeps its agent worktrees
+   */
+  private async getStoreDir(): Promise<string> {
+    const root = await gitService.getRoot();
+    const hash = crypto.createHash('sha1').update(root).digest('hex').slice(0, 8);
+    return path.join(app.getPath('userData'), 'worktrees', `${path.basename(root)}-${hash}`);
+  }
+
+  /**
+   * Git in the worktree instead of the project
+   */
+  private git(worktree: AgentWorktree, args: string[], options: { allowExitCodes?: number[]; input?: string } = {}) {
+    return gitService.run(['-C', worktree.path, ...args], options);
+  }
+
+  async list(): Promise<AgentWorktree[]> {
+    const storeDir = await this.getStoreDir();
+    const entries = await fs.readdir(storeDir).catch(() => [] as string[]);
+    const worktrees: AgentWorktree[] = [];
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      try {
+        const worktree: AgentWorktree = JSON.parse(await fs.readFile(path.join(storeDir, entry), 'utf-8'));
+        await fs.access(worktree.path);
+        worktrees.push(worktree);
+      } catch {
+        // Removed by hand or half-created; git forgets it on the next prune
+        await fs.rm(path.join(storeDir, entry), { force: true });
+      }
+    }
+    return worktrees.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async get(id: string): Promise<AgentWorktree> {
+    const worktree = (await this.list()).find(w => w.id === id);
+    if (!worktree) throw new GitError(`Worktree ${id} no longer exists`);
+    return worktree;
+  }
+
+  /**
+   * The session's worktree, created from HEAD on its first isolated run.
+   * Must be called outside runInRoot, since it runs git in the project.
+   */
+  async acquire(sessionId: string, task: string): Promise<AgentWorktree> {
+    const existing = (await this.list()).find(w => w.sessionId === sessionId);
+    if (existing) return existing;
+
+    const status = await gitService.status();
+    if (!status.head) {
+      throw new GitError('Worktree isolation needs a commit to start from; commit once and try again');
+    }
+    const projectRoot = pathJail.getProjectRoot()!;
+    // The project may be a folder inside the repository
+    const { stdout: prefix } = await gitService.run(['rev-parse', '--show-prefix']);
+
+    const id = `${Date.now().toString(36)}${crypto.randomBytes(2).toString('hex')}`;
+    const label = task.split('\n')[0].trim().slice(0, MAX_LABEL_LENGTH) || 'Agent task';
+    const storeDir = await this.getStoreDir();
+    const worktreePath = path.join(storeDir, id);
+    const worktree: AgentWorktree = {
+      id,
+      sessionId,
+      label,
+      branch: `${BRANCH_PREFIX}${slugify(label)}-${id.slice(-4)}`,
+      path: worktreePath,
+      projectPath: path.resolve(worktreePath, prefix.trim() || '.'),
+      baseCommit: status.head,
+      createdAt: Date.now(),
+    };
+
+    await fs.mkdir(storeDir, { recursive: true });
+    await gitService.run(['worktree', 'add', '-b', worktree.branch, worktree.path, status.head]);
+    await fs.writeFile(path.join(storeDir, `${id}.json`), JSON.stringify(worktree, null, 2), 'utf-8');
+    console.log(`[Worktree] Created ${worktree.branch} at ${worktree.path} for ${projectRoot}`);
+    return worktree;
+  }
+
+  /**
+   * Everything the task changed since its base commit, committed or not.
+   * New files are staged in the worktree so they show up in the diff.
+   */
+  async changes(id: string): Promise<WorktreeChanges> {
+    const worktree = await this.get(id);
+    await this.git(worktree, ['add', '-A']);
+    const { files, patch } = await pathJail.runInRoot(worktree.path, () => gitService.diff({ staged: true, ref: worktree.baseCommit }));
+    return { worktree, files, patch };
+  }
+
+  /**
+   * Both sides of one changed file; `relativePath` is relative to the repository root
+   */
+  async fileContents(id: string, relativePath: string): Promise<{ original: string; modified: string }> {
+    const worktree = await this.get(id);
+    const filePath = path.resolve(worktree.path, relativePath);
+    if (path.relative(worktree.path, filePath).startsWith('..')) {
+      throw new GitError(`Invalid path: ${relativePath}`);
+    }
+    const { stdout, exitCode } = await this.git(worktree, ['show', `${worktree.baseCommit}:${relativePath.split(path.sep).join('/')}`], { allowExitCodes: [128] });
+    const modified = await fs.readFile(filePath, 'utf-8').catch(() => '');
+    return { original: exitCode === 0 ? stdout : '', modified };
+  }
+
+  /**
+   * Commit the task on its branch and merge that into the current branch.
+   * A conflicting merge is aborted so the working copy is left as it was.
+   */
+  async merge(id: string): Promise<{ branch: string; merged: number }> {
+    const worktree = await this.get(id);
+    await this.commitSnapshot(worktree);
+
+    const { stdout: count } = await gitService.run(['rev-list', '--count', `${worktree.baseCommit}..${worktree.branch}`]);
+    const merged = parseInt(count.trim(), 10) || 0;
+    if (merged === 0) throw new GitError('The task did not change anything');
+
+    try {
+      await gitService.run(['merge', '--no-ff', '-m', `Merge agent task: ${worktree.label}`, worktree.branch]);
+    } catch (error) {
+      const { stdout: conflicts } = await gitService.run(['diff', '--name-only', '--diff-filter=U']);
+      if (!conflicts.trim()) throw error;
+      await gitService.run(['merge', '--abort'], { allowExitCodes: [128] });
+      throw new GitError(`The task's changes conflict with the current branch in:\n${conflicts.trim()}\nThe merge was aborted. Cherry-pick the files that do not conflict, or run git merge ${worktree.branch} to resolve it by hand.`);
+    }
+
+    console.log(`[Worktree] Merged ${worktree.branch} (${merged} commit(s))`);
+    await this.discard(id);
+    return { branch: worktree.branch, merged };
+  }
+
+  /**
+   * Apply the task's changes to the selected files (repository-relative) as
+   * uncommitted changes in the working copy. All or nothing: git refuses the
+   * whole patch when one file does not apply.
+   */
+  async cherryPick(id: string, paths: string[]): Promise<{ applied: string[] }> {
+    const worktree = await this.get(id);
+    if (paths.length === 0) throw new GitError('Select the files to apply');
+    await this.git(worktree, ['add', '-A']);
+    const { stdout: patch } = await this.git(worktree, ['diff', '--cached', '--binary', '--no-color', '--no-ext-diff', worktree.baseCommit, '--', ...paths]);
+    if (!patch.trim()) throw new GitError('The selected files have no changes');
+
+    // From the repository root; git apply skips paths outside the current folder
+    const root = await gitService.getRoot();
+    try {
+      await gitService.run(['-C', root, 'apply', '--whitespace=nowarn', '-'], { input: patch });
+    } catch (error: any) {
+      throw new GitError(`The changes do not apply cleanly to the working copy:\n${error.message}`);
+    }
+    console.log(`[Worktree] Applied ${paths.length} file(s) from ${worktree.branch}`);
+    return { applied: paths };
+  }
+
+  /**
+   * Remove the worktree and its branch
+   */
+  async discard(id: string): Promise<void> {
+    const worktree = await this.get(id);
+    try {
+      await gitService.run(['worktree', 'remove', '--force', worktree.path]);
+    } catch (error) {
+      console.error(`[Worktree] git worktree remove failed, deleting ${worktree.path}:`, error);
+      await fs.rm(worktree.path, { recursive: true, force: true });
+      await gitService.run(['worktree', 'prune']);
+    }
+    await gitService.run(['branch', '-D', worktree.branch], { allowExitCodes: [1] });
+    await fs.rm(path.join(path.dirname(worktree.path), `${id}.json`), { force: true });
+    console.log(`[Worktree] Removed ${worktree.branch}`);
+  }
+
+  private async commitSnapshot(worktree: AgentWorktree): Promise<void> {
+    await this.git(worktree, ['add', '-A']);
+    const { exitCode } = await this.git(worktree, ['diff', '--cached', '--quiet'], { allowExitCodes: [1] });
+    if (exitCode === 1) {
+      await this.git(worktree, ['commit', '-m', worktree.label]);
+    }
+  }
+}
+
+export const worktreeService = new WorktreeService();
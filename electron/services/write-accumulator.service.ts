@@ -0,0 +1,78 @@
+/**
+ * Write Accumulator - buffers chunked write_file calls
+ * Large files are sent by models as several write_file calls with finalize=false
+ * followed by one with finalize=true. Chunks are buffered per agent run and path,
+ * and only the finalized content becomes a pending diff.
+ */
+
+export type WriteMode = 'overwrite' | 'append';
+
+interface BufferedWrite {
+  chunks: string[];
+  mode: WriteMode;
+  updatedAt: number;
+}
+
+export class WriteAccumulator {
+  private buffers: Map<string, BufferedWrite> = new Map();
+
+  private key(runId: string, resolvedPath: string): string {
+    return `${runId}::${resolvedPath}`;
+  }
+
+  /**
+   * Buffer a chunk. The mode of the first chunk wins for the whole write.
+   */
+  append(runId: string, resolvedPath: string, chunk: string, mode: WriteMode): { chunks: number; length: number } {
+    const key = this.key(runId, resolvedPath);
+    let buffered = this.buffers.get(key);
+    if (!buffered) {
+      buffered = { chunks: [], mode, updatedAt: Date.now() };
+      this.buffers.set(key, buffered);
+    }
+    buffered.chunks.push(chunk);
+    buffered.updatedAt = Date.now();
+    return {
+      chunks: buffered.chunks.length,
+      length: buffered.chunks.reduce((total, c) => total + c.length, 0)
+    };
+  }
+
+  /**
+   * Remove and return everything buffered for a path, or null if nothing was buffered
+   */
+  take(runId: string, resolvedPath: string): { content: string; mode: WriteMode; chunks: number } | null {
+    const key = this.key(runId, resolvedPath);
+    const buffered = this.buffers.get(key);
+    if (!buffered) return null;
+    this.buffers.delete(key);
+    return { content: buffered.chunks.join(''), mode: buffered.mode, chunks: buffered.chunks.length };
+  }
+
+  /**
+   * Drop all unfinalized writes of a run (run finished or was cancelled)
+   */
+  discardRun(runId: string): string[] {
+    const prefix = `${runId}::`;
+    const discarded: string[] = [];
+    for (const key of Array.from(this.buffers.keys())) {
+      if (key.startsWith(prefix)) {
+        discarded.push(key.slice(prefix.length));
+        this.buffers.delete(key);
+      }
+    }
+    if (discarded.length > 0) {
+      console.log(`[WriteAccumulator] Discarded unfinalized writes for run ${runId}:`, discarded);
+    }
+    return discarded;
+  }
+
+  /**
+   * Drop every buffered write across all runs
+   */
+  clear(): void {
+    this.buffers.clear();
+  }
+}
+
+export const writeAccumulator = new WriteAccumulator();
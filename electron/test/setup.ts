@@ -0,0 +1,27 @@
+/**
+ * Test setup: the services run in plain Node, outside Electron. node-pty is
+ * built for Electron's ABI and electron only resolves to its binary path here.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, vi } from 'vitest';
+
+// userData and friends, so that user settings never leak into a test
+const appData = fs.mkdtempSync(path.join(os.tmpdir(), 'candycode-test-'));
+
+afterAll(() => {
+  fs.rmSync(appData, { recursive: true, force: true });
+});
+
+vi.mock('electron', () => ({
+  app: { getPath: () => appData, getVersion: () => '0.0.0', isPackaged: false },
+  BrowserWindow: class {},
+  net: {},
+}));
+
+vi.mock('node-pty', () => ({
+  spawn: () => {
+    throw new Error('node-pty is not available in tests');
+  },
+}));
@@ -4,9 +4,12 @@ import Header from './components/Header';
 import Sidebar from './components/Sidebar';
 import Canvas from './components/Canvas';
 import ChatPanel from './components/ChatPanel';
+import ProblemsPanel from './components/ProblemsPanel';
+import QuickOpen from './components/QuickOpen';
 import ThemeProvider from './components/ThemeProvider';
 import Settings from './components/Settings';
 import UnsavedChangesDialog from './components/UnsavedChangesDialog';
+import ToolApprovalDialog from './components/ToolApprovalDialog';
 
 function App() {
   const {
@@ -14,6 +17,8 @@ function App() {
     showSettings,
     sidebarVisible,
     chatVisible,
+    problemsVisible,
+    quickOpenVisible,
     sidebarWidth,
     chatWidth,
     setSidebarWidth,
@@ -258,6 +263,17 @@ function App() {
           window.electronAPI?.app?.closeCurrentWindow();
         }
       }
+      // Ctrl+P or Cmd+P to find and open a project file
+      else if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'p') {
+        e.preventDefault();
+        const { quickOpenVisible, setQuickOpenVisible } = useStore.getState();
+        setQuickOpenVisible(!quickOpenVisible);
+      }
+      // Ctrl+Shift+M or Cmd+Shift+M to toggle the Problems panel
+      else if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'm') {
+        e.preventDefault();
+        useStore.getState().toggleProblems();
+      }
       // Ctrl+F or Cmd+F - Find (let Monaco handle it, but ensure editor is focused)
       else if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
         // Don't prevent default - let Monaco handle it
@@ -393,8 +409,11 @@ function App() {
         
         <div className="relative flex-1 flex overflow-hidden">
           {/* Main canvas area - Tab-based canvas */}
-          <main className="app-main h-full w-full flex-1 relative z-0">
-            <Canvas />
+          <main className="app-main h-full w-full flex-1 relative z-0 flex flex-col">
+            <div className="flex-1 min-h-0">
+              <Canvas />
+            </div>
+            {problemsVisible && <ProblemsPanel />}
           </main>
 
           {/* Floating sidebar panel */}
@@ -439,6 +458,8 @@ function App() {
         
         {showSettings && <Settings />}
 
+        {quickOpenVisible && <QuickOpen />}
+
         {/* Unsaved changes warning dialog */}
         <UnsavedChangesDialog
           isOpen={showCloseDialog}
@@ -446,6 +467,9 @@ function App() {
           onConfirmClose={handleCloseWithoutSaving}
           onSave={handleSaveBeforeClose}
         />
+
+        {/* Approval prompts for agent tool calls */}
+        <ToolApprovalDialog />
       </div>
     </ThemeProvider>
   );
@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronRight, ChevronDown, GitMerge, Cherry, Trash2, Check, Minus, Loader2 } from 'lucide-react';
+import { useStore } from '../store';
+import type { WorktreeChanges } from '../types/electron';
+
+interface AgentWorktreesProps {
+  onChange: () => void; // The working copy changed; refresh its status
+}
+
+/**
+ * Worktrees of isolated agent tasks in the source control panel: what each
+ * task changed since it started, merged as a whole, cherry-picked file by
+ * file into the working copy, or discarded
+ */
+export default function AgentWorktrees({ onChange }: AgentWorktreesProps) {
+  const openPane = useStore(state => state.openPane);
+  const [worktrees, setWorktrees] = useState<WorktreeChanges[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [deselected, setDeselected] = useState<Set<string>>(new Set()); // `${id}:${path}` left out of a cherry-pick
+  const [busy, setBusy] = useState<string | null>(null);
+  const [confirmDiscard, setConfirmDiscard] = useState<string | null>(null);
+  const [error, setError] = useState<{ id: string; message: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!window.electronAPI?.git?.worktrees) return;
+    const list = await window.electronAPI.git.worktrees();
+    if ('error' in list) {
+      setWorktrees([]);
+      return;
+    }
+    const changes: WorktreeChanges[] = [];
+    for (const worktree of list) {
+      const result = await window.electronAPI.git.worktreeChanges(worktree.id);
+      changes.push('error' in result ? { worktree, files: [], patch: '' } : result);
+    }
+    setWorktrees(changes);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefresh = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(refresh, 500);
+    };
+    window.addEventListener('git:changed', scheduleRefresh);
+    window.addEventListener('focus', scheduleRefresh);
+    return () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener('git:changed', scheduleRefresh);
+      window.removeEventListener('focus', scheduleRefresh);
+    };
+  }, [refresh]);
+
+  const runAction = async (id: string, action: () => Promise<any>) => {
+    setBusy(id);
+    setError(null);
+    try {
+      const result = await action();
+      if (result && typeof result === 'object' && 'error' in result) setError({ id, message: result.error });
+    } finally {
+      setBusy(null);
+      setConfirmDiscard(null);
+      await refresh();
+      onChange();
+      window.dispatchEvent(new CustomEvent('git:changed'));
+    }
+  };
+
+  const openDiff = (id: string, filePath: string) => {
+    openPane({
+      id: `git-diff:worktree:${id}:${filePath}`,
+      name: `${filePath.split('/').pop() || filePath} (Worktree)`,
+      type: 'git-diff',
+      content: '',
+      isUnsaved: false,
+      data: { filePath, staged: false, worktreeId: id },
+    });
+  };
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value); else next.add(value);
+    return next;
+  };
+
+  if (worktrees.length === 0) return null;
+
+  return (
+    <div className="mb-2">
+      <div className="flex items-center px-1 py-1 text-[10px] font-semibold uppercase tracking-wide text-muted">
+        Agent Worktrees
+        <span className="ml-1 px-1.5 rounded-full bg-white/10 text-foreground normal-case">{worktrees.length}</span>
+      </div>
+      {worktrees.map(({ worktree, files }) => {
+        const isExpanded = expanded.has(worktree.id);
+        const picked = files.filter(file => !deselected.has(`${worktree.id}:${file.path}`)).map(file => file.path);
+        const additions = files.reduce((sum, file) => sum + file.additions, 0);
+        const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+        const isBusy = busy === worktree.id;
+
+        return (
+          <div key={worktree.id} className="mb-1">
+            <div
+              onClick={() => setExpanded(toggle(expanded, worktree.id))}
+              className="group flex items-center text-xs py-1 px-1.5 rounded-md hover:bg-white/10 cursor-pointer"
+              data-tooltip={worktree.branch}
+              data-tooltip-position="right"
+            >
+              <span className="p-0.5 text-muted">
+                {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              </span>
+              <span className="ml-1 truncate text-foreground">{worktree.label}</span>
+              <div className="ml-auto flex items-center gap-0.5 pl-1 shrink-0">
+                {isBusy ? (
+                  <Loader2 className="w-3 h-3 animate-spin text-muted" />
+                ) : confirmDiscard === worktree.id ? (
+                  <>
+                    <span className="text-[10px] text-rose-400 mr-1">Discard task?</span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); runAction(worktree.id, () => window.electronAPI.git.discardWorktree(worktree.id)); }}
+                      className="p-0.5 rounded hover:bg-rose-500/20 text-rose-400"
+                      title="Confirm"
+                    >
+                      <Check className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setConfirmDiscard(null); }}
+                      className="p-0.5 rounded hover:bg-white/10 text-muted"
+                      title="Cancel"
+                    >
+                      <Minus className="w-3 h-3" />
+                    </button>
+                  </>
+                ) : (
+                  <div className="hidden group-hover:flex items-center gap-0.5">
+                    <button
+                      disabled={busy !== null || files.length === 0}
+                      onClick={(e) => { e.stopPropagation(); runAction(worktree.id, () => window.electronAPI.git.mergeWorktree(worktree.id)); }}
+                      className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground disabled:opacity-40"
+                      title="Merge into the current branch"
+                    >
+                      <GitMerge className="w-3 h-3" />
+                    </button>
+                    <button
+                      disabled={busy !== null || picked.length === 0}
+                      onClick={(e) => { e.stopPropagation(); runAction(worktree.id, () => window.electronAPI.git.cherryPickWorktree(worktree.id, picked)); }}
+                      className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground disabled:opacity-40"
+                      title={`Apply ${picked.length} selected file${picked.length === 1 ? '' : 's'} to the working copy`}
+                    >
+                      <Cherry className="w-3 h-3" />
+                    </button>
+                    <button
+                      disabled={busy !== null}
+                      onClick={(e) => { e.stopPropagation(); setConfirmDiscard(worktree.id); }}
+                      className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-rose-400"
+                      title="Discard the task and its worktree"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+                <span className="text-[10px] font-mono text-emerald-400">+{additions}</span>
+                <span className="text-[10px] font-mono text-rose-400">-{deletions}</span>
+              </div>
+            </div>
+
+            {error?.id === worktree.id && (
+              <div className="ml-6 mt-1 text-[10px] text-rose-400 whitespace-pre-wrap break-words">{error.message}</div>
+            )}
+
+            {isExpanded && (
+              files.length === 0 ? (
+                <div className="pl-8 py-1 text-[10px] text-muted">No changes yet</div>
+              ) : files.map(file => {
+                const key = `${worktree.id}:${file.path}`;
+                const name = file.path.split('/').pop() || file.path;
+                const dir = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '';
+                return (
+                  <div
+                    key={key}
+                    onClick={() => openDiff(worktree.id, file.path)}
+                    className="flex items-center text-xs py-0.5 pl-5 pr-1.5 rounded-md hover:bg-white/10 cursor-pointer"
+                    data-tooltip={file.from ? `${file.from} → ${file.path}` : file.path}
+                    data-tooltip-position="right"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!deselected.has(key)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => setDeselected(toggle(deselected, key))}
+                      className="mr-1.5 accent-current"
+                      title="Include when cherry-picking"
+                    />
+                    <span className="truncate text-foreground">{name}</span>
+                    {dir && <span className="ml-1.5 truncate text-[10px] text-muted">{dir}</span>}
+                    <span className="ml-auto pl-1 text-[10px] font-mono text-muted shrink-0">
+                      {file.binary ? 'binary' : `+${file.additions} -${file.deletions}`}
+                    </span>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
-import { Check, X, FileText, CheckCircle2 } from 'lucide-react';
+import { Check, X, FileText, CheckCircle2, ShieldCheck, Layers } from 'lucide-react';
 import { useStore } from '../store';
 
 export default function BatchApprovalWidget() {
-  const { pendingDiffs, acceptedDiffs, rejectedDiffs, acceptDiff, rejectDiff, openFileByPath } = useStore();
+  const { pendingDiffs, acceptedDiffs, rejectedDiffs, acceptDiff, rejectDiff, openFileByPath, changeSets, acceptChangeSet, rejectChangeSet } = useStore();
   
   // Filter out accepted/rejected diffs - only show pending ones
   const pendingEntries = Array.from(pendingDiffs.entries()).filter(
@@ -10,16 +10,43 @@ export default function BatchApprovalWidget() {
   ) as [string, any][]; // Cast as string array
   const pendingCount = pendingEntries.length;
 
+  // Files of a change set are listed under it and only approved or rejected with it
+  const setFiles = new Set(changeSets.flatMap(c => c.filePaths));
+  const singleEntries = pendingEntries.filter(([filePath]) => !setFiles.has(filePath));
+  const pendingSets = changeSets
+    .map(changeSet => ({ changeSet, entries: pendingEntries.filter(([filePath]) => changeSet.filePaths.includes(filePath)) }))
+    .filter(({ entries }) => entries.length > 0);
+
   if (pendingCount === 0) return null;
 
   const handleApproveAll = () => {
-    for (const [filePath] of pendingEntries) {
+    for (const { changeSet } of pendingSets) {
+      acceptChangeSet(changeSet.id);
+    }
+    for (const [filePath] of singleEntries) {
       acceptDiff(filePath);
     }
   };
 
+  // Save an allow rule so future agent edits to this file apply without review
+  const handleAlwaysAllow = async (filePath: string) => {
+    const res = await window.electronAPI?.permissions?.addRule({
+      tool: ['write_file', 'edit_file', 'apply_patch'],
+      path: filePath,
+      action: 'allow',
+    });
+    if (res && !res.success) {
+      console.error('[BatchApprovalWidget] Failed to save permission rule:', res.error);
+      return;
+    }
+    acceptDiff(filePath);
+  };
+
   const handleRejectAll = () => {
-    for (const [filePath] of pendingEntries) {
+    for (const { changeSet } of pendingSets) {
+      rejectChangeSet(changeSet.id);
+    }
+    for (const [filePath] of singleEntries) {
       rejectDiff(filePath);
     }
   };
@@ -63,7 +90,62 @@ export default function BatchApprovalWidget() {
       </div>
       
       <div className="p-2 max-h-60 overflow-y-auto space-y-1">
-        {pendingEntries.map(([filePath, diff]) => {
+        {pendingSets.map(({ changeSet, entries }) => {
+          const stats = entries.reduce((total, [, diff]) => {
+            const { added, removed } = getChangeStats(diff.original || '', diff.modified || '');
+            return { added: total.added + added, removed: total.removed + removed };
+          }, { added: 0, removed: 0 });
+
+          return (
+            <div key={changeSet.id} className="rounded-lg bg-white/5">
+              <div className="group flex items-center justify-between gap-3 px-3 py-2">
+                <div className="flex items-center gap-3 flex-1 min-w-0">
+                  <Layers size={14} className="text-accent shrink-0" />
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-xs font-medium text-foreground truncate font-mono">{changeSet.title}</span>
+                    <span className="text-[10px] text-muted">{entries.length} file{entries.length !== 1 ? 's' : ''}, applied together</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2 text-[10px] font-mono">
+                    <span className="text-green-400/80">+{stats.added}</span>
+                    <span className="text-rose-400/80">-{stats.removed}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => rejectChangeSet(changeSet.id)}
+                      className="p-1.5 text-muted hover:text-rose-400 hover:bg-rose-500/10 rounded-md transition-all"
+                      title="Reject the whole change"
+                    >
+                      <X size={14} />
+                    </button>
+                    <button
+                      onClick={() => acceptChangeSet(changeSet.id)}
+                      className="p-1.5 text-muted hover:text-green-400 hover:bg-green-500/10 rounded-md transition-all"
+                      title="Apply the whole change"
+                    >
+                      <Check size={14} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+              {changeSet.error && <div className="px-3 pb-2 text-[10px] text-rose-400">{changeSet.error}</div>}
+              <div className="pb-1">
+                {entries.map(([filePath]) => (
+                  <div
+                    key={filePath}
+                    className="group flex items-center gap-3 pl-9 pr-3 py-1 cursor-pointer"
+                    onClick={() => openFileByPath(filePath)}
+                  >
+                    <span className="text-[10px] text-muted truncate font-mono group-hover:text-accent transition-colors">{filePath}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {singleEntries.map(([filePath, diff]) => {
           const fileName = filePath.split('/').pop() || filePath;
           const stats = getChangeStats(diff.original || '', diff.modified || '');
           
@@ -97,6 +179,13 @@ export default function BatchApprovalWidget() {
                   >
                     <Check size={14} />
                   </button>
+                  <button
+                    onClick={() => handleAlwaysAllow(filePath)}
+                    className="p-1.5 text-muted hover:text-accent hover:bg-accent/10 rounded-md transition-all"
+                    title="Always allow changes to this file"
+                  >
+                    <ShieldCheck size={14} />
+                  </button>
                 </div>
               </div>
             </div>
@@ -6,6 +6,8 @@ import EditorPanel from './EditorPanel';
 import PDFCanvas from './PDFCanvas';
 import OfficeCanvas from './OfficeCanvas';
 import MediaGallery from './MediaGallery';
+import GitDiffPane from './GitDiffPane';
+import MonacoDiffView from './MonacoDiffView';
 
 export default function Canvas() {
   const { panes, activePaneId, setActivePane, closePane, updatePaneContent, theme } = useStore();
@@ -122,7 +124,7 @@ export default function Canvas() {
               onDragOver={handleDragOver}
               onDrop={(e) => handleDrop(e, index)}
               onDragEnd={handleDragEnd}
-              data-tooltip={pane.id.startsWith('untitled-') ? pane.name : pane.id}
+              data-tooltip={pane.id.startsWith('untitled-') ? pane.name : pane.type === 'git-diff' || pane.type === 'replace-preview' ? pane.data?.filePath : pane.id}
               data-tooltip-position="bottom"
               className={`
                 flex items-center pl-2 pr-1.5 py-0.5 text-[11px] font-medium rounded-md
@@ -202,6 +204,20 @@ export default function Canvas() {
                 mediaItems={pane.data || []}
                 mediaType="video"
               />
+            ) : pane.type === 'git-diff' ? (
+              <GitDiffPane
+                filePath={pane.data?.filePath}
+                staged={!!pane.data?.staged}
+                worktreeId={pane.data?.worktreeId}
+              />
+            ) : pane.type === 'replace-preview' ? (
+              <MonacoDiffView
+                filePath={pane.data?.filePath}
+                original={pane.data?.original || ''}
+                modified={pane.data?.modified || ''}
+                sideBySide
+                className="h-full w-full"
+              />
             ) : (
               <div className="p-4">Unsupported file type for {pane.name}</div>
             )}
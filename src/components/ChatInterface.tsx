@@ -1,18 +1,20 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Image as ImageIcon, FileText, X, ChevronDown, Trash2, Plus, Undo, Redo, Scissors, Copy, ClipboardPaste, Type, Smile, Trash, CheckCircle2, ClipboardList } from 'lucide-react';
-import { useStore } from '../store';
+import { Image as ImageIcon, FileText, X, ChevronDown, Trash2, Plus, Undo, Redo, Scissors, Copy, ClipboardPaste, Type, Smile, Trash, CheckCircle2, ClipboardList, GitBranch } from 'lucide-react';
+import { useStore, appendOutput, TerminalOutput } from '../store';
 import ReactMarkdown from 'react-markdown';
 import TaskList from './TaskList';
 import TodoWidget from './TodoWidget';
 import BatchApprovalWidget from './BatchApprovalWidget';
 import DiffWidget from './DiffWidget';
 import CommandWidget from './CommandWidget';
+import VerificationWidget, { VerificationReport } from './VerificationWidget';
 import StatusMessage from './StatusMessage';
 import ContextMenu from './ContextMenu';
 import EmojiPicker from './EmojiPicker';
 import { useChatSessionService } from '../services/chat-session.service';
-import { aiBackendApiService, AIBackendChunk } from '../services/ai-backend-api.service';
+import { aiBackendApiService, AIBackendChunk, ChatOptions } from '../services/ai-backend-api.service';
 import { ProjectPlan } from '../models/plan.model';
+import type { CommandRisk } from '../types/electron';
 
 // Helper function to map tool names to friendly status messages
 function getStatusMessage(toolName: string, args: Record<string, any>): string {
@@ -39,11 +41,61 @@ function getStatusMessage(toolName: string, args: Record<string, any>): string {
       return `Searching web for "${args.query || args.search_term || 'query'}"...`;
     case 'task_complete':
       return 'Task Complete';
-    default:
+    case 'start_process': {
+      const command = args.command || '';
+      return `Starting ${args.name || (command.length > 40 ? command.substring(0, 37) + '...' : command)} in the background...`;
+    }
+    case 'read_process_output':
+      return `Reading output of ${args.process_id || 'process'}...`;
+    case 'send_process_input':
+      return `Sending input to ${args.process_id || 'process'}...`;
+    case 'stop_process':
+      return `Stopping ${args.process_id || 'process'}...`;
+    case 'git_status':
+      return 'Checking git status...';
+    case 'git_diff':
+      return `Diffing ${args.path || (args.staged ? 'staged changes' : args.ref || 'changes')}...`;
+    case 'git_log':
+      return `Reading git history${args.path ? ` of ${args.path}` : ''}...`;
+    case 'git_blame':
+      return `Blaming ${args.path || 'file'}...`;
+    case 'git_show':
+      return `Showing ${args.ref || 'HEAD'}${args.path ? `:${args.path}` : ''}...`;
+    case 'git_commit':
+      return `Committing: ${(args.message || '').split('\n')[0]}`;
+    case 'git_checkout':
+      return `${args.create ? 'Creating branch' : 'Checking out'} ${args.ref || ''}...`;
+    case 'get_diagnostics': {
+      const paths = Array.isArray(args.paths) ? args.paths : [];
+      return `Checking ${paths.length === 0 ? 'the project' : paths.length === 1 ? paths[0] : `${paths.length} files`} for errors...`;
+    }
+    case 'find_definition':
+      return `Finding the definition of ${args.symbol || 'symbol'}${args.path ? ` in ${args.path}` : ''}...`;
+    case 'find_references':
+      return `Finding references to ${args.symbol || 'symbol'}${args.path ? ` in ${args.path}` : ''}...`;
+    case 'list_symbols':
+      return `Outlining ${args.path || 'file'}...`;
+    case 'workspace_symbols':
+      return `Searching symbols for "${args.query || ''}"...`;
+    case 'rename_symbol':
+      return `Renaming ${args.symbol || 'symbol'} to ${args.new_name || '...'}...`;
+    case 'submit_review': {
+      const count = Array.isArray(args.comments) ? args.comments.length : 0;
+      return `Submitting review (${count} comment${count === 1 ? '' : 's'})...`;
+    }
+    case 'mcp_read_resource':
+      return `Reading ${args.uri || 'resource'} (${args.server || 'MCP'})...`;
+    default: {
+      // MCP tools are named mcp__<server>__<tool>
+      const mcpMatch = toolName.match(/^mcp__(.+?)__(.+)$/);
+      if (mcpMatch) return `Calling ${mcpMatch[2]} (${mcpMatch[1]})...`;
       return `${toolName}...`;
+    }
   }
 }
 
+const BLOCKED_CODES = ['PATH_OUTSIDE_PROJECT', 'PERMISSION_DENIED', 'PERMISSION_REJECTED', 'COMMAND_BLOCKED', 'TOOL_NOT_ALLOWED'];
+
 const MOCK_ERRORS: Record<string, string[]> = {
   'teh': ['the', 'ten', 'tea'],
   'recieve': ['receive'],
@@ -61,11 +113,12 @@ type ChatEvent =
   | { type: 'status'; message: string; id: string; isActive: boolean; isComplete: boolean; callId?: string }
   | { type: 'plan'; plan: ProjectPlan; id: string; callId?: string }
   | { type: 'diff'; filePath: string; id: string; callId?: string }
-  | { type: 'command'; command: string; callId: string; id: string; needsPassword: boolean; output?: Array<{ command?: string; output: string; type: 'command' | 'stdout' | 'stderr' | 'error' }> }
-  | { type: 'summary'; content: string; id: string };
+  | { type: 'command'; command: string; callId: string; id: string; needsPassword: boolean; risk?: CommandRisk; riskReasons?: string[]; output?: TerminalOutput[]; running?: boolean; exitCode?: number | null }
+  | { type: 'summary'; content: string; id: string }
+  | { type: 'verification'; report: VerificationReport; id: string };
 
 export default function ChatInterface() {
-  const { messages, addMessage, contextFiles, contextImages, clearMessages, setMessages, removeContextFile, removeContextImage, setActivePlan, pendingDiffs, diffHistory, acceptedDiffs, rejectedDiffs, acceptDiff, rejectDiff, openFileByPath, artifacts, addArtifact, clearArtifacts, geminiApiKey, deepseekApiKey, groqApiKey, grokApiKey, moonshotApiKey, aiProvider, aiBackendModel, projectContext, contextMode, licenseTier, windsurfApiKey, windsurfServiceKey, windsurfBYOKProvider, windsurfBYOKApiKey, windsurfUseBYOK } = useStore();
+  const { messages, addMessage, contextFiles, contextImages, clearMessages, setMessages, removeContextFile, removeContextImage, setActivePlan, pendingDiffs, diffHistory, acceptedDiffs, rejectedDiffs, acceptDiff, rejectDiff, openFileByPath, changeSets, artifacts, addArtifact, clearArtifacts, geminiApiKey, deepseekApiKey, groqApiKey, grokApiKey, moonshotApiKey, openaiApiKey, anthropicApiKey, customEndpoints, activeCustomEndpointId, aiProvider, aiBackendModel, projectContext, contextMode, licenseTier, windsurfApiKey, windsurfServiceKey, windsurfBYOKProvider, windsurfBYOKApiKey, windsurfUseBYOK } = useStore();
   const sessionService = useChatSessionService();
   const [input, setInput] = useState('');
   const [streaming, setStreaming] = useState(false);
@@ -77,12 +130,17 @@ export default function ChatInterface() {
   const [showSessionDropdown, setShowSessionDropdown] = useState(false);
   const [activeFunctionCalls, setActiveFunctionCalls] = useState<Map<string, { name: string; args: Record<string, any>; startTime: number; statusId?: string }>>(new Map());
   const [taskCompleted, setTaskCompleted] = useState(false);
-  const [pendingCommands, setPendingCommands] = useState<Map<string, { command: string; needsPassword: boolean }>>(new Map());
+  const [pendingCommands, setPendingCommands] = useState<Map<string, { command: string; needsPassword: boolean; cwd?: string }>>(new Map());
   const [lightboxImage, setLightboxImage] = useState<string | null>(null);
   
   const currentStreamingMessageIdRef = useRef<string | null>(null);
   const lastMessageCountRef = useRef<number>(0);
   const currentTextSegmentRef = useRef<string>(''); 
+  const reviewTitleRef = useRef<string>(''); // What the running review covers
+  const worktreeRunRef = useRef(false); // The running task works in a git worktree
+  const isolateAgentRuns = useStore(state => state.isolateAgentRuns);
+  const setIsolateAgentRuns = useStore(state => state.setIsolateAgentRuns);
+  const verificationSettings = useStore(state => state.verificationSettings);
   
   const [streamingEvents, setStreamingEvents] = useState<ChatEvent[]>([]);
   const [eventsByMessageId, setEventsByMessageId] = useState<Map<string, ChatEvent[]>>(new Map()); 
@@ -94,6 +152,41 @@ export default function ChatInterface() {
   // Use a ref to store events while streaming to ensure they're available for migration
   const streamingEventsRef = useRef<ChatEvent[]>([]);
 
+  // Command events live in the streaming list or, once the run ends, under their message
+  const updateCommandEvent = useCallback((callId: string, update: (event: Extract<ChatEvent, { type: 'command' }>) => ChatEvent) => {
+    const apply = (events: ChatEvent[]) => {
+      let changed = false;
+      const next = events.map(e => {
+        if (e.type !== 'command' || e.callId !== callId) return e;
+        changed = true;
+        return update(e);
+      });
+      return changed ? next : events;
+    };
+    setStreamingEvents(prev => apply(prev));
+    setEventsByMessageId(prev => {
+      let next = prev;
+      for (const [msgId, events] of prev.entries()) {
+        const updated = apply(events);
+        if (updated === events) continue;
+        if (next === prev) next = new Map(prev);
+        next.set(msgId, updated);
+      }
+      return next;
+    });
+  }, []);
+
+  const appendCommandOutput = useCallback((callId: string, stream: 'stdout' | 'stderr', text: string) => {
+    updateCommandEvent(callId, e => ({ ...e, output: appendOutput(e.output || [], { output: text, type: stream }) }));
+    useStore.getState().addTerminalOutput({ output: text, type: stream });
+  }, [updateCommandEvent]);
+
+  // Output of commands the user approved streams in over IPC
+  useEffect(() => {
+    if (!window.electronAPI?.command) return;
+    return window.electronAPI.command.onOutput(({ id, stream, data }) => appendCommandOutput(id, stream, data));
+  }, [appendCommandOutput]);
+
   // Migrate events when a new assistant message is added
   useEffect(() => {
     const currentMessageCount = messages.length;
@@ -205,12 +298,13 @@ export default function ChatInterface() {
     processedContentRef.current = streamingContent;
   }, [streamingContent, artifacts, addArtifact]);
 
-  const handleSend = async (messageOverride?: string) => {
+  const handleSend = async (messageOverride?: string, runOptions?: Pick<ChatOptions, 'review'>) => {
     const messageToSend = messageOverride || input.trim();
     if (!messageToSend || streaming) return;
 
     const effectiveProvider = aiProvider;
     let selectedApiKey: string | undefined;
+    const customEndpoint = customEndpoints.find(e => e.id === activeCustomEndpointId);
     
     // Handle API key selection based on provider
     if (effectiveProvider === 'windsurf') {
@@ -225,17 +319,41 @@ export default function ChatInterface() {
       selectedApiKey = groqApiKey;
     } else if (effectiveProvider === 'moonshot') {
       selectedApiKey = moonshotApiKey;
+    } else if (effectiveProvider === 'openai') {
+      selectedApiKey = openaiApiKey;
+    } else if (effectiveProvider === 'anthropic') {
+      selectedApiKey = anthropicApiKey;
+    } else if (effectiveProvider === 'custom') {
+      selectedApiKey = customEndpoint?.apiKey || undefined;
     } else if (effectiveProvider === 'ollama') {
       selectedApiKey = undefined;
     } else {
       selectedApiKey = geminiApiKey;
     }
+
+    if (effectiveProvider === 'custom' && !customEndpoint) {
+      addMessage({ role: 'assistant', content: 'Please add a custom endpoint in Settings to start chatting.' });
+      return;
+    }
     
-    if (!selectedApiKey && effectiveProvider !== 'ollama' && !(effectiveProvider === 'windsurf')) {
+    if (!selectedApiKey && effectiveProvider !== 'ollama' && effectiveProvider !== 'custom' && !(effectiveProvider === 'windsurf')) {
       addMessage({ role: 'assistant', content: `Please set your ${effectiveProvider.charAt(0).toUpperCase() + effectiveProvider.slice(1)} API key in Settings to start chatting.` });
       return;
     }
 
+    if (runOptions?.review && effectiveProvider === 'windsurf') {
+      addMessage({ role: 'assistant', content: 'Code review runs through the CandyCode agent. Choose a provider other than Windsurf in Settings to review changes.' });
+      return;
+    }
+
+    // Reviews only read, so they always look at the working copy
+    const isolate = isolateAgentRuns && !runOptions?.review;
+    if (isolate && effectiveProvider === 'windsurf') {
+      addMessage({ role: 'assistant', content: 'Worktree isolation runs through the CandyCode agent. Choose a provider other than Windsurf in Settings, or turn off Worktree.' });
+      return;
+    }
+    worktreeRunRef.current = false;
+
     const userMessage = messageToSend;
     if (!messageOverride) setInput('');
     if (textareaRef.current) textareaRef.current.style.height = 'auto';
@@ -322,9 +440,11 @@ export default function ChatInterface() {
               const next = new Map(prev);
               const call = next.get(callIdKey);
               if (call?.statusId) {
+                // Calls stopped by the path jail or permission rules show why in the status line
+                const blocked = result?.code && BLOCKED_CODES.includes(result.code);
                 setStreamingEvents(prevEvents => prevEvents.map(e => 
                   e.type === 'status' && e.callId === callIdKey
-                    ? { ...e, isActive: false, isComplete: true }
+                    ? { ...e, isActive: false, isComplete: true, ...(blocked ? { message: `Blocked: ${result.error}` } : {}) }
                     : e
                 ));
               }
@@ -332,6 +452,17 @@ export default function ChatInterface() {
               return next;
             });
 
+            if (funcName === 'submit_review' && result && !result.error) {
+              useStore.getState().setActiveReview({
+                id: `review_${Date.now()}`,
+                title: reviewTitleRef.current || 'Code review',
+                summary: result.summary || '',
+                comments: (result.comments || []).map((c: any) => ({ ...c, status: 'open' })),
+                createdAt: Date.now(),
+              });
+              window.dispatchEvent(new CustomEvent('chat-panel:select-tab', { detail: 'review' }));
+            }
+
             if (funcName === 'create_plan' && result && !result.error) {
               const plan: ProjectPlan = {
                 id: `plan_${Date.now()}`,
@@ -354,23 +485,29 @@ export default function ChatInterface() {
               }]);
             }
 
-            if (funcName === 'write_file' && result && !result.error) {
-              const filePath: string = result.file_path || result.path || '';
-              if (filePath && currentStreamingMessageIdRef.current) {
+            if ((funcName === 'write_file' || funcName === 'edit_file' || funcName === 'apply_patch') && result && !result.error && result.status !== 'buffering') {
+              // apply_patch may touch several files; write_file/edit_file produce a single diff
+              const changes: Array<{ filePath: string; original?: string; modified: string }> = Array.isArray(result.patched_files)
+                ? result.patched_files.map((f: any) => ({ filePath: f.file_path, original: f.originalContent, modified: f.content || '' }))
+                : [{ filePath: result.file_path || result.path || '', original: result.originalContent, modified: result.content || result.modified || '' }];
+              
+              for (const change of changes) {
+                const filePath = change.filePath;
+                if (!filePath || !currentStreamingMessageIdRef.current) continue;
+                
                 const { pendingDiffs, diffHistory, acceptedDiffs, rejectedDiffs } = useStore.getState();
                 const newDiffs = new Map(pendingDiffs);
                 const newHistory = new Map(diffHistory);
                 const newAccepted = new Set(acceptedDiffs);
                 const newRejected = new Set(rejectedDiffs);
-                const content = result.content || result.modified || '';
                 
                 newAccepted.delete(filePath);
                 newRejected.delete(filePath);
                 
                 const diff = {
                   filePath,
-                  original: result.originalContent || ((newDiffs.get(filePath) as any)?.original) || '',
-                  modified: content
+                  original: change.original || ((newDiffs.get(filePath) as any)?.original) || '',
+                  modified: change.modified
                 };
                 
                 newDiffs.set(filePath, diff);
@@ -389,30 +526,54 @@ export default function ChatInterface() {
                   id: `diff_${filePath}_${Date.now()}`,
                   callId: callIdKey
                 }]);
+
+                // A permission rule allows this change, apply it right away
+                if (result.autoApproved) {
+                  useStore.getState().acceptDiff(filePath);
+                }
+              }
+            }
+
+            if (funcName === 'rename_symbol' && result && !result.error && Array.isArray(result.patched_files)) {
+              // One change set: the user approves or rejects the refactoring as a whole
+              const { proposeChangeSet, acceptChangeSet } = useStore.getState();
+              const changeSetId = proposeChangeSet(result.title, result.patched_files.map((f: any) => ({ filePath: f.file_path, original: f.originalContent || '', modified: f.content || '' })));
+              for (const f of result.patched_files) {
+                setStreamingEvents(prev => [...prev, {
+                  type: 'diff',
+                  filePath: f.file_path,
+                  id: `diff_${f.file_path}_${Date.now()}`,
+                  callId: callIdKey
+                }]);
+              }
+              if (result.autoApproved) {
+                acceptChangeSet(changeSetId);
               }
             }
 
-            if (funcName === 'execute_command' && result) {
+            if ((funcName === 'execute_command' || funcName === 'run_tests') && result) {
               if (result.status === 'pending') {
-                setPendingCommands(prev => new Map(prev).set(callIdKey || 'cmd', { command: result.command, needsPassword: result.needsPassword }));
+                setPendingCommands(prev => new Map(prev).set(callIdKey || 'cmd', { command: result.command, needsPassword: result.needsPassword, cwd: result.cwd }));
                 setStreamingEvents(prev => [...prev, {
                   type: 'command',
                   command: result.command || '',
                   callId: callIdKey || 'cmd',
                   id: `command_${callIdKey || 'cmd'}_${Date.now()}`,
-                  needsPassword: result.needsPassword || false
+                  needsPassword: result.needsPassword || false,
+                  risk: result.risk,
+                  riskReasons: result.riskReasons,
                 }]);
               } else {
-                const output = [
-                  { command: result.command, output: result.command, type: 'command' as const },
-                  { output: result.stdout, type: 'stdout' as const },
-                  { output: result.stderr, type: 'stderr' as const },
-                ];
-                setStreamingEvents(prev => prev.map(e => 
-                  e.type === 'command' && e.callId === (callIdKey || 'cmd')
-                    ? { ...e, output }
-                    : e
-                ));
+                // Output already streamed in through command_output; the result only has a summary
+                updateCommandEvent(callIdKey || 'cmd', e => {
+                  const output = e.output && e.output.length > 1 ? e.output : [
+                    { command: result.command, output: result.command, type: 'command' as const },
+                    { output: result.stdout || '', type: 'stdout' as const },
+                    { output: result.stderr || '', type: 'stderr' as const },
+                  ];
+                  const note = result.message || result.error;
+                  return { ...e, running: false, exitCode: result.exit_code ?? null, output: note ? appendOutput(output, { output: note, type: 'error' }) : output };
+                });
               }
             }
 
@@ -441,6 +602,57 @@ export default function ChatInterface() {
             break;
           }
 
+          case 'command_start': {
+            const callIdKey = chunk.callId || 'cmd';
+            const command = chunk.data?.command || '';
+            setStreamingEvents(prev => [...prev, {
+              type: 'command',
+              command,
+              callId: callIdKey,
+              id: `command_${callIdKey}_${Date.now()}`,
+              needsPassword: false,
+              running: true,
+              output: [{ command, output: command, type: 'command' }],
+            }]);
+            useStore.getState().addTerminalOutput({ command, output: command, type: 'command' });
+            break;
+          }
+
+          case 'command_output':
+            if (chunk.callId && chunk.data) appendCommandOutput(chunk.callId, chunk.data.stream, chunk.data.text);
+            break;
+
+          case 'worktree':
+            worktreeRunRef.current = true;
+            setStreamingEvents(prev => [...prev, {
+              type: 'status',
+              message: `Working in worktree ${chunk.data?.branch || ''}. Review the changes in Source Control when the task is done.`,
+              id: `worktree_${Date.now()}`,
+              isActive: false,
+              isComplete: true,
+            }]);
+            break;
+
+          case 'verification': {
+            // Each attempt is one block, updated from running to its result
+            const report: VerificationReport = chunk.data;
+            const eventId = `verification_${report.attempt}`;
+            if (currentTextSegmentRef.current.trim()) {
+              setStreamingEvents(prev => [...prev, {
+                type: 'text',
+                content: currentTextSegmentRef.current.trim(),
+                id: `text_${Date.now()}_${Math.random()}`
+              }]);
+              currentTextSegmentRef.current = '';
+              setStreamingContent('');
+            }
+            setStreamingEvents(prev => prev.some(e => e.id === eventId)
+              ? prev.map(e => e.id === eventId ? { type: 'verification', report, id: eventId } : e)
+              : [...prev, { type: 'verification', report, id: eventId }]);
+            if (report.retrying) setTaskCompleted(false);
+            break;
+          }
+
           case 'error':
             setStreamingContent(prev => prev + `\n\n[Error: ${chunk.data}]\n\n`);
             break;
@@ -448,6 +660,8 @@ export default function ChatInterface() {
           case 'done':
             streamingRef.current = false;
             setStreaming(false);
+            // The source control panel lists the worktree's changes
+            if (worktreeRunRef.current) window.dispatchEvent(new CustomEvent('git:changed'));
             
             if (currentTextSegmentRef.current.trim()) {
               setStreamingEvents(prev => {
@@ -510,10 +724,20 @@ export default function ChatInterface() {
           },
           conversationHistory: messages.map(m => ({ role: m.role, content: m.content })),
           licenseTier: licenseTier, // Pass license tier
+          sessionId: sessionService.currentSessionId || undefined, // Background processes belong to the session
+          review: runOptions?.review,
+          worktree: isolate || undefined,
+          verify: verificationSettings.enabled && !runOptions?.review ? {
+            eslint: verificationSettings.eslint,
+            typescript: verificationSettings.typescript,
+            testCommand: verificationSettings.testCommand || undefined,
+            maxAttempts: verificationSettings.maxAttempts,
+          } : undefined,
           // Windsurf-specific options
           windsurfUseBYOK: effectiveProvider === 'windsurf' ? windsurfUseBYOK : undefined,
           windsurfBYOKProvider: effectiveProvider === 'windsurf' && windsurfBYOKProvider ? windsurfBYOKProvider : undefined,
-          windsurfBYOKApiKey: effectiveProvider === 'windsurf' ? windsurfBYOKApiKey : undefined
+          windsurfBYOKApiKey: effectiveProvider === 'windsurf' ? windsurfBYOKApiKey : undefined,
+          customEndpoint: effectiveProvider === 'custom' ? customEndpoint : undefined
         },
         handleChunk
       );
@@ -523,43 +747,65 @@ export default function ChatInterface() {
     }
   };
 
+  // "Review changes" in the source control panel starts its run in this chat
+  const handleSendRef = useRef(handleSend);
+  handleSendRef.current = handleSend;
+  useEffect(() => {
+    const handleStartReview = (e: Event) => {
+      const { title, review } = (e as CustomEvent).detail;
+      reviewTitleRef.current = title;
+      handleSendRef.current(`Review ${title.charAt(0).toLowerCase()}${title.slice(1)}`, { review });
+    };
+    window.addEventListener('review:start', handleStartReview);
+    return () => window.removeEventListener('review:start', handleStartReview);
+  }, []);
+
   const handleCommandApproval = async (callId: string, approved: boolean) => {
     const cmdData = pendingCommands.get(callId);
     if (!cmdData) return;
     setPendingCommands(prev => { const n = new Map(prev); n.delete(callId); return n; });
     
     if (approved) {
+      const commandLine = { command: cmdData.command, output: cmdData.command, type: 'command' as const };
+      updateCommandEvent(callId, e => ({ ...e, running: true, output: [commandLine] }));
+      useStore.getState().addTerminalOutput(commandLine);
       try {
-        const res = await window.electronAPI.executeCommand(cmdData.command, { timeout: 60000 });
-        const output = [
-          { command: cmdData.command, output: cmdData.command, type: 'command' as const },
-          { output: res.stdout, type: 'stdout' as const },
-          { output: res.stderr, type: 'stderr' as const },
-        ];
-        
-        setStreamingEvents(prev => prev.map(e => 
-          e.type === 'command' && e.callId === callId
-            ? { ...e, output }
-            : e
-        ));
-
-        setEventsByMessageId(prev => {
-          const next = new Map(prev);
-          for (const [msgId, events] of next.entries()) {
-            const updatedEvents = events.map(e => 
-              e.type === 'command' && e.callId === callId ? { ...e, output } : e
-            );
-            next.set(msgId, updatedEvents);
-          }
-          return next;
-        });
-
+        // Output streams in through command:output while this resolves on exit
+        const res = await window.electronAPI.executeCommand(cmdData.command, { timeout: 300000, cwd: cmdData.cwd || projectContext || undefined, id: callId });
+        const note = res.killed || res.exitCode === -1 ? res.error : null;
+        updateCommandEvent(callId, e => ({
+          ...e,
+          running: false,
+          exitCode: res.exitCode ?? null,
+          output: note ? appendOutput(e.output || [], { output: note, type: 'error' }) : e.output,
+        }));
       } catch (e: any) {
+        updateCommandEvent(callId, ev => ({ ...ev, running: false }));
         addMessage({ role: 'assistant', content: `Error: ${e.message}` });
       }
     }
   };
 
+  const handleCommandInput = (callId: string, text: string) => {
+    window.electronAPI.command?.writeStdin(callId, text);
+    // Echo what was typed, stdin is not a terminal
+    appendCommandOutput(callId, 'stdout', text);
+  };
+
+  const handleKillCommand = (callId: string) => {
+    window.electronAPI.command?.kill(callId);
+  };
+
+  const handleAlwaysAllowCommand = async (callId: string) => {
+    const cmdData = pendingCommands.get(callId);
+    if (!cmdData) return;
+    const res = await window.electronAPI.permissions?.addRule({ tool: ['execute_command', 'run_tests'], command: cmdData.command, action: 'allow' });
+    if (res && !res.success) {
+      addMessage({ role: 'assistant', content: `Error: ${res.error || 'Failed to save permission rule'}` });
+    }
+    await handleCommandApproval(callId, true);
+  };
+
   const handleAddFile = async () => {
     if (!window.electronAPI?.showOpenDialog) return;
     
@@ -747,12 +993,25 @@ export default function ChatInterface() {
             <CommandWidget 
               command={event.command} 
               needsPassword={event.needsPassword} 
+              risk={event.risk}
+              riskReasons={event.riskReasons}
               callId={event.callId} 
               terminalOutput={event.output || []} 
+              running={event.running}
+              exitCode={event.exitCode}
               onApprove={handleCommandApproval} 
+              onSendInput={handleCommandInput}
+              onKill={handleKillCommand}
+              onAlwaysAllow={handleAlwaysAllowCommand}
             />
           </div>
         );
+      case 'verification':
+        return (
+          <div key={event.id} className="w-full py-1">
+            <VerificationWidget report={event.report} active={streaming} />
+          </div>
+        );
       case 'summary':
         return (
           <div key={event.id} className="prose prose-invert prose-slate max-w-full text-foreground text-sm leading-relaxed overflow-hidden pt-2 border-t mt-4" style={{ borderColor: 'var(--border-color)' }}>
@@ -875,7 +1134,7 @@ export default function ChatInterface() {
           </div>
         )}
 
-        {taskCompleted && Array.from(pendingDiffs.entries()).filter(([p]) => !acceptedDiffs.has(p) && !rejectedDiffs.has(p)).length > 0 && (
+        {(taskCompleted || changeSets.length > 0) && Array.from(pendingDiffs.entries()).filter(([p]) => !acceptedDiffs.has(p) && !rejectedDiffs.has(p)).length > 0 && (
           <div className="w-full border-t pt-4 mt-4" style={{ borderColor: 'var(--border-color)' }}>
             <BatchApprovalWidget />
           </div>
@@ -956,6 +1215,13 @@ export default function ChatInterface() {
               <button onClick={() => setShowTasks(!showTasks)} className={`flex items-center gap-1.5 text-[10px] transition-colors ${showTasks ? 'text-accent' : 'text-muted hover:text-foreground'}`}>
                 <ClipboardList size={12} /> Tasks
               </button>
+              <button
+                onClick={() => setIsolateAgentRuns(!isolateAgentRuns)}
+                className={`flex items-center gap-1.5 text-[10px] transition-colors ${isolateAgentRuns ? 'text-accent' : 'text-muted hover:text-foreground'}`}
+                title={isolateAgentRuns ? 'Tasks run in a separate git worktree; merge them from Source Control' : 'Run tasks in a separate git worktree instead of your working copy'}
+              >
+                <GitBranch size={12} /> Worktree
+              </button>
             </div>
 
             {!streaming ? (
@@ -971,7 +1237,7 @@ export default function ChatInterface() {
               </button>
             ) : (
               <button
-                onClick={() => { streamingRef.current = false; setStreaming(false); aiBackendApiService.cancel(); }}
+                onClick={() => { streamingRef.current = false; setStreaming(false); aiBackendApiService.cancel(sessionService.currentSessionId || undefined); }}
                 className="w-[26px] h-[26px] rounded-full flex items-center justify-center transition-all shadow-lg"
                 style={{ backgroundColor: 'var(--button-bg)', color: 'var(--button-text)' }}
               >
@@ -1,10 +1,21 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import ChatInterface from './ChatInterface';
 import UserTerminal from './UserTerminal';
-import { TerminalSquare, MessageSquare } from 'lucide-react';
+import ProcessPanel from './ProcessPanel';
+import ReviewPanel from './ReviewPanel';
+import { TerminalSquare, MessageSquare, Activity, MessageSquareCode } from 'lucide-react';
+
+type ChatPanelTab = 'candy' | 'terminal' | 'processes' | 'review';
 
 export default function ChatPanel() {
-  const [activeTab, setActiveTab] = useState<'candy' | 'terminal'>('candy');
+  const [activeTab, setActiveTab] = useState<ChatPanelTab>('candy');
+
+  // Other panels bring a tab forward, e.g. the review tab once findings arrive
+  useEffect(() => {
+    const handleSelectTab = (e: Event) => setActiveTab((e as CustomEvent<ChatPanelTab>).detail);
+    window.addEventListener('chat-panel:select-tab', handleSelectTab);
+    return () => window.removeEventListener('chat-panel:select-tab', handleSelectTab);
+  }, []);
 
   return (
     <div className="flex flex-col w-full h-full bg-transparent overflow-hidden relative shadow-2xl">
@@ -39,6 +50,34 @@ export default function ChatPanel() {
             <TerminalSquare className="w-3.5 h-3.5" />
             Terminal
           </button>
+          <button
+            onClick={() => setActiveTab('processes')}
+            className={`flex-1 px-2 py-1.5 rounded text-xs font-medium transition-all flex items-center justify-center gap-2 ${
+              activeTab === 'processes'
+                ? 'text-white shadow-lg'
+                : 'bg-white/5 text-muted hover:bg-white/10'
+            }`}
+            style={activeTab === 'processes' ? {
+              background: 'var(--accent-gradient)'
+            } : {}}
+          >
+            <Activity className="w-3.5 h-3.5" />
+            Processes
+          </button>
+          <button
+            onClick={() => setActiveTab('review')}
+            className={`flex-1 px-2 py-1.5 rounded text-xs font-medium transition-all flex items-center justify-center gap-2 ${
+              activeTab === 'review'
+                ? 'text-white shadow-lg'
+                : 'bg-white/5 text-muted hover:bg-white/10'
+            }`}
+            style={activeTab === 'review' ? {
+              background: 'var(--accent-gradient)'
+            } : {}}
+          >
+            <MessageSquareCode className="w-3.5 h-3.5" />
+            Review
+          </button>
         </div>
       </div>
 
@@ -65,6 +104,28 @@ export default function ChatPanel() {
         >
           <UserTerminal />
         </div>
+
+        <div
+          className="absolute inset-0 transition-opacity duration-200"
+          style={{
+            opacity: activeTab === 'processes' ? 1 : 0,
+            pointerEvents: activeTab === 'processes' ? 'auto' : 'none',
+            zIndex: activeTab === 'processes' ? 10 : 0
+          }}
+        >
+          <ProcessPanel />
+        </div>
+
+        <div
+          className="absolute inset-0 transition-opacity duration-200"
+          style={{
+            opacity: activeTab === 'review' ? 1 : 0,
+            pointerEvents: activeTab === 'review' ? 'auto' : 'none',
+            zIndex: activeTab === 'review' ? 10 : 0
+          }}
+        >
+          <ReviewPanel />
+        </div>
       </div>
     </div>
   );
@@ -1,28 +1,39 @@
 import { useState, useRef, useEffect } from 'react';
-import { Check, X, Lock } from 'lucide-react';
-
-interface TerminalOutput {
-  command?: string;
-  output: string;
-  type: 'command' | 'stdout' | 'stderr' | 'error';
-}
+import { Check, X, Lock, ShieldCheck, AlertTriangle, Square, CornerDownLeft } from 'lucide-react';
+import type { CommandRisk } from '../types/electron';
+import type { TerminalOutput } from '../store';
 
 interface CommandWidgetProps {
   command: string;
   needsPassword: boolean;
+  risk?: CommandRisk;
+  riskReasons?: string[]; // Why the command needs approval, from the shell analysis
   callId: string;
   terminalOutput?: TerminalOutput[];
+  running?: boolean;
+  exitCode?: number | null;
   onApprove: (callId: string, approved: boolean, password?: string) => void;
+  onAlwaysAllow?: (callId: string) => void; // Saves an allow rule for this command, then runs it
+  onSendInput?: (callId: string, text: string) => void; // Writes to the running process's stdin
+  onKill?: (callId: string) => void;
 }
 
 export default function CommandWidget({
   command,
   needsPassword,
+  risk,
+  riskReasons = [],
   callId,
   terminalOutput = [],
+  running = false,
+  exitCode = null,
   onApprove,
+  onAlwaysAllow,
+  onSendInput,
+  onKill,
 }: CommandWidgetProps) {
   const [password, setPassword] = useState('');
+  const [stdin, setStdin] = useState('');
   const [isApproving, setIsApproving] = useState(false);
   const outputEndRef = useRef<HTMLDivElement>(null);
 
@@ -36,13 +47,28 @@ export default function CommandWidget({
     setIsApproving(false);
   };
 
+  const handleAlwaysAllow = async () => {
+    if (!onAlwaysAllow) return;
+    setIsApproving(true);
+    await onAlwaysAllow(callId);
+    setIsApproving(false);
+  };
+
   const handleReject = async () => {
     setIsApproving(true);
     await onApprove(callId, false);
     setIsApproving(false);
   };
 
-  const isExecuted = terminalOutput.length > 0;
+  const handleSendInput = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onSendInput) return;
+    onSendInput(callId, stdin + '\n');
+    setStdin('');
+  };
+
+  const isExecuted = running || terminalOutput.length > 0;
+  const riskColor = risk === 'privileged' || risk === 'destructive' ? 'text-rose-400' : 'text-amber-400';
 
   return (
     <div className="rounded-lg overflow-hidden bg-white/5 border border-border backdrop-blur-sm shadow-lg my-2">
@@ -94,6 +120,16 @@ export default function CommandWidget({
                 >
                   <Check className="h-3 w-3" />
                 </button>
+                {onAlwaysAllow && (
+                  <button
+                    onClick={handleAlwaysAllow}
+                    disabled={isApproving}
+                    className="px-2 py-1 text-xs font-medium text-muted bg-white/5 hover:text-foreground hover:bg-white/10 rounded transition-all duration-150 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                    title="Always allow this command"
+                  >
+                    <ShieldCheck className="h-3 w-3" />
+                  </button>
+                )}
                 <button
                   onClick={handleReject}
                   disabled={isApproving}
@@ -108,13 +144,40 @@ export default function CommandWidget({
         </div>
       )}
 
+      {!isExecuted && riskReasons.length > 0 && (
+        <div className="px-3 py-2 border-t border-border text-[11px] space-y-0.5">
+          {risk && (
+            <div className={`flex items-center gap-1.5 font-semibold uppercase tracking-wide text-[10px] ${riskColor}`}>
+              <AlertTriangle className="w-3 h-3" /> {risk}
+            </div>
+          )}
+          {riskReasons.map((reason, idx) => (
+            <div key={idx} className="text-muted">{reason}</div>
+          ))}
+        </div>
+      )}
+
       {/* Terminal Output */}
       {isExecuted && (
         <>
           <div className="px-3 py-2 bg-white/5 border-b border-border flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <span className="text-xs font-mono text-muted">$ {command}</span>
+            <div className="flex items-center gap-2 min-w-0">
+              {running && <div className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse shrink-0" />}
+              <span className="text-xs font-mono text-muted truncate" title={command}>$ {command}</span>
             </div>
+            {running && onKill ? (
+              <button
+                onClick={() => onKill(callId)}
+                className="px-2 py-1 text-[10px] font-medium text-rose-400/90 bg-rose-500/10 hover:bg-rose-500/20 rounded transition-all duration-150 flex items-center gap-1 shrink-0 ml-4"
+                title="Stop command"
+              >
+                <Square className="h-3 w-3" /> Stop
+              </button>
+            ) : exitCode !== null && (
+              <span className={`text-[10px] font-mono shrink-0 ml-4 ${exitCode === 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                exit {exitCode}
+              </span>
+            )}
           </div>
           <div className="max-h-64 overflow-y-auto p-2 font-mono text-xs scrollbar-hide bg-black/20">
             {terminalOutput.length === 0 ? (
@@ -140,6 +203,21 @@ export default function CommandWidget({
               </div>
             )}
           </div>
+          {running && onSendInput && (
+            <form onSubmit={handleSendInput} className="flex items-center gap-2 px-2 py-1.5 border-t border-border bg-black/10">
+              <span className="text-xs font-mono text-accent">&gt;</span>
+              <input
+                type="text"
+                value={stdin}
+                onChange={(e) => setStdin(e.target.value)}
+                placeholder="Send input to the command..."
+                className="flex-1 bg-transparent text-xs font-mono text-foreground placeholder-muted focus:outline-none"
+              />
+              <button type="submit" className="p-1 text-muted hover:text-foreground" title="Send (Enter)">
+                <CornerDownLeft className="h-3 w-3" />
+              </button>
+            </form>
+          )}
         </>
       )}
     </div>
@@ -1,7 +1,6 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Check, X, ChevronDown, ChevronRight, FileText, ExternalLink } from 'lucide-react';
-import loader from '@monaco-editor/loader';
-import { useStore } from '../store';
+import MonacoDiffView, { getDiffBackgroundColor } from './MonacoDiffView';
 
 interface DiffWidgetProps {
   filePath: string;
@@ -22,44 +21,12 @@ export default function DiffWidget({
   onReject,
   onOpenFile 
 }: DiffWidgetProps) {
-  const { theme } = useStore();
   const [isExpanded, setIsExpanded] = useState(false);
   const [addedLines, setAddedLines] = useState(0);
   const [removedLines, setRemovedLines] = useState(0);
-  const diffContainerRef = useRef<HTMLDivElement>(null);
-  const diffEditorRef = useRef<any>(null);
-  const originalModelRef = useRef<any>(null);
-  const modifiedModelRef = useRef<any>(null);
   
   const fileName = filePath.split('/').pop() || filePath;
 
-  // Detect language from file extension
-  const getLanguage = (path: string): string => {
-    const ext = path.split('.').pop()?.toLowerCase() || '';
-    const langMap: Record<string, string> = {
-      'js': 'javascript',
-      'jsx': 'javascript',
-      'ts': 'typescript',
-      'tsx': 'typescript',
-      'py': 'python',
-      'md': 'markdown',
-      'json': 'json',
-      'html': 'html',
-      'css': 'css',
-      'scss': 'scss',
-      'sh': 'shell',
-      'bash': 'shell',
-      'yaml': 'yaml',
-      'yml': 'yaml',
-      'go': 'go',
-      'rs': 'rust',
-      'java': 'java',
-      'cpp': 'cpp',
-      'c': 'c',
-    };
-    return langMap[ext] || 'plaintext';
-  };
-
   // Calculate changes
   useEffect(() => {
     const originalLines = original.split('\n');
@@ -70,94 +37,13 @@ export default function DiffWidget({
     setRemovedLines(Math.max(0, originalLines.length - modifiedLines.length));
   }, [original, modified]);
 
-  useEffect(() => {
-    if (isExpanded && diffContainerRef.current) {
-      loader.init().then((monaco) => {
-        if (!diffContainerRef.current) return;
-
-        // Clean up previous models
-        if (originalModelRef.current) originalModelRef.current.dispose();
-        if (modifiedModelRef.current) modifiedModelRef.current.dispose();
-
-        const language = getLanguage(filePath);
-        originalModelRef.current = monaco.editor.createModel(original, language);
-        modifiedModelRef.current = monaco.editor.createModel(modified, language);
-
-        if (diffEditorRef.current) {
-          diffEditorRef.current.dispose();
-        }
-
-        // Get background color for Monaco editor
-        const bgColor = getBackgroundColor();
-        
-        // Use inline diff view (renderSideBySide: false) which shows +/- indicators
-        diffEditorRef.current = monaco.editor.createDiffEditor(diffContainerRef.current, {
-          theme: theme === 'light' ? 'vs' : 'vs-dark',
-          readOnly: true,
-          renderSideBySide: false, // Inline mode shows +/- indicators, no side-by-side line numbers
-          originalEditable: false,
-          automaticLayout: true,
-          minimap: { enabled: false },
-          scrollBeyondLastLine: false,
-          fontSize: 12,
-          lineNumbers: 'off', // Remove line numbers - use +/- indicators only
-          renderIndicators: true, // Show +/- indicators on the left
-          diffWordWrap: 'off',
-        });
-        
-        // Update Monaco editor background color to match theme
-        if (diffEditorRef.current) {
-          const editor = diffEditorRef.current.getModifiedEditor();
-          const originalEditor = diffEditorRef.current.getOriginalEditor();
-          
-          // Set background color via editor options
-          editor.updateOptions({
-            // Monaco will use the container's background, but we can also set it explicitly
-          });
-          
-          // Apply background color to the editor container elements
-          const editorContainer = diffContainerRef.current;
-          if (editorContainer) {
-            const monacoElements = editorContainer.querySelectorAll('.monaco-editor, .monaco-diff-editor');
-            monacoElements.forEach((el: any) => {
-              if (el.style) {
-                el.style.backgroundColor = bgColor;
-              }
-            });
-          }
-        }
-
-        diffEditorRef.current.setModel({
-          original: originalModelRef.current,
-          modified: modifiedModelRef.current,
-        });
-      });
-    }
-
-    return () => {
-      if (diffEditorRef.current) {
-        diffEditorRef.current.dispose();
-        diffEditorRef.current = null;
-      }
-    };
-  }, [isExpanded, original, modified, filePath, theme]);
-
-  // Get background color from CSS variables
-  const getBackgroundColor = () => {
-    if (typeof window === 'undefined') return '#0f172a';
-    const bgColor = getComputedStyle(document.documentElement)
-      .getPropertyValue('--settings-bg')
-      .trim() || '#0f172a';
-    return bgColor;
-  };
-
   return (
     <div className={`rounded-lg overflow-hidden border transition-all duration-200 backdrop-blur-sm ${
       status === 'accepted' ? 'border-green-500/30' : 
       status === 'rejected' ? 'border-rose-500/30' : 
       'border-border'
     }`}
-    style={{ backgroundColor: getBackgroundColor() }}
+    style={{ backgroundColor: getDiffBackgroundColor() }}
     >
       <div 
         className={`px-3 py-2 flex items-center justify-between cursor-pointer group ${
@@ -223,10 +109,11 @@ export default function DiffWidget({
       </div>
 
       {isExpanded && (
-        <div 
-          ref={diffContainerRef} 
+        <MonacoDiffView
+          filePath={filePath}
+          original={original}
+          modified={modified}
           className="h-[300px] w-full"
-          style={{ backgroundColor: getBackgroundColor() }}
         />
       )}
       
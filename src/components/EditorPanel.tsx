@@ -1,6 +1,9 @@
 import { useEffect, useRef, useState, useMemo } from 'react';
 import Editor, { useMonaco } from '@monaco-editor/react';
 import { useStore } from '../store';
+import { SEVERITY_STYLES } from './ReviewPanel';
+import type { ReviewComment } from '../models/review.model';
+import type { GitLineChange } from '../types/electron';
 
 interface EditorPanelProps {
   filePath: string | null;
@@ -9,13 +12,148 @@ interface EditorPanelProps {
   language?: string;
 }
 
+// Rough wrap width of a review comment inside its zone
+const REVIEW_ZONE_CHARS_PER_LINE = 110;
+
+/**
+ * View zone under a review comment; its buttons are handled in onMouseDown
+ * because Monaco owns mouse events inside the editor
+ */
+function createReviewZone(comment: ReviewComment): { domNode: HTMLElement; heightInLines: number } {
+  const domNode = document.createElement('div');
+  domNode.className = 'review-zone';
+
+  const header = document.createElement('div');
+  header.className = 'flex items-center gap-2';
+  const badge = document.createElement('span');
+  badge.className = `px-1.5 rounded text-[10px] font-medium ${SEVERITY_STYLES[comment.severity].className}`;
+  badge.textContent = SEVERITY_STYLES[comment.severity].label;
+  header.appendChild(badge);
+
+  const actions: Array<[string, string]> = comment.suggestion !== undefined ? [['apply', 'Apply fix'], ['dismiss', 'Dismiss']] : [['dismiss', 'Dismiss']];
+  actions.forEach(([action, label], i) => {
+    const button = document.createElement('button');
+    button.className = `${i === 0 ? 'ml-auto ' : ''}text-[11px] text-muted hover:text-foreground cursor-pointer`;
+    button.dataset.reviewAction = action;
+    button.dataset.commentId = comment.id;
+    button.textContent = label;
+    header.appendChild(button);
+  });
+
+  const message = document.createElement('div');
+  message.className = 'text-foreground whitespace-pre-wrap';
+  message.textContent = comment.error ? `${comment.message}\n${comment.error}` : comment.message;
+  domNode.append(header, message);
+
+  const messageLines = message.textContent.split('\n')
+    .reduce((count, line) => count + Math.max(1, Math.ceil(line.length / REVIEW_ZONE_CHARS_PER_LINE)), 0);
+  return { domNode, heightInLines: messageLines + 2 };
+}
+
+// Longest stretch of HEAD's lines a peek shows before cutting off
+const GIT_PEEK_MAX_LINES = 20;
+
+/**
+ * View zone with what HEAD has in place of a change, and a button to put it
+ * back; handled in onMouseDown like the review zones
+ */
+function createOriginalZone(change: GitLineChange): { domNode: HTMLElement; heightInLines: number } {
+  const domNode = document.createElement('div');
+  domNode.className = 'git-peek-zone';
+
+  const header = document.createElement('div');
+  header.className = 'flex items-center gap-2';
+  const title = document.createElement('span');
+  title.className = 'text-[11px] text-muted';
+  title.textContent = change.kind === 'added'
+    ? 'Not in HEAD'
+    : `HEAD · ${change.originalLines.length} line${change.originalLines.length === 1 ? '' : 's'} ${change.kind === 'deleted' ? 'deleted' : 'changed'}`;
+  header.appendChild(title);
+  ([['revert', 'Revert change'], ['close', 'Close']] as const).forEach(([action, label], i) => {
+    const button = document.createElement('button');
+    button.className = `${i === 0 ? 'ml-auto ' : ''}text-[11px] text-muted hover:text-foreground cursor-pointer`;
+    button.dataset.gitAction = action;
+    button.textContent = label;
+    header.appendChild(button);
+  });
+  domNode.appendChild(header);
+
+  const shown = change.originalLines.slice(0, GIT_PEEK_MAX_LINES);
+  if (shown.length > 0) {
+    const original = document.createElement('pre');
+    original.className = 'git-peek-original';
+    original.textContent = shown.join('\n')
+      + (change.originalLines.length > shown.length ? `\n… ${change.originalLines.length - shown.length} more lines` : '');
+    domNode.appendChild(original);
+  }
+  return { domNode, heightInLines: 1 + shown.length + (change.originalLines.length > shown.length ? 1 : 0) };
+}
+
+/**
+ * Put HEAD's lines back in place of a change, as an undoable edit
+ */
+function revertLineChange(editor: any, monaco: any, change: GitLineChange) {
+  const model = editor.getModel();
+  if (!model) return;
+  const eol = model.getEOL();
+  const lineCount = model.getLineCount();
+  // Deletions replace the empty run of lines after startLine
+  const start = change.kind === 'deleted' ? change.startLine + 1 : change.startLine;
+  const end = change.kind === 'deleted' ? change.startLine : change.endLine;
+
+  let range;
+  let text;
+  if (end < lineCount) {
+    range = new monaco.Range(start, 1, end + 1, 1);
+    text = change.originalLines.map(line => line + eol).join('');
+  } else if (start > 1) {
+    // Up to the end of the file: take the line break before the change instead
+    range = new monaco.Range(start - 1, model.getLineMaxColumn(start - 1), end, model.getLineMaxColumn(end));
+    text = change.originalLines.map(line => eol + line).join('');
+  } else {
+    range = model.getFullModelRange();
+    text = change.originalLines.join(eol);
+  }
+  editor.pushUndoStop();
+  editor.executeEdits('git-revert', [{ range, text, forceMoveMarkers: true }]);
+  editor.pushUndoStop();
+}
+
+const REFACTORABLE_FILE = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/i;
+
+// Input for a refactoring started from the editor; 1-based like Monaco
+interface RefactorPrompt {
+  kind: 'rename' | 'move';
+  value: string; // The new name, or the target file relative to the project
+  range: { startLine: number; startColumn: number; endLine: number; endColumn: number };
+  busy?: boolean;
+  error?: string;
+}
+
 export default function EditorPanel({ filePath, content, onChange, language }: EditorPanelProps) {
   const [editorContent, setEditorContent] = useState(content);
   const editorRef = useRef<any>(null);
   const monaco = useMonaco();
   const { theme, customThemes, activeCustomThemeId, activeStandardThemeId, saveFile, refreshOpenFiles } = useStore();
+  const activeReview = useStore(state => state.activeReview);
+  const revealLine = useStore(state => state.revealLine);
+  const [editorReady, setEditorReady] = useState(false);
+  const reviewDecorationsRef = useRef<string[]>([]);
+  const reviewZonesRef = useRef<string[]>([]);
+  const [lineChanges, setLineChanges] = useState<GitLineChange[]>([]);
+  const [gitRevision, setGitRevision] = useState(0); // Bumped when the file or HEAD may have changed
+  const [gitPeekLine, setGitPeekLine] = useState<number | null>(null); // Start of the change whose original is shown
+  const lineChangesRef = useRef<GitLineChange[]>([]);
+  const gitDecorationsRef = useRef<string[]>([]);
+  const gitZoneRef = useRef<string | null>(null);
+  const gitPeekLineRef = useRef(gitPeekLine);
+  lineChangesRef.current = lineChanges;
+  gitPeekLineRef.current = gitPeekLine;
   // Generate a stable ID for untitled files to ensure they get a consistent model path
   const [uniqueId] = useState(() => Math.random().toString(36).substr(2, 9));
+  const [refactorPrompt, setRefactorPrompt] = useState<RefactorPrompt | null>(null);
+  const filePathRef = useRef(filePath);
+  filePathRef.current = filePath;
 
   // Calculate current theme string
   const currentTheme = useMemo(() => {
@@ -26,6 +164,11 @@ export default function EditorPanel({ filePath, content, onChange, language }: E
     return 'alpha-theme';
   }, [theme, activeStandardThemeId]);
 
+  // A refactoring prompt belongs to the file it was opened in
+  useEffect(() => {
+    setRefactorPrompt(null);
+  }, [filePath]);
+
   // Update editor content when prop changes
   useEffect(() => {
     if (content !== editorContent) {
@@ -56,6 +199,106 @@ export default function EditorPanel({ filePath, content, onChange, language }: E
     return () => window.removeEventListener('trigger-command-palette', handleTriggerPalette);
   }, []);
 
+  // Open review comments on this file: tinted lines and a zone under each finding
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editorReady || !editor || !monaco) return;
+    const comments = (activeReview?.comments || []).filter(c => c.filePath === filePath && c.status === 'open');
+
+    reviewDecorationsRef.current = editor.deltaDecorations(reviewDecorationsRef.current, comments.map(c => ({
+      range: new monaco.Range(c.startLine, 1, c.endLine, 1),
+      options: {
+        isWholeLine: true,
+        className: `review-line-${c.severity}`,
+        linesDecorationsClassName: `review-gutter review-gutter-${c.severity}`,
+        overviewRuler: { color: c.severity === 'critical' ? '#f43f5e' : c.severity === 'warning' ? '#f59e0b' : '#0ea5e9', position: monaco.editor.OverviewRulerLane.Right },
+      },
+    })));
+
+    editor.changeViewZones((accessor: any) => {
+      reviewZonesRef.current.forEach(id => accessor.removeZone(id));
+      reviewZonesRef.current = comments.map(c => accessor.addZone({ afterLineNumber: c.endLine, ...createReviewZone(c) }));
+    });
+  }, [editorReady, monaco, activeReview, filePath]);
+
+  // Changes against HEAD for the gutter; compares the buffer so unsaved edits count
+  useEffect(() => {
+    if (!editorReady || !filePath || !window.electronAPI?.git?.lineChanges) {
+      setLineChanges([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await window.electronAPI.git.lineChanges(filePath, editorRef.current?.getValue() ?? editorContent);
+      // Outside a repository or not in HEAD yet: no markers
+      if (!cancelled) setLineChanges('error' in result ? [] : result);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [editorReady, filePath, editorContent, gitRevision]);
+
+  // The watcher and git operations say when to compare again
+  useEffect(() => {
+    const refresh = () => setGitRevision(revision => revision + 1);
+    const onFileEvent = (_: any, data: any) => {
+      if (data?.resolvedPath === filePath) refresh();
+    };
+    const channels = ['file-system:modified', 'file-system:created', 'file-system:deleted'];
+    channels.forEach(channel => window.electronAPI?.on(channel, onFileEvent));
+    window.addEventListener('git:changed', refresh);
+    return () => {
+      channels.forEach(channel => window.electronAPI?.off(channel, onFileEvent));
+      window.removeEventListener('git:changed', refresh);
+    };
+  }, [filePath]);
+
+  // Added, modified and deleted line markers in the gutter
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editorReady || !editor || !monaco) return;
+    const rulerColors = { added: '#34d399', modified: '#60a5fa', deleted: '#f87171' };
+    gitDecorationsRef.current = editor.deltaDecorations(gitDecorationsRef.current, lineChanges.map(change => {
+      const line = Math.max(change.startLine, 1);
+      return {
+        range: new monaco.Range(line, 1, change.kind === 'deleted' ? line : change.endLine, 1),
+        options: {
+          isWholeLine: true,
+          linesDecorationsClassName: `git-gutter git-gutter-${change.kind}${change.kind === 'deleted' && change.startLine === 0 ? ' git-gutter-deleted-top' : ''}`,
+          overviewRuler: { color: rulerColors[change.kind], position: monaco.editor.OverviewRulerLane.Left },
+        },
+      };
+    }));
+  }, [editorReady, monaco, lineChanges]);
+
+  // What HEAD had in place of the change clicked in the gutter
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editorReady || !editor) return;
+    const change = lineChanges.find(c => c.startLine === gitPeekLine);
+    editor.changeViewZones((accessor: any) => {
+      if (gitZoneRef.current) accessor.removeZone(gitZoneRef.current);
+      gitZoneRef.current = change
+        ? accessor.addZone({ afterLineNumber: change.kind === 'deleted' ? change.startLine : change.endLine, ...createOriginalZone(change) })
+        : null;
+    });
+  }, [editorReady, lineChanges, gitPeekLine]);
+
+  useEffect(() => {
+    setGitPeekLine(null);
+  }, [filePath]);
+
+  // Jump to a line requested elsewhere, e.g. a finding in the review panel
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editorReady || !editor || !revealLine || revealLine.filePath !== filePath) return;
+    editor.revealLineInCenter(revealLine.line);
+    editor.setPosition({ lineNumber: revealLine.line, column: revealLine.column || 1 });
+    editor.focus();
+    useStore.getState().setRevealLine(null);
+  }, [editorReady, revealLine, filePath]);
+
   // Determine the correct language ID
   const getLanguageId = (path: string | null, lang?: string) => {
     if (lang) return lang;
@@ -317,6 +560,39 @@ export default function EditorPanel({ filePath, content, onChange, language }: E
   const handleEditorDidMount = (editor: any, _monaco: any) => {
     editorRef.current = editor;
     editor.focus();
+    setEditorReady(true);
+
+    // Gutter markers of git changes toggle a peek at the original lines
+    editor.onMouseDown((e: any) => {
+      if (e.target.type !== _monaco.editor.MouseTargetType.GUTTER_LINE_DECORATIONS) return;
+      const line = e.target.position?.lineNumber;
+      const change = lineChangesRef.current.find(c =>
+        c.kind === 'deleted' ? Math.max(c.startLine, 1) === line : line >= c.startLine && line <= c.endLine);
+      if (change) setGitPeekLine(current => current === change.startLine ? null : change.startLine);
+    });
+
+    // Buttons inside git peek zones
+    editor.onMouseDown((e: any) => {
+      const button = (e.event.browserEvent.target as HTMLElement | null)?.closest?.('[data-git-action]') as HTMLElement | null;
+      if (!button) return;
+      const change = lineChangesRef.current.find(c => c.startLine === gitPeekLineRef.current);
+      if (change && button.dataset.gitAction === 'revert') revertLineChange(editor, _monaco, change);
+      setGitPeekLine(null);
+    });
+
+    // Buttons inside review comment zones
+    editor.onMouseDown((e: any) => {
+      const button = (e.event.browserEvent.target as HTMLElement | null)?.closest?.('[data-review-action]') as HTMLElement | null;
+      const commentId = button?.dataset.commentId;
+      if (!button || !commentId) return;
+      if (button.dataset.reviewAction === 'apply') {
+        useStore.getState().applyReviewSuggestion(commentId).then(applied => {
+          if (applied) window.dispatchEvent(new CustomEvent('chat-panel:select-tab', { detail: 'candy' }));
+        });
+      } else {
+        useStore.getState().setReviewCommentStatus(commentId, 'dismissed');
+      }
+    });
 
     // ESLint integration - run linting on file changes
     let eslintDebounceTimer: NodeJS.Timeout | null = null;
@@ -383,6 +659,45 @@ export default function EditorPanel({ filePath, content, onChange, language }: E
       }
     });
 
+    // Refactorings across the project; the edits are reviewed in the chat as one change
+    editor.addAction({
+      id: 'candy.rename-symbol',
+      label: 'Rename Symbol in Project',
+      keybindings: [_monaco.KeyCode.F2],
+      contextMenuGroupId: '1_modification',
+      contextMenuOrder: 1,
+      run: () => {
+        const position = editor.getPosition();
+        const word = position && editor.getModel()?.getWordAtPosition(position);
+        if (!REFACTORABLE_FILE.test(filePathRef.current || '') || !word) return;
+        setRefactorPrompt({
+          kind: 'rename',
+          value: word.word,
+          range: { startLine: position.lineNumber, startColumn: position.column, endLine: position.lineNumber, endColumn: position.column },
+        });
+      },
+    });
+    editor.addAction({
+      id: 'candy.move-to-file',
+      label: 'Move to File...',
+      contextMenuGroupId: '1_modification',
+      contextMenuOrder: 2,
+      run: () => {
+        const selection = editor.getSelection();
+        const currentPath = filePathRef.current || '';
+        if (!REFACTORABLE_FILE.test(currentPath) || !selection) return;
+        const projectRoot = useStore.getState().projectContext || '';
+        const relativePath = projectRoot && currentPath.startsWith(projectRoot)
+          ? currentPath.slice(projectRoot.length).replace(/^[\\/]+/, '').replace(/\\/g, '/')
+          : currentPath;
+        setRefactorPrompt({
+          kind: 'move',
+          value: relativePath.slice(0, relativePath.lastIndexOf('/') + 1),
+          range: { startLine: selection.startLineNumber, startColumn: selection.startColumn, endLine: selection.endLineNumber, endColumn: selection.endColumn },
+        });
+      },
+    });
+
     // Add Ctrl+S (Command+S on Mac) save command
     editor.addCommand(_monaco.KeyMod.CtrlCmd | _monaco.KeyCode.KeyS, () => {
       const activePaneId = useStore.getState().activePaneId;
@@ -416,6 +731,46 @@ export default function EditorPanel({ filePath, content, onChange, language }: E
     });
   };
 
+  const runRefactoring = async () => {
+    if (!refactorPrompt || !filePath || refactorPrompt.busy) return;
+    const value = refactorPrompt.value.trim();
+    if (!value) return;
+    const fail = (error: string) => setRefactorPrompt(current => current && { ...current, busy: false, error });
+
+    const state = useStore.getState();
+    if (state.panes.find(p => p.id === filePath)?.isUnsaved) {
+      fail('Save the file first');
+      return;
+    }
+    setRefactorPrompt({ ...refactorPrompt, busy: true, error: undefined });
+    const { range } = refactorPrompt;
+    const result = refactorPrompt.kind === 'rename'
+      ? await window.electronAPI.refactor.rename(filePath, range.startLine, range.startColumn, value)
+      : await window.electronAPI.refactor.move(filePath, range, value);
+    if ('error' in result) {
+      fail(result.error);
+      return;
+    }
+
+    // The edits were computed from the files on disk
+    const { panes, pendingDiffs, acceptedDiffs, rejectedDiffs } = useStore.getState();
+    const unsaved = result.files.find(f => panes.find(p => p.id === f.filePath)?.isUnsaved);
+    if (unsaved) {
+      fail(`Save ${unsaved.filePath} first`);
+      return;
+    }
+    const pending = result.files.find(f => pendingDiffs.has(f.filePath) && !acceptedDiffs.has(f.filePath) && !rejectedDiffs.has(f.filePath));
+    if (pending) {
+      fail(`${pending.filePath} has a change waiting for approval; approve or reject it first`);
+      return;
+    }
+
+    state.proposeChangeSet(result.title, result.files.map(f => ({ filePath: f.filePath, original: f.original, modified: f.modified })));
+    setRefactorPrompt(null);
+    state.setChatVisible(true);
+    window.dispatchEvent(new CustomEvent('chat-panel:select-tab', { detail: 'candy' }));
+  };
+
   const registerSnippets = (monacoInstance: any) => {
     const languages = ['typescript', 'javascript', 'python', 'java', 'cpp', 'c', 'go', 'rust', 'php', 'ruby', 'swift', 'kotlin', 'shell', 'bash', 'powershell'];
     
@@ -602,6 +957,38 @@ export default function EditorPanel({ filePath, content, onChange, language }: E
             smoothScrolling: true,
           }}
         />
+        {refactorPrompt && (
+          <div
+            className="absolute top-2 left-1/2 -translate-x-1/2 z-20 w-96 rounded-lg border shadow-2xl p-2"
+            style={{ backgroundColor: 'var(--settings-bg)', borderColor: 'var(--border-color)' }}
+          >
+            <div className="text-[10px] text-muted mb-1">
+              {refactorPrompt.kind === 'rename' ? 'Rename in every file that uses it' : 'Move the selected declarations to (created if missing)'}
+            </div>
+            <input
+              type="text"
+              value={refactorPrompt.value}
+              onChange={(e) => setRefactorPrompt({ ...refactorPrompt, value: e.target.value, error: undefined })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  runRefactoring();
+                } else if (e.key === 'Escape') {
+                  e.preventDefault();
+                  setRefactorPrompt(null);
+                  editorRef.current?.focus();
+                }
+              }}
+              onFocus={(e) => refactorPrompt.kind === 'rename' && e.target.select()}
+              disabled={refactorPrompt.busy}
+              placeholder={refactorPrompt.kind === 'rename' ? 'New name' : 'src/path/to/file.ts'}
+              className="w-full bg-white/5 border border-white/10 rounded-md px-2 py-1 text-xs font-mono text-foreground placeholder-muted focus:outline-none focus:border-accent"
+              autoFocus
+            />
+            {refactorPrompt.busy && <div className="text-[10px] text-muted mt-1">Computing the edits...</div>}
+            {refactorPrompt.error && <div className="text-[10px] text-rose-400 mt-1">{refactorPrompt.error}</div>}
+          </div>
+        )}
       </div>
       {/* Monaco Widget Theming - Matches active theme */}
       <style>{`
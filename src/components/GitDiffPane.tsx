@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ExternalLink, RefreshCw } from 'lucide-react';
+import { useStore } from '../store';
+import MonacoDiffView from './MonacoDiffView';
+
+interface GitDiffPaneProps {
+  filePath: string; // Absolute path; relative to the repository root for worktree diffs
+  staged: boolean; // HEAD vs index instead of index vs working tree
+  worktreeId?: string; // An agent worktree's changes since its base commit
+}
+
+/**
+ * Canvas pane showing one file's git changes side by side.
+ * Reloads when the source control panel reports a change or the file is saved.
+ */
+export default function GitDiffPane({ filePath, staged, worktreeId }: GitDiffPaneProps) {
+  const openFileByPath = useStore(state => state.openFileByPath);
+  const [contents, setContents] = useState<{ original: string; modified: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!window.electronAPI?.git) return;
+    const result = worktreeId
+      ? await window.electronAPI.git.worktreeFileContents(worktreeId, filePath)
+      : await window.electronAPI.git.diffContents(filePath, staged);
+    if ('error' in result) {
+      setError(result.error);
+    } else {
+      setError(null);
+      setContents(result);
+    }
+  }, [filePath, staged, worktreeId]);
+
+  useEffect(() => {
+    load();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleLoad = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(load, 300);
+    };
+    const onModified = (_: any, data: any) => {
+      if (!staged && !worktreeId && data?.resolvedPath === filePath) scheduleLoad();
+    };
+    window.addEventListener('git:changed', scheduleLoad);
+    window.electronAPI?.on('file-system:modified', onModified);
+    return () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener('git:changed', scheduleLoad);
+      window.electronAPI?.off('file-system:modified', onModified);
+    };
+  }, [load, filePath, staged, worktreeId]);
+
+  return (
+    <div className="h-full w-full flex flex-col">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/5 flex-shrink-0">
+        <div className="flex items-center gap-2 min-w-0 text-xs">
+          <span className="text-foreground truncate">{filePath}</span>
+          <span className="px-1.5 py-0.5 rounded bg-white/5 text-[10px] text-muted shrink-0">
+            {worktreeId ? 'Base ↔ Worktree' : staged ? 'HEAD ↔ Staged' : 'Staged ↔ Working Tree'}
+          </span>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            onClick={load}
+            className="p-1.5 rounded-md hover:bg-white/10 text-muted hover:text-foreground transition-all"
+            title="Refresh"
+          >
+            <RefreshCw size={13} />
+          </button>
+          {!worktreeId && (
+            <button
+              onClick={() => openFileByPath(filePath)}
+              className="p-1.5 rounded-md hover:bg-white/10 text-muted hover:text-foreground transition-all"
+              title="Open file"
+            >
+              <ExternalLink size={13} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 text-xs text-rose-400">{error}</div>
+      ) : contents ? (
+        <MonacoDiffView
+          filePath={filePath}
+          original={contents.original}
+          modified={contents.modified}
+          sideBySide
+          className="flex-1 min-h-0 w-full"
+        />
+      ) : (
+        <div className="p-4 text-xs text-muted">Loading diff...</div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
-import { Menu, MessageSquare, Settings, Command, ChevronDown, FilePlus, FolderOpen, Save, LogOut, SquareSplitHorizontal } from 'lucide-react';
+import { Menu, MessageSquare, Settings, CircleAlert, Command, ChevronDown, FilePlus, FolderOpen, Save, LogOut, SquareSplitHorizontal } from 'lucide-react';
 import { useStore } from '../store';
 import { useEffect, useState, useRef } from 'react';
 
 export default function Header() {
-  const { toggleSidebar, toggleChat, setShowSettings, panes, saveFile, createNewFile } = useStore();
+  const { toggleSidebar, toggleChat, toggleProblems, setShowSettings, panes, saveFile, createNewFile } = useStore();
   const [iconUrl, setIconUrl] = useState<string>('/icon.png');
   const [iconError, setIconError] = useState<boolean>(false);
   const [showDropdown, setShowDropdown] = useState(false);
@@ -239,6 +239,14 @@ export default function Header() {
       </div>
 
       <div className="flex items-center gap-1.5 nav-icons">
+        <button
+          onClick={toggleProblems}
+          data-tooltip="Toggle Problems (Ctrl+Shift+M)"
+          data-tooltip-position="bottom"
+          className="p-1 rounded hover:bg-white/10 transition-colors text-muted hover:text-foreground"
+        >
+          <CircleAlert className="h-3.5 w-3.5" />
+        </button>
         <button
           onClick={toggleChat}
           data-tooltip="Toggle Chat"
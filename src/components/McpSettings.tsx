@@ -0,0 +1,397 @@
+import { useState, useEffect } from 'react';
+import { Blocks, Plus, Trash2, Edit2, RefreshCw, Loader2, Check, X, AlertCircle } from 'lucide-react';
+import { useStore } from '../store';
+import Dropdown from './ui/Dropdown';
+import type { McpApproval, McpServerConfig, McpServerStatus } from '../types/electron';
+
+type Scope = 'user' | 'project';
+
+interface ServerDraft {
+  originalName: string | null;
+  name: string;
+  transport: 'stdio' | 'http';
+  command: string;
+  args: string;
+  env: string;
+  url: string;
+  headers: string;
+  defaultApproval: McpApproval;
+}
+
+const APPROVAL_OPTIONS = [
+  { label: 'Ask every time', value: 'ask' },
+  { label: 'Always allow', value: 'allow' },
+  { label: 'Never allow', value: 'deny' },
+];
+// Project config is checked in, so it cannot approve its own tools
+const PROJECT_APPROVAL_OPTIONS = APPROVAL_OPTIONS.filter(option => option.value !== 'allow');
+
+const formatPairs = (pairs: Record<string, string> | undefined, separator: string) =>
+  Object.entries(pairs || {}).map(([key, value]) => `${key}${separator}${value}`).join('\n');
+
+const parsePairs = (text: string, separator: string): Record<string, string> => {
+  const pairs: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(separator);
+    if (index <= 0) continue;
+    const key = line.slice(0, index).trim();
+    if (key) pairs[key] = line.slice(index + 1).trim();
+  }
+  return pairs;
+};
+
+const toDraft = (name: string | null, config?: McpServerConfig): ServerDraft => ({
+  originalName: name,
+  name: name || '',
+  transport: config?.transport || (config?.url ? 'http' : 'stdio'),
+  command: config?.command || '',
+  args: (config?.args || []).join('\n'),
+  env: formatPairs(config?.env, '='),
+  url: config?.url || '',
+  headers: formatPairs(config?.headers, ': '),
+  defaultApproval: config?.defaultApproval || 'ask',
+});
+
+const STATE_COLORS: Record<McpServerStatus['state'], string> = {
+  connected: 'bg-emerald-400',
+  connecting: 'bg-amber-400',
+  error: 'bg-rose-400',
+  disabled: 'bg-slate-500',
+};
+
+export default function McpSettings() {
+  const { projectContext } = useStore();
+  const [scope, setScope] = useState<Scope>('user');
+  const [servers, setServers] = useState<Record<string, McpServerConfig>>({});
+  const [status, setStatus] = useState<McpServerStatus[]>([]);
+  const [draft, setDraft] = useState<ServerDraft | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!window.electronAPI?.mcp) return;
+    window.electronAPI.mcp.getStatus().then(setStatus);
+    return window.electronAPI.mcp.onStatusChanged(setStatus);
+  }, []);
+
+  useEffect(() => {
+    if (!window.electronAPI?.mcp) return;
+    setDraft(null);
+    setError('');
+    window.electronAPI.mcp.getConfig(scope).then(setServers);
+  }, [scope, projectContext]);
+
+  const getStatus = (name: string) => status.find(s => s.name === name && s.scope === scope);
+
+  const save = async (next: Record<string, McpServerConfig>) => {
+    setServers(next);
+    const result = await window.electronAPI.mcp.saveConfig(scope, next);
+    setError(result.success ? '' : result.error || 'Failed to save MCP servers');
+  };
+
+  const updateServer = (name: string, changes: Partial<McpServerConfig>) => {
+    save({ ...servers, [name]: { ...servers[name], ...changes } });
+  };
+
+  const removeServer = (name: string) => {
+    const next = { ...servers };
+    delete next[name];
+    save(next);
+  };
+
+  const setToolApproval = (name: string, tool: string, approval: McpApproval) => {
+    const toolApprovals = { ...(servers[name].toolApprovals || {}), [tool]: approval };
+    updateServer(name, { toolApprovals });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) {
+      setError('Server name is required');
+      return;
+    }
+    if (name !== draft.originalName && servers[name]) {
+      setError(`A server named "${name}" already exists`);
+      return;
+    }
+    if (draft.transport === 'stdio' ? !draft.command.trim() : !draft.url.trim()) {
+      setError(draft.transport === 'stdio' ? 'Command is required' : 'URL is required');
+      return;
+    }
+
+    const previous = draft.originalName ? servers[draft.originalName] : undefined;
+    const config: McpServerConfig = {
+      ...previous,
+      transport: draft.transport,
+      command: draft.transport === 'stdio' ? draft.command.trim() : undefined,
+      args: draft.transport === 'stdio' ? draft.args.split('\n').map(a => a.trim()).filter(Boolean) : undefined,
+      env: draft.transport === 'stdio' ? parsePairs(draft.env, '=') : undefined,
+      url: draft.transport === 'http' ? draft.url.trim() : undefined,
+      headers: draft.transport === 'http' ? parsePairs(draft.headers, ':') : undefined,
+      defaultApproval: draft.defaultApproval,
+    };
+
+    const next = { ...servers };
+    if (draft.originalName) delete next[draft.originalName];
+    next[name] = JSON.parse(JSON.stringify(config)); // Drop undefined fields
+    setDraft(null);
+    save(next);
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      setStatus(await window.electronAPI.mcp.refresh());
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2.5 bg-white/5 border border-border rounded-lg text-foreground placeholder-muted focus:outline-none focus:ring-2 focus:ring-accent/50 transition-all';
+  const scopeClass = (value: Scope) => `flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+    scope === value ? 'bg-accent/10 text-accent' : 'text-muted hover:text-foreground'
+  } disabled:opacity-50`;
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-white/5 border border-border rounded-lg">
+        <div className="flex items-start gap-3">
+          <div className="p-2 rounded-lg bg-white/10">
+            <Blocks className="w-5 h-5 text-accent" />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-foreground mb-1">MCP Servers</h3>
+            <p className="text-xs text-muted leading-relaxed">
+              Connect Model Context Protocol servers to give the agent extra tools. User servers are stored in your profile;
+              project servers live in .candycode/mcp.json and override user servers with the same name.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="flex flex-1 p-1 rounded-lg bg-white/5 border border-border">
+          <button onClick={() => setScope('user')} className={scopeClass('user')}>User</button>
+          <button onClick={() => setScope('project')} disabled={!projectContext} className={scopeClass('project')}>
+            Project
+          </button>
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing}
+          className="text-xs text-accent hover:underline flex items-center gap-1 disabled:opacity-50"
+        >
+          {refreshing ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+          Reconnect
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg border border-rose-500/30 bg-rose-500/10 text-xs text-rose-300 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-muted">Servers ({Object.keys(servers).length})</label>
+          <button onClick={() => setDraft(toDraft(null))} className="text-xs text-accent hover:underline flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Add Server
+          </button>
+        </div>
+
+        {Object.keys(servers).length === 0 ? (
+          <div className="p-3 rounded-lg border border-dashed border-border bg-white/5 text-center text-xs text-muted">
+            No {scope} MCP servers yet
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {Object.entries(servers).map(([name, config]) => {
+              const serverStatus = getStatus(name);
+              const enabled = config.enabled !== false;
+              return (
+                <div key={name} className="rounded-lg border border-border bg-white/5">
+                  <div className="p-3 flex items-center gap-3">
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${STATE_COLORS[serverStatus?.state || (enabled ? 'connecting' : 'disabled')]}`} />
+                    <button onClick={() => setExpanded(expanded === name ? null : name)} className="flex-1 text-left overflow-hidden">
+                      <div className="text-sm font-medium text-foreground">{name}</div>
+                      <div className="text-xs text-muted mt-0.5 truncate">
+                        {serverStatus?.state === 'error'
+                          ? serverStatus.error
+                          : serverStatus?.state === 'connected'
+                            ? `${serverStatus.tools.length} tools, ${serverStatus.resources.length} resources, ${serverStatus.prompts.length} prompts`
+                            : config.url || [config.command, ...(config.args || [])].join(' ')}
+                      </div>
+                    </button>
+                    <label className="flex items-center gap-1.5 text-xs text-muted cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={enabled}
+                        onChange={(e) => updateServer(name, { enabled: e.target.checked })}
+                        className="accent-current"
+                      />
+                      Enabled
+                    </label>
+                    <button
+                      onClick={() => setDraft(toDraft(name, config))}
+                      className="p-1.5 text-muted hover:text-foreground transition-colors"
+                      data-tooltip="Edit server"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeServer(name)}
+                      className="p-1.5 text-muted hover:text-rose-400 transition-colors"
+                      data-tooltip="Remove server"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {expanded === name && (
+                    <div className="px-3 pb-3 space-y-2 border-t border-border pt-3">
+                      {!serverStatus?.tools.length ? (
+                        <div className="text-xs text-muted">No tools available</div>
+                      ) : (
+                        serverStatus.tools.map(tool => (
+                          <div key={tool.name} className="flex items-center gap-3">
+                            <div className="flex-1 min-w-0">
+                              <div className="text-xs font-mono text-foreground truncate">{tool.name}</div>
+                              {tool.description && <div className="text-[11px] text-muted truncate">{tool.description}</div>}
+                            </div>
+                            <Dropdown
+                              value={config.toolApprovals?.[tool.name] || config.defaultApproval || 'ask'}
+                              onChange={(val) => setToolApproval(name, tool.name, val as McpApproval)}
+                              options={scope === 'project' ? PROJECT_APPROVAL_OPTIONS : APPROVAL_OPTIONS}
+                              className="w-40"
+                            />
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <div className="space-y-4 p-4 rounded-lg border border-accent/30 bg-white/5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-muted mb-2">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. github"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-muted mb-2">Transport</label>
+              <Dropdown
+                value={draft.transport}
+                onChange={(val) => setDraft({ ...draft, transport: val as ServerDraft['transport'] })}
+                options={[
+                  { label: 'stdio (local command)', value: 'stdio' },
+                  { label: 'Streamable HTTP (localhost)', value: 'http' },
+                ]}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {draft.transport === 'stdio' ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-muted mb-2">Command</label>
+                <input
+                  type="text"
+                  value={draft.command}
+                  onChange={(e) => setDraft({ ...draft, command: e.target.value })}
+                  placeholder="npx"
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-muted mb-2">Arguments</label>
+                  <textarea
+                    value={draft.args}
+                    onChange={(e) => setDraft({ ...draft, args: e.target.value })}
+                    placeholder={'One per line, e.g.\n-y\n@modelcontextprotocol/server-github'}
+                    rows={3}
+                    className={`${inputClass} font-mono text-xs`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-muted mb-2">Environment</label>
+                  <textarea
+                    value={draft.env}
+                    onChange={(e) => setDraft({ ...draft, env: e.target.value })}
+                    placeholder={'One per line, e.g.\nGITHUB_TOKEN=...'}
+                    rows={3}
+                    className={`${inputClass} font-mono text-xs`}
+                  />
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-muted mb-2">URL</label>
+                <input
+                  type="text"
+                  value={draft.url}
+                  onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                  placeholder="http://localhost:3000/mcp"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-muted mb-2">Headers</label>
+                <textarea
+                  value={draft.headers}
+                  onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+                  placeholder={'One per line, e.g.\nAuthorization: Bearer ...'}
+                  rows={3}
+                  className={`${inputClass} font-mono text-xs`}
+                />
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-muted mb-2">Default Tool Approval</label>
+            <Dropdown
+              value={draft.defaultApproval}
+              onChange={(val) => setDraft({ ...draft, defaultApproval: val as McpApproval })}
+              options={scope === 'project' ? PROJECT_APPROVAL_OPTIONS : APPROVAL_OPTIONS}
+              className="w-full"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 text-xs rounded-lg border border-border text-muted hover:text-foreground flex items-center gap-1"
+            >
+              <X className="w-3 h-3" /> Cancel
+            </button>
+            <button
+              onClick={handleSaveDraft}
+              className="px-3 py-1.5 text-xs rounded-lg bg-accent text-white hover:opacity-90 flex items-center gap-1"
+            >
+              <Check className="w-3 h-3" /> Save Server
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
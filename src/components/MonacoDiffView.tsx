@@ -0,0 +1,128 @@
+import { useEffect, useRef } from 'react';
+import loader from '@monaco-editor/loader';
+import { useStore } from '../store';
+
+interface MonacoDiffViewProps {
+  filePath: string;
+  original: string;
+  modified: string;
+  sideBySide?: boolean; // Inline (+/- indicators) by default
+  className?: string;
+}
+
+// Detect language from file extension
+export const getDiffLanguage = (path: string): string => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  const langMap: Record<string, string> = {
+    'js': 'javascript',
+    'jsx': 'javascript',
+    'ts': 'typescript',
+    'tsx': 'typescript',
+    'py': 'python',
+    'md': 'markdown',
+    'json': 'json',
+    'html': 'html',
+    'css': 'css',
+    'scss': 'scss',
+    'sh': 'shell',
+    'bash': 'shell',
+    'yaml': 'yaml',
+    'yml': 'yaml',
+    'go': 'go',
+    'rs': 'rust',
+    'java': 'java',
+    'cpp': 'cpp',
+    'c': 'c',
+  };
+  return langMap[ext] || 'plaintext';
+};
+
+// Get background color from CSS variables
+export const getDiffBackgroundColor = () => {
+  if (typeof window === 'undefined') return '#0f172a';
+  const bgColor = getComputedStyle(document.documentElement)
+    .getPropertyValue('--settings-bg')
+    .trim() || '#0f172a';
+  return bgColor;
+};
+
+/**
+ * Read-only Monaco diff editor shared by the chat DiffWidget and the
+ * source control diff pane
+ */
+export default function MonacoDiffView({ filePath, original, modified, sideBySide = false, className }: MonacoDiffViewProps) {
+  const { theme } = useStore();
+  const diffContainerRef = useRef<HTMLDivElement>(null);
+  const diffEditorRef = useRef<any>(null);
+  const originalModelRef = useRef<any>(null);
+  const modifiedModelRef = useRef<any>(null);
+
+  useEffect(() => {
+    if (!diffContainerRef.current) return;
+    let disposed = false;
+
+    loader.init().then((monaco) => {
+      if (disposed || !diffContainerRef.current) return;
+
+      // Clean up previous models
+      if (originalModelRef.current) originalModelRef.current.dispose();
+      if (modifiedModelRef.current) modifiedModelRef.current.dispose();
+
+      const language = getDiffLanguage(filePath);
+      originalModelRef.current = monaco.editor.createModel(original, language);
+      modifiedModelRef.current = monaco.editor.createModel(modified, language);
+
+      if (diffEditorRef.current) {
+        diffEditorRef.current.dispose();
+      }
+
+      // Inline mode shows +/- indicators without the side-by-side line numbers
+      diffEditorRef.current = monaco.editor.createDiffEditor(diffContainerRef.current, {
+        theme: theme === 'light' ? 'vs' : 'vs-dark',
+        readOnly: true,
+        renderSideBySide: sideBySide,
+        originalEditable: false,
+        automaticLayout: true,
+        minimap: { enabled: false },
+        scrollBeyondLastLine: false,
+        fontSize: 12,
+        lineNumbers: sideBySide ? 'on' : 'off',
+        renderIndicators: true,
+        diffWordWrap: 'off',
+      });
+
+      // Apply background color to the editor container elements
+      const bgColor = getDiffBackgroundColor();
+      diffContainerRef.current.querySelectorAll('.monaco-editor, .monaco-diff-editor').forEach((el: any) => {
+        if (el.style) {
+          el.style.backgroundColor = bgColor;
+        }
+      });
+
+      diffEditorRef.current.setModel({
+        original: originalModelRef.current,
+        modified: modifiedModelRef.current,
+      });
+    });
+
+    return () => {
+      disposed = true;
+      if (diffEditorRef.current) {
+        diffEditorRef.current.dispose();
+        diffEditorRef.current = null;
+      }
+      originalModelRef.current?.dispose();
+      modifiedModelRef.current?.dispose();
+      originalModelRef.current = null;
+      modifiedModelRef.current = null;
+    };
+  }, [original, modified, filePath, theme, sideBySide]);
+
+  return (
+    <div
+      ref={diffContainerRef}
+      className={className}
+      style={{ backgroundColor: getDiffBackgroundColor() }}
+    />
+  );
+}
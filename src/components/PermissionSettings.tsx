@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { ShieldCheck, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { useStore } from '../store';
+import Dropdown from './ui/Dropdown';
+import type { CommandRisk, PermissionRule } from '../types/electron';
+
+type Scope = 'user' | 'project';
+
+const ACTION_OPTIONS = [
+  { label: 'Allow', value: 'allow' },
+  { label: 'Ask', value: 'ask' },
+  { label: 'Deny', value: 'deny' },
+];
+
+const RISK_OPTIONS = [
+  { label: 'Any command risk', value: '' },
+  { label: 'Read-only', value: 'read-only' },
+  { label: 'Writes in project', value: 'write' },
+  { label: 'Network', value: 'network' },
+  { label: 'Destructive', value: 'destructive' },
+  { label: 'Privileged', value: 'privileged' },
+];
+
+const ACTION_STYLES: Record<PermissionRule['action'], string> = {
+  allow: 'bg-emerald-500/15 text-emerald-400',
+  ask: 'bg-amber-500/15 text-amber-400',
+  deny: 'bg-rose-500/15 text-rose-400',
+};
+
+const EMPTY_DRAFT = { tool: '', path: '', command: '', risk: '' as CommandRisk | '', action: 'ask' as PermissionRule['action'] };
+
+export default function PermissionSettings() {
+  const { projectContext } = useStore();
+  const [scope, setScope] = useState<Scope>('user');
+  const [rules, setRules] = useState<PermissionRule[]>([]);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!window.electronAPI?.permissions) return;
+    setError('');
+    window.electronAPI.permissions.getRules(scope).then(setRules);
+  }, [scope, projectContext]);
+
+  const save = async (next: PermissionRule[]) => {
+    setRules(next);
+    const result = await window.electronAPI.permissions.saveRules(scope, next);
+    setError(result.success ? '' : result.error || 'Failed to save permission rules');
+  };
+
+  const handleAdd = () => {
+    const tools = draft.tool.split(',').map(t => t.trim()).filter(Boolean);
+    if (tools.length === 0) {
+      setError('Tool name is required (use * for every tool)');
+      return;
+    }
+    const rule: PermissionRule = { tool: tools.length === 1 ? tools[0] : tools, action: draft.action };
+    if (draft.path.trim()) rule.path = draft.path.trim();
+    if (draft.command.trim()) rule.command = draft.command.trim();
+    if (draft.risk) rule.risk = draft.risk;
+    setDraft(EMPTY_DRAFT);
+    save([...rules, rule]);
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white/5 border border-border rounded-lg text-foreground text-xs placeholder-muted focus:outline-none focus:ring-2 focus:ring-accent/50 transition-all';
+  const scopeClass = (value: Scope) => `flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+    scope === value ? 'bg-accent/10 text-accent' : 'text-muted hover:text-foreground'
+  } disabled:opacity-50`;
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-white/5 border border-border rounded-lg">
+        <div className="flex items-start gap-3">
+          <div className="p-2 rounded-lg bg-white/10">
+            <ShieldCheck className="w-5 h-5 text-accent" />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-foreground mb-1">Tool Permissions</h3>
+            <p className="text-xs text-muted leading-relaxed">
+              Rules are checked before every agent tool call. Match by tool name, path glob (relative to the project, prefix with ! for
+              paths outside it), command prefix or command risk. Chained commands are checked part by part, and an allowed prefix does not cover output
+              redirected to a file or destructive commands unless the rule lists those risks. The strictest matching rule wins. Project rules live in .candycode/permissions.json; allow rules there only apply once you trust the project.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex p-1 rounded-lg bg-white/5 border border-border">
+        <button onClick={() => setScope('user')} className={scopeClass('user')}>User</button>
+        <button onClick={() => setScope('project')} disabled={!projectContext} className={scopeClass('project')}>
+          Project
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg border border-rose-500/30 bg-rose-500/10 text-xs text-rose-300 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-muted mb-2">Rules ({rules.length})</label>
+        {rules.length === 0 ? (
+          <div className="p-3 rounded-lg border border-dashed border-border bg-white/5 text-center text-xs text-muted">
+            No {scope} rules - tools use their default approval behavior
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <div key={index} className="p-3 rounded-lg border border-border bg-white/5 flex items-center gap-3">
+                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${ACTION_STYLES[rule.action]}`}>
+                  {rule.action}
+                </span>
+                <div className="flex-1 min-w-0 text-xs font-mono">
+                  <div className="text-foreground truncate">{Array.isArray(rule.tool) ? rule.tool.join(', ') : rule.tool}</div>
+                  {(rule.path || rule.command || rule.risk) && (
+                    <div className="text-muted truncate">
+                      {[
+                        rule.path && `path: ${rule.path}`,
+                        rule.command && `command: ${rule.command}`,
+                        rule.risk && `risk: ${Array.isArray(rule.risk) ? rule.risk.join(', ') : rule.risk}`,
+                      ].filter(Boolean).join(' · ')}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => save(rules.filter((_, i) => i !== index))}
+                  className="p-1.5 text-muted hover:text-rose-400 transition-colors"
+                  data-tooltip="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3 p-4 rounded-lg border border-border bg-white/5">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={draft.tool}
+            onChange={(e) => setDraft({ ...draft, tool: e.target.value })}
+            placeholder="Tool(s), e.g. write_file, edit_file"
+            className={inputClass}
+          />
+          <Dropdown
+            value={draft.action}
+            onChange={(val) => setDraft({ ...draft, action: val as PermissionRule['action'] })}
+            options={ACTION_OPTIONS}
+            className="w-full"
+          />
+          <input
+            type="text"
+            value={draft.path}
+            onChange={(e) => setDraft({ ...draft, path: e.target.value })}
+            placeholder="Path glob (optional), e.g. !src/**"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={draft.command}
+            onChange={(e) => setDraft({ ...draft, command: e.target.value })}
+            placeholder="Command prefix (optional), e.g. git push"
+            className={inputClass}
+          />
+          <Dropdown
+            value={draft.risk}
+            onChange={(val) => setDraft({ ...draft, risk: val as CommandRisk | '' })}
+            options={RISK_OPTIONS}
+            className="w-full"
+          />
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={handleAdd}
+            className="px-3 py-1.5 text-xs rounded-lg bg-accent text-white hover:opacity-90 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" /> Add Rule
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronRight, ChevronDown, XCircle, AlertTriangle, Info, X, Loader2, CheckCircle2, Search } from 'lucide-react';
+import { useStore } from '../store';
+import type { Problem, ProblemsSnapshot } from '../types/electron';
+
+type Severity = Problem['severity'];
+
+const SEVERITIES: Array<{ severity: Severity; label: string; icon: typeof XCircle; className: string }> = [
+  { severity: 'error', label: 'Errors', icon: XCircle, className: 'text-rose-400' },
+  { severity: 'warning', label: 'Warnings', icon: AlertTriangle, className: 'text-amber-400' },
+  { severity: 'info', label: 'Info', icon: Info, className: 'text-sky-400' },
+];
+
+const MIN_HEIGHT = 100;
+
+/**
+ * Project-wide TypeScript and ESLint problems under the canvas, grouped by
+ * file. The main process keeps them up to date while the panel is open.
+ */
+export default function ProblemsPanel() {
+  const toggleProblems = useStore(state => state.toggleProblems);
+  const problemsHeight = useStore(state => state.problemsHeight);
+  const setProblemsHeight = useStore(state => state.setProblemsHeight);
+  const openFileByPath = useStore(state => state.openFileByPath);
+  const setRevealLine = useStore(state => state.setRevealLine);
+  const projectContext = useStore(state => state.projectContext);
+  const [snapshot, setSnapshot] = useState<ProblemsSnapshot | null>(null);
+  const [shown, setShown] = useState<Set<Severity>>(new Set(['error', 'warning', 'info']));
+  const [filter, setFilter] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const resizeStart = useRef<{ y: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI?.problems) return;
+    const dispose = window.electronAPI.problems.onChanged(setSnapshot);
+    window.electronAPI.problems.start().then(setSnapshot);
+    return () => {
+      dispose();
+      window.electronAPI.problems.stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    setCollapsed(new Set());
+  }, [projectContext]);
+
+  const startResize = (e: React.MouseEvent) => {
+    e.preventDefault();
+    resizeStart.current = { y: e.clientY, height: problemsHeight };
+    const handleMouseMove = (event: MouseEvent) => {
+      if (!resizeStart.current) return;
+      const maxHeight = window.innerHeight * 0.7;
+      setProblemsHeight(Math.round(Math.max(MIN_HEIGHT, Math.min(maxHeight, resizeStart.current.height + resizeStart.current.y - event.clientY))));
+    };
+    const handleMouseUp = () => {
+      resizeStart.current = null;
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const reveal = async (problem: Problem) => {
+    if (!problem.filePath) return;
+    await openFileByPath(problem.filePath);
+    setRevealLine({ filePath: problem.filePath, line: Math.max(1, problem.line), column: problem.column });
+  };
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value); else next.add(value);
+    return next;
+  };
+
+  const problems = snapshot?.problems || [];
+  const query = filter.trim().toLowerCase();
+  const visible = problems.filter(problem => shown.has(problem.severity) && (!query
+    || problem.message.toLowerCase().includes(query)
+    || problem.path.toLowerCase().includes(query)
+    || (problem.code || '').toLowerCase().includes(query)));
+
+  const files = new Map<string, Problem[]>();
+  for (const problem of visible) {
+    files.set(problem.path, [...(files.get(problem.path) || []), problem]);
+  }
+  const sortedFiles = Array.from(files.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div
+      className="relative flex flex-col shrink-0 border-t bg-background"
+      style={{ height: `${problemsHeight}px`, borderColor: 'var(--border-color)' }}
+    >
+      <div
+        className="absolute top-0 left-0 right-0 h-1 -mt-0.5 cursor-row-resize z-10 hover:bg-accent/50 active:bg-accent transition-colors"
+        onMouseDown={startResize}
+      />
+
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-white/5 shrink-0">
+        <span className="text-[10px] font-semibold uppercase tracking-wide text-muted">Problems</span>
+        {snapshot?.checking && <Loader2 className="w-3 h-3 animate-spin text-muted" />}
+        <div className="flex items-center gap-1 ml-2">
+          {SEVERITIES.map(({ severity, label, icon: Icon, className }) => (
+            <button
+              key={severity}
+              onClick={() => setShown(toggle(shown, severity))}
+              className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] transition-colors ${
+                shown.has(severity) ? 'bg-white/10 text-foreground' : 'text-muted opacity-60 hover:opacity-100'
+              }`}
+              title={`${shown.has(severity) ? 'Hide' : 'Show'} ${label.toLowerCase()}`}
+            >
+              <Icon className={`w-3 h-3 ${className}`} />
+              {problems.filter(problem => problem.severity === severity).length}
+            </button>
+          ))}
+        </div>
+        <div className="ml-auto flex items-center gap-1.5">
+          <div className="relative">
+            <Search className="absolute left-1.5 top-1/2 -translate-y-1/2 w-3 h-3 text-muted" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter"
+              className="w-40 pl-6 pr-2 py-0.5 bg-white/5 border border-border rounded text-[11px] text-foreground placeholder-muted focus:outline-none focus:ring-1 focus:ring-accent/50"
+            />
+          </div>
+          <button
+            onClick={toggleProblems}
+            className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+            title="Close (Ctrl+Shift+M)"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto py-1 text-xs">
+        {!snapshot?.root ? (
+          <div className="px-3 py-2 text-muted">Open a project folder to see its problems.</div>
+        ) : visible.length === 0 && !snapshot.checking ? (
+          <div className="flex items-center gap-1.5 px-3 py-2 text-muted">
+            <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400" />
+            {problems.length === 0 ? 'No problems have been detected in the project.' : 'No problems match the filter.'}
+          </div>
+        ) : sortedFiles.map(([filePath, fileProblems]) => {
+          const isCollapsed = collapsed.has(filePath);
+          const name = filePath ? filePath.split('/').pop() : 'Project';
+          const dir = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+          return (
+            <div key={filePath}>
+              <div
+                onClick={() => setCollapsed(toggle(collapsed, filePath))}
+                className="flex items-center gap-1 px-2 py-0.5 hover:bg-white/5 cursor-pointer"
+              >
+                <span className="text-muted">
+                  {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                </span>
+                <span className="text-foreground truncate">{name}</span>
+                {dir && <span className="text-[10px] text-muted truncate">{dir}</span>}
+                <span className="ml-1 px-1.5 rounded-full bg-white/10 text-[10px] text-muted">{fileProblems.length}</span>
+              </div>
+              {!isCollapsed && fileProblems.map((problem, index) => {
+                const { icon: Icon, className } = SEVERITIES.find(s => s.severity === problem.severity)!;
+                return (
+                  <div
+                    key={`${problem.source}:${problem.line}:${problem.column}:${index}`}
+                    onClick={() => reveal(problem)}
+                    className={`flex items-start gap-1.5 pl-7 pr-3 py-0.5 hover:bg-white/5 ${problem.filePath ? 'cursor-pointer' : ''}`}
+                    title={problem.message}
+                  >
+                    <Icon className={`w-3 h-3 mt-0.5 shrink-0 ${className}`} />
+                    <span className="text-foreground truncate">{problem.message.split('\n')[0]}</span>
+                    <span className="text-[10px] text-muted shrink-0 mt-px">
+                      {problem.source === 'typescript' ? 'ts' : 'eslint'}{problem.code ? `(${problem.code})` : ''}
+                    </span>
+                    {problem.line > 0 && (
+                      <span className="ml-auto pl-2 text-[10px] font-mono text-muted shrink-0 mt-px">
+                        [{problem.line}, {problem.column}]
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+        {snapshot?.notes.map((note, index) => (
+          <div key={index} className="px-3 py-0.5 text-[11px] text-muted">{note}</div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react';
+import { Activity, Square, Trash2 } from 'lucide-react';
+import type { ManagedProcess } from '../types/electron';
+
+// Output kept per process in the panel; the backend holds more
+const MAX_PANEL_OUTPUT = 200000;
+
+function formatUptime(process: ManagedProcess): string {
+  const seconds = Math.floor(((process.endedAt ?? Date.now()) - process.startedAt) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+/**
+ * Background processes the agent started with start_process (dev servers,
+ * watchers), with their live output and a stop button
+ */
+export default function ProcessPanel() {
+  const [processes, setProcesses] = useState<ManagedProcess[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [output, setOutput] = useState('');
+  const [, setTick] = useState(0);
+  const outputRef = useRef<HTMLPreElement>(null);
+  const selectedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI?.processes) return;
+    window.electronAPI.processes.list().then(setProcesses);
+    const cleanupChanged = window.electronAPI.processes.onChanged(setProcesses);
+    const cleanupOutput = window.electronAPI.processes.onOutput(({ id, data }) => {
+      if (id !== selectedRef.current) return;
+      setOutput(prev => (prev + data).slice(-MAX_PANEL_OUTPUT));
+    });
+    return () => {
+      cleanupChanged();
+      cleanupOutput();
+    };
+  }, []);
+
+  // Keep uptimes current while something is running
+  useEffect(() => {
+    if (!processes.some(p => p.status === 'running')) return;
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [processes]);
+
+  useEffect(() => {
+    if (selectedId && !processes.some(p => p.id === selectedId)) {
+      setSelectedId(null);
+    } else if (!selectedId && processes.length > 0) {
+      setSelectedId(processes[processes.length - 1].id);
+    }
+  }, [processes, selectedId]);
+
+  useEffect(() => {
+    selectedRef.current = selectedId;
+    setOutput('');
+    if (selectedId) {
+      window.electronAPI.processes.getOutput(selectedId).then(text => {
+        if (selectedRef.current === selectedId) setOutput(text.slice(-MAX_PANEL_OUTPUT));
+      });
+    }
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [output]);
+
+  if (processes.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-muted text-xs gap-2 p-6 text-center">
+        <Activity className="w-6 h-6 opacity-50" />
+        <div>No background processes.</div>
+        <div className="opacity-70">Dev servers and watchers the agent starts show up here.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-shrink-0 max-h-[40%] overflow-y-auto border-b border-border">
+        {processes.map(p => (
+          <div
+            key={p.id}
+            onClick={() => setSelectedId(p.id)}
+            className={`px-3 py-2 flex items-center gap-2.5 cursor-pointer border-b border-white/5 transition-colors ${
+              p.id === selectedId ? 'bg-white/10' : 'hover:bg-white/5'
+            }`}
+          >
+            <div
+              className={`w-1.5 h-1.5 rounded-full shrink-0 ${
+                p.status === 'running' ? 'bg-emerald-400 animate-pulse' : p.exitCode === 0 || p.status === 'stopped' ? 'bg-slate-500' : 'bg-rose-400'
+              }`}
+            />
+            <div className="min-w-0 flex-1">
+              <div className="text-xs text-foreground truncate" title={p.command}>{p.name}</div>
+              <div className="text-[10px] text-muted font-mono truncate">
+                {p.id} · pid {p.pid} · {p.status === 'running' ? `up ${formatUptime(p)}` : `${p.status}${p.exitCode !== null ? ` (${p.exitCode})` : ''} after ${formatUptime(p)}`}
+              </div>
+            </div>
+            {p.status === 'running' ? (
+              <button
+                onClick={(e) => { e.stopPropagation(); window.electronAPI.processes.stop(p.id); }}
+                className="px-2 py-1 text-[10px] font-medium text-rose-400/90 bg-rose-500/10 hover:bg-rose-500/20 rounded transition-all duration-150 flex items-center gap-1 shrink-0"
+                title="Stop process"
+              >
+                <Square className="h-3 w-3" /> Stop
+              </button>
+            ) : (
+              <button
+                onClick={(e) => { e.stopPropagation(); window.electronAPI.processes.remove(p.id); }}
+                className="p-1 text-muted hover:text-rose-400 shrink-0"
+                title="Remove from list"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <pre
+        ref={outputRef}
+        className="flex-1 overflow-y-auto p-2 font-mono text-xs text-foreground/90 whitespace-pre-wrap break-words bg-black/20"
+      >
+        {output || <span className="text-muted">No output yet</span>}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from 'react';
+import { Search, Clock, Check, File } from 'lucide-react';
+import { useStore } from '../store';
+import type { FoundFile } from '../types/electron';
+
+const RESULT_LIMIT = 50;
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif'];
+
+/**
+ * `src/app.ts:12:5` -> the file query plus where to put the cursor
+ */
+function parseInput(input: string): { query: string; line?: number; column?: number } {
+  const match = input.trim().match(/^(.*?)(?::(\d+))?(?::(\d+))?:?$/);
+  if (!match) return { query: input.trim() };
+  return {
+    query: match[1],
+    line: match[2] ? parseInt(match[2], 10) : undefined,
+    column: match[3] ? parseInt(match[3], 10) : undefined,
+  };
+}
+
+function highlight(text: string, offset: number, positions: Set<number>) {
+  return Array.from(text).map((char, index) => positions.has(index + offset)
+    ? <span key={index} className="text-accent font-semibold">{char}</span>
+    : char);
+}
+
+/**
+ * Ctrl+P file finder over the open project. Recently opened files rank
+ * higher and are listed before anything is typed; Tab selects several files
+ * to add to the chat context.
+ */
+export default function QuickOpen() {
+  const setQuickOpenVisible = useStore(state => state.setQuickOpenVisible);
+  const projectContext = useStore(state => state.projectContext);
+  const recentFiles = useStore(state => state.recentFiles);
+  const openFileByPath = useStore(state => state.openFileByPath);
+  const setRevealLine = useStore(state => state.setRevealLine);
+  const addContextFile = useStore(state => state.addContextFile);
+  const addContextImage = useStore(state => state.addContextImage);
+  const setChatVisible = useStore(state => state.setChatVisible);
+
+  const [input, setInput] = useState('');
+  const [results, setResults] = useState<FoundFile[]>([]);
+  const [active, setActive] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const requestRef = useRef(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { query, line, column } = parseInput(input);
+  const close = () => setQuickOpenVisible(false);
+  const recent = new Set(recentFiles);
+
+  useEffect(() => {
+    if (!projectContext || !window.electronAPI?.findFiles) return;
+    const request = ++requestRef.current;
+    window.electronAPI.findFiles(projectContext, query, { recent: recentFiles, limit: RESULT_LIMIT }).then(found => {
+      if (request !== requestRef.current) return;
+      setResults(found);
+      setActive(0);
+    });
+  }, [query, projectContext, recentFiles]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const open = async (file: FoundFile) => {
+    close();
+    await openFileByPath(file.path);
+    if (line) setRevealLine({ filePath: file.path, line, column });
+  };
+
+  const addToContext = async () => {
+    const paths = selected.size > 0 ? Array.from(selected) : results[active] ? [results[active].path] : [];
+    if (paths.length === 0) return;
+    close();
+    for (const filePath of paths) {
+      const extension = filePath.split('.').pop()?.toLowerCase() || '';
+      if (IMAGE_EXTENSIONS.includes(extension)) {
+        addContextImage({ path: filePath, data: `file://${filePath}` });
+        continue;
+      }
+      const result = await window.electronAPI.readFile(filePath);
+      if (result.content !== undefined && !result.error) {
+        addContextFile({ path: filePath, content: result.content });
+      }
+    }
+    setChatVisible(true);
+  };
+
+  const toggleSelected = (filePath: string) => {
+    const next = new Set(selected);
+    if (next.has(filePath)) next.delete(filePath); else next.add(filePath);
+    setSelected(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      close();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(Math.min(active + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(Math.max(active - 1, 0));
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      if (!results[active]) return;
+      toggleSelected(results[active].path);
+      setActive(Math.min(active + (e.shiftKey ? -1 : 1), results.length - 1));
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      addToContext();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[active]) open(results[active]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-center pt-[12vh] bg-black/40" onMouseDown={close}>
+      <div
+        className="w-full max-w-xl h-fit max-h-[60vh] flex flex-col rounded-xl border shadow-2xl overflow-hidden"
+        style={{ backgroundColor: 'var(--settings-bg)', borderColor: 'var(--border-color)' }}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="relative border-b border-white/5 shrink-0">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted" />
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={projectContext ? 'Go to file (file:line to jump to a line)' : 'Open a project folder to find files'}
+            className="w-full bg-transparent py-2.5 pl-9 pr-3 text-sm text-foreground placeholder-muted focus:outline-none"
+            autoFocus
+          />
+        </div>
+
+        <div ref={listRef} className="flex-1 min-h-0 overflow-y-auto py-1">
+          {results.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-muted">
+              {!projectContext ? 'No project is open.' : query ? 'No matching files.' : 'No recently opened files.'}
+            </div>
+          ) : results.map((file, index) => {
+            const nameStart = file.relativePath.lastIndexOf('/') + 1;
+            const positions = new Set(file.positions);
+            const dir = file.relativePath.slice(0, Math.max(0, nameStart - 1));
+            return (
+              <div
+                key={file.path}
+                data-index={index}
+                onMouseMove={() => index !== active && setActive(index)}
+                onClick={(e) => (e.ctrlKey || e.metaKey ? toggleSelected(file.path) : open(file))}
+                className={`flex items-center gap-2 px-3 py-1 cursor-pointer text-xs ${index === active ? 'bg-accent/20' : ''}`}
+              >
+                {selected.has(file.path)
+                  ? <Check className="w-3.5 h-3.5 text-accent shrink-0" />
+                  : <File className="w-3.5 h-3.5 text-muted shrink-0" />}
+                <span className="text-foreground shrink-0">{highlight(file.name, nameStart, positions)}</span>
+                {dir && <span className="text-[11px] text-muted truncate">{highlight(dir, 0, positions)}</span>}
+                {recent.has(file.path) && (
+                  <span className="ml-auto shrink-0 text-muted" title="Recently opened">
+                    <Clock className="w-3 h-3" />
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-3 px-3 py-1.5 border-t border-white/5 text-[10px] text-muted shrink-0">
+          <span>↵ open</span>
+          <span>Tab select</span>
+          <span>Ctrl+↵ add {selected.size > 0 ? `${selected.size} file${selected.size === 1 ? '' : 's'}` : 'file'} to chat</span>
+          {line && <span className="ml-auto">line {line}{column ? `, column ${column}` : ''}</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
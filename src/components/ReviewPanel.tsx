@@ -0,0 +1,164 @@
+import { MessageSquareCode, Trash2, Wand2, EyeOff, RotateCcw, CheckCircle2, FileText } from 'lucide-react';
+import { useStore } from '../store';
+import type { ReviewComment, ReviewSeverity } from '../models/review.model';
+
+export const SEVERITY_STYLES: Record<ReviewSeverity, { label: string; className: string }> = {
+  critical: { label: 'Critical', className: 'bg-rose-500/15 text-rose-400' },
+  warning: { label: 'Warning', className: 'bg-amber-500/15 text-amber-400' },
+  suggestion: { label: 'Suggestion', className: 'bg-sky-500/15 text-sky-400' },
+  nitpick: { label: 'Nitpick', className: 'bg-white/10 text-muted' },
+};
+
+const SEVERITY_ORDER: ReviewSeverity[] = ['critical', 'warning', 'suggestion', 'nitpick'];
+
+/**
+ * Findings of the last code review, grouped by file. Clicking a finding
+ * opens the file at its lines; suggested fixes go to the pending approvals.
+ */
+export default function ReviewPanel() {
+  const activeReview = useStore(state => state.activeReview);
+  const setActiveReview = useStore(state => state.setActiveReview);
+  const setReviewCommentStatus = useStore(state => state.setReviewCommentStatus);
+  const applyReviewSuggestion = useStore(state => state.applyReviewSuggestion);
+  const openFileByPath = useStore(state => state.openFileByPath);
+  const setRevealLine = useStore(state => state.setRevealLine);
+
+  if (!activeReview) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-muted text-xs gap-2 p-6 text-center">
+        <MessageSquareCode className="w-6 h-6 opacity-50" />
+        <div>No review yet.</div>
+        <div className="opacity-70">Use Review changes in Source Control to review the working tree or a branch.</div>
+      </div>
+    );
+  }
+
+  const reveal = async (comment: ReviewComment) => {
+    await openFileByPath(comment.filePath);
+    setRevealLine({ filePath: comment.filePath, line: comment.startLine });
+  };
+
+  // The fix shows up with the other pending approvals in the chat
+  const applyFix = async (comment: ReviewComment) => {
+    if (await applyReviewSuggestion(comment.id)) {
+      window.dispatchEvent(new CustomEvent('chat-panel:select-tab', { detail: 'candy' }));
+    }
+  };
+
+  const files = new Map<string, ReviewComment[]>();
+  for (const comment of activeReview.comments) {
+    files.set(comment.path, [...(files.get(comment.path) || []), comment]);
+  }
+  const openCount = activeReview.comments.filter(c => c.status === 'open').length;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-3 py-2.5 border-b border-white/5 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <MessageSquareCode className="w-4 h-4 text-accent shrink-0" />
+          <span className="text-xs font-semibold text-foreground truncate">{activeReview.title}</span>
+          <span className="text-[10px] text-muted shrink-0">{openCount} open</span>
+          <button
+            onClick={() => setActiveReview(null)}
+            className="ml-auto p-1 rounded-md hover:bg-white/10 text-muted hover:text-rose-400"
+            title="Clear review"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        {activeReview.summary && <p className="mt-1.5 text-xs text-muted leading-relaxed">{activeReview.summary}</p>}
+        <div className="mt-1.5 flex flex-wrap gap-1">
+          {SEVERITY_ORDER.map(severity => {
+            const count = activeReview.comments.filter(c => c.severity === severity && c.status === 'open').length;
+            if (count === 0) return null;
+            return (
+              <span key={severity} className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${SEVERITY_STYLES[severity].className}`}>
+                {count} {SEVERITY_STYLES[severity].label.toLowerCase()}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-2 space-y-3">
+        {activeReview.comments.length === 0 && (
+          <div className="flex flex-col items-center gap-2 py-6 text-xs text-muted">
+            <CheckCircle2 className="w-5 h-5 text-emerald-400" />
+            No findings. The changes look good.
+          </div>
+        )}
+        {Array.from(files.entries()).map(([path, comments]) => (
+          <div key={path}>
+            <div className="flex items-center gap-1.5 px-1 pb-1 text-[11px] text-muted">
+              <FileText className="w-3 h-3 shrink-0" />
+              <span className="truncate" title={path}>{path}</span>
+            </div>
+            <div className="space-y-1.5">
+              {comments
+                .slice()
+                .sort((a, b) => a.startLine - b.startLine)
+                .map(comment => (
+                  <div
+                    key={comment.id}
+                    className={`rounded-md border border-white/5 bg-white/5 p-2 text-xs ${comment.status !== 'open' ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-center gap-1.5">
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${SEVERITY_STYLES[comment.severity].className}`}>
+                        {SEVERITY_STYLES[comment.severity].label}
+                      </span>
+                      <button
+                        onClick={() => reveal(comment)}
+                        className="font-mono text-[10px] text-accent hover:underline"
+                        title="Show in editor"
+                      >
+                        {comment.startLine === comment.endLine ? `L${comment.startLine}` : `L${comment.startLine}-${comment.endLine}`}
+                      </button>
+                      {comment.status !== 'open' && (
+                        <span className="text-[10px] text-muted">{comment.status === 'applied' ? 'Fix proposed' : 'Dismissed'}</span>
+                      )}
+                      <div className="ml-auto flex items-center gap-0.5">
+                        {comment.suggestion !== undefined && comment.status === 'open' && (
+                          <button
+                            onClick={() => applyFix(comment)}
+                            className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                            title="Apply the suggested fix after approval"
+                          >
+                            <Wand2 className="w-3 h-3" />
+                            Apply fix
+                          </button>
+                        )}
+                        {comment.status === 'open' ? (
+                          <button
+                            onClick={() => setReviewCommentStatus(comment.id, 'dismissed')}
+                            className="p-1 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                            title="Dismiss"
+                          >
+                            <EyeOff className="w-3 h-3" />
+                          </button>
+                        ) : comment.status === 'dismissed' && (
+                          <button
+                            onClick={() => setReviewCommentStatus(comment.id, 'open')}
+                            className="p-1 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                            title="Reopen"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <p className="mt-1.5 text-foreground whitespace-pre-wrap break-words leading-relaxed">{comment.message}</p>
+                    {comment.suggestion !== undefined && comment.status === 'open' && (
+                      <pre className="mt-1.5 p-1.5 rounded bg-black/20 text-[11px] font-mono text-emerald-300 overflow-x-auto">{comment.suggestion}</pre>
+                    )}
+                    {comment.error && comment.status === 'open' && (
+                      <div className="mt-1 text-[10px] text-rose-400">{comment.error}</div>
+                    )}
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
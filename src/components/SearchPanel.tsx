@@ -0,0 +1,464 @@
+import { useEffect, useRef, useState, ReactNode } from 'react';
+import {
+  ChevronRight,
+  ChevronDown,
+  CaseSensitive,
+  WholeWord,
+  Regex,
+  Replace,
+  ReplaceAll,
+  ListFilter,
+  FileDiff,
+  X,
+  Loader2,
+} from 'lucide-react';
+import { useStore, PendingDiff } from '../store';
+import DiffWidget from './DiffWidget';
+import type { SearchMatch, SearchQuery } from '../types/electron';
+
+interface SearchPanelProps {
+  projectRoot: string | null;
+}
+
+const MAX_RESULTS = 2000;
+const SEARCH_DELAY_MS = 300;
+
+const splitGlobs = (value: string) => value.split(',').map(glob => glob.trim()).filter(Boolean);
+const matchKey = (match: SearchMatch) => `${match.file}:${match.line}`;
+
+/**
+ * What one occurrence turns into, for the inline preview. The main process
+ * does the real replacement on the whole file.
+ */
+function previewReplacement(text: string, query: SearchQuery, replacement: string): string {
+  if (!query.regex) return replacement;
+  try {
+    const source = query.wholeWord ? `\\b(?:${query.pattern})\\b` : query.pattern;
+    return text.replace(new RegExp(source, query.caseSensitive === false ? 'i' : ''), replacement);
+  } catch {
+    return replacement;
+  }
+}
+
+/**
+ * Search mode of the Sidebar: project-wide content search with results
+ * grouped by file, and replace. Replacements become pending diffs that are
+ * accepted or rejected like agent edits.
+ */
+export default function SearchPanel({ projectRoot }: SearchPanelProps) {
+  const openFileByPath = useStore(state => state.openFileByPath);
+  const setRevealLine = useStore(state => state.setRevealLine);
+  const openPane = useStore(state => state.openPane);
+  const closePane = useStore(state => state.closePane);
+  const proposeDiffs = useStore(state => state.proposeDiffs);
+  const pendingDiffs = useStore(state => state.pendingDiffs);
+  const acceptDiff = useStore(state => state.acceptDiff);
+  const rejectDiff = useStore(state => state.rejectDiff);
+
+  const [pattern, setPattern] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+
+  const [results, setResults] = useState<Map<string, SearchMatch[]>>(new Map());
+  const [searching, setSearching] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [proposed, setProposed] = useState<Set<string>>(new Set()); // Files with replacements from this panel
+  const [refreshCount, setRefreshCount] = useState(0);
+  const searchIdRef = useRef<string | null>(null);
+
+  const query: SearchQuery = {
+    pattern,
+    regex,
+    caseSensitive,
+    wholeWord,
+    include: splitGlobs(include),
+    exclude: splitGlobs(exclude),
+    maxResults: MAX_RESULTS,
+  };
+
+  useEffect(() => {
+    if (!window.electronAPI?.search) return;
+    const dispose = window.electronAPI.search.onResults(({ id, matches }) => {
+      if (id !== searchIdRef.current || matches.length === 0) return;
+      setResults(prev => {
+        const next = new Map(prev);
+        next.set(matches[0].file, [...(next.get(matches[0].file) || []), ...matches]);
+        return next;
+      });
+    });
+    return () => {
+      dispose();
+      if (searchIdRef.current) window.electronAPI.search.cancel(searchIdRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (searchIdRef.current) window.electronAPI?.search?.cancel(searchIdRef.current);
+    searchIdRef.current = null;
+    setResults(new Map());
+    setHasMore(false);
+    setError(null);
+    if (!pattern || !projectRoot || !window.electronAPI?.search) {
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const id = `search-${Date.now()}`;
+      searchIdRef.current = id;
+      const result = await window.electronAPI.search.start(id, query);
+      if (id !== searchIdRef.current) return;
+      if ('error' in result) {
+        setError(result.error);
+      } else {
+        setHasMore(result.hasMore);
+      }
+      setSearching(false);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pattern, regex, caseSensitive, wholeWord, include, exclude, projectRoot, refreshCount]);
+
+  useEffect(() => {
+    setCollapsed(new Set());
+    setProposed(new Set());
+  }, [projectRoot]);
+
+  if (!projectRoot) {
+    return <div className="p-3 text-xs text-muted">Open a project folder to search its files.</div>;
+  }
+
+  const absolute = (file: string) => `${projectRoot}/${file}`;
+
+  const reveal = async (match: SearchMatch) => {
+    const filePath = absolute(match.file);
+    await openFileByPath(filePath);
+    setRevealLine({ filePath, line: match.line, column: match.column });
+  };
+
+  const dismiss = (file: string, lines?: number[]) => {
+    setResults(prev => {
+      const next = new Map(prev);
+      const remaining = lines ? (next.get(file) || []).filter(match => !lines.includes(match.line)) : [];
+      if (remaining.length > 0) next.set(file, remaining); else next.delete(file);
+      return next;
+    });
+  };
+
+  // Builds on an edit that is still pending so replacements and agent edits add up
+  const computeReplacement = async (file: string, lines: number[]) => {
+    const filePath = absolute(file);
+    const pending = useStore.getState().pendingDiffs.get(filePath);
+    const result = await window.electronAPI.search.replace(filePath, query, replacement, { lines, content: pending?.modified });
+    if ('error' in result) return { filePath, error: result.error };
+    return { filePath, diff: { filePath, original: pending?.original ?? result.original, modified: result.modified }, count: result.replacements };
+  };
+
+  const replaceIn = async (targets: Array<{ file: string; lines: number[] }>) => {
+    const diffs: PendingDiff[] = [];
+    const errors: string[] = [];
+    for (const target of targets) {
+      const outcome = await computeReplacement(target.file, target.lines);
+      if (outcome.error) {
+        errors.push(`${target.file}: ${outcome.error}`);
+        continue;
+      }
+      if (outcome.diff && outcome.count) diffs.push(outcome.diff);
+      dismiss(target.file, target.lines);
+    }
+    if (diffs.length > 0) {
+      proposeDiffs(diffs);
+      setProposed(prev => new Set([...prev, ...diffs.map(diff => diff.filePath)]));
+    }
+    setError(errors.length > 0 ? errors.join('\n') : null);
+  };
+
+  const previewFile = async (file: string, matches: SearchMatch[]) => {
+    const outcome = await computeReplacement(file, matches.map(match => match.line));
+    if (outcome.error || !outcome.diff) {
+      setError(`${file}: ${outcome.error}`);
+      return;
+    }
+    const id = `replace-preview:${outcome.filePath}`;
+    closePane(id);
+    openPane({
+      id,
+      name: `${file.split('/').pop()} (Replace Preview)`,
+      type: 'replace-preview',
+      content: '',
+      isUnsaved: false,
+      data: outcome.diff,
+    });
+  };
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value); else next.add(value);
+    return next;
+  };
+
+  const files = Array.from(results.entries());
+  const matchCount = files.reduce((count, [, matches]) => count + matches.length, 0);
+  const pendingReplacements = Array.from(proposed).filter(filePath => pendingDiffs.has(filePath));
+
+  const renderLine = (match: SearchMatch) => {
+    // Start near the first occurrence so that it is visible in the narrow sidebar
+    const indent = match.content.length - match.content.trimStart().length;
+    const start = Math.max(indent, (match.ranges[0]?.[0] ?? 0) - 20);
+    const parts: ReactNode[] = [];
+    let position = start;
+    if (start > indent) parts.push(<span key="cut">…</span>);
+    match.ranges.forEach(([from, to], index) => {
+      if (from < position) return;
+      parts.push(<span key={`t${index}`}>{match.content.slice(position, from)}</span>);
+      const text = match.content.slice(from, to);
+      if (showReplace) {
+        parts.push(<span key={`o${index}`} className="line-through bg-rose-500/20 text-rose-300">{text}</span>);
+        parts.push(<span key={`n${index}`} className="bg-emerald-500/20 text-emerald-300">{previewReplacement(text, query, replacement)}</span>);
+      } else {
+        parts.push(<span key={`m${index}`} className="bg-amber-400/25 text-foreground rounded-sm">{text}</span>);
+      }
+      position = to;
+    });
+    parts.push(<span key="rest">{match.content.slice(position)}</span>);
+    return parts;
+  };
+
+  const toggleButton = (active: boolean, onClick: () => void, title: string, Icon: typeof Regex) => (
+    <button
+      onClick={onClick}
+      className={`p-0.5 rounded transition-colors ${active ? 'bg-accent/30 text-foreground' : 'text-muted hover:text-foreground hover:bg-white/10'}`}
+      title={title}
+    >
+      <Icon className="w-3.5 h-3.5" />
+    </button>
+  );
+
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-md py-1 px-2 text-xs text-foreground placeholder-muted focus:ring-1 focus:ring-accent focus:outline-none transition-all';
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-2 py-2 border-b border-white/5 shrink-0 space-y-1.5">
+        <div className="flex items-start gap-1">
+          <button
+            onClick={() => setShowReplace(!showReplace)}
+            className="mt-1 p-0.5 rounded text-muted hover:text-foreground hover:bg-white/10"
+            title={showReplace ? 'Hide replace' : 'Show replace'}
+          >
+            {showReplace ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </button>
+          <div className="flex-1 min-w-0 space-y-1.5">
+            <div className="relative">
+              <input
+                type="text"
+                placeholder="Search"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                className={`${inputClass} pr-16`}
+                autoFocus
+              />
+              <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+                {toggleButton(caseSensitive, () => setCaseSensitive(!caseSensitive), 'Match case', CaseSensitive)}
+                {toggleButton(wholeWord, () => setWholeWord(!wholeWord), 'Match whole word', WholeWord)}
+                {toggleButton(regex, () => setRegex(!regex), 'Use regular expression', Regex)}
+              </div>
+            </div>
+            {showReplace && (
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  placeholder={regex ? 'Replace ($1 for groups)' : 'Replace'}
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => replaceIn(files.map(([file, matches]) => ({ file, lines: matches.map(match => match.line) })))}
+                  disabled={files.length === 0 || searching}
+                  className="p-1 rounded text-muted hover:text-foreground hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Replace all (review before it is written)"
+                >
+                  <ReplaceAll className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`mt-0.5 p-1 rounded transition-colors ${showFilters || include || exclude ? 'text-foreground' : 'text-muted hover:text-foreground'} hover:bg-white/10`}
+            title="Files to include or exclude"
+          >
+            <ListFilter className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        {showFilters && (
+          <div className="pl-5 pr-7 space-y-1.5">
+            <input
+              type="text"
+              placeholder="Files to include, e.g. src/**, *.ts"
+              value={include}
+              onChange={(e) => setInclude(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Files to exclude, e.g. *.test.ts, dist"
+              value={exclude}
+              onChange={(e) => setExclude(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto py-1 text-xs">
+        {pattern && (
+          <div className="flex items-center gap-1.5 px-3 py-1 text-[10px] text-muted">
+            {searching && <Loader2 className="w-3 h-3 animate-spin" />}
+            {matchCount > 0 || !searching
+              ? `${matchCount} result${matchCount === 1 ? '' : 's'} in ${files.length} file${files.length === 1 ? '' : 's'}`
+              : 'Searching...'}
+            {hasMore && <span className="text-amber-400">(more not shown; narrow the search)</span>}
+          </div>
+        )}
+        {error && <div className="px-3 py-1 text-[11px] text-rose-400 whitespace-pre-wrap break-words">{error}</div>}
+
+        {files.map(([file, matches]) => {
+          const isCollapsed = collapsed.has(file);
+          const name = file.split('/').pop();
+          const dir = file.includes('/') ? file.slice(0, file.lastIndexOf('/')) : '';
+          return (
+            <div key={file}>
+              <div
+                onClick={() => setCollapsed(toggle(collapsed, file))}
+                className="group flex items-center gap-1 px-2 py-0.5 hover:bg-white/5 cursor-pointer"
+                data-tooltip={file}
+                data-tooltip-position="right"
+              >
+                <span className="text-muted">
+                  {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                </span>
+                <span className="text-foreground truncate">{name}</span>
+                {dir && <span className="text-[10px] text-muted truncate">{dir}</span>}
+                <div className="ml-auto flex items-center gap-0.5 pl-1 shrink-0">
+                  <div className="hidden group-hover:flex items-center gap-0.5">
+                    {showReplace && (
+                      <>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); previewFile(file, matches); }}
+                          className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                          title="Preview replacements in this file"
+                        >
+                          <FileDiff className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); replaceIn([{ file, lines: matches.map(match => match.line) }]); }}
+                          className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                          title="Replace all in this file"
+                        >
+                          <ReplaceAll className="w-3 h-3" />
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={(e) => { e.stopPropagation(); dismiss(file); }}
+                      className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                      title="Dismiss"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <span className="px-1.5 rounded-full bg-white/10 text-[10px] text-muted">{matches.length}</span>
+                </div>
+              </div>
+              {!isCollapsed && matches.map(match => (
+                <div
+                  key={matchKey(match)}
+                  onClick={() => reveal(match)}
+                  className="group flex items-center gap-1 pl-6 pr-2 py-0.5 hover:bg-white/5 cursor-pointer"
+                  title={match.content.trim()}
+                >
+                  <span className="text-[10px] font-mono text-muted shrink-0 w-7 text-right">{match.line}</span>
+                  <span className="flex-1 min-w-0 truncate whitespace-pre font-mono text-[11px] text-muted">{renderLine(match)}</span>
+                  <div className="hidden group-hover:flex items-center gap-0.5 shrink-0">
+                    {showReplace && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); replaceIn([{ file, lines: [match.line] }]); }}
+                        className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                        title="Replace"
+                      >
+                        <Replace className="w-3 h-3" />
+                      </button>
+                    )}
+                    <button
+                      onClick={(e) => { e.stopPropagation(); dismiss(file, [match.line]); }}
+                      className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                      title="Dismiss"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+
+        {pendingReplacements.length > 0 && (
+          <div className="mt-2 px-2 pt-2 border-t border-white/5 space-y-1.5">
+            <div className="flex items-center gap-2 px-1">
+              <span className="text-[10px] font-semibold uppercase tracking-wide text-muted">Pending Replacements</span>
+              <button
+                onClick={async () => {
+                  for (const filePath of pendingReplacements) await acceptDiff(filePath);
+                  setRefreshCount(count => count + 1);
+                }}
+                className="ml-auto text-[10px] text-muted hover:text-emerald-400"
+              >
+                Accept all
+              </button>
+              <button
+                onClick={async () => {
+                  for (const filePath of pendingReplacements) await rejectDiff(filePath);
+                  setRefreshCount(count => count + 1);
+                }}
+                className="text-[10px] text-muted hover:text-rose-400"
+              >
+                Reject all
+              </button>
+            </div>
+            {pendingReplacements.map(filePath => {
+              const diff = pendingDiffs.get(filePath)!;
+              return (
+                <DiffWidget
+                  key={filePath}
+                  filePath={filePath}
+                  original={diff.original}
+                  modified={diff.modified}
+                  onAccept={async () => {
+                    await acceptDiff(filePath);
+                    setRefreshCount(count => count + 1);
+                  }}
+                  onReject={async () => {
+                    await rejectDiff(filePath);
+                    setRefreshCount(count => count + 1);
+                  }}
+                  onOpenFile={() => openFileByPath(filePath)}
+                />
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
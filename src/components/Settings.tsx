@@ -1,10 +1,14 @@
-import { X, Save, Palette, Cpu, ExternalLink, Key, Plus, Trash2, Edit2, Check, Zap, Globe, Brain, Moon, Server, Search, Download, Loader2, TerminalSquare, CreditCard, Lock, Shield, Bot, Sparkles, Wind, Coins, ChevronUp, ChevronDown, Keyboard } from 'lucide-react';
-import { useStore, CustomTheme, TerminalSettings } from '../store';
+import { X, Save, Palette, Cpu, ExternalLink, Key, Plus, Trash2, Edit2, Check, Zap, Globe, Brain, Moon, Server, Search, Download, Loader2, TerminalSquare, CreditCard, Lock, Shield, Bot, Sparkles, Wind, Coins, ChevronUp, ChevronDown, Keyboard, Plug, RefreshCw, Blocks, ShieldCheck, ListChecks } from 'lucide-react';
+import { useStore, CustomTheme, TerminalSettings, CustomEndpoint } from '../store';
 import { useState, useEffect, useRef } from 'react';
 import Dropdown from './ui/Dropdown';
 import HotkeySettings from './HotkeySettings';
+import McpSettings from './McpSettings';
+import PermissionSettings from './PermissionSettings';
+import VerificationSettings from './VerificationSettings';
+import { aiBackendApiService } from '../services/ai-backend-api.service';
 
-type Tab = 'themes' | 'terminal' | 'license' | 'groq' | 'grok' | 'gemini' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'windsurf' | 'hotkeys';
+type Tab = 'themes' | 'terminal' | 'license' | 'groq' | 'grok' | 'gemini' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'windsurf' | 'custom' | 'hotkeys' | 'mcp' | 'permissions' | 'verification';
 
 const DEFAULT_CUSTOM_THEME: Omit<CustomTheme, 'id'> = {
   name: 'New Custom Theme',
@@ -233,6 +237,20 @@ const ANTHROPIC_MODELS = [
   }
 ];
 
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([key, value]) => `${key}: ${value}`).join('\n');
+
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim();
+    if (key) headers[key] = line.slice(separator + 1).trim();
+  }
+  return headers;
+};
+
 const WINDSURF_MODELS = [
   { 
     id: 'swe-1.5', 
@@ -295,6 +313,10 @@ export default function Settings() {
     windsurfUseBYOK,
     setWindsurfUseBYOK,
     ollamaModels,
+    customEndpoints,
+    setCustomEndpoints,
+    activeCustomEndpointId,
+    setActiveCustomEndpointId,
     activeSettingsTab,
     setActiveSettingsTab,
     terminalSettings,
@@ -344,6 +366,11 @@ export default function Settings() {
   const [windsurfUseBYOKValue, setWindsurfUseBYOKValue] = useState(windsurfUseBYOK);
   const [windsurfCredits, setWindsurfCredits] = useState<number | null>(null);
   const [loadingCredits, setLoadingCredits] = useState(false);
+  const [endpointDrafts, setEndpointDrafts] = useState<CustomEndpoint[]>(customEndpoints);
+  const [selectedEndpointId, setSelectedEndpointId] = useState<string | null>(activeCustomEndpointId || customEndpoints[0]?.id || null);
+  const [headersText, setHeadersText] = useState('');
+  const [discoveringModels, setDiscoveringModels] = useState(false);
+  const [discoverError, setDiscoverError] = useState<string | null>(null);
   const [localLicenseKey, setLocalLicenseKey] = useState(licenseKey);
   const [validatingLicense, setValidatingLicense] = useState(false);
   
@@ -409,10 +436,85 @@ export default function Settings() {
       case 'anthropic': return ANTHROPIC_MODELS;
       case 'windsurf': return WINDSURF_MODELS;
       case 'ollama': return Array.isArray(ollamaModels) ? ollamaModels : [];
+      case 'custom': return (selectedEndpoint?.models || []).map(id => ({
+        id,
+        name: id,
+        desc: `Served by ${selectedEndpoint?.name}`,
+        limits: 'Custom endpoint',
+        provider: 'custom' as const,
+      }));
       default: return [];
     }
   };
 
+  const selectedEndpoint = endpointDrafts.find(e => e.id === selectedEndpointId) || null;
+
+  useEffect(() => {
+    if (showSettings) {
+      setEndpointDrafts(customEndpoints);
+      setSelectedEndpointId(activeCustomEndpointId || customEndpoints[0]?.id || null);
+    }
+  }, [showSettings, customEndpoints, activeCustomEndpointId]);
+
+  useEffect(() => {
+    setHeadersText(formatHeaders(selectedEndpoint?.headers));
+    setDiscoverError(null);
+  }, [selectedEndpointId, showSettings]);
+
+  const updateSelectedEndpoint = (changes: Partial<CustomEndpoint>) => {
+    setEndpointDrafts(prev => prev.map(e => e.id === selectedEndpointId ? { ...e, ...changes } : e));
+  };
+
+  const handleAddEndpoint = () => {
+    const endpoint: CustomEndpoint = {
+      id: `endpoint_${Date.now()}`,
+      name: `Endpoint ${endpointDrafts.length + 1}`,
+      baseUrl: 'http://localhost:8080/v1',
+      toolMode: 'native',
+      models: [],
+    };
+    setEndpointDrafts(prev => [...prev, endpoint]);
+    setSelectedEndpointId(endpoint.id);
+  };
+
+  const handleRemoveEndpoint = (id: string) => {
+    const remaining = endpointDrafts.filter(e => e.id !== id);
+    setEndpointDrafts(remaining);
+    if (selectedEndpointId === id) {
+      setSelectedEndpointId(remaining[0]?.id || null);
+    }
+  };
+
+  const handleDiscoverModels = async () => {
+    if (!selectedEndpoint) return;
+    setDiscoveringModels(true);
+    setDiscoverError(null);
+    try {
+      const result = await aiBackendApiService.listCustomModels(selectedEndpoint);
+      if (result.success) {
+        const models = result.models.map((m: any) => m.id);
+        updateSelectedEndpoint({ models });
+        if (models.length > 0 && !models.includes(selectedModel)) {
+          setSelectedModel(models[0]);
+        }
+      } else {
+        setDiscoverError(result.error || 'Failed to list models');
+      }
+    } catch (error: any) {
+      setDiscoverError(error.message || String(error));
+    } finally {
+      setDiscoveringModels(false);
+    }
+  };
+
+  // Custom endpoints must be stored before activation so setAIProvider can resolve the model
+  const saveCustomEndpoints = (activate: boolean) => {
+    setCustomEndpoints(endpointDrafts);
+    if (activate || !endpointDrafts.some(e => e.id === activeCustomEndpointId)) {
+      setActiveCustomEndpointId(selectedEndpointId);
+    }
+  };
+
   useEffect(() => {
     setDeepseekKey(deepseekApiKey);
     setGroqKey(groqApiKey);
@@ -567,11 +669,12 @@ export default function Settings() {
     setWindsurfBYOKProvider(windsurfBYOKProviderValue as any);
     setWindsurfBYOKApiKey(windsurfBYOKKeyValue);
     setWindsurfUseBYOK(windsurfUseBYOKValue);
+    saveCustomEndpoints(activeTab === 'custom');
     setLicenseKey(localLicenseKey);
 
-    setAIProvider(activeTab === 'themes' || activeTab === 'terminal' || activeTab === 'license' || activeTab === 'hotkeys' ? aiProvider : activeTab);
+    setAIProvider(activeTab === 'themes' || activeTab === 'terminal' || activeTab === 'license' || activeTab === 'hotkeys' || activeTab === 'mcp' || activeTab === 'permissions' || activeTab === 'verification' ? aiProvider : activeTab);
     
-    if (activeTab !== 'themes' && activeTab !== 'terminal' && activeTab !== 'license') {
+    if (activeTab !== 'themes' && activeTab !== 'terminal' && activeTab !== 'license' && activeTab !== 'mcp' && activeTab !== 'permissions' && activeTab !== 'verification') {
       const models = getModelsForProvider();
       const validModel = models.some(m => m.id === selectedModel) 
         ? selectedModel 
@@ -674,6 +777,7 @@ export default function Settings() {
       case 'openai': return 'OpenAI';
       case 'anthropic': return 'Anthropic';
       case 'windsurf': return 'Windsurf';
+      case 'custom': return selectedEndpoint?.name || 'Custom';
       default: return '';
     }
   };
@@ -726,6 +830,7 @@ export default function Settings() {
       case 'openai': return <Sparkles className="w-4 h-4" />;
       case 'anthropic': return <Bot className="w-4 h-4" />;
       case 'windsurf': return <Wind className="w-4 h-4" />;
+      case 'custom': return <Plug className="w-4 h-4" />;
       default: return <Cpu className="w-4 h-4" />;
     }
   };
@@ -813,6 +918,15 @@ export default function Settings() {
             <button onClick={() => setActiveTab('hotkeys')} className={tabClass('hotkeys')}>
               <Keyboard className="w-4 h-4" /> Hotkeys
             </button>
+            <button onClick={() => setActiveTab('mcp')} className={tabClass('mcp')}>
+              <Blocks className="w-4 h-4" /> MCP Servers
+            </button>
+            <button onClick={() => setActiveTab('permissions')} className={tabClass('permissions')}>
+              <ShieldCheck className="w-4 h-4" /> Permissions
+            </button>
+            <button onClick={() => setActiveTab('verification')} className={tabClass('verification')}>
+              <ListChecks className="w-4 h-4" /> Verification
+            </button>
 
             <div className="text-[10px] font-bold text-muted uppercase tracking-wider px-3 py-2 mt-4">AI Providers</div>
             <button onClick={() => setActiveTab('gemini')} className={tabClass('gemini')}>
@@ -839,6 +953,9 @@ export default function Settings() {
             <button onClick={() => setActiveTab('ollama')} className={tabClass('ollama')}>
               <Server className="w-4 h-4" /> Ollama (Local)
             </button>
+            <button onClick={() => setActiveTab('custom')} className={tabClass('custom')}>
+              <Plug className="w-4 h-4" /> Custom Endpoints
+            </button>
             </div>
           </div>
           )}
@@ -1718,12 +1835,205 @@ export default function Settings() {
               </div>
             )}
 
+            {/* Custom Endpoints Tab */}
+            {activeTab === 'custom' && (
+              <div className="space-y-8">
+                <div className="p-4 bg-white/5 border border-border rounded-lg">
+                  <div className="flex items-start gap-3">
+                    <div className="p-2 rounded-lg bg-white/10">
+                      <Plug className="w-5 h-5 text-accent" />
+                    </div>
+                    <div>
+                      <h3 className="text-sm font-medium text-foreground mb-1">Custom Endpoints (OpenAI-compatible)</h3>
+                      <p className="text-xs text-muted leading-relaxed">
+                        Connect LM Studio, llama.cpp server, vLLM or any server exposing /v1/chat/completions. Models are discovered from /v1/models.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-sm font-medium text-muted">Endpoints ({endpointDrafts.length})</label>
+                    <button onClick={handleAddEndpoint} className="text-xs text-accent hover:underline flex items-center gap-1">
+                      <Plus className="w-3 h-3" /> Add Endpoint
+                    </button>
+                  </div>
+                  {endpointDrafts.length === 0 ? (
+                    <div className="p-3 rounded-lg border border-dashed border-border bg-white/5 text-center text-xs text-muted">
+                      No custom endpoints yet
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      {endpointDrafts.map(endpoint => (
+                        <div
+                          key={endpoint.id}
+                          className={`p-3 rounded-lg border flex items-center justify-between transition-colors ${
+                            selectedEndpointId === endpoint.id ? 'bg-white/10 border-accent/50' : 'bg-white/5 border-border hover:bg-white/10'
+                          }`}
+                        >
+                          <button onClick={() => setSelectedEndpointId(endpoint.id)} className="flex-1 text-left overflow-hidden">
+                            <div className="text-sm font-medium text-foreground flex items-center gap-2">
+                              {endpoint.name}
+                              {aiProvider === 'custom' && activeCustomEndpointId === endpoint.id && (
+                                <span className="text-[9px] bg-accent text-white px-2 py-0.5 rounded-full font-bold">ACTIVE</span>
+                              )}
+                            </div>
+                            <div className="text-xs text-muted mt-1 truncate">{endpoint.baseUrl}</div>
+                          </button>
+                          <button
+                            onClick={() => handleRemoveEndpoint(endpoint.id)}
+                            className="p-1.5 text-muted hover:text-rose-400 transition-colors"
+                            data-tooltip="Remove endpoint"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {selectedEndpoint && (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-muted mb-2">Name</label>
+                        <input
+                          type="text"
+                          value={selectedEndpoint.name}
+                          onChange={(e) => updateSelectedEndpoint({ name: e.target.value })}
+                          placeholder="e.g. Workstation vLLM"
+                          className="w-full px-4 py-2.5 bg-white/5 border border-border rounded-lg text-foreground placeholder-muted focus:outline-none focus:ring-2 focus:ring-accent/50 transition-all"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-muted mb-2">Tool Calling</label>
+                        <Dropdown
+                          value={selectedEndpoint.toolMode}
+                          onChange={(val) => updateSelectedEndpoint({ toolMode: val as CustomEndpoint['toolMode'] })}
+                          options={[
+                            { label: 'Native (tools API)', value: 'native' },
+                            { label: 'Prompt-emulated (TOOL_CALL lines)', value: 'emulated' }
+                          ]}
+                          className="w-full"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-muted mb-2">Base URL</label>
+                      <input
+                        type="text"
+                        value={selectedEndpoint.baseUrl}
+                        onChange={(e) => updateSelectedEndpoint({ baseUrl: e.target.value })}
+                        placeholder="http://localhost:8080/v1"
+                        className="w-full px-4 py-2.5 bg-white/5 border border-border rounded-lg text-foreground placeholder-muted focus:outline-none focus:ring-2 focus:ring-accent/50 transition-all"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="flex items-center gap-2 text-sm font-medium text-muted mb-2">
+                        <Key className="w-4 h-4 text-accent" />
+                        API Key (optional)
+                      </label>
+                      <input
+                        type="password"
+                        value={selectedEndpoint.apiKey || ''}
+                        onChange={(e) => updateSelectedEndpoint({ apiKey: e.target.value })}
+                        placeholder="Sent as Bearer token when set"
+                        className="w-full px-4 py-2.5 bg-white/5 border border-border rounded-lg text-foreground placeholder-muted focus:outline-none focus:ring-2 focus:ring-accent/50 transition-all"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-muted mb-2">Extra Headers</label>
+                      <textarea
+                        value={headersText}
+                        onChange={(e) => {
+                          setHeadersText(e.target.value);
+                          updateSelectedEndpoint({ headers: parseHeaders(e.target.value) });
+                        }}
+                        placeholder={'One per line, e.g.\nX-Api-Version: 2'}
+                        rows={3}
+                        className="w-full px-4 py-2.5 bg-white/5 border border-border rounded-lg text-foreground placeholder-muted focus:outline-none focus:ring-2 focus:ring-accent/50 transition-all font-mono text-xs"
+                      />
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-sm font-medium text-muted">Model</label>
+                        <button
+                          onClick={handleDiscoverModels}
+                          disabled={discoveringModels || !selectedEndpoint.baseUrl}
+                          className="text-xs text-accent hover:underline flex items-center gap-1 disabled:opacity-50"
+                        >
+                          {discoveringModels ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                          Discover Models
+                        </button>
+                      </div>
+                      {currentModels.length > 0 ? (
+                        <Dropdown
+                          value={selectedModel}
+                          onChange={(val) => setSelectedModel(val)}
+                          options={currentModels.map((m: any) => ({ label: m.name, value: m.id }))}
+                          className="w-full"
+                        />
+                      ) : (
+                        <div className="p-3 rounded-lg border border-dashed border-border bg-white/5 text-center text-xs text-muted">
+                          No models yet. Start the server and click Discover Models.
+                        </div>
+                      )}
+                      {discoverError && (
+                        <p className="mt-2 text-[11px] text-rose-400">{discoverError}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                <div className="pt-4 border-t" style={{ borderColor: 'var(--border-color)' }}>
+                  <button
+                    onClick={() => {
+                      saveCustomEndpoints(true);
+                      setAIProvider('custom');
+                      if (currentModels.some(m => m.id === selectedModel)) {
+                        setAIBackendModel(selectedModel);
+                      }
+                    }}
+                    disabled={!selectedEndpoint || currentModels.length === 0}
+                    className={`w-full py-2.5 rounded-lg text-sm font-medium transition-all ${
+                      aiProvider === 'custom' && activeCustomEndpointId === selectedEndpointId
+                        ? 'bg-gradient-to-r from-accent to-accent/80 text-white shadow-lg shadow-accent/30 font-semibold'
+                        : 'bg-white/5 text-muted hover:text-foreground hover:bg-white/10 border border-border'
+                    } disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                    {aiProvider === 'custom' && activeCustomEndpointId === selectedEndpointId ? (
+                      <div className="flex items-center justify-center gap-2">
+                        <Check className="w-4 h-4" />
+                        <span className="font-semibold">Currently Active</span>
+                      </div>
+                    ) : (
+                      !selectedEndpoint ? "Add an endpoint to get started" :
+                      currentModels.length === 0 ? "Discover models before activating" :
+                      `Set ${getProviderName()} as Active Provider`
+                    )}
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Hotkeys Tab */}
             {activeTab === 'hotkeys' && (
               <div className="space-y-6">
                 <HotkeySettings />
               </div>
             )}
+
+            {activeTab === 'mcp' && <McpSettings />}
+
+            {activeTab === 'permissions' && <PermissionSettings />}
+
+            {activeTab === 'verification' && <VerificationSettings />}
           </div>
         </div>
 
@@ -23,14 +23,63 @@ import {
   Type,
   Search,
   ArrowRight,
+  GitBranch,
 } from 'lucide-react';
 import { useStore } from '../store';
 import { useFileSystem, FileSystemItem } from '../services/file-system.service';
 import ContextMenu from './ContextMenu';
 import Dropdown from './ui/Dropdown';
+import SourceControlPanel from './SourceControlPanel';
+import SearchPanel from './SearchPanel';
+import type { GitDecoration, GitDecorations } from '../types/electron';
+
+const DECORATION_STYLES: Record<GitDecoration, { letter: string; color: string }> = {
+  modified: { letter: 'M', color: 'text-amber-400' },
+  added: { letter: 'A', color: 'text-emerald-400' },
+  deleted: { letter: 'D', color: 'text-rose-400' },
+  renamed: { letter: 'R', color: 'text-sky-400' },
+  untracked: { letter: 'U', color: 'text-emerald-400' },
+  ignored: { letter: '', color: 'opacity-50' },
+  conflicted: { letter: '!', color: 'text-rose-400' },
+};
+
+// Which change a folder shows when it contains several
+const FOLDER_PRIORITY: GitDecoration[] = ['conflicted', 'modified', 'added', 'untracked'];
+
+interface TreeDecorations {
+  files: Map<string, GitDecoration>;
+  folders: Map<string, GitDecoration>; // Untracked or ignored as a whole; everything inside inherits it
+  parents: Map<string, GitDecoration>; // Folders containing changes
+}
+
+/**
+ * Index git decorations by normalized path and propagate changes to parent
+ * folders up to the project root. Ignored files do not color their parents.
+ */
+function indexDecorations(decorations: GitDecorations, projectRoot: string): TreeDecorations {
+  const index: TreeDecorations = { files: new Map(), folders: new Map(), parents: new Map() };
+  const root = projectRoot.replace(/\\/g, '/').replace(/\/+$/, '');
+  for (const [entry, decoration] of Object.entries(decorations)) {
+    const normalized = entry.replace(/\\/g, '/');
+    const isFolder = normalized.endsWith('/');
+    const filePath = normalized.replace(/\/+$/, '');
+    (isFolder ? index.folders : index.files).set(filePath, decoration);
+    if (decoration === 'ignored') continue;
+
+    const shown = decoration === 'deleted' || decoration === 'renamed' ? 'modified' : decoration;
+    let parent = filePath.slice(0, filePath.lastIndexOf('/'));
+    while (parent.length >= root.length && parent.startsWith(root)) {
+      const current = index.parents.get(parent);
+      if (current && FOLDER_PRIORITY.indexOf(current) <= FOLDER_PRIORITY.indexOf(shown)) break;
+      index.parents.set(parent, shown);
+      parent = parent.slice(0, parent.lastIndexOf('/'));
+    }
+  }
+  return index;
+}
 
 export default function Sidebar() {
-  const [mode, setMode] = useState<'files' | 'project'>('files');
+  const [mode, setMode] = useState<'files' | 'project' | 'search' | 'git'>('files');
   const [searchTerm, setSearchTerm] = useState('');
   const [projectSearchTerm, setProjectSearchTerm] = useState('');
   const [projectSearchResults, setProjectSearchResults] = useState<FileSystemItem[]>([]);
@@ -41,6 +90,7 @@ export default function Sidebar() {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [folderChildren, setFolderChildren] = useState<Map<string, FileSystemItem[]>>(new Map());
   const [loadingFolders, setLoadingFolders] = useState<Set<string>>(new Set());
+  const [gitDecorations, setGitDecorations] = useState<TreeDecorations | null>(null);
   
   // Use selectors for store to minimize re-renders
   const openFileByPath = useStore(state => state.openFileByPath);
@@ -434,6 +484,64 @@ export default function Sidebar() {
     };
   }, []); // Empty dependency array as we use ref
 
+  // Git status of the project's files, refreshed by the watcher instead of polling
+  const refreshGitDecorations = useCallback(async () => {
+    if (!projectRoot || !window.electronAPI?.git?.decorations) {
+      setGitDecorations(null);
+      return;
+    }
+    const result = await window.electronAPI.git.decorations();
+    // Not a repository, or git is missing: no decorations
+    setGitDecorations('error' in result ? null : indexDecorations(result, projectRoot));
+  }, [projectRoot]);
+
+  useEffect(() => {
+    refreshGitDecorations();
+    if (!window.electronAPI?.on) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefresh = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(refreshGitDecorations, 500);
+    };
+    const channels = ['file-system:created', 'file-system:deleted', 'file-system:modified', 'file-system:renamed'];
+    channels.forEach(channel => window.electronAPI.on(channel, scheduleRefresh));
+    // Commits, checkouts and merges change the status without touching the project's files
+    window.addEventListener('git:changed', scheduleRefresh);
+    return () => {
+      if (timer) clearTimeout(timer);
+      channels.forEach(channel => window.electronAPI.off(channel, scheduleRefresh));
+      window.removeEventListener('git:changed', scheduleRefresh);
+    };
+  }, [refreshGitDecorations]);
+
+  const getDecoration = (item: FileSystemItem): GitDecoration | null => {
+    if (!gitDecorations) return null;
+    const itemPath = normalizePath(item.path);
+    const own = gitDecorations.files.get(itemPath) || gitDecorations.folders.get(itemPath);
+    if (own) return own;
+    for (let parent = itemPath.slice(0, itemPath.lastIndexOf('/')); parent; parent = parent.slice(0, parent.lastIndexOf('/'))) {
+      const inherited = gitDecorations.folders.get(parent);
+      if (inherited) return inherited;
+    }
+    return item.type === 'folder' ? gitDecorations.parents.get(itemPath) || null : null;
+  };
+
+  // Colored name and a status letter, or a dot on folders
+  const renderName = (item: FileSystemItem, className: string) => {
+    const decoration = getDecoration(item);
+    const style = decoration ? DECORATION_STYLES[decoration] : null;
+    return (
+      <>
+        <span className={`${className} ${style?.color || ''}`}>{item.name}</span>
+        {style?.letter && (
+          <span className={`ml-1 pr-0.5 text-[10px] font-mono shrink-0 ${style.color}`} title={decoration!}>
+            {item.type === 'folder' ? '•' : style.letter}
+          </span>
+        )}
+      </>
+    );
+  };
+
   // Handle rename with useCallback to fix React hook error
   const handleRename = useCallback(async () => {
     if (!renameDialog.item || !renameDialog.newName.trim() || renameDialog.newName === renameDialog.item.name) return;
@@ -713,7 +821,7 @@ export default function Sidebar() {
             renderFileIcon(item)
           )}
           
-          <span className="truncate flex-1">{item.name}</span>
+          {renderName(item, 'truncate flex-1')}
           
           {/* Remove project button (only for root folder) */}
           {depth === 0 && item.path === projectRoot && (
@@ -844,7 +952,7 @@ export default function Sidebar() {
                     data-tooltip-position="right"
                   >
                     {renderFileIcon(item)}
-                    <span className="ml-2 truncate">{item.name}</span>
+                    {renderName(item, 'ml-2 truncate')}
                     <span className="ml-auto text-[10px] text-muted opacity-50 truncate max-w-[80px]">
                       {/* Handle normalized paths for display, ensuring cross-platform compatibility */}
                       {item.path.replace(projectRoot.replace(/\\/g, '/'), '').split('/').slice(0, -1).join('/')}
@@ -909,6 +1017,38 @@ export default function Sidebar() {
             <FolderTree className="w-3 h-3 inline mr-1" />
             Project
           </button>
+          <button
+            onClick={() => setMode('search')}
+            className={`flex-1 px-2 py-1.5 rounded text-xs font-medium transition-all ${
+              mode === 'search'
+                ? 'text-white shadow-lg'
+                : 'bg-white/5 text-muted hover:bg-white/10'
+            }`}
+            style={mode === 'search' ? {
+              background: 'var(--accent-gradient)'
+            } : {}}
+            data-tooltip="Search and replace in the project"
+            data-tooltip-position="bottom"
+          >
+            <Search className="w-3 h-3 inline mr-1" />
+            Search
+          </button>
+          <button
+            onClick={() => setMode('git')}
+            className={`flex-1 px-2 py-1.5 rounded text-xs font-medium transition-all ${
+              mode === 'git'
+                ? 'text-white shadow-lg'
+                : 'bg-white/5 text-muted hover:bg-white/10'
+            }`}
+            style={mode === 'git' ? {
+              background: 'var(--accent-gradient)'
+            } : {}}
+            data-tooltip="Source Control"
+            data-tooltip-position="bottom"
+          >
+            <GitBranch className="w-3 h-3 inline mr-1" />
+            Git
+          </button>
         </div>
       </div>
 
@@ -1024,16 +1164,24 @@ export default function Sidebar() {
                   data-tooltip-position="right"
                 >
                   {renderFileIcon(item)}
-                  <span className="ml-2 truncate">{item.name}</span>
+                  {renderName(item, 'ml-2 truncate flex-1')}
                 </div>
               ))}
             </div>
           </div>
         </>
-      ) : (
+      ) : mode === 'project' ? (
         <div className="flex-1 min-h-0 overflow-hidden">
           {renderProjectTree()}
         </div>
+      ) : mode === 'search' ? (
+        <div className="flex-1 min-h-0 overflow-hidden">
+          <SearchPanel projectRoot={projectRoot} />
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-hidden">
+          <SourceControlPanel />
+        </div>
       )}
 
       {/* Context Menu */}
@@ -0,0 +1,774 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  GitBranch,
+  GitBranchPlus,
+  Check,
+  Plus,
+  Minus,
+  Undo2,
+  RefreshCw,
+  ChevronRight,
+  ChevronDown,
+  FileText,
+  ArrowUp,
+  ArrowDown,
+  Cloud,
+  Sparkles,
+  GitPullRequest,
+  Copy,
+  X,
+  Loader2,
+  MessageSquareCode,
+} from 'lucide-react';
+import { useStore } from '../store';
+import { getProviderOptions } from '../services/ai-backend-api.service';
+import AgentWorktrees from './AgentWorktrees';
+import type { GitStatus, GitBranch as GitBranchInfo, GitHunk, GitChange } from '../types/electron';
+
+type GroupKind = 'staged' | 'unstaged' | 'untracked' | 'conflicted';
+
+interface ChangeRow {
+  path: string; // Relative to the project root
+  from?: string;
+  change: GitChange | 'untracked' | 'conflicted';
+}
+
+const CHANGE_LETTERS: Record<ChangeRow['change'], { letter: string; color: string }> = {
+  modified: { letter: 'M', color: 'text-amber-400' },
+  added: { letter: 'A', color: 'text-emerald-400' },
+  deleted: { letter: 'D', color: 'text-rose-400' },
+  renamed: { letter: 'R', color: 'text-sky-400' },
+  copied: { letter: 'C', color: 'text-sky-400' },
+  'type-changed': { letter: 'T', color: 'text-amber-400' },
+  unmerged: { letter: '!', color: 'text-rose-400' },
+  untracked: { letter: 'U', color: 'text-emerald-400' },
+  conflicted: { letter: '!', color: 'text-rose-400' },
+};
+
+// Tells open git diff panes to reload
+const notifyGitChanged = () => window.dispatchEvent(new CustomEvent('git:changed'));
+
+// Usual names of the branch pull requests go into
+const DEFAULT_BASES = ['main', 'master', 'develop', 'origin/main', 'origin/master', 'origin/develop'];
+
+const defaultBase = (branches: GitBranchInfo[]) => {
+  const candidates = branches.filter(b => !b.current).map(b => b.name);
+  return DEFAULT_BASES.find(name => candidates.includes(name)) || candidates[0] || '';
+};
+
+/**
+ * Source control mode of the Sidebar: changed files grouped by staged,
+ * unstaged and untracked with stage/unstage/discard per file or hunk,
+ * a commit box with generated messages, branch switching and pull
+ * request descriptions
+ */
+export default function SourceControlPanel() {
+  const openPane = useStore(state => state.openPane);
+  const openFileByPath = useStore(state => state.openFileByPath);
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<GroupKind>>(new Set());
+  const [expanded, setExpanded] = useState<Map<string, GitHunk[] | null>>(new Map());
+  const [confirmDiscard, setConfirmDiscard] = useState<string | null>(null);
+  const [showBranches, setShowBranches] = useState(false);
+  const [branches, setBranches] = useState<GitBranchInfo[]>([]);
+  const [newBranch, setNewBranch] = useState('');
+  const [generating, setGenerating] = useState<'commit' | 'pr' | null>(null);
+  const [showPullRequest, setShowPullRequest] = useState(false);
+  const [prBase, setPrBase] = useState('');
+  const [prTitle, setPrTitle] = useState('');
+  const [prBody, setPrBody] = useState('');
+  const [prError, setPrError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [reviewBase, setReviewBase] = useState('');
+  const expandedRef = useRef(expanded);
+  expandedRef.current = expanded;
+
+  const absolutePath = useCallback((relative: string) => status ? `${status.root}/${relative}` : relative, [status]);
+
+  const loadHunks = useCallback(async (key: string, filePath: string, staged: boolean) => {
+    const result = await window.electronAPI.git.hunks(filePath, staged);
+    setExpanded(prev => {
+      if (!prev.has(key)) return prev;
+      const next = new Map(prev);
+      next.set(key, 'error' in result ? [] : result.hunks);
+      return next;
+    });
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!window.electronAPI?.git) return;
+    const result = await window.electronAPI.git.status();
+    if ('error' in result) {
+      setError(result.error);
+      setStatus(null);
+      return;
+    }
+    setError(null);
+    setStatus(result);
+    // Expanded files show fresh hunks after every change
+    for (const key of Array.from(expandedRef.current.keys())) {
+      const [group, ...rest] = key.split(':');
+      loadHunks(key, `${result.root}/${rest.join(':')}`, group === 'staged');
+    }
+  }, [loadHunks]);
+
+  useEffect(() => {
+    refresh();
+    if (!window.electronAPI?.on) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefresh = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(refresh, 500);
+    };
+    const channels = ['file-system:created', 'file-system:deleted', 'file-system:modified', 'file-system:renamed'];
+    channels.forEach(channel => window.electronAPI.on(channel, scheduleRefresh));
+    window.addEventListener('focus', scheduleRefresh);
+    return () => {
+      if (timer) clearTimeout(timer);
+      channels.forEach(channel => window.electronAPI.off(channel, scheduleRefresh));
+      window.removeEventListener('focus', scheduleRefresh);
+    };
+  }, [refresh]);
+
+  // Runs a git operation, then refreshes everything that shows git state
+  const runAction = async (action: () => Promise<any>) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      const result = await action();
+      if (result && typeof result === 'object' && 'error' in result) {
+        setActionError(result.error);
+        return false;
+      }
+      return true;
+    } finally {
+      setBusy(false);
+      setConfirmDiscard(null);
+      await refresh();
+      notifyGitChanged();
+    }
+  };
+
+  const openDiff = (row: ChangeRow, staged: boolean) => {
+    const filePath = absolutePath(row.path);
+    if (row.change === 'untracked' || row.change === 'conflicted') {
+      openFileByPath(filePath);
+      return;
+    }
+    const name = row.path.split('/').pop() || row.path;
+    openPane({
+      id: `git-diff:${staged ? 'staged' : 'working'}:${filePath}`,
+      name: `${name} (${staged ? 'Staged' : 'Working Tree'})`,
+      type: 'git-diff',
+      content: '',
+      isUnsaved: false,
+      data: { filePath, staged },
+    });
+  };
+
+  const toggleExpanded = (key: string, row: ChangeRow, staged: boolean) => {
+    const next = new Map(expanded);
+    if (next.has(key)) {
+      next.delete(key);
+      setExpanded(next);
+      return;
+    }
+    next.set(key, null);
+    setExpanded(next);
+    loadHunks(key, absolutePath(row.path), staged);
+  };
+
+  const loadBranches = async () => {
+    const result = await window.electronAPI.git.branches();
+    if ('error' in result) return [];
+    setBranches(result);
+    return result;
+  };
+
+  const checkoutBranch = async (branch: GitBranchInfo) => {
+    const ok = await runAction(() => {
+      if (!branch.remote) return window.electronAPI.git.checkout(branch.name);
+      // A remote branch gets a local tracking branch, or the existing one is reused
+      const localName = branch.name.split('/').slice(1).join('/');
+      if (branches.some(b => !b.remote && b.name === localName)) return window.electronAPI.git.checkout(localName);
+      return window.electronAPI.git.checkout(localName, true, branch.name);
+    });
+    if (ok) setShowBranches(false);
+  };
+
+  const createBranch = async () => {
+    const name = newBranch.trim();
+    if (!name) return;
+    const ok = await runAction(() => window.electronAPI.git.checkout(name, true));
+    if (ok) {
+      setNewBranch('');
+      setShowBranches(false);
+    }
+  };
+
+  const commit = async () => {
+    if (!message.trim() || !status) return;
+    const ok = await runAction(async () => {
+      // Like most git UIs, commit everything when nothing is staged
+      if (status.staged.length === 0) {
+        const staged = await window.electronAPI.git.stage('all');
+        if (staged && typeof staged === 'object' && 'error' in staged) return staged;
+      }
+      return window.electronAPI.git.commit(message.trim());
+    });
+    if (ok) setMessage('');
+  };
+
+  // The message stays editable; nothing is committed until the user commits
+  const generateMessage = async () => {
+    setGenerating('commit');
+    setActionError(null);
+    try {
+      const result = await window.electronAPI.git.generateCommitMessage(getProviderOptions());
+      if ('error' in result) setActionError(result.error);
+      else setMessage(result.message);
+    } catch (e: any) {
+      setActionError(e.message || String(e));
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const togglePullRequest = async () => {
+    if (showPullRequest) {
+      setShowPullRequest(false);
+      return;
+    }
+    setShowBranches(false);
+    setShowReview(false);
+    setShowPullRequest(true);
+    setPrError(null);
+    const loaded = await loadBranches();
+    if (!prBase) setPrBase(defaultBase(loaded));
+  };
+
+  const toggleReview = async () => {
+    if (showReview) {
+      setShowReview(false);
+      return;
+    }
+    setShowBranches(false);
+    setShowPullRequest(false);
+    setShowReview(true);
+    const loaded = await loadBranches();
+    if (!reviewBase) setReviewBase(defaultBase(loaded));
+  };
+
+  // The review runs in the chat; its findings land in the Review tab
+  const startReview = (scope: 'working-tree' | 'branch') => {
+    if (!status) return;
+    const title = scope === 'branch'
+      ? `Changes on ${status.branch || 'HEAD'} against ${reviewBase}`
+      : 'Uncommitted changes';
+    useStore.getState().setChatVisible(true);
+    window.dispatchEvent(new CustomEvent('chat-panel:select-tab', { detail: 'candy' }));
+    window.dispatchEvent(new CustomEvent('review:start', {
+      detail: { title, review: scope === 'branch' ? { scope, base: reviewBase } : { scope } },
+    }));
+    setShowReview(false);
+  };
+
+  const generatePullRequest = async () => {
+    if (!prBase) return;
+    setGenerating('pr');
+    setPrError(null);
+    try {
+      const result = await window.electronAPI.git.generatePullRequest(prBase, getProviderOptions());
+      if ('error' in result) {
+        setPrError(result.error);
+      } else {
+        setPrTitle(result.title);
+        setPrBody(result.body);
+      }
+    } catch (e: any) {
+      setPrError(e.message || String(e));
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const copyPullRequest = async () => {
+    await navigator.clipboard.writeText(`${prTitle}\n\n${prBody}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const renderHunks = (key: string, row: ChangeRow, group: GroupKind) => {
+    const hunks = expanded.get(key);
+    if (hunks === undefined) return null;
+    if (hunks === null) return <div className="pl-8 py-1 text-[10px] text-muted">Loading hunks...</div>;
+    if (hunks.length === 0) return <div className="pl-8 py-1 text-[10px] text-muted">No text changes</div>;
+    const filePath = absolutePath(row.path);
+
+    return hunks.map(hunk => (
+      <div key={`${key}:${hunk.index}`} className="ml-6 mr-1 my-1 rounded border border-white/5 overflow-hidden">
+        <div className="flex items-center justify-between px-2 py-0.5 bg-white/5">
+          <span className="text-[10px] font-mono text-muted truncate">{hunk.header}</span>
+          <div className="flex items-center gap-0.5 shrink-0">
+            {group === 'unstaged' && (
+              <button
+                disabled={busy}
+                onClick={() => runAction(() => window.electronAPI.git.applyHunk(filePath, hunk.index, 'discard', hunk.header))}
+                className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-rose-400"
+                title="Discard hunk"
+              >
+                <Undo2 className="w-3 h-3" />
+              </button>
+            )}
+            <button
+              disabled={busy}
+              onClick={() => runAction(() => window.electronAPI.git.applyHunk(filePath, hunk.index, group === 'staged' ? 'unstage' : 'stage', hunk.header))}
+              className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+              title={group === 'staged' ? 'Unstage hunk' : 'Stage hunk'}
+            >
+              {group === 'staged' ? <Minus className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+            </button>
+          </div>
+        </div>
+        <pre className="text-[10px] font-mono leading-4 max-h-40 overflow-auto px-2 py-1 bg-black/20">
+          {hunk.lines.map((line, idx) => (
+            <div
+              key={idx}
+              className={line.startsWith('+') ? 'text-emerald-400' : line.startsWith('-') ? 'text-rose-400' : 'text-muted'}
+            >
+              {line || ' '}
+            </div>
+          ))}
+        </pre>
+      </div>
+    ));
+  };
+
+  const renderRow = (row: ChangeRow, group: GroupKind) => {
+    const key = `${group}:${row.path}`;
+    const filePath = absolutePath(row.path);
+    const staged = group === 'staged';
+    const canExpand = group === 'staged' || group === 'unstaged';
+    const name = row.path.split('/').pop() || row.path;
+    const dir = row.path.includes('/') ? row.path.slice(0, row.path.lastIndexOf('/')) : '';
+    const badge = CHANGE_LETTERS[row.change];
+
+    return (
+      <div key={key}>
+        <div
+          onClick={() => openDiff(row, staged)}
+          className="group flex items-center text-xs py-1 px-1.5 rounded-md hover:bg-white/10 cursor-pointer"
+          data-tooltip={row.from ? `${row.from} → ${row.path}` : row.path}
+          data-tooltip-position="right"
+        >
+          <button
+            onClick={(e) => { e.stopPropagation(); if (canExpand) toggleExpanded(key, row, staged); }}
+            className={`p-0.5 rounded text-muted ${canExpand ? 'hover:text-foreground' : 'invisible'}`}
+          >
+            {expanded.has(key) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </button>
+          <span className="ml-1 truncate text-foreground">{name}</span>
+          {dir && <span className="ml-1.5 truncate text-[10px] text-muted">{dir}</span>}
+
+          <div className="ml-auto flex items-center gap-0.5 pl-1 shrink-0">
+            {confirmDiscard === key ? (
+              <>
+                <span className="text-[10px] text-rose-400 mr-1">{group === 'untracked' ? 'Delete?' : 'Discard?'}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    runAction(() => group === 'untracked'
+                      ? window.electronAPI.git.discard([], [filePath])
+                      : window.electronAPI.git.discard([filePath], []));
+                  }}
+                  className="p-0.5 rounded hover:bg-rose-500/20 text-rose-400"
+                  title="Confirm"
+                >
+                  <Check className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setConfirmDiscard(null); }}
+                  className="p-0.5 rounded hover:bg-white/10 text-muted"
+                  title="Cancel"
+                >
+                  <Minus className="w-3 h-3" />
+                </button>
+              </>
+            ) : (
+              <div className="hidden group-hover:flex items-center gap-0.5">
+                {row.change !== 'deleted' && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); openFileByPath(filePath); }}
+                    className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                    title="Open file"
+                  >
+                    <FileText className="w-3 h-3" />
+                  </button>
+                )}
+                {(group === 'unstaged' || group === 'untracked') && (
+                  <button
+                    disabled={busy}
+                    onClick={(e) => { e.stopPropagation(); setConfirmDiscard(key); }}
+                    className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-rose-400"
+                    title={group === 'untracked' ? 'Delete file' : 'Discard changes'}
+                  >
+                    <Undo2 className="w-3 h-3" />
+                  </button>
+                )}
+                <button
+                  disabled={busy}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    runAction(() => staged ? window.electronAPI.git.unstage([filePath]) : window.electronAPI.git.stage([filePath]));
+                  }}
+                  className="p-0.5 rounded hover:bg-white/10 text-muted hover:text-foreground"
+                  title={staged ? 'Unstage' : group === 'conflicted' ? 'Mark resolved' : 'Stage'}
+                >
+                  {staged ? <Minus className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                </button>
+              </div>
+            )}
+            <span className={`w-3 text-center text-[10px] font-mono font-semibold ${badge.color}`}>{badge.letter}</span>
+          </div>
+        </div>
+        {renderHunks(key, row, group)}
+      </div>
+    );
+  };
+
+  const renderGroup = (group: GroupKind, title: string, rows: ChangeRow[]) => {
+    if (rows.length === 0) return null;
+    const isCollapsed = collapsed.has(group);
+    const paths = rows.map(r => absolutePath(r.path));
+
+    return (
+      <div className="mb-2">
+        <div className="group flex items-center px-1 py-1 text-[10px] font-semibold uppercase tracking-wide text-muted">
+          <button
+            onClick={() => setCollapsed(prev => {
+              const next = new Set(prev);
+              if (next.has(group)) next.delete(group); else next.add(group);
+              return next;
+            })}
+            className="flex items-center gap-1 hover:text-foreground"
+          >
+            {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            {title}
+            <span className="ml-1 px-1.5 rounded-full bg-white/10 text-foreground normal-case">{rows.length}</span>
+          </button>
+          <div className="ml-auto hidden group-hover:flex items-center gap-0.5">
+            {group === 'unstaged' && (
+              confirmDiscard === `${group}:*` ? (
+                <button
+                  disabled={busy}
+                  onClick={() => runAction(() => window.electronAPI.git.discard(paths, []))}
+                  className="px-1.5 py-0.5 rounded bg-rose-500/10 hover:bg-rose-500/20 text-rose-400 normal-case"
+                >
+                  Discard all?
+                </button>
+              ) : (
+                <button
+                  disabled={busy}
+                  onClick={() => setConfirmDiscard(`${group}:*`)}
+                  className="p-0.5 rounded hover:bg-white/10 hover:text-rose-400"
+                  title="Discard all changes"
+                >
+                  <Undo2 className="w-3 h-3" />
+                </button>
+              )
+            )}
+            <button
+              disabled={busy}
+              onClick={() => runAction(() => group === 'staged' ? window.electronAPI.git.unstage(paths) : window.electronAPI.git.stage(paths))}
+              className="p-0.5 rounded hover:bg-white/10 hover:text-foreground"
+              title={group === 'staged' ? 'Unstage all' : 'Stage all'}
+            >
+              {group === 'staged' ? <Minus className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+            </button>
+          </div>
+        </div>
+        {!isCollapsed && rows.map(row => renderRow(row, group))}
+      </div>
+    );
+  };
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-muted text-xs gap-2 p-6 text-center">
+        <GitBranch className="w-6 h-6 opacity-50" />
+        <div>{/not a git repository/i.test(error) ? 'The open project is not a git repository.' : error}</div>
+        <button
+          onClick={refresh}
+          className="mt-1 px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-foreground flex items-center gap-1"
+        >
+          <RefreshCw className="w-3 h-3" /> Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!status) {
+    return <div className="p-4 text-xs text-muted">Loading source control...</div>;
+  }
+
+  const totalChanges = status.staged.length + status.unstaged.length + status.untracked.length + status.conflicted.length;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Branch bar */}
+      <div className="relative px-2 pt-2.5 pb-2 flex-shrink-0">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => { setShowBranches(!showBranches); setShowPullRequest(false); setShowReview(false); if (!showBranches) loadBranches(); }}
+            className="flex-1 min-w-0 flex items-center gap-1.5 px-2 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-xs text-foreground"
+            title="Switch branch"
+          >
+            <GitBranch className="w-3.5 h-3.5 text-accent shrink-0" />
+            <span className="truncate">{status.branch || `detached at ${status.head?.slice(0, 7) ?? 'HEAD'}`}</span>
+            {status.upstream ? (
+              <span className="ml-auto flex items-center gap-1 text-[10px] text-muted shrink-0">
+                {status.ahead > 0 && <span className="flex items-center"><ArrowUp className="w-2.5 h-2.5" />{status.ahead}</span>}
+                {status.behind > 0 && <span className="flex items-center"><ArrowDown className="w-2.5 h-2.5" />{status.behind}</span>}
+              </span>
+            ) : null}
+          </button>
+          <button
+            onClick={toggleReview}
+            className={`p-1.5 rounded-md hover:bg-white/10 transition-colors ${showReview ? 'text-accent' : 'text-muted hover:text-foreground'}`}
+            data-tooltip="Review changes"
+            data-tooltip-position="bottom"
+          >
+            <MessageSquareCode className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={togglePullRequest}
+            className={`p-1.5 rounded-md hover:bg-white/10 transition-colors ${showPullRequest ? 'text-accent' : 'text-muted hover:text-foreground'}`}
+            data-tooltip="Describe pull request"
+            data-tooltip-position="bottom"
+          >
+            <GitPullRequest className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={refresh}
+            disabled={busy}
+            className="p-1.5 rounded-md hover:bg-white/10 text-muted hover:text-foreground transition-colors"
+            data-tooltip="Refresh"
+            data-tooltip-position="bottom"
+          >
+            <RefreshCw className={`h-3.5 w-3.5 ${busy ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {showBranches && (
+          <div
+            className="absolute left-2 right-2 top-full z-20 rounded-md border shadow-2xl overflow-hidden"
+            style={{ backgroundColor: 'var(--settings-bg)', borderColor: 'var(--border-color)' }}
+          >
+            <div className="flex items-center gap-1 p-1.5 border-b border-white/5">
+              <input
+                type="text"
+                placeholder="New branch name..."
+                value={newBranch}
+                onChange={(e) => setNewBranch(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') createBranch();
+                  else if (e.key === 'Escape') setShowBranches(false);
+                }}
+                autoFocus
+                className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-md py-1 px-2 text-xs text-foreground placeholder-muted focus:ring-1 focus:ring-accent focus:outline-none"
+              />
+              <button
+                onClick={createBranch}
+                disabled={!newBranch.trim() || busy}
+                className="p-1 rounded-md hover:bg-white/10 text-muted hover:text-foreground disabled:opacity-50"
+                title="Create and switch"
+              >
+                <GitBranchPlus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div className="max-h-64 overflow-y-auto py-1">
+              {branches.map(branch => (
+                <button
+                  key={`${branch.remote ? 'remote' : 'local'}:${branch.name}`}
+                  onClick={() => !branch.current && checkoutBranch(branch)}
+                  disabled={busy}
+                  className={`w-full flex items-center gap-1.5 px-2 py-1 text-xs text-left hover:bg-white/10 ${branch.current ? 'text-accent' : 'text-foreground'}`}
+                >
+                  {branch.remote ? <Cloud className="w-3 h-3 text-muted shrink-0" /> : <GitBranch className="w-3 h-3 text-muted shrink-0" />}
+                  <span className="truncate">{branch.name}</span>
+                  {branch.current && <Check className="w-3 h-3 shrink-0" />}
+                  <span className="ml-auto text-[10px] font-mono text-muted shrink-0">{branch.hash}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {showReview && (
+          <div
+            className="absolute left-2 right-2 top-full z-20 rounded-md border shadow-2xl p-2 flex flex-col gap-1.5 text-xs"
+            style={{ backgroundColor: 'var(--settings-bg)', borderColor: 'var(--border-color)' }}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-foreground">Review changes</span>
+              <button
+                onClick={() => setShowReview(false)}
+                className="p-1 rounded-md hover:bg-white/10 text-muted hover:text-foreground"
+                title="Close"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <button
+              onClick={() => startReview('working-tree')}
+              disabled={totalChanges === 0}
+              className="w-full flex items-center gap-1.5 px-2 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-foreground text-left disabled:opacity-50"
+            >
+              <Sparkles className="w-3 h-3 text-accent shrink-0" />
+              Uncommitted changes
+              <span className="ml-auto text-[10px] text-muted">{totalChanges} file{totalChanges === 1 ? '' : 's'}</span>
+            </button>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => startReview('branch')}
+                disabled={!reviewBase || !status.head}
+                className="flex items-center gap-1.5 px-2 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-foreground shrink-0 disabled:opacity-50"
+              >
+                <Sparkles className="w-3 h-3 text-accent" />
+                Branch against
+              </button>
+              <select
+                value={reviewBase}
+                onChange={(e) => setReviewBase(e.target.value)}
+                className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-md py-1 px-1.5 text-xs text-foreground focus:ring-1 focus:ring-accent focus:outline-none"
+              >
+                {branches.filter(b => !b.current).map(branch => (
+                  <option key={`${branch.remote ? 'remote' : 'local'}:${branch.name}`} value={branch.name}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {showPullRequest && (
+          <div
+            className="absolute left-2 right-2 top-full z-20 rounded-md border shadow-2xl p-2 flex flex-col gap-1.5"
+            style={{ backgroundColor: 'var(--settings-bg)', borderColor: 'var(--border-color)' }}
+          >
+            <div className="flex items-center gap-1 text-xs">
+              <span className="text-muted shrink-0">Into</span>
+              <select
+                value={prBase}
+                onChange={(e) => setPrBase(e.target.value)}
+                className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-md py-1 px-1.5 text-xs text-foreground focus:ring-1 focus:ring-accent focus:outline-none"
+              >
+                {branches.filter(b => !b.current).map(branch => (
+                  <option key={`${branch.remote ? 'remote' : 'local'}:${branch.name}`} value={branch.name}>{branch.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={generatePullRequest}
+                disabled={!prBase || generating !== null}
+                className="flex items-center gap-1 px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 text-foreground disabled:opacity-50"
+                title="Describe the commits that are not on the selected branch"
+              >
+                {generating === 'pr' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3 text-accent" />}
+                Generate
+              </button>
+              <button
+                onClick={() => setShowPullRequest(false)}
+                className="p-1 rounded-md hover:bg-white/10 text-muted hover:text-foreground"
+                title="Close"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {prError && <div className="text-[10px] text-rose-400 whitespace-pre-wrap break-words">{prError}</div>}
+            {(prTitle || prBody) && (
+              <>
+                <input
+                  type="text"
+                  value={prTitle}
+                  onChange={(e) => setPrTitle(e.target.value)}
+                  className="w-full bg-white/5 border border-white/10 rounded-md py-1 px-2 text-xs text-foreground focus:ring-1 focus:ring-accent focus:outline-none"
+                />
+                <textarea
+                  value={prBody}
+                  onChange={(e) => setPrBody(e.target.value)}
+                  rows={10}
+                  className="w-full resize-y bg-white/5 border border-white/10 rounded-md py-1.5 px-2 text-xs text-foreground font-mono focus:ring-1 focus:ring-accent focus:outline-none"
+                />
+                <button
+                  onClick={copyPullRequest}
+                  className="self-end flex items-center gap-1 px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 text-xs text-foreground"
+                >
+                  {copied ? <Check className="w-3 h-3 text-emerald-400" /> : <Copy className="w-3 h-3" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Commit box */}
+      <div className="px-2 pb-2 flex-shrink-0">
+        <div className="relative">
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                commit();
+              }
+            }}
+            placeholder={`Message (Ctrl+Enter to commit on ${status.branch || 'HEAD'})`}
+            rows={3}
+            className="w-full resize-none bg-white/5 border border-white/10 rounded-md py-1.5 pl-2 pr-7 text-xs text-foreground placeholder-muted focus:ring-1 focus:ring-accent focus:outline-none"
+          />
+          <button
+            onClick={generateMessage}
+            disabled={generating !== null || status.staged.length === 0}
+            className="absolute top-1 right-1 p-1 rounded-md hover:bg-white/10 text-muted hover:text-accent disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-muted"
+            title={status.staged.length > 0 ? 'Generate message from staged changes' : 'Stage changes to generate a message'}
+          >
+            {generating === 'commit' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+        <button
+          onClick={commit}
+          disabled={busy || !message.trim() || totalChanges === 0 || status.conflicted.length > 0}
+          className="mt-1 w-full flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-xs font-medium text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ background: 'var(--accent-gradient)' }}
+        >
+          <Check className="w-3.5 h-3.5" />
+          {status.staged.length > 0 ? 'Commit' : 'Commit All'}
+        </button>
+        {actionError && (
+          <div className="mt-1.5 text-[10px] text-rose-400 whitespace-pre-wrap break-words">{actionError}</div>
+        )}
+      </div>
+
+      {/* Changes */}
+      <div className="flex-1 min-h-0 overflow-y-auto px-2 pb-2">
+        {totalChanges === 0 ? (
+          <div className="text-xs text-muted text-center py-6">No changes</div>
+        ) : (
+          <>
+            {renderGroup('conflicted', 'Merge Changes', status.conflicted.map(path => ({ path, change: 'conflicted' as const })))}
+            {renderGroup('staged', 'Staged Changes', status.staged)}
+            {renderGroup('unstaged', 'Changes', status.unstaged)}
+            {renderGroup('untracked', 'Untracked', status.untracked.map(path => ({ path, change: 'untracked' as const })))}
+          </>
+        )}
+        <AgentWorktrees onChange={refresh} />
+      </div>
+    </div>
+  );
+}
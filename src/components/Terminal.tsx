@@ -10,8 +10,8 @@ export default function Terminal() {
   }, [terminalOutput]);
 
   // Terminal is display-only - agent executes commands via backend
-  // Commands are displayed here automatically when backend streams command_result events
-  // Command approval is handled by CommandWidget, not Terminal
+  // Commands and their output appear here live from command_start/command_output chunks
+  // Command approval, stdin and stopping are handled by CommandWidget, not Terminal
 
   return (
     <div className="flex flex-col h-full">
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { useStore } from '../store';
+import { ShieldQuestion, X } from 'lucide-react';
+import type { ToolApprovalRequest } from '../types/electron';
+
+/**
+ * Asks the user to approve tool calls the agent cannot run on its own
+ * (e.g. MCP tools set to "ask"). Requests queue up and are answered in order.
+ */
+export default function ToolApprovalDialog() {
+  const { theme, customThemes, activeCustomThemeId } = useStore();
+  const [queue, setQueue] = useState<ToolApprovalRequest[]>([]);
+
+  useEffect(() => {
+    if (!window.electronAPI?.toolApproval) return;
+    const cleanupRequest = window.electronAPI.toolApproval.onRequest((request) => {
+      setQueue(prev => [...prev, request]);
+    });
+    // Requests can also be resolved by the backend (timeout or cancelled run)
+    const cleanupResolved = window.electronAPI.toolApproval.onResolved(({ id }) => {
+      setQueue(prev => prev.filter(r => r.id !== id));
+    });
+    return () => {
+      cleanupRequest();
+      cleanupResolved();
+    };
+  }, []);
+
+  const current = queue[0];
+  if (!current) return null;
+
+  const respond = (approved: boolean) => {
+    window.electronAPI.toolApproval.respond(current.id, approved);
+    setQueue(prev => prev.filter(r => r.id !== current.id));
+  };
+
+  const getThemeColors = () => {
+    if (theme === 'light') {
+      return {
+        bg: 'rgba(255, 255, 255, 0.98)',
+        border: 'rgba(203, 213, 225, 0.5)',
+        text: '#0f172a',
+        textMuted: '#64748b',
+        codeBg: 'rgba(241, 245, 249, 0.9)',
+        buttonBg: 'rgba(226, 232, 240, 0.8)',
+        accent: '#6366f1',
+      };
+    }
+
+    if (theme === 'custom' && activeCustomThemeId) {
+      const customTheme = customThemes.find(t => t.id === activeCustomThemeId);
+      if (customTheme) {
+        return {
+          bg: customTheme.colors.bgPrimary + 'f5',
+          border: customTheme.colors.borderColor,
+          text: customTheme.colors.textPrimary,
+          textMuted: customTheme.colors.textSecondary,
+          codeBg: customTheme.colors.bgSecondary,
+          buttonBg: customTheme.colors.bgSecondary,
+          accent: customTheme.colors.accentColor,
+        };
+      }
+    }
+
+    return {
+      bg: 'rgba(15, 23, 42, 0.98)',
+      border: 'rgba(255, 255, 255, 0.1)',
+      text: '#f8fafc',
+      textMuted: '#94a3b8',
+      codeBg: 'rgba(2, 6, 23, 0.8)',
+      buttonBg: 'rgba(30, 41, 59, 0.8)',
+      accent: '#818cf8',
+    };
+  };
+
+  const colors = getThemeColors();
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ backgroundColor: 'rgba(0, 0, 0, 0.6)', backdropFilter: 'blur(4px)' }}
+    >
+      <div
+        className="relative w-full max-w-lg mx-4"
+        style={{
+          backgroundColor: colors.bg,
+          border: `1px solid ${colors.border}`,
+          borderRadius: '16px',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        <button
+          onClick={() => respond(false)}
+          className="absolute top-4 right-4 p-1 rounded-lg hover:bg-white/10 transition-colors"
+          style={{ color: colors.textMuted }}
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <ShieldQuestion className="w-6 h-6" style={{ color: colors.accent }} />
+            <h3 className="text-lg font-semibold" style={{ color: colors.text }}>
+              Allow {current.toolName}?
+            </h3>
+          </div>
+
+          <p className="text-sm mb-3" style={{ color: colors.textMuted }}>
+            The agent wants to run <span style={{ color: colors.text, fontWeight: 600 }}>{current.toolName}</span>{' '}
+            <span style={{ color: colors.text }}>({current.source})</span>.
+          </p>
+          {current.description && (
+            <p className="text-xs mb-3 whitespace-pre-wrap" style={{ color: colors.textMuted }}>{current.description}</p>
+          )}
+
+          <pre
+            className="text-xs p-3 rounded-lg mb-6 overflow-auto max-h-64"
+            style={{ backgroundColor: colors.codeBg, color: colors.text, border: `1px solid ${colors.border}` }}
+          >
+            {JSON.stringify(current.args, null, 2)}
+          </pre>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => respond(false)}
+              className="flex-1 px-4 py-2.5 rounded-lg font-medium transition-all duration-200 hover:scale-105 active:scale-95"
+              style={{ backgroundColor: colors.buttonBg, color: colors.text, border: `1px solid ${colors.border}` }}
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => respond(true)}
+              className="flex-1 px-4 py-2.5 rounded-lg font-medium transition-all duration-200 hover:scale-105 active:scale-95"
+              style={{ backgroundColor: 'rgba(34, 197, 94, 0.9)', color: '#ffffff', border: 'none' }}
+            >
+              Allow
+            </button>
+          </div>
+          {queue.length > 1 && (
+            <p className="text-xs text-center mt-3" style={{ color: colors.textMuted }}>
+              {queue.length - 1} more waiting
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
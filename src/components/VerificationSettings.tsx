@@ -0,0 +1,93 @@
+import { ListChecks } from 'lucide-react';
+import { useStore } from '../store';
+
+export default function VerificationSettings() {
+  const verificationSettings = useStore(state => state.verificationSettings);
+  const setVerificationSettings = useStore(state => state.setVerificationSettings);
+  const { enabled, eslint, typescript, testCommand, maxAttempts } = verificationSettings;
+
+  const inputClass = 'w-full px-3 py-2 bg-white/5 border border-border rounded-lg text-foreground text-xs placeholder-muted focus:outline-none focus:ring-2 focus:ring-accent/50 transition-all disabled:opacity-50';
+  const checkboxClass = 'rounded border-border bg-white/5 text-accent focus:ring-accent disabled:opacity-50';
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-white/5 border border-border rounded-lg">
+        <div className="flex items-start gap-3">
+          <div className="p-2 rounded-lg bg-white/10">
+            <ListChecks className="w-5 h-5 text-accent" />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-foreground mb-1">Verify Agent Edits</h3>
+            <p className="text-xs text-muted leading-relaxed">
+              When the agent calls task_complete, the files it changed are checked once its diffs are accepted. Errors are sent back
+              to the agent to fix, and the task only ends when the checks pass or it runs out of attempts. Review runs are never verified.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setVerificationSettings({ enabled: e.target.checked })}
+          className={checkboxClass}
+        />
+        <label className="text-sm font-medium text-foreground">Verify edits before the task completes</label>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={eslint}
+            disabled={!enabled}
+            onChange={(e) => setVerificationSettings({ eslint: e.target.checked })}
+            className={checkboxClass}
+          />
+          <label className="text-sm font-medium text-muted">ESLint errors in the changed files</label>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={typescript}
+            disabled={!enabled}
+            onChange={(e) => setVerificationSettings({ typescript: e.target.checked })}
+            className={checkboxClass}
+          />
+          <label className="text-sm font-medium text-muted">TypeScript errors in the changed files (tsc --noEmit)</label>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-muted mb-2">Test Command</label>
+          <input
+            type="text"
+            value={testCommand}
+            disabled={!enabled}
+            onChange={(e) => setVerificationSettings({ testCommand: e.target.value })}
+            placeholder="Optional, e.g. npm test -- --run"
+            className={`${inputClass} font-mono`}
+          />
+          <p className="mt-1.5 text-[11px] text-muted">Runs from the project root without asking for approval. A non-zero exit code fails the check.</p>
+        </div>
+
+        <div>
+          <div className="flex justify-between mb-2">
+            <label className="text-sm font-medium text-muted">Fix Attempts</label>
+            <span className="text-xs text-accent font-mono">{maxAttempts}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="10"
+            value={maxAttempts}
+            disabled={!enabled}
+            onChange={(e) => setVerificationSettings({ maxAttempts: parseInt(e.target.value, 10) })}
+            className="w-full h-1.5 bg-white/5 rounded-lg appearance-none cursor-pointer accent-accent disabled:opacity-50"
+          />
+          <p className="mt-1.5 text-[11px] text-muted">How many times failures are sent back before the task is allowed to complete anyway. 0 only reports the results.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { ChevronRight, ChevronDown, CheckCircle2, XCircle, MinusCircle, Loader2 } from 'lucide-react';
+
+export interface VerificationReport {
+  status: 'running' | 'passed' | 'failed' | 'skipped';
+  attempt: number;
+  maxAttempts: number;
+  retrying?: boolean; // The failures went back to the model
+  files?: string[];
+  checks?: Array<{ name: string; passed: boolean; summary: string; details?: string }>;
+  notes?: string[];
+}
+
+interface VerificationWidgetProps {
+  report: VerificationReport;
+  active: boolean; // The run is still streaming
+}
+
+function describe(report: VerificationReport, active: boolean): string {
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  switch (report.status) {
+    case 'running':
+      return active ? 'Verifying changes...' : 'Verification stopped';
+    case 'passed':
+      return report.attempt > 1 ? `Verification passed after ${plural(report.attempt - 1, 'fix attempt')}` : 'Verification passed';
+    case 'skipped':
+      return 'Verification skipped';
+    case 'failed':
+      if (report.retrying) return `Verification failed, asking the agent to fix it (${report.attempt} of ${report.maxAttempts})`;
+      return report.maxAttempts > 0 ? `Verification still failing after ${plural(report.maxAttempts, 'fix attempt')}` : 'Verification failed';
+  }
+}
+
+/**
+ * Post-edit checks of an agent run, collapsed to one line until opened
+ */
+export default function VerificationWidget({ report, active }: VerificationWidgetProps) {
+  const [expanded, setExpanded] = useState(false);
+  const running = report.status === 'running' && active;
+  const hasDetails = !!(report.files?.length || report.checks?.length || report.notes?.length);
+
+  return (
+    <div className="rounded-lg overflow-hidden bg-white/5 border border-border my-2">
+      <button
+        onClick={() => hasDetails && setExpanded(!expanded)}
+        className={`w-full px-3 py-2 flex items-center gap-2 text-left text-xs ${hasDetails ? 'hover:bg-white/5' : 'cursor-default'}`}
+      >
+        {running ? (
+          <Loader2 className="w-3.5 h-3.5 animate-spin text-muted shrink-0" />
+        ) : report.status === 'passed' ? (
+          <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400 shrink-0" />
+        ) : report.status === 'failed' ? (
+          <XCircle className="w-3.5 h-3.5 text-rose-400 shrink-0" />
+        ) : (
+          <MinusCircle className="w-3.5 h-3.5 text-muted shrink-0" />
+        )}
+        <span className="text-foreground truncate">{describe(report, active)}</span>
+        {report.checks && report.checks.length > 0 && (
+          <span className="ml-auto text-[10px] font-mono text-muted shrink-0">
+            {report.checks.filter(check => check.passed).length}/{report.checks.length} checks
+          </span>
+        )}
+        {hasDetails && (
+          <span className={`${report.checks?.length ? '' : 'ml-auto'} text-muted shrink-0`}>
+            {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </span>
+        )}
+      </button>
+
+      {expanded && hasDetails && (
+        <div className="px-3 pb-2.5 space-y-2 text-[11px]">
+          {report.files && report.files.length > 0 && (
+            <div className="text-muted truncate" title={report.files.join('\n')}>
+              {report.files.length} file{report.files.length === 1 ? '' : 's'}: {report.files.join(', ')}
+            </div>
+          )}
+          {report.checks?.map(check => (
+            <div key={check.name}>
+              <div className={`flex items-center gap-1.5 font-mono ${check.passed ? 'text-emerald-400' : 'text-rose-400'}`}>
+                {check.passed ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                {check.summary}
+              </div>
+              {check.details && (
+                <pre className="mt-1 p-2 rounded bg-black/30 text-muted font-mono text-[10px] max-h-48 overflow-auto whitespace-pre-wrap break-words">
+                  {check.details}
+                </pre>
+              )}
+            </div>
+          ))}
+          {report.notes?.map((note, index) => (
+            <div key={index} className="text-muted">{note}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
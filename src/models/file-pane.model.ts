@@ -7,7 +7,9 @@ export type FilePaneType =
   | 'powerpoint' 
   | 'onenote'
   | 'image-gallery' 
-  | 'video-gallery';
+  | 'video-gallery'
+  | 'git-diff'
+  | 'replace-preview';
 
 export interface FilePane {
   id: string; // File path or unique ID for untitled files
@@ -16,7 +18,7 @@ export interface FilePane {
   content: string; // For code/markdown files
   language?: string; // Monaco editor language
   isUnsaved: boolean;
-  data?: any; // For galleries, contains array of FileSystemItem
+  data?: any; // For galleries, contains array of FileSystemItem; for git diffs, { filePath, staged }; for replace previews, { filePath, original, modified }
 }
 
 export interface FileSystemItem {
@@ -0,0 +1,22 @@
+export type ReviewSeverity = 'critical' | 'warning' | 'suggestion' | 'nitpick';
+
+export interface ReviewComment {
+  id: string;
+  filePath: string; // Absolute
+  path: string; // Relative to the project root
+  startLine: number;
+  endLine: number;
+  severity: ReviewSeverity;
+  message: string;
+  suggestion?: string; // Replacement for lines startLine..endLine
+  status: 'open' | 'applied' | 'dismissed';
+  error?: string; // Why the suggested fix could not be applied
+}
+
+export interface CodeReview {
+  id: string;
+  title: string; // What was reviewed, e.g. "Uncommitted changes"
+  summary: string;
+  comments: ReviewComment[];
+  createdAt: number;
+}
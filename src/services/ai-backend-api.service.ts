@@ -3,15 +3,18 @@
  * Integration with Gemini API
  */
 
+import { CustomEndpoint, useStore } from '../store';
+
 export interface AIBackendChunk {
-  type: 'text' | 'function_call' | 'function_result' | 'error' | 'done';
+  type: 'text' | 'function_call' | 'function_result' | 'error' | 'done' | 'command_start' | 'command_output' | 'worktree' | 'verification';
   data?: any;
   callId?: string;
   name?: string;
+  sessionId?: string; // Chat session the chunk belongs to
 }
 
 export interface ChatOptions {
-  provider?: 'gemini' | 'groq' | 'grok' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'windsurf';
+  provider?: 'gemini' | 'groq' | 'grok' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'windsurf' | 'custom';
   apiKey?: string;
   model?: string;
   context?: {
@@ -23,18 +26,70 @@ export interface ChatOptions {
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
   isPro?: boolean; // Deprecated
   licenseTier?: 'free' | 'standard' | 'pro';
+  sessionId?: string;
   windsurfUseBYOK?: boolean;
   windsurfBYOKProvider?: 'openai' | 'anthropic' | 'google';
   windsurfBYOKApiKey?: string;
+  customEndpoint?: CustomEndpoint;
+  review?: { scope: 'working-tree' | 'branch'; base?: string }; // Read-only review of a diff
+  worktree?: boolean; // Run in the session's git worktree
+  verify?: { eslint: boolean; typescript: boolean; testCommand?: string; maxAttempts: number }; // Check touched files before task_complete
 }
 
+/**
+ * Provider options from the current settings for one-shot requests made
+ * outside the chat, such as commit messages. Windsurf runs in the renderer,
+ * so only its BYOK key can be used, with the matching provider.
+ */
+export function getProviderOptions(): ChatOptions {
+  const state = useStore.getState();
+  const provider = state.aiProvider;
+
+  if (provider === 'windsurf') {
+    if (!state.windsurfUseBYOK || !state.windsurfBYOKProvider || !state.windsurfBYOKApiKey) {
+      throw new Error('Windsurf cannot generate text outside the chat. Enable BYOK or choose another provider in Settings.');
+    }
+    const byokProvider = state.windsurfBYOKProvider === 'google' ? 'gemini' : state.windsurfBYOKProvider;
+    return { provider: byokProvider, apiKey: state.windsurfBYOKApiKey };
+  }
+
+  if (provider === 'custom') {
+    const customEndpoint = state.customEndpoints.find(e => e.id === state.activeCustomEndpointId);
+    if (!customEndpoint) {
+      throw new Error('Please add a custom endpoint in Settings.');
+    }
+    return { provider, model: state.aiBackendModel, apiKey: customEndpoint.apiKey || undefined, customEndpoint };
+  }
+
+  const apiKeys: Record<string, string | null | undefined> = {
+    gemini: state.geminiApiKey,
+    groq: state.groqApiKey,
+    grok: state.grokApiKey,
+    moonshot: state.moonshotApiKey,
+    openai: state.openaiApiKey,
+    anthropic: state.anthropicApiKey,
+  };
+  const apiKey = apiKeys[provider] || undefined;
+  if (!apiKey && provider !== 'ollama') {
+    throw new Error(`Please set your ${provider.charAt(0).toUpperCase() + provider.slice(1)} API key in Settings.`);
+  }
+  return { provider, model: state.aiBackendModel, apiKey };
+}
+
+// Sessions without an id run as 'default' in the main process too
+const DEFAULT_SESSION = 'default';
+
 export class AIBackendApiService {
-  private chunkListeners: Set<(chunk: AIBackendChunk) => void> = new Set();
+  // Listeners by session id, so concurrent runs only see their own chunks
+  private chunkListeners: Map<string, Set<(chunk: AIBackendChunk) => void>> = new Map();
 
   constructor() {
     if (window.electronAPI?.aiBackend) {
       window.electronAPI.aiBackend.onChunk((chunk: AIBackendChunk) => {
-        this.chunkListeners.forEach((listener) => {
+        const listeners = chunk.sessionId
+          ? Array.from(this.chunkListeners.get(chunk.sessionId) || [])
+          : Array.from(this.chunkListeners.values()).flatMap(set => Array.from(set));
+        listeners.forEach((listener) => {
           try {
             listener(chunk);
           } catch (error) {
@@ -67,25 +122,37 @@ export class AIBackendApiService {
       throw new Error('Electron API not available');
     }
 
-    this.chunkListeners.add(onChunk);
+    const sessionId = options.sessionId || DEFAULT_SESSION;
+    if (!this.chunkListeners.has(sessionId)) this.chunkListeners.set(sessionId, new Set());
+    this.chunkListeners.get(sessionId)!.add(onChunk);
 
     try {
       await window.electronAPI.aiBackend.chat(prompt, options);
     } catch (error: any) {
-      this.chunkListeners.delete(onChunk);
+      this.removeListener(onChunk);
       throw error;
     }
   }
 
-  cancel(): void {
+  /**
+   * Cancel the session's run and stop listening to it, or every run when no session is given
+   */
+  cancel(sessionId?: string): void {
     if (window.electronAPI?.aiBackend) {
-      window.electronAPI.aiBackend.cancel();
+      window.electronAPI.aiBackend.cancel(sessionId);
+    }
+    if (sessionId) {
+      this.chunkListeners.delete(sessionId);
+    } else {
+      this.chunkListeners.clear();
     }
-    this.chunkListeners.clear();
   }
 
   removeListener(listener: (chunk: AIBackendChunk) => void): void {
-    this.chunkListeners.delete(listener);
+    for (const [sessionId, listeners] of this.chunkListeners) {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.chunkListeners.delete(sessionId);
+    }
   }
 
   removeAllListeners(): void {
@@ -101,6 +168,13 @@ export class AIBackendApiService {
     }
     return window.electronAPI.aiBackend.listModels();
   }
+
+  async listCustomModels(endpoint: CustomEndpoint): Promise<{ success: boolean; models: any[]; error?: string }> {
+    if (!window.electronAPI?.aiBackend) {
+      throw new Error('Electron API not available');
+    }
+    return window.electronAPI.aiBackend.listCustomModels(endpoint);
+  }
 }
 
 export const aiBackendApiService = new AIBackendApiService();
\ No newline at end of file
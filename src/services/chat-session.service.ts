@@ -70,6 +70,7 @@ export const useChatSessionService = create<ChatSessionStore>((set, get) => ({
   },
   
   deleteSession: (sessionId: string) => {
+    window.electronAPI?.processes?.stopSession(sessionId);
     set((state) => {
       const newSessions = state.sessions.filter(s => s.id !== sessionId);
       let newCurrentId = state.currentSessionId;
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { FilePane, FilePaneType } from './models/file-pane.model';
 import { ProjectPlan, PlanStep } from './models/plan.model';
+import { CodeReview, ReviewComment } from './models/review.model';
 
 export type ThemeType = 'light' | 'dark' | 'alpha' | 'custom' | 'standard';
 export type LicenseTier = 'free' | 'standard' | 'pro';
@@ -39,6 +40,26 @@ export interface TerminalSettings {
   shell: string;
 }
 
+// Checks run on the files an agent touched before its task_complete is accepted
+export interface VerificationSettings {
+  enabled: boolean;
+  eslint: boolean;
+  typescript: boolean;
+  testCommand: string; // Empty to skip tests
+  maxAttempts: number; // Times failures are sent back to the agent
+}
+
+// User-configured OpenAI-compatible endpoint (LM Studio, llama.cpp server, vLLM, ...)
+export interface CustomEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  toolMode: 'native' | 'emulated';
+  models?: string[];
+}
+
 export interface Task {
   id: string;
   content: string;
@@ -65,12 +86,40 @@ export interface DiffContent {
   visible: boolean;
 }
 
+export interface TerminalOutput {
+  command?: string;
+  output: string;
+  type: 'command' | 'stdout' | 'stderr' | 'error';
+}
+
+/**
+ * Append streamed output, joining consecutive chunks of the same stream so
+ * lines split across chunks render as one block
+ */
+export function appendOutput(list: TerminalOutput[], item: TerminalOutput): TerminalOutput[] {
+  const last = list[list.length - 1];
+  if (last && (item.type === 'stdout' || item.type === 'stderr') && last.type === item.type) {
+    return [...list.slice(0, -1), { ...last, output: last.output + item.output }];
+  }
+  return [...list, item];
+}
+
+const MAX_RECENT_FILES = 100;
+
 export interface PendingDiff {
   filePath: string;
   original: string;
   modified: string;
 }
 
+// Pending diffs that are approved or rejected together and written all at once
+export interface ChangeSet {
+  id: string;
+  title: string;
+  filePaths: string[];
+  error?: string; // Why the last attempt to apply it failed
+}
+
 interface Store {
   // UI State
   sidebarVisible: boolean;
@@ -83,6 +132,12 @@ interface Store {
   setChatWidth: (width: number) => void;
   toggleSidebar: () => void;
   toggleChat: () => void;
+  problemsVisible: boolean; // Bottom Problems panel under the canvas
+  problemsHeight: number;
+  toggleProblems: () => void;
+  setProblemsHeight: (height: number) => void;
+  quickOpenVisible: boolean; // Ctrl+P file finder
+  setQuickOpenVisible: (visible: boolean) => void;
   
   // Theme
   theme: ThemeType;
@@ -113,8 +168,8 @@ interface Store {
   validateLicense: () => Promise<boolean>;
 
   // AI Provider Settings
-  aiProvider: 'groq' | 'grok' | 'gemini' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'windsurf';
-  setAIProvider: (provider: 'groq' | 'grok' | 'gemini' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'windsurf') => void;
+  aiProvider: 'groq' | 'grok' | 'gemini' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'windsurf' | 'custom';
+  setAIProvider: (provider: 'groq' | 'grok' | 'gemini' | 'moonshot' | 'ollama' | 'openai' | 'anthropic' | 'windsurf' | 'custom') => void;
   
   // Provider-specific API keys
   geminiApiKey: string;
@@ -141,6 +196,12 @@ interface Store {
   setWindsurfBYOKApiKey: (key: string) => void;
   windsurfUseBYOK: boolean;
   setWindsurfUseBYOK: (useBYOK: boolean) => void;
+
+  // Custom OpenAI-compatible endpoints
+  customEndpoints: CustomEndpoint[];
+  setCustomEndpoints: (endpoints: CustomEndpoint[]) => void;
+  activeCustomEndpointId: string | null;
+  setActiveCustomEndpointId: (id: string | null) => void;
   
   // AI Backend Model
   aiBackendModel: string;
@@ -188,6 +249,10 @@ interface Store {
   reloadLastProject: () => Promise<void>;
   contextMode: 'full' | 'smart' | 'minimal';
   setContextMode: (mode: 'full' | 'smart' | 'minimal') => void;
+  isolateAgentRuns: boolean; // Agent runs work in a git worktree per chat session
+  setIsolateAgentRuns: (isolate: boolean) => void;
+  verificationSettings: VerificationSettings;
+  setVerificationSettings: (settings: Partial<VerificationSettings>) => void;
   isBuildingContext: boolean;
   setIsBuildingContext: (building: boolean) => void;
   
@@ -206,9 +271,22 @@ interface Store {
   acceptedDiffs: Set<string>;
   rejectedDiffs: Set<string>;
   addPendingDiff: (filePath: string, original: string, modified: string) => void;
+  proposeDiffs: (diffs: PendingDiff[]) => void; // Edits made outside the agent, reviewed the same way
   clearPendingDiffs: () => void;
-  acceptDiff: (filePath: string) => void;
+  acceptDiff: (filePath: string) => void; // For a file in a change set, accepts the whole set
   rejectDiff: (filePath: string) => void;
+  changeSets: ChangeSet[];
+  proposeChangeSet: (title: string, diffs: PendingDiff[]) => string; // e.g. a refactoring across files; returns its id
+  acceptChangeSet: (id: string) => Promise<boolean>; // False when nothing could be written
+  rejectChangeSet: (id: string) => Promise<void>;
+
+  // Code Review
+  activeReview: CodeReview | null;
+  setActiveReview: (review: CodeReview | null) => void;
+  setReviewCommentStatus: (id: string, status: ReviewComment['status']) => void;
+  applyReviewSuggestion: (id: string) => Promise<boolean>; // True once the fix awaits approval
+  revealLine: { filePath: string; line: number; column?: number } | null; // Consumed by the editor showing filePath
+  setRevealLine: (target: { filePath: string; line: number; column?: number } | null) => void;
   
   // Artifacts (code blocks, examples, etc.)
   artifacts: Map<string, { id: string; content: string; language?: string; timestamp: number }>;
@@ -217,9 +295,9 @@ interface Store {
   clearArtifacts: () => void;
   
   // Agent Terminal
-  terminalOutput: Array<{ command?: string; output: string; type: 'command' | 'stdout' | 'stderr' | 'error' }>;
+  terminalOutput: TerminalOutput[];
   pendingElevatedCommand: { command: string; callId?: string } | null;
-  addTerminalOutput: (output: { command?: string; output: string; type: 'command' | 'stdout' | 'stderr' | 'error' }) => void;
+  addTerminalOutput: (output: TerminalOutput) => void;
   clearTerminal: () => void;
   setPendingElevatedCommand: (command: { command: string; callId?: string } | null) => void;
   
@@ -231,6 +309,7 @@ interface Store {
   setActivePane: (id: string) => void;
   updatePaneContent: (id: string, content: string) => void;
   openFileByPath: (filePath: string) => Promise<void>;
+  recentFiles: string[]; // Opened files, most recent first; quick open ranks them higher
   createNewFile: (type?: 'code' | 'markdown') => void;
   saveFile: (id: string) => Promise<boolean>;
   refreshOpenFiles: () => Promise<void>;
@@ -248,6 +327,12 @@ export const useStore = create<Store>()((set, get) => ({
   setChatWidth: (width) => set({ chatWidth: width }),
   toggleSidebar: () => set((state) => ({ sidebarVisible: !state.sidebarVisible })),
   toggleChat: () => set((state) => ({ chatVisible: !state.chatVisible })),
+  problemsVisible: false,
+  problemsHeight: 220,
+  toggleProblems: () => set((state) => ({ problemsVisible: !state.problemsVisible })),
+  setProblemsHeight: (height) => set({ problemsHeight: height }),
+  quickOpenVisible: false,
+  setQuickOpenVisible: (visible) => set({ quickOpenVisible: visible }),
   
   // Theme
   theme: 'alpha',
@@ -367,6 +452,9 @@ export const useStore = create<Store>()((set, get) => ({
       newModel = 'claude-3-5-sonnet-20240620';
     } else if (provider === 'windsurf') {
       newModel = 'swe-1.5';
+    } else if (provider === 'custom') {
+      const endpoint = state.customEndpoints.find(e => e.id === state.activeCustomEndpointId);
+      newModel = endpoint?.models?.[0] || '';
     } else {
       newModel = state.availableModels.find(m => m.provider === provider && (m as any).recommended)?.id ||
                  state.availableModels.find(m => m.provider === provider)?.id ||
@@ -401,6 +489,12 @@ export const useStore = create<Store>()((set, get) => ({
   setWindsurfBYOKApiKey: (key) => set({ windsurfBYOKApiKey: key }),
   windsurfUseBYOK: false,
   setWindsurfUseBYOK: (useBYOK) => set({ windsurfUseBYOK: useBYOK }),
+
+  // Custom endpoints
+  customEndpoints: [],
+  setCustomEndpoints: (endpoints) => set({ customEndpoints: endpoints }),
+  activeCustomEndpointId: null,
+  setActiveCustomEndpointId: (id) => set({ activeCustomEndpointId: id }),
   
   // AI Backend Model
   aiBackendModel: 'swe-1.5',
@@ -533,6 +627,18 @@ export const useStore = create<Store>()((set, get) => ({
   },
   contextMode: 'minimal' as 'full' | 'smart' | 'minimal',
   setContextMode: (mode) => set({ contextMode: mode }),
+  isolateAgentRuns: false,
+  setIsolateAgentRuns: (isolate) => set({ isolateAgentRuns: isolate }),
+  verificationSettings: {
+    enabled: false,
+    eslint: true,
+    typescript: true,
+    testCommand: '',
+    maxAttempts: 3
+  },
+  setVerificationSettings: (settings) => set((state) => ({
+    verificationSettings: { ...state.verificationSettings, ...settings }
+  })),
   isBuildingContext: false,
   setIsBuildingContext: (building) => set({ isBuildingContext: building }),
   
@@ -573,9 +679,27 @@ export const useStore = create<Store>()((set, get) => ({
     newHistory.set(filePath, diff);
     return { pendingDiffs: newDiffs, diffHistory: newHistory };
   }),
-  clearPendingDiffs: () => set({ pendingDiffs: new Map(), diffHistory: new Map(), acceptedDiffs: new Set(), rejectedDiffs: new Set() }),
+  proposeDiffs: (diffs) => set((state) => {
+    const newDiffs = new Map(state.pendingDiffs);
+    const newHistory = new Map(state.diffHistory);
+    const newAccepted = new Set(state.acceptedDiffs);
+    const newRejected = new Set(state.rejectedDiffs);
+    for (const diff of diffs) {
+      newDiffs.set(diff.filePath, diff);
+      newHistory.set(diff.filePath, diff);
+      newAccepted.delete(diff.filePath);
+      newRejected.delete(diff.filePath);
+    }
+    return { pendingDiffs: newDiffs, diffHistory: newHistory, acceptedDiffs: newAccepted, rejectedDiffs: newRejected };
+  }),
+  clearPendingDiffs: () => set({ pendingDiffs: new Map(), diffHistory: new Map(), acceptedDiffs: new Set(), rejectedDiffs: new Set(), changeSets: [] }),
   acceptDiff: async (filePath) => {
     const state = useStore.getState();
+    const changeSet = state.changeSets.find(c => c.filePaths.includes(filePath));
+    if (changeSet) {
+      await state.acceptChangeSet(changeSet.id);
+      return;
+    }
     const diff = state.pendingDiffs.get(filePath) || state.diffHistory.get(filePath);
     if (!diff) return;
     
@@ -609,6 +733,11 @@ export const useStore = create<Store>()((set, get) => ({
     });
   },
   rejectDiff: async (filePath) => {
+    const changeSet = useStore.getState().changeSets.find(c => c.filePaths.includes(filePath));
+    if (changeSet) {
+      await useStore.getState().rejectChangeSet(changeSet.id);
+      return;
+    }
     if (window.electronAPI?.rejectDiff) {
       await window.electronAPI.rejectDiff(filePath);
     }
@@ -623,13 +752,141 @@ export const useStore = create<Store>()((set, get) => ({
       return { acceptedDiffs: newAccepted, rejectedDiffs: newRejected, pendingDiffs: newDiffs };
     });
   },
+  changeSets: [],
+  proposeChangeSet: (title, diffs) => {
+    get().proposeDiffs(diffs);
+    const filePaths = diffs.map(d => d.filePath);
+    const id = `changes_${Date.now()}`;
+    set((state) => ({
+      // A file belongs to the newest change set that touches it
+      changeSets: [
+        ...state.changeSets
+          .map(c => ({ ...c, filePaths: c.filePaths.filter(p => !filePaths.includes(p)) }))
+          .filter(c => c.filePaths.length > 0),
+        { id, title, filePaths },
+      ],
+    }));
+    return id;
+  },
+  acceptChangeSet: async (id) => {
+    const changeSet = get().changeSets.find(c => c.id === id);
+    if (!changeSet) return false;
+    const diffs = changeSet.filePaths
+      .map(p => get().pendingDiffs.get(p))
+      .filter((diff): diff is PendingDiff => !!diff);
+    const result = await window.electronAPI.refactor.apply(diffs.map(d => ({ filePath: d.filePath, original: d.original, modified: d.modified })));
+    if (result.error) {
+      set((state) => ({ changeSets: state.changeSets.map(c => c.id === id ? { ...c, error: result.error } : c) }));
+      return false;
+    }
+
+    set((state) => {
+      const newAccepted = new Set(state.acceptedDiffs);
+      const newRejected = new Set(state.rejectedDiffs);
+      const newDiffs = new Map(state.pendingDiffs);
+      const modified = new Map(diffs.map(d => [d.filePath, d.modified]));
+      for (const diff of diffs) {
+        newAccepted.add(diff.filePath);
+        newRejected.delete(diff.filePath);
+        newDiffs.delete(diff.filePath);
+      }
+      return {
+        acceptedDiffs: newAccepted,
+        rejectedDiffs: newRejected,
+        pendingDiffs: newDiffs,
+        changeSets: state.changeSets.filter(c => c.id !== id),
+        panes: state.panes.map(p => modified.has(p.id) ? { ...p, content: modified.get(p.id)!, isUnsaved: false } : p),
+        contextFiles: state.contextFiles.map(f => modified.has(f.path) ? { ...f, content: modified.get(f.path)! } : f),
+      };
+    });
+    return true;
+  },
+  rejectChangeSet: async (id) => {
+    const changeSet = get().changeSets.find(c => c.id === id);
+    if (!changeSet) return;
+    // Out of the set first, so rejectDiff handles the files one by one
+    set((state) => ({ changeSets: state.changeSets.filter(c => c.id !== id) }));
+    for (const filePath of changeSet.filePaths) {
+      await get().rejectDiff(filePath);
+    }
+  },
+
+  // Code Review
+  activeReview: null,
+  setActiveReview: (review) => set({ activeReview: review }),
+  setReviewCommentStatus: (id, status) => set((state) => {
+    if (!state.activeReview) return state;
+    const comments = state.activeReview.comments.map(c => c.id === id ? { ...c, status } : c);
+    return { activeReview: { ...state.activeReview, comments } };
+  }),
+  applyReviewSuggestion: async (id) => {
+    const comment = get().activeReview?.comments.find(c => c.id === id);
+    if (!comment || comment.suggestion === undefined) return false;
+    const fail = (error: string): boolean => {
+      set((state) => state.activeReview ? {
+        activeReview: { ...state.activeReview, comments: state.activeReview.comments.map(c => c.id === id ? { ...c, error } : c) },
+      } : state);
+      return false;
+    };
+
+    // Build on a fix that is still pending so several fixes to one file add up
+    const pending = get().pendingDiffs.get(comment.filePath);
+    let original = pending?.original;
+    let current = pending?.modified;
+    if (original === undefined || current === undefined) {
+      const result = await window.electronAPI.readFile(comment.filePath);
+      if (result.error || result.content === undefined) return fail(result.error || `Could not read ${comment.path}`);
+      original = current = result.content;
+    }
+
+    const lines = current.split('\n');
+    if (comment.endLine > lines.length) {
+      return fail(`${comment.path} has only ${lines.length} lines; it changed since the review`);
+    }
+    const replacement = comment.suggestion.replace(/\n$/, '').split('\n');
+    const removed = comment.endLine - comment.startLine + 1;
+    lines.splice(comment.startLine - 1, removed, ...replacement);
+    const delta = replacement.length - removed;
+
+    set((state) => {
+      const diff = { filePath: comment.filePath, original: original!, modified: lines.join('\n') };
+      const newDiffs = new Map(state.pendingDiffs);
+      const newHistory = new Map(state.diffHistory);
+      newDiffs.set(comment.filePath, diff);
+      newHistory.set(comment.filePath, diff);
+      const newAccepted = new Set(state.acceptedDiffs);
+      const newRejected = new Set(state.rejectedDiffs);
+      newAccepted.delete(comment.filePath);
+      newRejected.delete(comment.filePath);
+
+      // Comments further down the file move with the lines the fix added or removed
+      const comments = (state.activeReview?.comments || []).map(c => {
+        if (c.id === id) return { ...c, status: 'applied' as const, error: undefined };
+        if (c.filePath === comment.filePath && c.startLine > comment.endLine) {
+          return { ...c, startLine: c.startLine + delta, endLine: c.endLine + delta };
+        }
+        return c;
+      });
+
+      return {
+        pendingDiffs: newDiffs,
+        diffHistory: newHistory,
+        acceptedDiffs: newAccepted,
+        rejectedDiffs: newRejected,
+        activeReview: state.activeReview ? { ...state.activeReview, comments } : null,
+      };
+    });
+    return true;
+  },
+  revealLine: null,
+  setRevealLine: (target) => set({ revealLine: target }),
   
   // Agent Terminal
   terminalOutput: [],
   pendingElevatedCommand: null,
   addTerminalOutput: (output) =>
     set((state) => ({
-      terminalOutput: [...state.terminalOutput, output],
+      terminalOutput: appendOutput(state.terminalOutput, output),
     })),
   clearTerminal: () => set({ terminalOutput: [] }),
   setPendingElevatedCommand: (command) => set({ pendingElevatedCommand: command }),
@@ -639,6 +896,7 @@ export const useStore = create<Store>()((set, get) => ({
     diffHistory: new Map(),
     acceptedDiffs: new Set(),
     rejectedDiffs: new Set(),
+    changeSets: [],
     terminalOutput: [],
     pendingElevatedCommand: null,
     artifacts: new Map(),
@@ -664,6 +922,7 @@ export const useStore = create<Store>()((set, get) => ({
   
   // Canvas
   panes: [],
+  recentFiles: [],
   activePaneId: null,
   openPane: (pane) =>
     set((state) => {
@@ -700,6 +959,7 @@ export const useStore = create<Store>()((set, get) => ({
     })),
   openFileByPath: async (filePath: string) => {
     const store = useStore.getState();
+    set({ recentFiles: [filePath, ...store.recentFiles.filter(f => f !== filePath)].slice(0, MAX_RECENT_FILES) });
     const name = filePath.split('/').pop() || filePath;
     const extension = name.split('.').pop()?.toLowerCase() || '';
 
@@ -1064,6 +1324,8 @@ if (typeof window !== 'undefined') {
         windsurfBYOKProvider: parsed.windsurfBYOKProvider || null,
         windsurfBYOKApiKey: parsed.windsurfBYOKApiKey || '',
         windsurfUseBYOK: parsed.windsurfUseBYOK || false,
+        customEndpoints: parsed.customEndpoints || [],
+        activeCustomEndpointId: parsed.activeCustomEndpointId || null,
         aiBackendModel: model,
         terminalSettings: parsed.terminalSettings || {
           fontSize: 13,
@@ -1072,14 +1334,23 @@ if (typeof window !== 'undefined') {
           fontFamily: '"JetBrainsMono Nerd Font", "FiraCode Nerd Font", "MesloLGS NF", "Cascadia Code", Consolas, monospace',
           shell: ''
         },
+        verificationSettings: parsed.verificationSettings || {
+          enabled: false,
+          eslint: true,
+          typescript: true,
+          testCommand: '',
+          maxAttempts: 3
+        },
         licenseKey: storedKey,
         licenseTier: tier,
         tasks: parsed.tasks || [],
         messages: parsed.messages || [],
         sidebarWidth: parsed.sidebarWidth || 256,
+        problemsHeight: parsed.problemsHeight || 220,
         chatWidth: parsed.chatWidth || 384,
         activeSettingsTab: parsed.activeSettingsTab || 'license',
         panes: parsed.panes || [],
+        recentFiles: parsed.recentFiles || [],
         activePaneId: parsed.activePaneId || null,
         activePlan: parsed.activePlan || null,
         projectContext: parsed.projectContext || null,
@@ -1113,9 +1384,12 @@ if (typeof window !== 'undefined') {
         windsurfBYOKProvider: state.windsurfBYOKProvider,
         windsurfBYOKApiKey: state.windsurfBYOKApiKey,
         windsurfUseBYOK: state.windsurfUseBYOK,
+        customEndpoints: state.customEndpoints,
+        activeCustomEndpointId: state.activeCustomEndpointId,
         ollamaModels: state.ollamaModels,
         aiBackendModel: state.aiBackendModel,
         terminalSettings: state.terminalSettings,
+        verificationSettings: state.verificationSettings,
         licenseKey: state.licenseKey,
         isPro: state.licenseTier === 'pro',
         tasks: state.tasks,
@@ -1139,9 +1413,11 @@ if (typeof window !== 'undefined') {
           } : undefined,
         })),
         sidebarWidth: state.sidebarWidth,
+        problemsHeight: state.problemsHeight,
         chatWidth: state.chatWidth,
         activeSettingsTab: state.activeSettingsTab,
         panes: state.panes,
+        recentFiles: state.recentFiles,
         activePaneId: state.activePaneId,
         activePlan: state.activePlan,
         projectContext: state.projectContext,
@@ -1,3 +1,218 @@
+export type McpApproval = 'allow' | 'ask' | 'deny';
+
+export interface McpServerConfig {
+  transport?: 'stdio' | 'http';
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  enabled?: boolean;
+  defaultApproval?: McpApproval;
+  toolApprovals?: Record<string, McpApproval>;
+}
+
+export interface McpServerStatus {
+  name: string;
+  scope: 'user' | 'project';
+  state: 'disabled' | 'connecting' | 'connected' | 'error';
+  error?: string;
+  serverInfo?: { name?: string; version?: string };
+  tools: Array<{ name: string; description?: string }>;
+  resources: Array<{ uri: string; name?: string }>;
+  prompts: Array<{ name: string; description?: string }>;
+}
+
+export type CommandRisk = 'read-only' | 'write' | 'network' | 'destructive' | 'privileged';
+
+export interface PermissionRule {
+  tool: string | string[];
+  path?: string;
+  command?: string;
+  risk?: CommandRisk | CommandRisk[];
+  action: 'allow' | 'ask' | 'deny';
+  reason?: string;
+}
+
+export interface ToolApprovalRequest {
+  id: string;
+  source: string;
+  toolName: string;
+  description?: string;
+  args: Record<string, any>;
+}
+
+export interface ManagedProcess {
+  id: string;
+  name: string;
+  command: string;
+  cwd: string;
+  pid: number;
+  sessionId: string;
+  status: 'running' | 'exited' | 'stopped';
+  exitCode: number | null;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+export type GitChange = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'type-changed' | 'unmerged';
+
+export interface GitFileChange {
+  path: string;
+  from?: string;
+  change: GitChange;
+}
+
+export interface GitStatus {
+  root: string; // Project root; the paths below are relative to it
+  branch: string | null;
+  head: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+export interface GitBranch {
+  name: string;
+  remote: boolean;
+  current: boolean;
+  hash: string;
+  upstream: string | null;
+}
+
+export interface GitHunk {
+  index: number;
+  header: string;
+  lines: string[];
+}
+
+export type GitDecoration = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'ignored' | 'conflicted';
+
+// Absolute paths under the project root; untracked or ignored folders end with '/'
+export type GitDecorations = Record<string, GitDecoration>;
+
+export interface GitLineChange {
+  kind: 'added' | 'modified' | 'deleted';
+  startLine: number; // For deletions the line above the removed lines, 0 at the top
+  endLine: number;
+  originalLines: string[];
+}
+
+export interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body: string;
+}
+
+export interface GeneratedCommitMessage {
+  subject: string;
+  body: string;
+  message: string;
+}
+
+export interface GeneratedPullRequest {
+  base: string;
+  title: string;
+  body: string;
+  commits: number;
+}
+
+export interface GitDiffFile {
+  path: string;
+  from?: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface AgentWorktree {
+  id: string;
+  sessionId: string;
+  label: string;
+  branch: string;
+  path: string;
+  projectPath: string;
+  baseCommit: string;
+  createdAt: number;
+}
+
+export interface Problem {
+  filePath: string; // Absolute; empty for problems not tied to a file
+  path: string; // Relative to the project root
+  line: number;
+  column: number;
+  severity: 'error' | 'warning' | 'info';
+  source: 'eslint' | 'typescript';
+  code: string | null; // ESLint rule or TS error code
+  message: string;
+}
+
+export interface ProblemsSnapshot {
+  root: string | null;
+  problems: Problem[];
+  notes: string[];
+  checking: boolean; // The first type check or lint has not finished yet
+}
+
+export interface FoundFile {
+  name: string;
+  path: string;
+  type: 'file';
+  relativePath: string;
+  positions: number[]; // Matched character indexes in relativePath
+}
+
+export interface SearchQuery {
+  pattern: string;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  include?: string[]; // Globs relative to the project root
+  exclude?: string[];
+  contextLines?: number;
+  maxResults?: number;
+  offset?: number;
+}
+
+export interface SearchMatch {
+  file: string; // Relative to the project root
+  line: number;
+  column: number;
+  content: string;
+  ranges: Array<[number, number]>; // Occurrences as [start, end) offsets into content
+  before?: string[];
+  after?: string[];
+}
+
+export interface ReplaceResult {
+  original: string;
+  modified: string;
+  replacements: number;
+}
+
+export interface RefactorChange {
+  title: string;
+  files: Array<{ filePath: string; original: string; modified: string; isNewFile: boolean }>;
+  edits: number;
+}
+
+export interface WorktreeChanges {
+  worktree: AgentWorktree;
+  files: GitDiffFile[];
+  patch: string;
+}
+
+type GitResult<T> = Promise<T | { error: string }>;
+
 export interface ElectronAPI {
   readDirectory: (path: string) => Promise<any>;
   readFile: (path: string) => Promise<{ content?: string; error?: string }>;
@@ -17,13 +232,12 @@ export interface ElectronAPI {
   unregisterGlobalHotkey: (hotkey: string) => Promise<{ success: boolean; error?: string }>;
   getRegisteredHotkeys: () => Promise<Array<{ action: string; hotkey: string }>>;
   unregisterAllHotkeys: () => Promise<{ success: boolean }>;
-  on: (channel: string, callback: (data: any) => void) => void;
-  off: (channel: string, callback: (data: any) => void) => void;
   copyFile: (sourcePath: string, destPath: string) => Promise<{ success: boolean; error?: string }>;
   moveFile: (sourcePath: string, destPath: string) => Promise<{ success: boolean; error?: string }>;
   trashFile: (filePath: string) => Promise<{ success: boolean; error?: string }>;
   renameFile: (oldPath: string, newName: string) => Promise<{ success: boolean; newPath?: string; error?: string }>;
-  findFiles: (rootPath: string, query: string) => Promise<Array<{ name: string; path: string; type: 'file' }>>;
+  // Ranked best first; an empty query lists the recent files
+  findFiles: (rootPath: string, query: string, options?: { recent?: string[]; limit?: number }) => Promise<FoundFile[]>;
   project: {
     setCurrent: (projectPath: string | null) => Promise<void>;
     getCurrent: () => Promise<string | null>;
@@ -31,10 +245,11 @@ export interface ElectronAPI {
   };
   aiBackend: {
     chat: (prompt: string, options: any) => Promise<void>;
-    cancel: () => Promise<void>;
+    cancel: (sessionId?: string) => Promise<void>;
     onChunk: (callback: (chunk: any) => void) => void;
     removeAllListeners: (channel: string) => void;
     listModels: () => Promise<any>;
+    listCustomModels: (endpoint: any) => Promise<{ success: boolean; models: Array<{ id: string; name: string; desc?: string; limits?: string; provider: string }>; error?: string }>;
   };
   webSearch: (query: string, maxResults?: number) => Promise<any>;
   ollama: {
@@ -65,6 +280,77 @@ export interface ElectronAPI {
     getTheme: () => Promise<{ isDark: boolean }>;
     onThemeChange: (callback: (theme: { isDark: boolean }) => void) => () => void;
   };
+  mcp: {
+    getConfig: (scope: 'user' | 'project') => Promise<Record<string, McpServerConfig>>;
+    saveConfig: (scope: 'user' | 'project', servers: Record<string, McpServerConfig>) => Promise<{ success: boolean; error?: string }>;
+    getStatus: () => Promise<McpServerStatus[]>;
+    refresh: () => Promise<McpServerStatus[]>;
+    onStatusChanged: (callback: (status: McpServerStatus[]) => void) => () => void;
+  };
+  permissions: {
+    getRules: (scope: 'user' | 'project') => Promise<PermissionRule[]>;
+    saveRules: (scope: 'user' | 'project', rules: PermissionRule[]) => Promise<{ success: boolean; error?: string }>;
+    addRule: (rule: PermissionRule, scope?: 'user' | 'project') => Promise<{ success: boolean; error?: string }>;
+  };
+  toolApproval: {
+    respond: (id: string, approved: boolean) => Promise<void>;
+    onRequest: (callback: (request: ToolApprovalRequest) => void) => () => void;
+    onResolved: (callback: (data: { id: string; approved: boolean }) => void) => () => void;
+  };
+  command: {
+    writeStdin: (id: string, data: string) => Promise<boolean>;
+    kill: (id: string) => Promise<boolean>;
+    onOutput: (callback: (output: { id: string; stream: 'stdout' | 'stderr'; data: string }) => void) => () => void;
+  };
+  git: {
+    status: () => GitResult<GitStatus>;
+    branches: () => GitResult<GitBranch[]>;
+    decorations: () => GitResult<GitDecorations>;
+    lineChanges: (filePath: string, content: string) => GitResult<GitLineChange[]>;
+    diffContents: (filePath: string, staged: boolean) => GitResult<{ original: string; modified: string }>;
+    hunks: (filePath: string, staged: boolean) => GitResult<{ header: string; hunks: GitHunk[] }>;
+    stage: (paths: string[] | 'all') => GitResult<void>;
+    unstage: (paths: string[]) => GitResult<void>;
+    discard: (paths: string[], untracked: string[]) => GitResult<void>;
+    applyHunk: (filePath: string, index: number, action: 'stage' | 'unstage' | 'discard', header?: string) => GitResult<void>;
+    commit: (message: string) => GitResult<GitCommitInfo>;
+    checkout: (ref: string, create?: boolean, startPoint?: string) => GitResult<void>;
+    generateCommitMessage: (options: any) => GitResult<GeneratedCommitMessage>;
+    generatePullRequest: (base: string, options: any) => GitResult<GeneratedPullRequest>;
+    worktrees: () => GitResult<AgentWorktree[]>;
+    worktreeChanges: (id: string) => GitResult<WorktreeChanges>;
+    worktreeFileContents: (id: string, relativePath: string) => GitResult<{ original: string; modified: string }>;
+    mergeWorktree: (id: string) => GitResult<{ branch: string; merged: number }>;
+    cherryPickWorktree: (id: string, paths: string[]) => GitResult<{ applied: string[] }>;
+    discardWorktree: (id: string) => GitResult<void>;
+  };
+  problems: {
+    start: () => Promise<ProblemsSnapshot>; // Also returns the current problems
+    stop: () => Promise<void>;
+    onChanged: (callback: (snapshot: ProblemsSnapshot) => void) => () => void;
+  };
+  search: {
+    start: (id: string, query: SearchQuery) => Promise<{ engine: 'ripgrep' | 'builtin'; hasMore: boolean } | { error: string }>; // Resolves when the search ends
+    cancel: (id: string) => Promise<void>;
+    replace: (filePath: string, query: SearchQuery, replacement: string, options?: { lines?: number[]; content?: string }) => Promise<ReplaceResult | { error: string }>;
+    onResults: (callback: (results: { id: string; matches: SearchMatch[] }) => void) => () => void;
+  };
+  refactor: {
+    rename: (filePath: string, line: number, column: number, newName: string) => Promise<RefactorChange | { error: string }>;
+    // The range is 1-based like Monaco's; the target file is created when it does not exist
+    move: (filePath: string, range: { startLine: number; startColumn: number; endLine: number; endColumn: number }, targetPath: string) => Promise<RefactorChange | { error: string }>;
+    // Writes every file or none
+    apply: (files: Array<{ filePath: string; original: string; modified: string }>) => Promise<{ success?: boolean; error?: string }>;
+  };
+  processes: {
+    list: () => Promise<ManagedProcess[]>;
+    getOutput: (id: string) => Promise<string>;
+    stop: (id: string) => Promise<boolean>;
+    remove: (id: string) => Promise<boolean>;
+    stopSession: (sessionId: string) => Promise<void>;
+    onChanged: (callback: (processes: ManagedProcess[]) => void) => () => void;
+    onOutput: (callback: (output: { id: string; data: string }) => void) => () => void;
+  };
   on: (channel: string, callback: (event: any, ...args: any[]) => void) => void;
   off: (channel: string, callback: (event: any, ...args: any[]) => void) => void;
 }
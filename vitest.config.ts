@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['electron/**/*.test.ts'],
+    environment: 'node',
+    setupFiles: ['electron/test/setup.ts'],
+  },
+});